@@ -0,0 +1,5 @@
+// config/index.ts requires an OpenAI key at import time; tests talk to local servers only
+process.env.OPENAI_API_KEY = process.env.OPENAI_API_KEY || 'test-key';
+process.env.NODE_ENV = 'test';
+// Keep retry backoff short
+process.env.RETRY_DELAY = '10';
@@ -0,0 +1,284 @@
+#!/usr/bin/env node
+
+/**
+ * Mock AI Server
+ *
+ * Answers the endpoints used by the openai-compatible, ollama and anthropic
+ * providers, and OpenAI's Files and Batches APIs, so they can be tried without
+ * a real model or API key.
+ * Usage: node scripts/mock-ai-server.js [port]
+ *
+ * Set MOCK_AI_STATUS (e.g. 429 or 500) to make generation requests fail with that status,
+ * and MOCK_AI_DELAY to delay every response by that many milliseconds.
+ * Batches stay in_progress for MOCK_BATCH_DURATION milliseconds (default 5000);
+ * rows whose URL contains "fail" come back as errors.
+ */
+
+const http = require('http');
+
+const PORT = parseInt(process.argv[2] || process.env.MOCK_AI_PORT || '8089', 10);
+const FAIL_STATUS = parseInt(process.env.MOCK_AI_STATUS || '0', 10);
+const DELAY = parseInt(process.env.MOCK_AI_DELAY || '0', 10);
+const BATCH_DURATION = parseInt(process.env.MOCK_BATCH_DURATION || '5000', 10);
+const MODELS = ['mock-model'];
+
+// Uploaded files and submitted batches, kept in memory for the life of the server
+const files = new Map();
+const batches = new Map();
+let nextId = 1;
+
+function readBody(req) {
+  return new Promise((resolve) => {
+    const chunks = [];
+    req.on('data', (chunk) => { chunks.push(chunk); });
+    req.on('end', () => {
+      const data = Buffer.concat(chunks).toString('utf-8');
+      const contentType = req.headers['content-type'] || '';
+      if (contentType.startsWith('multipart/form-data')) {
+        return resolve(parseMultipart(data, contentType));
+      }
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch {
+        resolve({});
+      }
+    });
+  });
+}
+
+// Just enough multipart parsing for the Files API: every part becomes a string field
+function parseMultipart(data, contentType) {
+  const boundary = (contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/) || [])
+    .slice(1).find(Boolean);
+  const fields = {};
+  if (!boundary) {
+    return fields;
+  }
+
+  for (const part of data.split(`--${boundary}`)) {
+    const headerEnd = part.indexOf('\r\n\r\n');
+    const name = (part.slice(0, headerEnd).match(/name="([^"]+)"/) || [])[1];
+    if (headerEnd === -1 || !name) {
+      continue;
+    }
+    fields[name] = part.slice(headerEnd + 4).replace(/\r\n$/, '');
+  }
+  return fields;
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// A short opener that mentions the first URL in the prompt, so results can be told apart
+function mockOpener(text) {
+  const url = (text.match(/https?:\/\/\S+/) || ['your site'])[0];
+  return `Hi! I came across ${url} and would love to learn more about what you're working on.`;
+}
+
+function countWords(text) {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function promptText(messages, system) {
+  return [system || '', ...(messages || []).map((message) => message.content || '')].join('\n');
+}
+
+async function handle(req, res) {
+  const { pathname } = new URL(req.url, `http://localhost:${PORT}`);
+  const body = req.method === 'POST' ? await readBody(req) : {};
+  console.log(`${req.method} ${pathname}`);
+
+  if (DELAY > 0) {
+    await new Promise((resolve) => setTimeout(resolve, DELAY));
+  }
+
+  if (req.method === 'POST' && FAIL_STATUS) {
+    return send(res, FAIL_STATUS, { error: { message: `Mock failure ${FAIL_STATUS}` } });
+  }
+
+  // OpenAI-compatible
+  if (req.method === 'GET' && pathname === '/v1/models') {
+    return send(res, 200, { object: 'list', data: MODELS.map((id) => ({ id, object: 'model' })) });
+  }
+  if (req.method === 'POST' && pathname === '/v1/chat/completions') {
+    const prompt = promptText(body.messages);
+    const opener = mockOpener(prompt);
+    return send(res, 200, {
+      id: 'chatcmpl-mock',
+      object: 'chat.completion',
+      model: body.model,
+      choices: [{ index: 0, message: { role: 'assistant', content: opener }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: countWords(prompt), completion_tokens: countWords(opener) },
+    });
+  }
+
+  // Ollama
+  if (req.method === 'GET' && pathname === '/api/tags') {
+    return send(res, 200, { models: MODELS.map((name) => ({ name: `${name}:latest` })) });
+  }
+  if (req.method === 'POST' && pathname === '/api/chat') {
+    const prompt = promptText(body.messages);
+    const opener = mockOpener(prompt);
+    return send(res, 200, {
+      model: body.model,
+      message: { role: 'assistant', content: opener },
+      done: true,
+      prompt_eval_count: countWords(prompt),
+      eval_count: countWords(opener),
+    });
+  }
+
+  // Anthropic
+  if (req.method === 'GET' && pathname.startsWith('/v1/models/')) {
+    const id = decodeURIComponent(pathname.slice('/v1/models/'.length));
+    return MODELS.includes(id)
+      ? send(res, 200, { id, type: 'model' })
+      : send(res, 404, { type: 'error', error: { type: 'not_found_error', message: `model: ${id}` } });
+  }
+  if (req.method === 'POST' && pathname === '/v1/messages') {
+    if (!req.headers['x-api-key']) {
+      return send(res, 401, { type: 'error', error: { type: 'authentication_error', message: 'x-api-key header is required' } });
+    }
+    const prompt = promptText(body.messages, body.system);
+    const opener = mockOpener(prompt);
+    return send(res, 200, {
+      id: 'msg_mock',
+      type: 'message',
+      role: 'assistant',
+      model: body.model,
+      content: [{ type: 'text', text: opener }],
+      stop_reason: 'end_turn',
+      usage: { input_tokens: countWords(prompt), output_tokens: countWords(opener) },
+    });
+  }
+
+  // OpenAI Files and Batches
+  if (req.method === 'POST' && pathname === '/v1/files') {
+    const file = { id: `file-mock-${nextId++}`, object: 'file', purpose: body.purpose, content: body.file || '' };
+    files.set(file.id, file);
+    return send(res, 200, fileObject(file));
+  }
+  const fileContent = pathname.match(/^\/v1\/files\/([^/]+)\/content$/);
+  if (req.method === 'GET' && fileContent) {
+    const file = files.get(fileContent[1]);
+    if (!file) {
+      return send(res, 404, { error: { message: `No such file: ${fileContent[1]}` } });
+    }
+    res.writeHead(200, { 'Content-Type': 'application/jsonl' });
+    return res.end(file.content);
+  }
+  if (req.method === 'POST' && pathname === '/v1/batches') {
+    const input = files.get(body.input_file_id);
+    if (!input) {
+      return send(res, 400, { error: { message: `No such file: ${body.input_file_id}` } });
+    }
+    const requests = input.content.split('\n').filter((line) => line.trim()).map((line) => JSON.parse(line));
+    const batch = {
+      id: `batch_mock_${nextId++}`,
+      object: 'batch',
+      endpoint: body.endpoint,
+      input_file_id: input.id,
+      completion_window: body.completion_window,
+      status: 'in_progress',
+      created_at: Math.floor(Date.now() / 1000),
+      metadata: body.metadata || null,
+      requests,
+      finishAt: Date.now() + BATCH_DURATION,
+    };
+    batches.set(batch.id, batch);
+    return send(res, 200, batchObject(batch));
+  }
+  const batchPath = pathname.match(/^\/v1\/batches\/([^/]+)(\/cancel)?$/);
+  if (batchPath) {
+    const batch = batches.get(batchPath[1]);
+    if (!batch) {
+      return send(res, 404, { error: { message: `No such batch: ${batchPath[1]}` } });
+    }
+    if (req.method === 'POST' && batchPath[2]) {
+      if (batch.status === 'in_progress') {
+        finishBatch(batch, 'cancelled');
+      }
+      return send(res, 200, batchObject(batch));
+    }
+    if (req.method === 'GET' && !batchPath[2]) {
+      if (batch.status === 'in_progress' && Date.now() >= batch.finishAt) {
+        finishBatch(batch, 'completed');
+      }
+      return send(res, 200, batchObject(batch));
+    }
+  }
+
+  return send(res, 404, { error: `No mock for ${req.method} ${pathname}` });
+}
+
+function fileObject(file) {
+  return { id: file.id, object: 'file', purpose: file.purpose, bytes: file.content.length, filename: 'batch.jsonl' };
+}
+
+function batchObject(batch) {
+  const { requests, finishAt, counts, ...fields } = batch;
+  return {
+    ...fields,
+    request_counts: counts || { total: requests.length, completed: 0, failed: 0 },
+  };
+}
+
+// Write the output and error files; a cancelled batch only answers its first half
+function finishBatch(batch, status) {
+  const answered = status === 'cancelled' ? batch.requests.slice(0, Math.floor(batch.requests.length / 2)) : batch.requests;
+  const output = [];
+  const errors = [];
+
+  for (const request of answered) {
+    const prompt = promptText(request.body.messages);
+    if (/https?:\/\/\S*fail/.test(prompt)) {
+      errors.push({
+        id: `batch_req_${nextId++}`,
+        custom_id: request.custom_id,
+        response: { status_code: 400, body: { error: { message: 'Mock batch row failure' } } },
+        error: null,
+      });
+      continue;
+    }
+    const opener = mockOpener(prompt);
+    output.push({
+      id: `batch_req_${nextId++}`,
+      custom_id: request.custom_id,
+      response: {
+        status_code: 200,
+        body: {
+          id: 'chatcmpl-mock',
+          object: 'chat.completion',
+          model: request.body.model,
+          choices: [{ index: 0, message: { role: 'assistant', content: opener }, finish_reason: 'stop' }],
+          usage: { prompt_tokens: countWords(prompt), completion_tokens: countWords(opener) },
+        },
+      },
+      error: null,
+    });
+  }
+
+  const writeFile = (lines) => {
+    const file = { id: `file-mock-${nextId++}`, purpose: 'batch_output', content: lines.map((line) => JSON.stringify(line)).join('\n') };
+    files.set(file.id, file);
+    return file.id;
+  };
+
+  batch.status = status;
+  batch.output_file_id = output.length > 0 ? writeFile(output) : null;
+  batch.error_file_id = errors.length > 0 ? writeFile(errors) : null;
+  batch.counts = { total: batch.requests.length, completed: output.length, failed: errors.length };
+}
+
+http.createServer((req, res) => {
+  handle(req, res).catch((error) => send(res, 500, { error: error.message }));
+}).listen(PORT, () => {
+  console.log(`🧪 Mock AI server listening on http://localhost:${PORT}`);
+  console.log(`   openai-compatible: baseUrl http://localhost:${PORT}/v1`);
+  console.log(`   ollama:            baseUrl http://localhost:${PORT}`);
+  console.log(`   anthropic:         baseUrl http://localhost:${PORT}`);
+  console.log(`   openai (batches):  OPENAI_BASE_URL=http://localhost:${PORT}/v1`);
+  console.log(`   model:             ${MODELS[0]}`);
+});
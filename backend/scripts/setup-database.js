@@ -13,10 +13,100 @@ async function setupDatabase() {
   try {
     console.log('🗄️ Setting up database tables...');
     
+    // Create users and their sign-in sessions
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS users (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        email VARCHAR(255) NOT NULL UNIQUE,
+        name VARCHAR(255),
+        password_hash VARCHAR(255) NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS user_sessions (
+        token_hash VARCHAR(64) PRIMARY KEY,
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        key_prefix VARCHAR(20) NOT NULL,
+        key_hash VARCHAR(64) NOT NULL UNIQUE,
+        scopes JSONB NOT NULL DEFAULT '[]'::jsonb,
+        last_used_at TIMESTAMP WITH TIME ZONE,
+        revoked_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      )
+    `);
+
+    // Create workspace tables
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS workspaces (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        name VARCHAR(255) NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS workspace_members (
+        workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        role VARCHAR(20) NOT NULL DEFAULT 'viewer',
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        PRIMARY KEY (workspace_id, user_id)
+      )
+    `);
+
+    // Create outbound webhooks and their delivery log
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS webhooks (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+        url TEXT NOT NULL,
+        description TEXT,
+        events JSONB NOT NULL DEFAULT '[]'::jsonb,
+        secret VARCHAR(100) NOT NULL,
+        active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        webhook_id UUID NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+        event VARCHAR(50) NOT NULL,
+        payload JSONB NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        response_status INTEGER,
+        response_body TEXT,
+        error TEXT,
+        duration_ms INTEGER,
+        delivered_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      )
+    `);
+
     // Create jobs table
     await client.query(`
       CREATE TABLE IF NOT EXISTS jobs (
         id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        workspace_id UUID REFERENCES workspaces(id),
+        owner_id UUID REFERENCES users(id),
         file_name VARCHAR(255) NOT NULL,
         file_path VARCHAR(500) NOT NULL,
         status VARCHAR(20) NOT NULL DEFAULT 'pending',
@@ -24,36 +114,231 @@ async function setupDatabase() {
         processed_rows INTEGER NOT NULL DEFAULT 0,
         failed_rows INTEGER NOT NULL DEFAULT 0,
         progress DECIMAL(5,2) NOT NULL DEFAULT 0.00,
+        content_type VARCHAR(20) NOT NULL DEFAULT 'company',
+        columns JSONB NOT NULL DEFAULT '[]'::jsonb,
+        column_mapping JSONB,
+        source_format VARCHAR(10) NOT NULL DEFAULT 'csv',
+        source_sheet VARCHAR(255),
+        enrich_pages BOOLEAN NOT NULL DEFAULT FALSE,
+        provider_id VARCHAR(100),
+        total_prompt_tokens INTEGER NOT NULL DEFAULT 0,
+        total_completion_tokens INTEGER NOT NULL DEFAULT 0,
+        total_cost DOUBLE PRECISION NOT NULL DEFAULT 0,
+        budget DOUBLE PRECISION,
+        stop_reason VARCHAR(30),
+        processing_mode VARCHAR(20) NOT NULL DEFAULT 'realtime',
+        variant_count INTEGER NOT NULL DEFAULT 1,
+        variant_template_version_ids JSONB,
+        use_cache BOOLEAN NOT NULL DEFAULT FALSE,
+        skipped_rows INTEGER NOT NULL DEFAULT 0,
+        validation_report JSONB,
         created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
         updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
       )
     `);
 
+    // Create prompt template tables
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS prompt_templates (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        description TEXT,
+        current_version INTEGER NOT NULL DEFAULT 1,
+        archived BOOLEAN NOT NULL DEFAULT FALSE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS prompt_template_versions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        template_id UUID NOT NULL REFERENCES prompt_templates(id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
+        system_prompt TEXT NOT NULL,
+        user_prompt TEXT NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        UNIQUE (template_id, version)
+      )
+    `);
+
+    await client.query(`
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS template_version_id UUID REFERENCES prompt_template_versions(id)
+    `);
+
     // Create urls table
     await client.query(`
       CREATE TABLE IF NOT EXISTS urls (
         id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
         job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+        row_index INTEGER NOT NULL DEFAULT 0,
         url TEXT NOT NULL,
+        url_key TEXT,
+        original_data JSONB,
         status VARCHAR(20) NOT NULL DEFAULT 'pending',
         opener TEXT,
         error TEXT,
         retry_count INTEGER NOT NULL DEFAULT 0,
+        model VARCHAR(100),
+        provider_id VARCHAR(100),
+        prompt_tokens INTEGER,
+        completion_tokens INTEGER,
+        cost DOUBLE PRECISION,
+        batch_id UUID,
+        review_status VARCHAR(20) NOT NULL DEFAULT 'pending',
+        opener_original TEXT,
+        opener_edited TEXT,
+        reviewed_by VARCHAR(255),
+        reviewed_at TIMESTAMP WITH TIME ZONE,
+        instruction TEXT,
+        quality_issues JSONB,
+        quality_regenerations INTEGER NOT NULL DEFAULT 0,
+        duplicate_of UUID,
+        result_source VARCHAR(20),
+        skip_reason VARCHAR(30),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      )
+    `);
+
+    // Create batch table for batch mode jobs
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS ai_batches (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+        provider_id VARCHAR(100) NOT NULL,
+        provider_batch_id VARCHAR(255) NOT NULL,
+        input_file_id VARCHAR(255),
+        output_file_id VARCHAR(255),
+        error_file_id VARCHAR(255),
+        status VARCHAR(20) NOT NULL,
+        request_count INTEGER NOT NULL DEFAULT 0,
+        completed_count INTEGER NOT NULL DEFAULT 0,
+        failed_count INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        ingested_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      )
+    `);
+
+    // Create variants table for jobs generating several openers per row
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS url_variants (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        url_id UUID NOT NULL REFERENCES urls(id) ON DELETE CASCADE,
+        job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+        variant_index INTEGER NOT NULL,
+        template_version_id UUID,
+        opener TEXT,
+        error TEXT,
+        model VARCHAR(100),
+        provider_id VARCHAR(100),
+        prompt_tokens INTEGER,
+        completion_tokens INTEGER,
+        cost DOUBLE PRECISION,
+        quality_issues JSONB,
+        is_preferred BOOLEAN NOT NULL DEFAULT FALSE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        UNIQUE (url_id, variant_index)
+      )
+    `);
+
+    // Create history table for openers replaced by a regeneration
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS url_opener_history (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        url_id UUID NOT NULL REFERENCES urls(id) ON DELETE CASCADE,
+        job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+        opener TEXT NOT NULL,
+        instruction TEXT,
+        model VARCHAR(100),
+        provider_id VARCHAR(100),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      )
+    `);
+
+    // Create spending tables
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS daily_spend (
+        workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE,
+        day DATE NOT NULL,
+        prompt_tokens BIGINT NOT NULL DEFAULT 0,
+        completion_tokens BIGINT NOT NULL DEFAULT 0,
+        cost DOUBLE PRECISION NOT NULL DEFAULT 0,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS spending_budgets (
+        workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE,
+        period VARCHAR(10) NOT NULL,
+        amount DOUBLE PRECISION NOT NULL,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      )
+    `);
+
+    // Create resumable upload tables
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS upload_sessions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        owner_id UUID REFERENCES users(id) ON DELETE CASCADE,
+        file_name VARCHAR(255) NOT NULL,
+        file_size BIGINT NOT NULL,
+        part_size INTEGER NOT NULL,
+        part_count INTEGER NOT NULL,
+        checksum VARCHAR(64),
+        status VARCHAR(20) NOT NULL DEFAULT 'uploading',
+        file_path VARCHAR(500),
+        job_id UUID REFERENCES jobs(id) ON DELETE SET NULL,
+        expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
         created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
         updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
       )
     `);
 
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS upload_session_parts (
+        session_id UUID NOT NULL REFERENCES upload_sessions(id) ON DELETE CASCADE,
+        part_number INTEGER NOT NULL,
+        size INTEGER NOT NULL,
+        checksum VARCHAR(64) NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        PRIMARY KEY (session_id, part_number)
+      )
+    `);
+
     // Create indexes for better performance
     await client.query(`
       CREATE INDEX IF NOT EXISTS idx_urls_job_id ON urls(job_id);
+      CREATE INDEX IF NOT EXISTS idx_urls_job_row ON urls(job_id, row_index);
       CREATE INDEX IF NOT EXISTS idx_urls_status ON urls(status);
       CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
       CREATE INDEX IF NOT EXISTS idx_jobs_created_at ON jobs(created_at);
+      CREATE INDEX IF NOT EXISTS idx_urls_batch_id ON urls(batch_id);
+      CREATE INDEX IF NOT EXISTS idx_ai_batches_job_id ON ai_batches(job_id);
+      CREATE INDEX IF NOT EXISTS idx_url_variants_job_id ON url_variants(job_id);
+      CREATE INDEX IF NOT EXISTS idx_urls_job_review ON urls(job_id, review_status);
+      CREATE INDEX IF NOT EXISTS idx_url_opener_history_url_id ON url_opener_history(url_id);
+      CREATE INDEX IF NOT EXISTS idx_upload_sessions_expires_at ON upload_sessions(expires_at);
+      CREATE INDEX IF NOT EXISTS idx_jobs_owner_created ON jobs(owner_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON user_sessions(user_id);
+      CREATE INDEX IF NOT EXISTS idx_user_sessions_expires_at ON user_sessions(expires_at);
+      CREATE INDEX IF NOT EXISTS idx_jobs_workspace_created ON jobs(workspace_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_prompt_templates_workspace_id ON prompt_templates(workspace_id);
+      CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON workspace_members(user_id);
+      CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON api_keys(user_id);
+      CREATE INDEX IF NOT EXISTS idx_webhooks_workspace_id ON webhooks(workspace_id);
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_created ON webhook_deliveries(webhook_id, created_at);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_daily_spend_workspace_day ON daily_spend(workspace_id, day);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_spending_budgets_workspace_period ON spending_budgets(workspace_id, period);
     `);
 
     console.log('✅ Database tables created successfully!');
-    console.log('📊 Tables: jobs, urls');
+    console.log('📊 Tables: jobs, urls, prompt_templates, prompt_template_versions');
     console.log('🔍 Indexes: job_id, status, created_at');
     
   } catch (error) {
@@ -0,0 +1,94 @@
+#!/usr/bin/env node
+
+/**
+ * Webhook Receiver
+ *
+ * Accepts webhook deliveries on any path, checks their signature and prints
+ * each event, so webhooks can be tried without a public endpoint. Register
+ * http://localhost:<port>/ as the webhook URL and pass its secret here.
+ * Usage: node scripts/webhook-receiver.js [port]
+ *
+ * Set WEBHOOK_SECRET to the webhook's secret to verify signatures; requests with
+ * a wrong signature, or a timestamp more than WEBHOOK_TOLERANCE seconds old
+ * (default 300), are answered with 401. Set WEBHOOK_RECEIVER_STATUS (e.g. 500)
+ * to answer every delivery with that status and watch the retries.
+ */
+
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = parseInt(process.argv[2] || process.env.WEBHOOK_RECEIVER_PORT || '8090', 10);
+const SECRET = process.env.WEBHOOK_SECRET || '';
+const TOLERANCE = parseInt(process.env.WEBHOOK_TOLERANCE || '300', 10);
+const FAIL_STATUS = parseInt(process.env.WEBHOOK_RECEIVER_STATUS || '0', 10);
+
+function readBody(req) {
+  return new Promise((resolve) => {
+    const chunks = [];
+    req.on('data', (chunk) => { chunks.push(chunk); });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+  });
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// The signature is an HMAC-SHA256 of "<timestamp>.<raw body>", keyed with the webhook's secret
+function verifySignature(req, body) {
+  const timestamp = req.headers['x-webhook-timestamp'] || '';
+  const signature = req.headers['x-webhook-signature'] || '';
+  const expected = `sha256=${crypto.createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex')}`;
+
+  if (signature.length !== expected.length
+    || !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+    return 'signature mismatch';
+  }
+  if (Math.abs(Date.now() / 1000 - parseInt(timestamp, 10)) > TOLERANCE) {
+    return 'timestamp outside tolerance';
+  }
+  return null;
+}
+
+async function handle(req, res) {
+  if (req.method !== 'POST') {
+    return send(res, 405, { error: 'Webhook deliveries are POSTed' });
+  }
+
+  const body = await readBody(req);
+  const event = req.headers['x-webhook-event'];
+  const delivery = req.headers['x-webhook-delivery'];
+
+  if (SECRET) {
+    const problem = verifySignature(req, body);
+    if (problem) {
+      console.log(`❌ ${event} (delivery ${delivery}): ${problem}`);
+      return send(res, 401, { error: problem });
+    }
+  }
+
+  let payload;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return send(res, 400, { error: 'Body is not JSON' });
+  }
+
+  console.log(`${SECRET ? '✅' : '📨'} ${event} (delivery ${delivery}, event ${payload.id})`);
+  console.log(JSON.stringify(payload.data, null, 2));
+
+  if (FAIL_STATUS) {
+    return send(res, FAIL_STATUS, { error: `Receiver failure ${FAIL_STATUS}` });
+  }
+  return send(res, 200, { received: true });
+}
+
+http.createServer((req, res) => {
+  handle(req, res).catch((error) => send(res, 500, { error: error.message }));
+}).listen(PORT, () => {
+  console.log(`🪝 Webhook receiver listening on http://localhost:${PORT}`);
+  console.log(SECRET
+    ? '   verifying signatures with WEBHOOK_SECRET'
+    : '   WEBHOOK_SECRET not set; signatures are not checked');
+});
@@ -10,6 +10,10 @@ export const config = {
   // Database
   databaseUrl: process.env.DATABASE_URL || 'postgresql://localhost:5432/csv_opener',
   
+  // Authentication
+  sessionTtl: parseInt(process.env.SESSION_TTL || '604800', 10), // 7 days, in seconds
+  allowRegistration: process.env.ALLOW_REGISTRATION !== 'false', // Whether anyone who can reach the API may sign up
+  
   // Redis
   redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
   
@@ -18,6 +22,15 @@ export const config = {
   uploadDir: process.env.UPLOAD_DIR || './uploads',
   outputDir: process.env.OUTPUT_DIR || './outputs',
   
+  // Resumable uploads
+  maxUploadSize: parseInt(process.env.MAX_UPLOAD_SIZE || '524288000', 10), // 500MB, for files uploaded in parts
+  uploadPartSize: parseInt(process.env.UPLOAD_PART_SIZE || '5242880', 10), // 5MB per part
+  uploadSessionTtl: parseInt(process.env.UPLOAD_SESSION_TTL || '86400', 10), // 24 hours since the last part, in seconds
+  
+  // Progress events
+  progressHistoryLength: parseInt(process.env.PROGRESS_HISTORY_LENGTH || '1000', 10), // Updates kept per job for SSE replay
+  progressHistoryTtl: parseInt(process.env.PROGRESS_HISTORY_TTL || '86400', 10), // 24 hours after a job's last update, in seconds
+  
   // Job queue
   maxConcurrentJobs: parseInt(process.env.MAX_CONCURRENT_JOBS || '10', 10),
   jobTimeout: parseInt(process.env.JOB_TIMEOUT || '300000', 10), // 5 minutes
@@ -28,8 +41,41 @@ export const config = {
   openaiTemperature: parseFloat(process.env.OPENAI_TEMPERATURE || '0.7'),
   openaiMaxTokens: parseInt(process.env.OPENAI_MAX_TOKENS || '100', 10),
   
+  // AI providers
+  aiProvider: process.env.AI_PROVIDER || process.env.AI_SERVICE_TYPE || '', // Default provider id; auto-detected when empty
+  aiProviders: process.env.AI_PROVIDERS || '', // JSON array of additional providers
+  aiRequestTimeout: parseInt(process.env.AI_REQUEST_TIMEOUT || '60000', 10), // ms, for providers called over HTTP
+  aiFallbackChain: (process.env.AI_FALLBACK_CHAIN || '').split(',').map(id => id.trim()).filter(Boolean), // Tried in order after the job's provider
+  aiCircuitFailureThreshold: parseInt(process.env.AI_CIRCUIT_FAILURE_THRESHOLD || '5', 10), // Consecutive failures that open a provider's circuit
+  aiCircuitResetTimeout: parseInt(process.env.AI_CIRCUIT_RESET_TIMEOUT || '60000', 10), // ms before an open circuit lets a trial request through
+  allowDummyResponses: (process.env.NODE_ENV || 'development') !== 'production', // Dummy modes are ignored in production
+  
+  // Batch mode
+  batchPollInterval: parseInt(process.env.BATCH_POLL_INTERVAL || '60000', 10), // ms between checks of submitted batches
+  batchMaxRequests: parseInt(process.env.BATCH_MAX_REQUESTS || '50000', 10), // Rows per submitted batch
+  batchCostMultiplier: parseFloat(process.env.BATCH_COST_MULTIPLIER || '0.5'), // Batch price relative to the per-request price
+  
+  // Opener quality checks
+  qualityChecksEnabled: process.env.QUALITY_CHECKS_ENABLED !== 'false',
+  qualityDisabledRules: (process.env.QUALITY_DISABLED_RULES || '').split(',').map(rule => rule.trim()).filter(Boolean), // Rule names to skip
+  qualityMaxWords: parseInt(process.env.QUALITY_MAX_WORDS || '40', 10), // 0 disables the limit
+  qualityMaxChars: parseInt(process.env.QUALITY_MAX_CHARS || '300', 10), // 0 disables the limit
+  qualityBannedPhrases: (process.env.QUALITY_BANNED_PHRASES || 'as an AI,I hope this email finds you well,I hope this message finds you well')
+    .split(',').map(phrase => phrase.trim()).filter(Boolean),
+  qualityLanguage: process.env.QUALITY_LANGUAGE ?? 'en', // Expected language of openers; empty disables the check
+  qualityAction: process.env.QUALITY_ACTION || 'review', // review | regenerate
+  qualityMaxRegenerations: parseInt(process.env.QUALITY_MAX_REGENERATIONS || '1', 10), // Automatic attempts before flagging a row
+
+  // Pricing and estimates
+  modelPricing: process.env.MODEL_PRICING || '', // JSON overrides for the per-model price table
+  defaultJobBudget: parseFloat(process.env.DEFAULT_JOB_BUDGET || '0'), // USD; 0 means no budget
+  dailyBudget: parseFloat(process.env.DAILY_BUDGET || '0'), // USD across all jobs per UTC day; 0 means no cap
+  estimatedRequestLatency: parseInt(process.env.ESTIMATED_REQUEST_LATENCY || '2500', 10), // ms per AI request
+  
   // Rate limiting
+  // Outbound AI requests per provider, shared by every worker; 0 disables a limit
   rateLimitRequestsPerMinute: parseInt(process.env.RATE_LIMIT_REQUESTS_PER_MINUTE || '60', 10),
+  rateLimitTokensPerMinute: parseInt(process.env.RATE_LIMIT_TOKENS_PER_MINUTE || '0', 10),
   rateLimitBurst: parseInt(process.env.RATE_LIMIT_BURST || '10', 10),
   
   // Retry configuration
@@ -43,6 +89,26 @@ export const config = {
   chunkSize: parseInt(process.env.CHUNK_SIZE || '500', 10), // URLs per chunk
   memoryLimitMB: parseInt(process.env.MEMORY_LIMIT_MB || '1000', 10), // 1GB limit
   streamingBatchSize: parseInt(process.env.STREAMING_BATCH_SIZE || '500', 10), // Streaming batch size
+  
+  // Page enrichment
+  pageEnrichmentEnabled: process.env.PAGE_ENRICHMENT_ENABLED === 'true', // Default for new jobs
+  pageFetchTimeout: parseInt(process.env.PAGE_FETCH_TIMEOUT || '10000', 10), // 10 seconds
+  pageFetchMaxBytes: parseInt(process.env.PAGE_FETCH_MAX_BYTES || '1048576', 10), // 1MB
+  pageFetchDomainDelay: parseInt(process.env.PAGE_FETCH_DOMAIN_DELAY || '1000', 10), // Per-domain politeness delay
+  pageFetchUserAgent: process.env.PAGE_FETCH_USER_AGENT || 'CSVOpenerBot/1.0',
+  pageCacheTtl: parseInt(process.env.PAGE_CACHE_TTL || '86400', 10), // 24 hours, in seconds
+  pageContextMaxChars: parseInt(process.env.PAGE_CONTEXT_MAX_CHARS || '2000', 10), // Page text passed to the prompt
+  pageFetchAllowPrivateUrls: process.env.PAGE_FETCH_ALLOW_PRIVATE_URLS === 'true', // Fetch pages on this host or a private network
+
+  // Cross-job opener cache
+  openerCacheEnabled: process.env.OPENER_CACHE_ENABLED === 'true', // Default for new jobs
+  openerCacheTtl: parseInt(process.env.OPENER_CACHE_TTL || '604800', 10), // 7 days, in seconds
+
+  // Outbound webhooks
+  webhookTimeout: parseInt(process.env.WEBHOOK_TIMEOUT || '10000', 10), // ms a receiver has to respond
+  webhookMaxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5', 10), // Attempts per delivery, the first included
+  webhookRetryDelay: parseInt(process.env.WEBHOOK_RETRY_DELAY || '10000', 10), // ms before the first retry, doubling after each
+  webhookAllowPrivateUrls: process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true', // Allow receivers on this host or a private network
 };
 
 // Validate required configuration
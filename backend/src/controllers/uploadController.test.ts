@@ -0,0 +1,168 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Request, Response } from 'express';
+import { UploadController } from './uploadController';
+import { database, JobRecord } from '../services/database';
+
+jest.mock('../services/redis', () => ({ redis: {} }));
+jest.mock('../services/queue', () => ({ addChunkedJobs: jest.fn() }));
+jest.mock('../services/batchProcessor', () => ({ queueBatchSubmission: jest.fn() }));
+jest.mock('../services/progressEmitter', () => ({ progressEmitter: { emitJobStart: jest.fn() } }));
+jest.mock('../services/database', () => ({
+  database: {
+    getJobForWorkspace: jest.fn(),
+    getPromptTemplate: jest.fn(),
+    getUrlCountByJob: jest.fn(),
+    getUrlValuesByJob: jest.fn(),
+    getUrlsByJobPaginated: jest.fn(),
+    getUrlsByJob: jest.fn(),
+    getAverageCompletionTokens: jest.fn(),
+    getDailySpend: jest.fn(),
+    getSpendingBudget: jest.fn(),
+    updateJobTemplateVersion: jest.fn(),
+    updateJobVariants: jest.fn(),
+    deleteUrlsByJob: jest.fn(),
+    createUrls: jest.fn(),
+    updateJobRowValidation: jest.fn(),
+    updateJobColumnMapping: jest.fn(),
+    updateJobContentType: jest.fn(),
+    updateJobProvider: jest.fn(),
+    updateJobProcessingMode: jest.fn(),
+    updateJobPageEnrichment: jest.fn(),
+    updateJobCacheUse: jest.fn(),
+    updateJobBudget: jest.fn(),
+    updateJobStatus: jest.fn(),
+    updateJobStopReason: jest.fn(),
+    resetUrlStatusesForJob: jest.fn(),
+    assignDuplicateRows: jest.fn(),
+  },
+}));
+
+const mockedDatabase = jest.mocked(database);
+
+// Everything startProcessing may change on a job or its rows
+const WRITES = [
+  'updateJobTemplateVersion', 'updateJobVariants', 'deleteUrlsByJob', 'createUrls', 'updateJobRowValidation',
+  'updateJobColumnMapping', 'updateJobContentType', 'updateJobProvider', 'updateJobProcessingMode',
+  'updateJobPageEnrichment', 'updateJobCacheUse', 'updateJobBudget', 'updateJobStatus', 'resetUrlStatusesForJob',
+] as const;
+
+const JOB_ID = '0b6f2a64-3f0e-4c8e-9d52-2f0d6c1a7b11';
+
+function response() {
+  const res = { statusCode: 200, body: undefined as any } as { statusCode: number; body: any; status: jest.Mock; json: jest.Mock };
+  res.status = jest.fn((status: number) => {
+    res.statusCode = status;
+    return res;
+  });
+  res.json = jest.fn((body: unknown) => {
+    res.body = body;
+    return res;
+  });
+  return res;
+}
+
+describe('UploadController.startProcessing', () => {
+  let dir: string;
+  let job: JobRecord;
+  let controller: UploadController;
+
+  async function startProcessing(body: Record<string, unknown>) {
+    const req = { body: { jobId: JOB_ID, contentType: 'company', ...body }, workspace: { id: 'workspace-1' } } as unknown as Request;
+    const res = response();
+    await controller.startProcessing(req, res as unknown as Response);
+    return res;
+  }
+
+  function expectNoWrites(): void {
+    for (const method of WRITES) {
+      expect(mockedDatabase[method]).not.toHaveBeenCalled();
+    }
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'start-processing-'));
+    const filePath = path.join(dir, 'leads.csv');
+    fs.writeFileSync(filePath, [
+      'name,website,homepage,notes',
+      'Ada,https://ada.test,https://acme.test,none',
+      'Bob,https://bob.test,https://bobco.test,none',
+    ].join('\n'));
+
+    job = {
+      id: JOB_ID,
+      workspace_id: 'workspace-1',
+      file_path: filePath,
+      columns: ['name', 'website', 'homepage', 'notes'],
+      column_mapping: { urlColumn: 'website', nameColumn: 'name', companyColumn: null },
+      total_cost: 0,
+      budget: null,
+      validation_report: null,
+    } as unknown as JobRecord;
+
+    controller = new UploadController();
+    mockedDatabase.getJobForWorkspace.mockResolvedValue(job);
+    mockedDatabase.getUrlCountByJob.mockResolvedValue(2);
+    mockedDatabase.getUrlValuesByJob.mockResolvedValue(['https://ada.test', 'https://bob.test']);
+    mockedDatabase.getUrlsByJobPaginated.mockResolvedValue([]);
+    mockedDatabase.getUrlsByJob.mockResolvedValue([]);
+    mockedDatabase.getAverageCompletionTokens.mockResolvedValue(null);
+    mockedDatabase.getDailySpend.mockResolvedValue(0);
+    mockedDatabase.getSpendingBudget.mockResolvedValue(null);
+    mockedDatabase.assignDuplicateRows.mockResolvedValue(0);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('leaves the job alone when a variant template does not exist', async () => {
+    mockedDatabase.getPromptTemplate.mockResolvedValue(null);
+
+    const res = await startProcessing({ variants: 2, variantTemplateIds: [null, '6a1d8a0e-7a8e-4f1b-9f44-8d1c2b3a4e5f'] });
+
+    expect(res.statusCode).toBe(404);
+    expectNoWrites();
+  });
+
+  it('leaves the job and its rows alone when the estimate exceeds the budget', async () => {
+    const res = await startProcessing({ urlColumn: 'homepage', budget: 0.000001 });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error).toMatch(/exceeds the job budget/);
+    // The estimate counts the rows of the newly chosen column
+    expect(res.body.estimate.urls).toMatchObject({ total: 2, valid: 2 });
+    expect(mockedDatabase.getUrlValuesByJob).not.toHaveBeenCalled();
+    expectNoWrites();
+  });
+
+  it('leaves the job and its rows alone when the new URL column has no valid URLs', async () => {
+    const res = await startProcessing({ urlColumn: 'notes' });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body).toMatchObject({
+      error: 'No valid URLs found for this job',
+      validation: { urlColumn: 'notes', totalRows: 2, skippedRows: 2 },
+    });
+    expectNoWrites();
+  });
+
+  it('extracts the new URL column and saves the settings once every check has passed', async () => {
+    const res = await startProcessing({ urlColumn: 'homepage', enrichPages: false, useCache: true });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toMatchObject({ totalUrls: 2, enrichPages: false, useCache: true });
+    expect(mockedDatabase.deleteUrlsByJob).toHaveBeenCalledWith(JOB_ID);
+    expect(mockedDatabase.createUrls).toHaveBeenCalledWith(JOB_ID, [
+      expect.objectContaining({ url: 'https://acme.test', rowIndex: 0 }),
+      expect.objectContaining({ url: 'https://bobco.test', rowIndex: 1 }),
+    ]);
+    expect(mockedDatabase.updateJobColumnMapping).toHaveBeenCalledWith(JOB_ID, expect.objectContaining({ urlColumn: 'homepage' }));
+    expect(mockedDatabase.updateJobCacheUse).toHaveBeenCalledWith(JOB_ID, true);
+    expect(mockedDatabase.updateJobStatus).toHaveBeenCalledWith(JOB_ID, 'processing', 0, 0);
+  });
+});
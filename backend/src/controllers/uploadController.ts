@@ -1,15 +1,65 @@
 import { Request, Response } from 'express';
 import multer from 'multer';
+import fs from 'fs';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
-import { database } from '../services/database';
+import { database, ColumnMapping, UploadSessionRecord } from '../services/database';
 import { CSVService } from '../services/csvService';
 import { addChunkedJobs } from '../services/queue';
+import { queueBatchSubmission } from '../services/batchProcessor';
 import { progressEmitter } from '../services/progressEmitter';
-import { ContentType } from '../types';
+import { DEFAULT_SAMPLE_SIZE, estimateJob } from '../services/jobEstimator';
+import { checkJobBudgets, describeExceededBudget } from '../services/budgets';
+import { providerRegistry } from '../services/providers/registry';
+import { supportsBatch } from '../services/providers/types';
+import {
+  UploadSessionError,
+  abortUploadSession,
+  assembleUploadSession,
+  createUploadSession,
+  storeUploadPart,
+  summarizeUploadSession,
+} from '../services/uploadSessions';
+import { ContentType, ProcessingMode, PromptTemplate, SourceFormat } from '../types';
 import { logger } from '../utils/logger';
 import { config } from '../config';
 import { memoryMonitor } from '../utils/memoryMonitor';
+import { ValidationReport } from '../utils/rowValidation';
+import {
+  ResultsTable,
+  parseDownloadMode,
+  parseExportFormat,
+  parseReviewFilter,
+  buildMergedResultsTable,
+  appendVariantColumns,
+  serializeResults,
+  resultsFileName,
+} from '../utils/resultsExport';
+import {
+  getPromptTemplate,
+  renderPrompt,
+  extractTemplateColumns,
+  findMissingTemplateColumns,
+} from '../utils/prompts';
+import {
+  rankUrlColumns,
+  suggestColumnMapping,
+  mappedTemplateColumns,
+  applyColumnMapping,
+  templateSourceColumns,
+} from '../utils/columnMapping';
+
+interface UploadSource {
+  // The workspace the job is created in and the signed-in user who uploaded it
+  workspaceId: string;
+  ownerId: string;
+  // File fed to the row pipeline: the upload itself, or the TSV a workbook was converted to
+  filePath: string;
+  fileName: string;
+  format: SourceFormat;
+  sheet: string | null;
+  sheets: string[];
+}
 
 export class UploadController {
   private csvService: CSVService;
@@ -37,10 +87,10 @@ export class UploadController {
         fileSize: parseInt(process.env.MAX_FILE_SIZE || '10485760'), // 10MB default
       },
       fileFilter: (req, file, cb) => {
-        if (file.mimetype === 'text/csv' || file.originalname.endsWith('.csv')) {
+        if (file.mimetype === 'text/csv' || this.csvService.getSourceFormat(file.originalname)) {
           cb(null, true);
         } else {
-          cb(new Error('Only CSV files are allowed'));
+          cb(new Error('Only CSV, TSV and Excel (.xlsx) files are allowed'));
         }
       },
     });
@@ -50,130 +100,267 @@ export class UploadController {
     return this.upload.single('csvFile');
   }
 
-  private detectUrlColumn(columns: string[], rows: any[]): string | null {
-    logger.info(`Detecting URL column from ${columns.length} columns: ${columns.join(', ')}`);
-    
-    // First, check for columns with URL-related names
-    let urlColumn = columns.find(column => 
-      column.toLowerCase().includes('url') || 
-      column.toLowerCase().includes('link') ||
-      column.toLowerCase().includes('website') ||
-      column.toLowerCase().includes('domain')
-    );
+  async uploadCSV(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.file) {
+        res.status(400).json({ error: 'No CSV file uploaded' });
+        return;
+      }
 
-    if (urlColumn) {
-      logger.info(`Found URL-named column: ${urlColumn}`);
-      return urlColumn;
+      await this.ingestFile(req.workspace!.id, req.user!.id, req.file.path, req.file.originalname, req.body.sheet, res);
+    } catch (error) {
+      logger.error('Upload error:', error);
+      res.status(500).json({
+        error: 'Failed to process CSV file',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
     }
+  }
 
-    // If no URL-named columns found, check all columns for URL content
-    for (const column of columns) {
-      const sampleValues = rows.slice(0, 5).map(row => row.originalData[column]).filter(Boolean);
-      logger.info(`Checking column '${column}' with sample values:`, sampleValues);
-      
-      const hasUrls = sampleValues.some(value => {
-        const isValid = this.isValidUrl(value);
-        logger.info(`Value '${value}' is valid URL: ${isValid}`);
-        return isValid;
+  /**
+   * Create a job from a file that is fully on disk, whether it came in one
+   * request or was assembled from an upload session. Responds with the preview
+   * and returns the new job's id, or null when the file was refused.
+   */
+  private async ingestFile(
+    workspaceId: string,
+    ownerId: string,
+    filePath: string,
+    fileName: string,
+    sheet: string | undefined,
+    res: Response
+  ): Promise<string | null> {
+    let source: UploadSource = {
+      workspaceId,
+      ownerId,
+      filePath,
+      fileName,
+      format: this.csvService.getSourceFormat(fileName) || 'csv',
+      sheet: null,
+      sheets: [],
+    };
+
+    // Workbooks are converted to TSV so they share the delimited-file pipeline
+    if (source.format === 'xlsx') {
+      const converted = await this.csvService.convertWorkbookToTSV(filePath, sheet || undefined);
+      if (!converted.sheet) {
+        res.status(400).json({
+          error: converted.sheets.length === 0
+            ? 'The workbook has no sheets'
+            : `Sheet "${sheet}" not found in the workbook`,
+          sheets: converted.sheets,
+        });
+        return null;
+      }
+      source = { ...source, filePath: converted.filePath, sheet: converted.sheet, sheets: converted.sheets };
+    }
+
+    // Check file size and estimate rows
+    const fileStats = fs.statSync(source.filePath);
+    const fileSizeMB = fileStats.size / (1024 * 1024);
+    
+    // Rough estimate: 1KB per row (very conservative)
+    const estimatedRows = Math.round(fileStats.size / 1024);
+    
+    logger.info(`Processing file: ${fileName}, Size: ${fileSizeMB.toFixed(2)}MB, Estimated rows: ${estimatedRows}`);
+
+    // Check if we can process this file
+    const memoryCheck = memoryMonitor.canProcessFile(estimatedRows);
+    if (!memoryCheck.canProcess) {
+      res.status(413).json({ 
+        error: 'File too large to process',
+        details: memoryCheck.reason
       });
-      
-      if (hasUrls) {
-        logger.info(`Found URL content in column: ${column}`);
-        return column;
+      return null;
+    }
+
+    // For small files, use the original method for preview
+    if (estimatedRows < config.streamingBatchSize) {
+      return this.uploadCSVSmall(source, res);
+    }
+
+    // For large files, use streaming method
+    return this.uploadCSVStreaming(source, res);
+  }
+
+  // Start a resumable upload; the file is then sent in numbered parts of `partSize` bytes
+  async createUploadSession(req: Request, res: Response): Promise<void> {
+    try {
+      const { fileName, fileSize, checksum } = req.body;
+      if (!this.csvService.getSourceFormat(fileName)) {
+        res.status(400).json({ error: 'Only CSV, TSV and Excel (.xlsx) files are allowed' });
+        return;
       }
+
+      // Refuse up front what would be refused once the whole file has been sent
+      const memoryCheck = memoryMonitor.canProcessFile(Math.round(fileSize / 1024));
+      if (!memoryCheck.canProcess) {
+        res.status(413).json({
+          error: 'File too large to process',
+          details: memoryCheck.reason
+        });
+        return;
+      }
+
+      const session = await createUploadSession(req.user!.id, fileName, fileSize, checksum || null);
+      res.status(201).json(summarizeUploadSession(session, []));
+    } catch (error) {
+      logger.error('Create upload session error:', error);
+      res.status(500).json({
+        error: 'Failed to create upload session',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
     }
+  }
 
-    logger.info('No URL column found');
-    return null;
+  // The session from the route, answering 404 when it's unknown or another user's
+  private async findUploadSession(req: Request, res: Response): Promise<UploadSessionRecord | null> {
+    const session = await database.getUploadSession(req.params.sessionId);
+    if (!session || session.owner_id !== req.user!.id) {
+      res.status(404).json({ error: 'Upload session not found' });
+      return null;
+    }
+    return session;
   }
 
-  private isValidUrl(url: string): boolean {
+  // Which parts the server has, so an interrupted upload can resume with the rest
+  async getUploadSession(req: Request, res: Response): Promise<void> {
     try {
-      // Add protocol if missing
-      if (!url.startsWith('http://') && !url.startsWith('https://')) {
-        url = 'https://' + url;
+      const session = await this.findUploadSession(req, res);
+      if (!session) {
+        return;
       }
-      
-      new URL(url);
-      return true;
-    } catch {
-      return false;
+
+      res.json(summarizeUploadSession(session, await database.getUploadSessionParts(session.id)));
+    } catch (error) {
+      logger.error('Get upload session error:', error);
+      res.status(500).json({
+        error: 'Failed to get upload session',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
     }
   }
 
-  async uploadCSV(req: Request, res: Response): Promise<void> {
+  // The part is the raw request body, with its SHA-256 in the X-Part-Checksum header
+  async uploadPart(req: Request, res: Response): Promise<void> {
     try {
-      if (!req.file) {
-        res.status(400).json({ error: 'No CSV file uploaded' });
+      const session = await this.findUploadSession(req, res);
+      if (!session) {
         return;
       }
 
-      const filePath = req.file.path;
-      const fileName = req.file.originalname;
+      if (!Buffer.isBuffer(req.body)) {
+        res.status(400).json({ error: 'Parts must be sent as application/octet-stream' });
+        return;
+      }
 
-      // Check file size and estimate rows
-      const fileStats = require('fs').statSync(filePath);
-      const fileSizeMB = fileStats.size / (1024 * 1024);
-      
-      // Rough estimate: 1KB per row (very conservative)
-      const estimatedRows = Math.round(fileStats.size / 1024);
-      
-      logger.info(`Processing file: ${fileName}, Size: ${fileSizeMB.toFixed(2)}MB, Estimated rows: ${estimatedRows}`);
+      const part = await storeUploadPart(
+        session,
+        Number(req.params.partNumber),
+        req.body,
+        req.header('x-part-checksum') as string
+      );
 
-      // Check if we can process this file
-      const memoryCheck = memoryMonitor.canProcessFile(estimatedRows);
-      if (!memoryCheck.canProcess) {
-        res.status(413).json({ 
-          error: 'File too large to process',
-          details: memoryCheck.reason
-        });
+      res.json({ partNumber: part.part_number, size: part.size, checksum: part.checksum });
+    } catch (error) {
+      if (error instanceof UploadSessionError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      logger.error('Upload part error:', error);
+      res.status(500).json({
+        error: 'Failed to store part',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Assemble the parts and create the job, responding like a single-request upload
+  async completeUploadSession(req: Request, res: Response): Promise<void> {
+    try {
+      const session = await this.findUploadSession(req, res);
+      if (!session) {
         return;
       }
 
-      // For small files, use the original method for preview
-      if (estimatedRows < config.streamingBatchSize) {
-        return this.uploadCSVSmall(req, res);
+      if (session.status === 'completed') {
+        res.status(409).json({ error: 'Upload session is already completed', jobId: session.job_id });
+        return;
       }
 
-      // For large files, use streaming method
-      return this.uploadCSVStreaming(req, res);
+      // An assembled file the last attempt refused (e.g. an unknown sheet) is ingested again without re-assembling
+      const filePath = session.status === 'assembled' && session.file_path
+        ? session.file_path
+        : await assembleUploadSession(session.id);
+
+      const jobId = await this.ingestFile(req.workspace!.id, req.user!.id, filePath, session.file_name, req.body.sheet, res);
+      if (jobId) {
+        await database.updateUploadSessionStatus(session.id, 'completed', null, jobId);
+        logger.info(`Upload session ${session.id} completed as job ${jobId}`);
+      }
     } catch (error) {
-      logger.error('Upload error:', error);
+      if (error instanceof UploadSessionError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      logger.error('Complete upload session error:', error);
       res.status(500).json({
-        error: 'Failed to process CSV file',
+        error: 'Failed to complete upload',
         details: error instanceof Error ? error.message : 'Unknown error',
       });
     }
   }
 
-  private async uploadCSVSmall(req: Request, res: Response): Promise<void> {
-    const filePath = req.file!.path;
-    const fileName = req.file!.originalname;
+  async abortUploadSession(req: Request, res: Response): Promise<void> {
+    try {
+      const session = await this.findUploadSession(req, res);
+      if (!session) {
+        return;
+      }
+
+      await abortUploadSession(session);
+      res.json({ message: 'Upload session aborted' });
+    } catch (error) {
+      logger.error('Abort upload session error:', error);
+      res.status(500).json({
+        error: 'Failed to abort upload session',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  private async uploadCSVSmall(source: UploadSource, res: Response): Promise<string> {
+    const { filePath, fileName } = source;
 
     // Parse CSV to get preview and columns
     const { rows, columns } = await this.csvService.parseCSV(filePath);
     const preview = this.csvService.getPreview(rows, 10);
 
     // Create job in database
-    const jobId = await database.createJob(fileName, filePath, rows.length, 'company');
+    const jobId = await database.createJob(source.workspaceId, source.ownerId, fileName, filePath, rows.length, 'company', columns);
+    await database.updateJobSource(jobId, source.format, source.sheet);
 
-    // Auto-detect URL column
-    const urlColumn = this.detectUrlColumn(columns, rows);
-    logger.info(`Detected URL column: ${urlColumn}`, { columns, sampleRows: rows.slice(0, 3) });
-    
-    if (!urlColumn) {
-      res.status(400).json({ 
-        error: 'No URL column found. Please ensure your CSV has a column containing URLs.' 
+    // Rank URL column candidates; the user confirms or changes the mapping before processing
+    const columnCandidates = rankUrlColumns(columns, rows.map(row => row.originalData));
+    const suggestedMapping = suggestColumnMapping(columnCandidates);
+    logger.info(`Suggested URL column: ${suggestedMapping.urlColumn}`, { columns });
+
+    const urlColumn = suggestedMapping.urlColumn;
+    let validation: ValidationReport | null = null;
+    if (urlColumn) {
+      // Extract URLs from the suggested column, keeping each row's position and data.
+      // Rows without a usable URL are stored as skipped so they still appear in the results.
+      const extracted = this.csvService.extractUrlRecords(rows, urlColumn);
+      validation = extracted.validation;
+      logger.info(`Extracted ${validation.validRows} URLs from column '${urlColumn}', ${validation.skippedRows} rows skipped`, {
+        sampleUrls: extracted.urls.slice(0, 3).map(record => record.url),
       });
-      return;
-    }
 
-    // Extract URLs from the detected column
-    const urls = rows.map(row => (row as any).originalData[urlColumn] as string).filter(Boolean);
-    logger.info(`Extracted ${urls.length} URLs from column '${urlColumn}'`, { sampleUrls: urls.slice(0, 3) });
-    
-    // Create URL records in database
-    await database.createUrls(jobId, urls);
+      // Create URL records in database
+      await database.createUrls(jobId, extracted.urls);
+      await database.updateJobRowValidation(jobId, rows.length, validation);
+      await database.updateJobColumnMapping(jobId, { ...suggestedMapping, urlColumn });
+    }
 
     logger.info(`Created job ${jobId} with ${rows.length} rows`);
 
@@ -183,34 +370,41 @@ export class UploadController {
       totalRows: rows.length,
       preview,
       columns,
+      columnCandidates,
+      suggestedMapping,
+      sourceFormat: source.format,
+      sheet: source.sheet,
+      sheets: source.sheets,
+      validation,
     });
+    return jobId;
   }
 
-  private async uploadCSVStreaming(req: Request, res: Response): Promise<void> {
-    const filePath = req.file!.path;
-    const fileName = req.file!.originalname;
+  private async uploadCSVStreaming(source: UploadSource, res: Response): Promise<string> {
+    const { filePath, fileName } = source;
 
     // Create job in database first
-    const jobId = await database.createJob(fileName, filePath, 0, 'company'); // Will update row count later
+    const jobId = await database.createJob(source.workspaceId, source.ownerId, fileName, filePath, 0, 'company'); // Will update row count later
+    await database.updateJobSource(jobId, source.format, source.sheet);
 
     try {
       // Get a small sample for preview and column detection
       const { rows: sampleRows, columns } = await this.csvService.parseCSV(filePath);
       const preview = this.csvService.getPreview(sampleRows, 10);
 
-      // Auto-detect URL column from sample
-      const urlColumn = this.detectUrlColumn(columns, sampleRows);
-      logger.info(`Detected URL column: ${urlColumn}`, { columns, sampleRows: sampleRows.slice(0, 3) });
-      
-      if (!urlColumn) {
-        res.status(400).json({ 
-          error: 'No URL column found. Please ensure your CSV has a column containing URLs.' 
-        });
-        return;
-      }
+      // Rank URL column candidates from the sample
+      const columnCandidates = rankUrlColumns(columns, sampleRows.map(row => row.originalData));
+      const suggestedMapping = suggestColumnMapping(columnCandidates);
+      logger.info(`Suggested URL column: ${suggestedMapping.urlColumn}`, { columns });
+
+      await database.updateJobColumns(jobId, columns);
 
-      // Start streaming processing in background
-      this.processCSVStreaming(jobId, filePath, urlColumn, columns);
+      // Start streaming processing in background; without a suggestion we wait for the user's mapping
+      const urlColumn = suggestedMapping.urlColumn;
+      if (urlColumn) {
+        await database.updateJobColumnMapping(jobId, { ...suggestedMapping, urlColumn });
+        this.processCSVStreaming(jobId, filePath, urlColumn, columns);
+      }
 
       // Return immediately with preview
       res.json({
@@ -219,9 +413,17 @@ export class UploadController {
         totalRows: 0, // Will be updated by streaming process
         preview,
         columns,
-        processing: true,
+        columnCandidates,
+        suggestedMapping,
+        sourceFormat: source.format,
+        sheet: source.sheet,
+        sheets: source.sheets,
+        // Rows are validated as they are stored; the report is on the job once processing finishes
+        validation: null,
+        processing: Boolean(urlColumn),
         message: 'Large file detected. Processing in background...'
       });
+      return jobId;
 
     } catch (error) {
       logger.error(`Error in streaming upload for job ${jobId}:`, error);
@@ -235,7 +437,7 @@ export class UploadController {
     try {
       logger.info(`Starting background streaming processing for job ${jobId}`);
       
-      const { totalRows } = await this.csvService.parseCSVStreaming(
+      const { totalRows, validation } = await this.csvService.parseCSVStreaming(
         filePath, 
         urlColumn, 
         jobId,
@@ -245,9 +447,9 @@ export class UploadController {
       );
 
       // Update job with actual row count
-      await database.updateJobStatus(jobId, 'pending', totalRows, 0);
+      await database.updateJobRowValidation(jobId, totalRows, validation);
       
-      logger.info(`Completed streaming processing for job ${jobId}: ${totalRows} rows`);
+      logger.info(`Completed streaming processing for job ${jobId}: ${totalRows} rows, ${validation.skippedRows} skipped`);
     } catch (error) {
       logger.error(`Error in background streaming processing for job ${jobId}:`, error);
       await database.updateJobStatus(jobId, 'failed');
@@ -256,11 +458,13 @@ export class UploadController {
 
   async startProcessing(req: Request, res: Response): Promise<void> {
     try {
-      const { jobId, contentType } = req.body;
+      const { jobId, templateId } = req.body;
+      // Content type still drives dummy openers when a custom template is used
+      const contentType = req.body.contentType || 'company';
 
-      if (!jobId || !contentType) {
+      if (!jobId || (!req.body.contentType && !templateId)) {
         res.status(400).json({
-          error: 'Missing required fields: jobId, contentType',
+          error: 'Missing required fields: jobId and one of contentType, templateId',
         });
         return;
       }
@@ -272,46 +476,247 @@ export class UploadController {
         return;
       }
 
-      // Check if job exists
-      const job = await database.getJob(jobId);
+      // Check if job exists and belongs to the signed-in user
+      const job = await database.getJobForWorkspace(jobId, req.workspace!.id);
       if (!job) {
         res.status(404).json({ error: 'Job not found' });
         return;
       }
 
-      // Update job's content type
-      await database.updateJobContentType(jobId, contentType);
+      const providerId: string = req.body.provider || job.provider_id || providerRegistry.getDefaultId();
+      if (!providerRegistry.has(providerId)) {
+        res.status(400).json({
+          error: `Unknown AI provider: ${providerId}`,
+          providers: providerRegistry.list().map(provider => provider.id),
+        });
+        return;
+      }
+
+      // Batch mode trades latency for price, and only providers with a batch API can run it
+      const mode: ProcessingMode = req.body.mode || 'realtime';
+      if (mode === 'batch' && !supportsBatch(providerRegistry.get(providerId))) {
+        res.status(400).json({
+          error: `AI provider ${providerId} does not support batch mode`,
+          providers: providerRegistry.list()
+            .filter(provider => provider.capabilities.batch)
+            .map(provider => provider.id),
+        });
+        return;
+      }
+
+      // Confirmed mapping: explicit columns from the request, otherwise the one suggested at upload
+      const { urlColumn, nameColumn, companyColumn } = req.body;
+      const currentMapping = job.column_mapping;
+      if (!urlColumn && !currentMapping) {
+        res.status(400).json({
+          error: 'No URL column was detected for this file. Please choose the urlColumn.',
+          columns: job.columns || [],
+        });
+        return;
+      }
+
+      const mapping: ColumnMapping = {
+        urlColumn: urlColumn || currentMapping!.urlColumn,
+        nameColumn: nameColumn !== undefined ? nameColumn || null : currentMapping?.nameColumn ?? null,
+        companyColumn: companyColumn !== undefined ? companyColumn || null : currentMapping?.companyColumn ?? null,
+      };
+
+      // Jobs uploaded before columns were recorded can't be checked
+      const unknownColumns = [mapping.urlColumn, mapping.nameColumn, mapping.companyColumn]
+        .filter((column): column is string => Boolean(column) && (job.columns || []).length > 0)
+        .filter(column => !job.columns.includes(column));
+      if (unknownColumns.length > 0) {
+        res.status(400).json({
+          error: `Columns not found in the file: ${unknownColumns.join(', ')}`,
+          columns: job.columns,
+        });
+        return;
+      }
+
+      // Resolve the selected template so the job records the exact revision it ran with
+      let prompt: PromptTemplate | undefined;
+      let templateVersionId: string | null = null;
+      if (templateId) {
+        const template = await database.getPromptTemplate(templateId, req.workspace!.id);
+        if (!template) {
+          res.status(404).json({ error: 'Template not found' });
+          return;
+        }
+        prompt = { system: template.system_prompt, user: template.user_prompt };
+
+        // Every {{column}} the template references must exist in the uploaded file
+        const availableColumns = mappedTemplateColumns(job.columns || [], mapping);
+        const missingColumns = findMissingTemplateColumns(prompt, availableColumns);
+        if (missingColumns.length > 0) {
+          res.status(400).json({
+            error: `Template references columns not found in the file: ${missingColumns.join(', ')}`,
+            missingColumns,
+            columns: availableColumns,
+          });
+          return;
+        }
+        templateVersionId = template.version_id;
+      }
+
+      // Each variant can use its own template, by position; the others reuse the job's prompt
+      const variantCount: number = req.body.variants || 1;
+      if (variantCount > 1 && mode === 'batch') {
+        res.status(400).json({ error: 'Opener variants are not supported in batch mode' });
+        return;
+      }
+
+      const variantTemplateVersionIds: Array<string | null> = [];
+      const variantPrompts: PromptTemplate[] = [];
+      for (const variantTemplateId of (req.body.variantTemplateIds || []).slice(0, variantCount)) {
+        if (!variantTemplateId) {
+          variantTemplateVersionIds.push(null);
+          continue;
+        }
+
+        const template = await database.getPromptTemplate(variantTemplateId, req.workspace!.id);
+        if (!template) {
+          res.status(404).json({ error: `Variant template not found: ${variantTemplateId}` });
+          return;
+        }
+
+        const availableColumns = mappedTemplateColumns(job.columns || [], mapping);
+        const missingColumns = findMissingTemplateColumns(
+          { system: template.system_prompt, user: template.user_prompt },
+          availableColumns
+        );
+        if (missingColumns.length > 0) {
+          res.status(400).json({
+            error: `Template '${template.name}' references columns not found in the file: ${missingColumns.join(', ')}`,
+            missingColumns,
+            columns: availableColumns,
+          });
+          return;
+        }
+        variantTemplateVersionIds.push(template.version_id);
+        variantPrompts.push({ system: template.system_prompt, user: template.user_prompt });
+      }
+
+      // Page enrichment falls back to the server default when the request doesn't choose
+      const enrichPages = typeof req.body.enrichPages === 'boolean'
+        ? req.body.enrichPages
+        : config.pageEnrichmentEnabled;
+
+      // Reusing openers from earlier jobs is opt-in, since they were written for another list
+      const useCache = typeof req.body.useCache === 'boolean' ? req.body.useCache : config.openerCacheEnabled;
+
+      // A different URL column means the URL records have to be extracted again from the file.
+      // Until every check has passed it is only read, so a refused start leaves the stored rows alone.
+      const reextract = mapping.urlColumn !== currentMapping?.urlColumn;
+      const urlColumnRows = reextract
+        ? await this.csvService.readUrlColumn(job.file_path, mapping.urlColumn, DEFAULT_SAMPLE_SIZE)
+        : null;
+
+      // Get total URL count; skipped rows aren't processed
+      const totalUrls = urlColumnRows
+        ? urlColumnRows.validation.validRows
+        : await database.getUrlCountByJob(jobId);
 
-      // Get total URL count
-      const totalUrls = await database.getUrlCountByJob(jobId);
-      
       if (totalUrls === 0) {
-        res.status(400).json({ error: 'No URLs found for this job' });
+        res.status(400).json({
+          error: 'No valid URLs found for this job',
+          validation: urlColumnRows ? urlColumnRows.validation : job.validation_report || null,
+        });
         return;
       }
 
+      // With a budget, refuse to start a job projected to cost more than it.
+      // The budget is also kept on the job as a hard cap enforced by the worker.
+      const budget: number = typeof req.body.budget === 'number' ? req.body.budget : config.defaultJobBudget;
+
+      const exceeded = await checkJobBudgets({ ...job, budget: budget > 0 ? budget : null });
+      if (exceeded) {
+        res.status(400).json({
+          error: describeExceededBudget(exceeded),
+          budget: exceeded,
+        });
+        return;
+      }
+
+      if (budget > 0) {
+        const estimate = await estimateJob(
+          { ...job, column_mapping: mapping },
+          {
+            contentType,
+            prompt,
+            enrichPages,
+            providerId,
+            mode,
+            variants: variantCount,
+            rows: urlColumnRows || undefined,
+          }
+        );
+        if (estimate.cost !== null && estimate.cost > budget) {
+          res.status(400).json({
+            error: `Estimated cost $${estimate.cost.toFixed(2)} exceeds the job budget of $${budget.toFixed(2)}`,
+            budget,
+            estimate,
+          });
+          return;
+        }
+      }
+
+      // Every check has passed; only now is the job changed
+      await database.updateJobTemplateVersion(jobId, templateVersionId);
+      await database.updateJobVariants(jobId, variantCount, variantTemplateVersionIds);
+
+      if (reextract) {
+        logger.info(`Re-extracting URLs for job ${jobId} from column '${mapping.urlColumn}'`);
+        await database.deleteUrlsByJob(jobId);
+        const { totalRows, validation } = await this.csvService.parseCSVStreaming(job.file_path, mapping.urlColumn, jobId);
+        await database.updateJobRowValidation(jobId, totalRows, validation);
+      }
+      await database.updateJobColumnMapping(jobId, mapping);
+
+      // Update job's content type
+      await database.updateJobContentType(jobId, contentType);
+
+      // The job keeps the provider it started with, so resumes and retries use it too
+      await database.updateJobProvider(jobId, providerId);
+      await database.updateJobProcessingMode(jobId, mode);
+      await database.updateJobPageEnrichment(jobId, enrichPages);
+      await database.updateJobCacheUse(jobId, useCache);
+      await database.updateJobBudget(jobId, budget > 0 ? budget : null);
+
       // Update job status to processing and reset counters
       await database.updateJobStatus(jobId, 'processing', 0, 0);
+      await database.updateJobStopReason(jobId, null);
 
       // Reset all URL statuses to pending for this job
       await database.resetUrlStatusesForJob(jobId);
 
+      // Rows with the same URL render the same prompt unless the templates use columns that differ between them
+      const templateColumns = [prompt || getPromptTemplate(contentType as ContentType), ...variantPrompts]
+        .flatMap(template => extractTemplateColumns(template));
+      const duplicateRows = await database.assignDuplicateRows(jobId, templateSourceColumns(templateColumns, mapping));
+      if (duplicateRows > 0) {
+        logger.info(`Job ${jobId} has ${duplicateRows} duplicate rows that will reuse an earlier row's opener`);
+      }
+
       // Emit job start event
       progressEmitter.emitJobStart(jobId, totalUrls);
 
-      // For large jobs, use streaming processing
-      if (totalUrls > config.batchSize) {
-        await this.startStreamingProcessing(jobId, contentType as ContentType, totalUrls);
+      if (mode === 'batch') {
+        // Rows are rendered and uploaded by the batch worker, then polled until the batch ends
+        await queueBatchSubmission(jobId);
+      } else if (totalUrls > config.batchSize) {
+        // For large jobs, use streaming processing
+        await this.startStreamingProcessing(jobId, contentType as ContentType, totalUrls, prompt);
       } else {
         // For small jobs, use the original method
         const urls = await database.getUrlsByJob(jobId);
-        const urlRecords = urls.map(url => ({
+        const urlRecords = urls.filter(url => url.status === 'pending' && !url.duplicate_of).map(url => ({
           id: url.id,
-          url: url.url
+          url: url.url,
+          originalData: url.original_data || undefined
         }));
 
         // Add chunked jobs to the queue
-        await addChunkedJobs(jobId, urlRecords, contentType as ContentType);
+        await addChunkedJobs(jobId, urlRecords, contentType as ContentType, prompt);
       }
 
       logger.info(`Started processing job ${jobId} with ${totalUrls} URLs`);
@@ -320,7 +725,15 @@ export class UploadController {
         jobId,
         message: 'Processing started',
         totalUrls,
-        streaming: totalUrls > config.batchSize
+        columnMapping: mapping,
+        enrichPages,
+        useCache,
+        duplicateRows,
+        provider: providerId,
+        mode,
+        variants: variantCount,
+        budget: budget > 0 ? budget : null,
+        streaming: mode === 'realtime' && totalUrls > config.batchSize
       });
     } catch (error) {
       logger.error('Start processing error:', error);
@@ -331,7 +744,61 @@ export class UploadController {
     }
   }
 
-  private async startStreamingProcessing(jobId: string, contentType: ContentType, totalUrls: number): Promise<void> {
+  // Render the prompt for the first rows of a job without calling the AI service
+  async previewPrompts(req: Request, res: Response): Promise<void> {
+    try {
+      const { jobId, templateId } = req.body;
+      const contentType: ContentType = req.body.contentType || 'company';
+      const limit: number = req.body.limit || 5;
+
+      const job = await database.getJobForWorkspace(jobId, req.workspace!.id);
+      if (!job) {
+        res.status(404).json({ error: 'Job not found' });
+        return;
+      }
+
+      let prompt: PromptTemplate = getPromptTemplate(contentType);
+      let templateVersion: number | null = null;
+      if (templateId) {
+        const template = await database.getPromptTemplate(templateId, req.workspace!.id);
+        if (!template) {
+          res.status(404).json({ error: 'Template not found' });
+          return;
+        }
+        prompt = { system: template.system_prompt, user: template.user_prompt };
+        templateVersion = template.version;
+      }
+
+      const urls = await database.getUrlsByJobPaginated(jobId, 0, limit);
+      const rows = urls.map(url => ({
+        rowIndex: url.row_index,
+        url: url.url,
+        ...renderPrompt(prompt, url.url, applyColumnMapping(url.original_data || undefined, job.column_mapping)),
+      }));
+
+      res.json({
+        jobId,
+        templateId: templateId || null,
+        templateVersion,
+        variables: extractTemplateColumns(prompt),
+        missingColumns: findMissingTemplateColumns(prompt, mappedTemplateColumns(job.columns || [], job.column_mapping)),
+        rows,
+      });
+    } catch (error) {
+      logger.error('Preview prompts error:', error);
+      res.status(500).json({
+        error: 'Failed to preview prompts',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  private async startStreamingProcessing(
+    jobId: string,
+    contentType: ContentType,
+    totalUrls: number,
+    prompt?: PromptTemplate
+  ): Promise<void> {
     logger.info(`Starting streaming processing for job ${jobId} with ${totalUrls} URLs`);
     
     const batchSize = config.batchSize;
@@ -353,13 +820,14 @@ export class UploadController {
         break;
       }
 
-      const urlRecords = urlBatch.map(url => ({
+      const urlRecords = urlBatch.filter(url => !url.duplicate_of).map(url => ({
         id: url.id,
-        url: url.url
+        url: url.url,
+        originalData: url.original_data || undefined
       }));
 
       // Add chunked jobs to the queue
-      await addChunkedJobs(jobId, urlRecords, contentType);
+      await addChunkedJobs(jobId, urlRecords, contentType, prompt);
 
       processedBatches++;
       offset += batchSize;
@@ -422,16 +890,33 @@ export class UploadController {
         return;
       }
 
-      // Get results from database
-      const results = await database.getJobResults(jobId);
-      
-      // Generate CSV content
-      const csvContent = this.generateResultsCSV(results.urls);
-      
-      // Set headers for CSV download
-      res.setHeader('Content-Type', 'text/csv');
-      res.setHeader('Content-Disposition', `attachment; filename="${job.file_name}_results.csv"`);
-      res.send(csvContent);
+      // `?review=approved` exports only the rows reviewers approved
+      const reviewStatus = parseReviewFilter(req.query.review);
+      let table: ResultsTable;
+      let rowIds: string[];
+      if (parseDownloadMode(req.query.mode) === 'merged') {
+        // Original rows with the opener columns appended
+        const rows = await database.getMergedResults(jobId, reviewStatus);
+        table = buildMergedResultsTable(job.columns || [], rows);
+        rowIds = rows.map(row => row.id);
+      } else {
+        // Get results from database
+        const results = await database.getJobResults(jobId, reviewStatus);
+        table = this.buildResultsTable(results.urls);
+        rowIds = results.urls.map(url => url.id);
+      }
+
+      if (job.variant_count > 1) {
+        table = appendVariantColumns(table, rowIds, await database.getVariantsByJob(jobId), job.variant_count);
+      }
+
+      // Results round-trip into the format the file was uploaded in unless another is requested
+      const format = parseExportFormat(req.query.format, job.source_format || 'csv');
+      const file = await serializeResults(table, format, job.source_sheet || undefined);
+
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${resultsFileName(job.file_name, file.extension)}"`);
+      res.send(file.content);
     } catch (error) {
       logger.error('Download results error:', error);
       res.status(500).json({
@@ -441,7 +926,7 @@ export class UploadController {
     }
   }
 
-  private generateResultsCSV(urls: Array<{ url: string; status: string; opener?: string; error?: string }>): string {
+  private buildResultsTable(urls: Array<{ url: string; status: string; opener?: string; error?: string }>): ResultsTable {
     const headers = ['URL', 'Status', 'Opener', 'Error'];
     const rows = urls.map(url => [
       url.url,
@@ -450,11 +935,7 @@ export class UploadController {
       url.error || ''
     ]);
 
-    const csvContent = [headers, ...rows]
-      .map(row => row.map(field => `"${field.replace(/"/g, '""')}"`).join(','))
-      .join('\n');
-
-    return csvContent;
+    return { headers, rows };
   }
 
   async cancelJob(req: Request, res: Response): Promise<void> {
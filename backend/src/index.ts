@@ -7,14 +7,26 @@ import { config } from './config';
 import { logger } from './utils/logger';
 import { redis } from './services/redis';
 import { csvProcessingQueue, csvProcessingWorker } from './services/queue';
+import { batchQueue, batchWorker } from './services/batchProcessor';
+import { webhookQueue, webhookWorker } from './services/webhooks';
 import { database } from './services/database';
+import { progressEmitter } from './services/progressEmitter';
 import { errorHandler } from './middleware/errorHandler';
 import { rateLimiter } from './middleware/rateLimiter';
+import { requireAuth, requireSession } from './middleware/auth';
+import { requireRole, requireWorkspace } from './middleware/workspace';
 import { memoryMonitor } from './utils/memoryMonitor';
+import { getOpenApiSpec } from './utils/openapi';
 
 // Import routes
+import authRoutes from './routes/auth';
 import uploadRoutes from './routes/upload';
 import jobRoutes from './routes/jobs';
+import templateRoutes from './routes/templates';
+import budgetRoutes from './routes/budgets';
+import workspaceRoutes from './routes/workspaces';
+import apiKeyRoutes from './routes/apiKeys';
+import webhookRoutes from './routes/webhooks';
 
 // Load environment variables
 dotenv.config();
@@ -38,6 +50,9 @@ app.use((req, res, next) => {
   if (req.path.startsWith('/api/jobs')) {
     return next(); // Skip global rate limiter for jobs routes
   }
+  if (req.path.startsWith('/api/upload/sessions')) {
+    return next(); // Upload sessions have their own limiter, sized for one request per part
+  }
   return rateLimiter(req, res, next);
 });
 
@@ -50,9 +65,21 @@ app.get('/health', (req, res) => {
   });
 });
 
-// API routes
-app.use('/api/upload', uploadRoutes);
-app.use('/api/jobs', jobRoutes);
+// OpenAPI 3 description of the public API, generated from the validation schemas
+app.get('/api/openapi.json', (req, res) => {
+  res.json(getOpenApiSpec());
+});
+
+// API routes; everything but signing in requires a signed-in user or an API key, and
+// jobs, templates, budgets and webhooks are those of the workspace the request acts in
+app.use('/api/auth', authRoutes);
+app.use('/api/workspaces', requireAuth, workspaceRoutes);
+app.use('/api/api-keys', requireAuth, requireSession, apiKeyRoutes);
+app.use('/api/upload', requireAuth, requireWorkspace, uploadRoutes);
+app.use('/api/jobs', requireAuth, requireWorkspace, jobRoutes);
+app.use('/api/templates', requireAuth, requireWorkspace, templateRoutes);
+app.use('/api/budgets', requireAuth, requireWorkspace, budgetRoutes);
+app.use('/api/webhooks', requireAuth, requireWorkspace, requireRole('admin'), webhookRoutes);
 
 // Error handling
 app.use(errorHandler);
@@ -75,6 +102,11 @@ const gracefulShutdown = async () => {
       
       await csvProcessingWorker.close();
       await csvProcessingQueue.close();
+      await batchWorker.close();
+      await batchQueue.close();
+      await webhookWorker.close();
+      await webhookQueue.close();
+      await progressEmitter.close();
       await database.cleanup();
       await redis.quit();
       logger.info('All connections closed');
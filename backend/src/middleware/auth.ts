@@ -0,0 +1,100 @@
+import { Request, Response, NextFunction, CookieOptions } from 'express';
+import { config } from '../config';
+import { getSessionUser, PublicUser, toPublicUser } from '../services/auth';
+import { authenticateApiKey, isApiKey, scopeForMethod } from '../services/apiKeys';
+import { ApiKeyScope } from '../services/database';
+import { logger } from '../utils/logger';
+
+const SESSION_COOKIE = 'csv_opener_session';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // The signed-in user, set by requireAuth
+      user?: PublicUser;
+      // The API key the request was made with, when it wasn't made with a session
+      apiKey?: { id: string; scopes: ApiKeyScope[] };
+    }
+  }
+}
+
+const sessionCookieOptions: CookieOptions = {
+  httpOnly: true,
+  sameSite: 'lax',
+  secure: config.nodeEnv === 'production',
+  path: '/',
+};
+
+// API clients send a session token or API key as a Bearer header; the web app gets its token as a cookie
+export function readSessionToken(req: Request): string | null {
+  const header = req.header('authorization');
+  if (header && header.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim() || null;
+  }
+
+  for (const cookie of (req.header('cookie') || '').split(';')) {
+    const [name, ...value] = cookie.trim().split('=');
+    if (name === SESSION_COOKIE) {
+      return decodeURIComponent(value.join('=')) || null;
+    }
+  }
+  return null;
+}
+
+export function setSessionCookie(res: Response, token: string): void {
+  res.cookie(SESSION_COOKIE, token, { ...sessionCookieOptions, maxAge: config.sessionTtl * 1000 });
+}
+
+export function clearSessionCookie(res: Response): void {
+  res.clearCookie(SESSION_COOKIE, sessionCookieOptions);
+}
+
+export const requireAuth = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const token = readSessionToken(req);
+
+    if (token && isApiKey(token)) {
+      const found = await authenticateApiKey(token);
+      if (!found) {
+        res.status(401).json({ error: 'Invalid or revoked API key' });
+        return;
+      }
+
+      const scope = scopeForMethod(req.method);
+      if (!found.apiKey.scopes.includes(scope)) {
+        res.status(403).json({ error: `This API key lacks the ${scope} scope` });
+        return;
+      }
+
+      req.user = toPublicUser(found.user);
+      req.apiKey = { id: found.apiKey.id, scopes: found.apiKey.scopes };
+      next();
+      return;
+    }
+
+    const user = token ? await getSessionUser(token) : null;
+    if (!user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    req.user = toPublicUser(user);
+    next();
+  } catch (error) {
+    logger.error('Authentication error:', error);
+    res.status(500).json({ error: 'Failed to authenticate' });
+  }
+};
+
+// For routes behind requireAuth that only a signed-in user may use, not an API key
+export const requireSession = (req: Request, res: Response, next: NextFunction): void => {
+  if (req.apiKey) {
+    res.status(403).json({ error: 'API keys cannot be used here; sign in instead' });
+    return;
+  }
+  next();
+};
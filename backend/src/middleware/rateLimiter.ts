@@ -24,3 +24,26 @@ export const pollingRateLimiter = rateLimit({
   // Skip successful requests to avoid penalizing normal polling
   skipSuccessfulRequests: true,
 });
+
+// Upload sessions send a request per part, so they get their own, larger allowance
+export const uploadSessionRateLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 1000, // 5GB of parts at the default part size
+  message: {
+    error: 'Too many upload requests from this IP, please try again later.'
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Failed sign-ins and registrations, to slow down password guessing
+export const authRateLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 20, // limit each IP to 20 failed attempts per windowMs
+  message: {
+    error: 'Too many sign-in attempts from this IP, please try again later.'
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  skipSuccessfulRequests: true,
+});
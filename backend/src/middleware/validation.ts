@@ -1,15 +1,127 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
+import { config } from '../config';
+
+// Schemas the public API is documented from (see utils/openapi.ts) are shared with their middleware
+
+export const startProcessingSchema = Joi.object({
+  jobId: Joi.string().uuid().required().description('Job created by the upload'),
+  contentType: Joi.string().valid('company', 'person', 'news').optional().description('Built-in prompt to use'),
+  templateId: Joi.string().uuid().optional().description('Prompt template to use instead of a built-in prompt'),
+  enrichPages: Joi.boolean().optional().description('Fetch each page and make its title and text available to the prompt'),
+  useCache: Joi.boolean().optional().description('Reuse openers generated for the same URL and template'),
+  provider: Joi.string().max(100).optional().description('AI provider id'),
+  mode: Joi.string().valid('realtime', 'batch').optional(),
+  variants: Joi.number().integer().min(1).max(5).optional().description('Openers to generate per row'),
+  variantTemplateIds: Joi.array().items(Joi.string().uuid().allow(null)).max(5).optional()
+    .description("Template per variant, by position; null uses the job's template"),
+  urlColumn: Joi.string().optional(),
+  nameColumn: Joi.string().allow(null, '').optional(),
+  companyColumn: Joi.string().allow(null, '').optional(),
+  budget: Joi.number().min(0).optional().description('Spending cap for the job in USD'),
+  fileName: Joi.string().optional(),
+}).or('contentType', 'templateId');
+
+export const jobIdSchema = Joi.object({
+  jobId: Joi.string().uuid().required(),
+});
 
 export const validateStartProcessing = (
   req: Request,
   res: Response,
   next: NextFunction
+): void => {
+  const { error } = startProcessingSchema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: 'Validation error',
+      details: error.details.map(detail => detail.message),
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validatePromptPreview = (
+  req: Request,
+  res: Response,
+  next: NextFunction
 ): void => {
   const schema = Joi.object({
     jobId: Joi.string().uuid().required(),
-    contentType: Joi.string().valid('company', 'person', 'news').required(),
-    fileName: Joi.string().optional(),
+    contentType: Joi.string().valid('company', 'person', 'news').optional(),
+    templateId: Joi.string().uuid().optional(),
+    limit: Joi.number().integer().min(1).max(20).optional(),
+  });
+
+  const { error } = schema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: 'Validation error',
+      details: error.details.map(detail => detail.message),
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateJobEstimate = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const schema = Joi.object({
+    contentType: Joi.string().valid('company', 'person', 'news').optional(),
+    templateId: Joi.string().uuid().allow(null).optional(),
+    enrichPages: Joi.boolean().optional(),
+    provider: Joi.string().max(100).optional(),
+    mode: Joi.string().valid('realtime', 'batch').optional(),
+    variants: Joi.number().integer().min(1).max(5).optional(),
+    sampleSize: Joi.number().integer().min(1).max(100).optional(),
+  });
+
+  const { error } = schema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: 'Validation error',
+      details: error.details.map(detail => detail.message),
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateJobBudget = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const schema = Joi.object({
+    budget: Joi.number().min(0).allow(null).required(),
+  });
+
+  const { error } = schema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: 'Validation error',
+      details: error.details.map(detail => detail.message),
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateDailyBudget = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const schema = Joi.object({
+    amount: Joi.number().min(0).required(),
   });
 
   const { error } = schema.validate(req.body);
@@ -28,15 +140,277 @@ export const validateJobId = (
   req: Request,
   res: Response,
   next: NextFunction
+): void => {
+  const { error } = jobIdSchema.validate(req.params);
+  if (error) {
+    res.status(400).json({
+      error: 'Invalid job ID',
+      details: error.details.map(detail => detail.message),
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validatePreferredVariant = (
+  req: Request,
+  res: Response,
+  next: NextFunction
 ): void => {
   const schema = Joi.object({
-    jobId: Joi.string().uuid().required(),
+    variant: Joi.number().integer().min(1).max(5).required(),
+  });
+
+  const { error } = schema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: 'Validation error',
+      details: error.details.map(detail => detail.message),
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateOpenerEdit = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const schema = Joi.object({
+    // null reverts the row to the model's opener
+    opener: Joi.string().trim().min(1).max(5000).allow(null).required(),
+  });
+
+  const { error } = schema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: 'Validation error',
+      details: error.details.map(detail => detail.message),
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateUrlReview = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const schema = Joi.object({
+    status: Joi.string().valid('pending', 'approved', 'rejected').required(),
+  });
+
+  const { error } = schema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: 'Validation error',
+      details: error.details.map(detail => detail.message),
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateRegenerate = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const schema = Joi.object({
+    urlIds: Joi.array().items(Joi.string().uuid()).min(1).max(1000).required(),
+    instruction: Joi.string().trim().max(500).allow('', null).optional(),
+  });
+
+  const { error } = schema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: 'Validation error',
+      details: error.details.map(detail => detail.message),
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateOpenerRevert = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const schema = Joi.object({
+    historyId: Joi.string().uuid().required(),
+  });
+
+  const { error } = schema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: 'Validation error',
+      details: error.details.map(detail => detail.message),
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateTemplateId = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const schema = Joi.object({
+    templateId: Joi.string().uuid().required(),
   });
 
   const { error } = schema.validate(req.params);
   if (error) {
     res.status(400).json({
-      error: 'Invalid job ID',
+      error: 'Invalid template ID',
+      details: error.details.map(detail => detail.message),
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateCreatePromptTemplate = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const schema = Joi.object({
+    name: Joi.string().trim().max(255).required(),
+    description: Joi.string().allow('', null).max(2000).optional(),
+    systemPrompt: Joi.string().trim().max(10000).required(),
+    userPrompt: Joi.string().trim().max(10000).required(),
+  });
+
+  const { error } = schema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: 'Validation error',
+      details: error.details.map(detail => detail.message),
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateUpdatePromptTemplate = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const schema = Joi.object({
+    name: Joi.string().trim().max(255).optional(),
+    description: Joi.string().allow('', null).max(2000).optional(),
+    systemPrompt: Joi.string().trim().max(10000).optional(),
+    userPrompt: Joi.string().trim().max(10000).optional(),
+  }).min(1);
+
+  const { error } = schema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: 'Validation error',
+      details: error.details.map(detail => detail.message),
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateCreateUploadSession = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const schema = Joi.object({
+    fileName: Joi.string().trim().max(255).required(),
+    fileSize: Joi.number().integer().min(1).max(config.maxUploadSize).required(),
+    // SHA-256 of the whole file, checked once the parts are assembled
+    checksum: Joi.string().hex().length(64).optional(),
+  });
+
+  const { error } = schema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: 'Validation error',
+      details: error.details.map(detail => detail.message),
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateUploadSessionId = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const schema = Joi.object({
+    sessionId: Joi.string().uuid().required(),
+    partNumber: Joi.number().integer().min(1).optional(),
+  });
+
+  const { error } = schema.validate(req.params);
+  if (error) {
+    res.status(400).json({
+      error: 'Invalid upload session',
+      details: error.details.map(detail => detail.message),
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateUploadPart = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const schema = Joi.object({
+    'x-part-checksum': Joi.string().hex().length(64).required(),
+  }).unknown(true);
+
+  const { error } = schema.validate(req.headers);
+  if (error) {
+    res.status(400).json({
+      error: 'Validation error',
+      details: error.details.map(detail => detail.message),
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateRegister = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const schema = Joi.object({
+    email: Joi.string().email().max(255).required(),
+    name: Joi.string().max(255).allow(null, '').optional(),
+    password: Joi.string().min(8).max(200).required(),
+  });
+
+  const { error } = schema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: 'Validation error',
       details: error.details.map(detail => detail.message),
     });
     return;
@@ -45,3 +419,161 @@ export const validateJobId = (
   next();
 };
 
+export const validateLogin = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const schema = Joi.object({
+    email: Joi.string().max(255).required(),
+    password: Joi.string().max(200).required(),
+  });
+
+  const { error } = schema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: 'Validation error',
+      details: error.details.map(detail => detail.message),
+    });
+    return;
+  }
+
+  next();
+};
+
+const WORKSPACE_ROLES = ['viewer', 'editor', 'admin'];
+
+export const validateWorkspace = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const schema = Joi.object({
+    name: Joi.string().trim().min(1).max(255).required(),
+  });
+
+  const { error } = schema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: 'Validation error',
+      details: error.details.map(detail => detail.message),
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateAddWorkspaceMember = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const schema = Joi.object({
+    email: Joi.string().email().max(255).required(),
+    role: Joi.string().valid(...WORKSPACE_ROLES).required(),
+  });
+
+  const { error } = schema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: 'Validation error',
+      details: error.details.map(detail => detail.message),
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateWorkspaceMemberRole = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const schema = Joi.object({
+    role: Joi.string().valid(...WORKSPACE_ROLES).required(),
+  });
+
+  const { error } = schema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: 'Validation error',
+      details: error.details.map(detail => detail.message),
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateCreateApiKey = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const schema = Joi.object({
+    name: Joi.string().trim().min(1).max(255).required(),
+    scopes: Joi.array().items(Joi.string().valid('read', 'write')).min(1).required(),
+  });
+
+  const { error } = schema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: 'Validation error',
+      details: error.details.map(detail => detail.message),
+    });
+    return;
+  }
+
+  next();
+};
+
+const WEBHOOK_EVENTS = ['job.started', 'job.completed', 'job.failed', 'job.stopped', 'url.completed'];
+
+export const validateCreateWebhook = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const schema = Joi.object({
+    url: Joi.string().trim().uri({ scheme: ['http', 'https'] }).max(2000).required(),
+    events: Joi.array().items(Joi.string().valid(...WEBHOOK_EVENTS)).min(1).unique().required(),
+    description: Joi.string().trim().max(500).allow('', null).optional(),
+  });
+
+  const { error } = schema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: 'Validation error',
+      details: error.details.map(detail => detail.message),
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateUpdateWebhook = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const schema = Joi.object({
+    url: Joi.string().trim().uri({ scheme: ['http', 'https'] }).max(2000).optional(),
+    events: Joi.array().items(Joi.string().valid(...WEBHOOK_EVENTS)).min(1).unique().optional(),
+    description: Joi.string().trim().max(500).allow('', null).optional(),
+    active: Joi.boolean().optional(),
+  }).min(1);
+
+  const { error } = schema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: 'Validation error',
+      details: error.details.map(detail => detail.message),
+    });
+    return;
+  }
+
+  next();
+};
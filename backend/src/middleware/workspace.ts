@@ -0,0 +1,93 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { validate as isUuid } from 'uuid';
+import { database, WorkspaceRole } from '../services/database';
+import { getMembership, getUserWorkspaces, hasRole, WorkspaceError } from '../services/workspaces';
+import { logger } from '../utils/logger';
+
+// The web app sends the selected workspace as this header; EventSource can't, so `?workspace=` works too
+export const WORKSPACE_HEADER = 'x-workspace-id';
+
+export interface RequestWorkspace {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      // The workspace the request acts in and the user's role there, set by requireWorkspace
+      workspace?: RequestWorkspace;
+    }
+  }
+}
+
+function readWorkspaceId(req: Request): string | null {
+  const header = req.header(WORKSPACE_HEADER);
+  if (header) {
+    return header.trim();
+  }
+  return typeof req.query.workspace === 'string' ? req.query.workspace : null;
+}
+
+/**
+ * For routers behind requireAuth. Uses the workspace the request names, or
+ * the user's first one when it names none.
+ */
+export const requireWorkspace = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const workspaceId = readWorkspaceId(req);
+    const membership = workspaceId
+      ? await getMembership(workspaceId, req.user!.id)
+      : (await getUserWorkspaces(req.user!))[0];
+
+    req.workspace = { id: membership.id, name: membership.name, role: membership.role };
+    next();
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    logger.error('Workspace check error:', error);
+    res.status(500).json({ error: 'Failed to get workspace' });
+  }
+};
+
+// Only lets the request through when the user's role in the workspace is at least `role`
+export function requireRole(role: WorkspaceRole): RequestHandler {
+  return (req, res, next) => {
+    if (!req.workspace || !hasRole(req.workspace.role, role)) {
+      res.status(403).json({ error: `This action needs the ${role} role in the workspace` });
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * `router.param('jobId', ...)` handler for routers behind requireWorkspace.
+ * Jobs of other workspaces are answered like jobs that don't exist.
+ */
+export const requireWorkspaceJob = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  jobId: string
+): Promise<void> => {
+  try {
+    const job = isUuid(jobId) ? await database.getJobForWorkspace(jobId, req.workspace!.id) : null;
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    logger.error('Job workspace check error:', error);
+    res.status(500).json({ error: 'Failed to get job' });
+  }
+};
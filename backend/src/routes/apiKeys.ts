@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import { validate as isUuid } from 'uuid';
+import { database } from '../services/database';
+import { createApiKey, toPublicApiKey } from '../services/apiKeys';
+import { logger } from '../utils/logger';
+import { validateCreateApiKey } from '../middleware/validation';
+
+const router = Router();
+
+// List the signed-in user's API keys, revoked ones included
+router.get('/', async (req, res) => {
+  try {
+    const apiKeys = await database.getApiKeysByUser(req.user!.id);
+    res.json(apiKeys.map(toPublicApiKey));
+  } catch (error) {
+    logger.error('Get API keys error:', error);
+    res.status(500).json({ error: 'Failed to get API keys' });
+  }
+});
+
+// Create an API key; the key is only in this response, so it has to be copied now
+router.post('/', validateCreateApiKey, async (req, res) => {
+  try {
+    const { apiKey, key } = await createApiKey(req.user!.id, req.body.name, req.body.scopes);
+    res.status(201).json({ apiKey: toPublicApiKey(apiKey), key });
+  } catch (error) {
+    logger.error('Create API key error:', error);
+    res.status(500).json({ error: 'Failed to create API key' });
+  }
+});
+
+// Revoke an API key; requests made with it are refused from then on
+router.delete('/:keyId', async (req, res) => {
+  try {
+    const revoked = isUuid(req.params.keyId)
+      && await database.revokeApiKey(req.params.keyId, req.user!.id);
+
+    if (!revoked) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+
+    logger.info(`User ${req.user!.id} revoked API key ${req.params.keyId}`);
+    return res.json({ message: 'API key revoked' });
+  } catch (error) {
+    logger.error('Revoke API key error:', error);
+    return res.status(500).json({ error: 'Failed to revoke API key' });
+  }
+});
+
+export default router;
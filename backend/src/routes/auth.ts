@@ -0,0 +1,71 @@
+import { Router } from 'express';
+import {
+  AuthError,
+  authenticateUser,
+  createSession,
+  endSession,
+  registerUser,
+  toPublicUser,
+} from '../services/auth';
+import { logger } from '../utils/logger';
+import { authRateLimiter } from '../middleware/rateLimiter';
+import { validateLogin, validateRegister } from '../middleware/validation';
+import { clearSessionCookie, readSessionToken, requireAuth, setSessionCookie } from '../middleware/auth';
+
+const router = Router();
+
+// Create an account and sign in with it
+router.post('/register', authRateLimiter, validateRegister, async (req, res) => {
+  try {
+    const user = await registerUser(req.body.email, req.body.name || null, req.body.password);
+    const token = await createSession(user.id);
+    setSessionCookie(res, token);
+
+    return res.status(201).json({ user: toPublicUser(user), token });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Register error:', error);
+    return res.status(500).json({ error: 'Failed to register' });
+  }
+});
+
+// Sign in; the session token is set as a cookie and also returned for API clients
+router.post('/login', authRateLimiter, validateLogin, async (req, res) => {
+  try {
+    const user = await authenticateUser(req.body.email, req.body.password);
+    const token = await createSession(user.id);
+    setSessionCookie(res, token);
+
+    return res.json({ user: toPublicUser(user), token });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Login error:', error);
+    return res.status(500).json({ error: 'Failed to sign in' });
+  }
+});
+
+router.post('/logout', async (req, res) => {
+  try {
+    const token = readSessionToken(req);
+    if (token) {
+      await endSession(token);
+    }
+    clearSessionCookie(res);
+
+    return res.json({ message: 'Signed out' });
+  } catch (error) {
+    logger.error('Logout error:', error);
+    return res.status(500).json({ error: 'Failed to sign out' });
+  }
+});
+
+// The signed-in user
+router.get('/me', requireAuth, (req, res) => {
+  res.json({ user: req.user });
+});
+
+export default router;
@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { database } from '../services/database';
+import { getDailyBudget } from '../services/budgets';
+import { logger } from '../utils/logger';
+import { validateDailyBudget } from '../middleware/validation';
+import { requireRole } from '../middleware/workspace';
+
+const router = Router();
+
+// Get the workspace's spending caps and what has been spent against them
+router.get('/', async (req, res) => {
+  try {
+    res.json({ daily: await getDailyBudget(req.workspace!.id) });
+  } catch (error) {
+    logger.error('Get budgets error:', error);
+    res.status(500).json({ error: 'Failed to get budgets' });
+  }
+});
+
+// Set the daily cap across the workspace's jobs (USD, 0 for no cap); jobs it stopped can then be resumed
+router.put('/daily', requireRole('admin'), validateDailyBudget, async (req, res) => {
+  try {
+    await database.setSpendingBudget(req.workspace!.id, 'day', req.body.amount);
+    res.json({ daily: await getDailyBudget(req.workspace!.id) });
+  } catch (error) {
+    logger.error('Update daily budget error:', error);
+    res.status(500).json({
+      error: 'Failed to update daily budget',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+export default router;
@@ -1,13 +1,57 @@
 import { Router } from 'express';
-import { database } from '../services/database';
+import { database, toJobUsage, UrlRecord } from '../services/database';
 import { logger } from '../utils/logger';
 import { pollingRateLimiter } from '../middleware/rateLimiter';
-import { progressEmitter, JobProgressUpdate } from '../services/progressEmitter';
-import { stopJob, resumeJob, cleanupJob } from '../services/queue';
-import { AIServiceFactory } from '../services/aiServiceFactory';
+import { requireRole, requireWorkspaceJob } from '../middleware/workspace';
+import {
+  compareProgressEventIds,
+  isProgressEventId,
+  progressEmitter,
+  JobProgressUpdate,
+  toProgressCost,
+} from '../services/progressEmitter';
+import { stopJob, resumeJob, cleanupJob, addChunkedJobs, getJobPrompt, REGENERATION_PRIORITY } from '../services/queue';
+import { cancelJobBatches, resumeBatchJob, toBatchSummary } from '../services/batchProcessor';
+import { providerRegistry } from '../services/providers/registry';
+import { estimateJob } from '../services/jobEstimator';
+import { checkJobBudgets, describeExceededBudget } from '../services/budgets';
+import { getQualitySettings } from '../services/openerQuality';
+import { PublicUser } from '../services/auth';
+import {
+  validateJobEstimate,
+  validateJobBudget,
+  validatePreferredVariant,
+  validateOpenerEdit,
+  validateUrlReview,
+  validateRegenerate,
+  validateOpenerRevert,
+} from '../middleware/validation';
+import { getPricingTable } from '../utils/pricing';
+import { PromptTemplate } from '../types';
+import {
+  ResultsTable,
+  parseDownloadMode,
+  parseExportFormat,
+  parseReviewFilter,
+  buildMergedResultsTable,
+  appendVariantColumns,
+  variantLabel,
+  serializeResults,
+  resultsFileName,
+} from '../utils/resultsExport';
 
 const router = Router();
 
+const ORIGINAL_CONTENT_TYPES: Record<string, string> = {
+  csv: 'text/csv',
+  tsv: 'text/tab-separated-values',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+function workbookPath(filePath: string): string {
+  return filePath.replace(/\.tsv$/, '.xlsx');
+}
+
 // Apply polling rate limiter to all job status endpoints except SSE
 router.use((req, res, next) => {
   // Skip rate limiting for SSE endpoints
@@ -17,6 +61,10 @@ router.use((req, res, next) => {
   return pollingRateLimiter(req, res, next);
 });
 
+// Every route with a job id only reaches jobs of the request's workspace; viewers can read and
+// download them, editors can also run them, admins can also delete them
+router.param('jobId', requireWorkspaceJob);
+
 // Get job status
 router.get('/:jobId', async (req, res) => {
   try {
@@ -28,6 +76,7 @@ router.get('/:jobId', async (req, res) => {
     }
 
     const progress = await database.getJobProgress(jobId);
+    const reuse = await database.getReuseSummary(jobId);
     
     return res.json({
       jobId: job.id,
@@ -37,6 +86,17 @@ router.get('/:jobId', async (req, res) => {
       totalRows: job.total_rows,
       processedRows: job.processed_rows,
       failedRows: job.failed_rows,
+      skippedRows: job.skipped_rows,
+      validation: job.validation_report,
+      templateVersionId: job.template_version_id,
+      provider: job.provider_id,
+      processingMode: job.processing_mode,
+      variants: job.variant_count,
+      useCache: job.use_cache,
+      reuse,
+      usage: toJobUsage(job),
+      budget: job.budget,
+      stopReason: job.stop_reason,
       createdAt: job.created_at,
       updatedAt: job.updated_at,
     });
@@ -46,6 +106,27 @@ router.get('/:jobId', async (req, res) => {
   }
 });
 
+// How the job's openers fared against the quality rules, with the rules in effect
+router.get('/:jobId/quality', async (req, res) => {
+  try {
+    const { jobId } = req.params;
+    const job = await database.getJob(jobId);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    return res.json({
+      jobId,
+      summary: await database.getQualitySummary(jobId),
+      settings: getQualitySettings(),
+    });
+  } catch (error) {
+    logger.error('Get job quality error:', error);
+    return res.status(500).json({ error: 'Failed to get job quality' });
+  }
+});
+
 // Get job results
 router.get('/:jobId/results', async (req, res) => {
   try {
@@ -56,9 +137,22 @@ router.get('/:jobId/results', async (req, res) => {
       return res.status(404).json({ error: 'Job not found' });
     }
 
-    const results = await database.getJobResults(jobId);
-    
-    return res.json(results);
+    const results = await database.getJobResults(jobId, parseReviewFilter(req.query.review));
+    if (job.variant_count <= 1) {
+      return res.json(results);
+    }
+
+    // Every variant of each row, with its A/B label
+    const variants = await database.getVariantsByJob(jobId);
+    return res.json({
+      urls: results.urls.map(url => ({
+        ...url,
+        variants: (variants.get(url.id) || []).map(variant => ({
+          ...variant,
+          label: variantLabel(variant.variant_index),
+        })),
+      })),
+    });
   } catch (error) {
     logger.error('Get job results error:', error);
     return res.status(500).json({ error: 'Failed to get job results' });
@@ -79,16 +173,33 @@ router.get('/:jobId/download', async (req, res) => {
       return res.status(400).json({ error: 'Job is not completed yet' });
     }
 
-    // Get results from database
-    const results = await database.getJobResults(jobId);
-    
-    // Generate CSV content
-    const csvContent = generateResultsCSV(results.urls);
-    
-    // Set headers for CSV download
-    res.setHeader('Content-Type', 'text/csv');
-    res.setHeader('Content-Disposition', `attachment; filename="${job.file_name}_results.csv"`);
-    return res.send(csvContent);
+    // `?review=approved` exports only the rows reviewers approved
+    const reviewStatus = parseReviewFilter(req.query.review);
+    let table: ResultsTable;
+    let rowIds: string[];
+    if (parseDownloadMode(req.query.mode) === 'merged') {
+      // Original rows with the opener columns appended
+      const rows = await database.getMergedResults(jobId, reviewStatus);
+      table = buildMergedResultsTable(job.columns || [], rows);
+      rowIds = rows.map(row => row.id);
+    } else {
+      // Get results from database
+      const results = await database.getJobResults(jobId, reviewStatus);
+      table = buildResultsTable(results.urls);
+      rowIds = results.urls.map(url => url.id);
+    }
+
+    if (job.variant_count > 1) {
+      table = appendVariantColumns(table, rowIds, await database.getVariantsByJob(jobId), job.variant_count);
+    }
+
+    // Results round-trip into the format the file was uploaded in unless another is requested
+    const format = parseExportFormat(req.query.format, job.source_format || 'csv');
+    const file = await serializeResults(table, format, job.source_sheet || undefined);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${resultsFileName(job.file_name, file.extension)}"`);
+    return res.send(file.content);
   } catch (error) {
     logger.error('Download results error:', error);
     return res.status(500).json({
@@ -112,16 +223,19 @@ router.get('/:jobId/download-original', async (req, res) => {
     const fs = require('fs');
     const path = require('path');
     
-    if (!fs.existsSync(job.file_path)) {
+    // Workbooks are kept next to the TSV they were converted to
+    const originalPath = job.source_format === 'xlsx' ? workbookPath(job.file_path) : job.file_path;
+
+    if (!fs.existsSync(originalPath)) {
       return res.status(404).json({ error: 'Original file not found' });
     }
 
     // Set headers for file download
-    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Type', ORIGINAL_CONTENT_TYPES[job.source_format] || 'text/csv');
     res.setHeader('Content-Disposition', `attachment; filename="${job.file_name}"`);
     
     // Stream the original file
-    return res.sendFile(path.resolve(job.file_path));
+    return res.sendFile(path.resolve(originalPath));
   } catch (error) {
     logger.error('Download original file error:', error);
     return res.status(500).json({
@@ -132,7 +246,7 @@ router.get('/:jobId/download-original', async (req, res) => {
 });
 
 // Cancel job
-router.post('/:jobId/stop', async (req, res) => {
+router.post('/:jobId/stop', requireRole('editor'), async (req, res) => {
   try {
     const { jobId } = req.params;
     const job = await database.getJob(jobId);
@@ -156,6 +270,10 @@ router.post('/:jobId/stop', async (req, res) => {
       return res.status(500).json({ error: 'Failed to stop job' });
     }
 
+    if (job.processing_mode === 'batch') {
+      await cancelJobBatches(jobId);
+    }
+
     logger.info(`Job ${jobId} stopped successfully`);
 
     return res.json({ message: 'Job stopped successfully' });
@@ -168,7 +286,7 @@ router.post('/:jobId/stop', async (req, res) => {
   }
 });
 
-router.post('/:jobId/resume', async (req, res) => {
+router.post('/:jobId/resume', requireRole('editor'), async (req, res) => {
   try {
     const { jobId } = req.params;
     const job = await database.getJob(jobId);
@@ -181,8 +299,19 @@ router.post('/:jobId/resume', async (req, res) => {
       return res.status(400).json({ error: 'Can only resume stopped jobs' });
     }
 
-    // Resume the job using the queue service
-    const resumed = await resumeJob(jobId);
+    // A job stopped by a spending cap stays stopped until the cap is raised
+    const exceeded = await checkJobBudgets(job);
+    if (exceeded) {
+      return res.status(400).json({
+        error: `${describeExceededBudget(exceeded)}. Raise the budget to resume.`,
+        budget: exceeded,
+      });
+    }
+
+    // Batch mode jobs submit their remaining rows as a new batch
+    const resumed = job.processing_mode === 'batch'
+      ? await resumeBatchJob(jobId)
+      : await resumeJob(jobId);
 
     if (!resumed) {
       return res.status(500).json({ error: 'Failed to resume job' });
@@ -200,7 +329,35 @@ router.post('/:jobId/resume', async (req, res) => {
   }
 });
 
-router.delete('/:jobId', async (req, res) => {
+// Set or clear the job's spending cap (USD); raising it lets a job stopped by the cap resume
+router.put('/:jobId/budget', requireRole('editor'), validateJobBudget, async (req, res) => {
+  try {
+    const { jobId } = req.params;
+    const job = await database.getJob(jobId);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const budget: number | null = req.body.budget || null;
+    await database.updateJobBudget(jobId, budget);
+
+    return res.json({
+      jobId,
+      budget,
+      spent: job.total_cost,
+      exceeded: await checkJobBudgets({ ...job, budget }),
+    });
+  } catch (error) {
+    logger.error('Update job budget error:', error);
+    return res.status(500).json({
+      error: 'Failed to update job budget',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+router.delete('/:jobId', requireRole('admin'), async (req, res) => {
   try {
     const { jobId } = req.params;
     const job = await database.getJob(jobId);
@@ -232,6 +389,17 @@ router.delete('/:jobId', async (req, res) => {
       logger.warn(`Could not delete original file ${job.file_path}:`, fileError);
     }
 
+    // Workbook uploads also keep the original .xlsx
+    if (job.source_format === 'xlsx') {
+      try {
+        if (fs.existsSync(workbookPath(job.file_path))) {
+          fs.unlinkSync(workbookPath(job.file_path));
+        }
+      } catch (fileError) {
+        logger.warn(`Could not delete original workbook for job ${jobId}:`, fileError);
+      }
+    }
+
     // Try to delete the processed file if it exists
     const processedFilePath = job.file_path.replace('.csv', '-processed.csv');
     try {
@@ -255,8 +423,8 @@ router.delete('/:jobId', async (req, res) => {
   }
 });
 
-// Helper function to generate CSV content
-function generateResultsCSV(urls: Array<{ url: string; status: string; opener?: string; error?: string }>): string {
+// Helper function to build the results table
+function buildResultsTable(urls: Array<{ url: string; status: string; opener?: string; error?: string }>): ResultsTable {
   const headers = ['URL', 'Status', 'Generated Opener', 'Error'];
   const rows = urls.map(url => [
     url.url,
@@ -265,15 +433,295 @@ function generateResultsCSV(urls: Array<{ url: string; status: string; opener?:
     url.error || ''
   ]);
   
-  const csvRows = [headers, ...rows].map(row => 
-    row.map(field => `"${(field || '').toString().replace(/"/g, '""')}"`).join(',')
-  );
-  
-  return csvRows.join('\n');
+  return { headers, rows };
+}
+
+// Edits and reviews are always recorded under the signed-in user
+function reviewerName(user: PublicUser): string {
+  return user.name || user.email;
+}
+
+// Review fields of a row, as returned after an edit or review
+function toReviewedUrl(url: UrlRecord) {
+  return {
+    id: url.id,
+    status: url.status,
+    opener: url.opener,
+    opener_original: url.opener_original,
+    opener_edited: url.opener_edited,
+    review_status: url.review_status,
+    reviewed_by: url.reviewed_by,
+    reviewed_at: url.reviewed_at,
+  };
 }
 
+// Edit a generated opener in place; `opener: null` reverts to the model's text
+router.patch('/:jobId/urls/:urlId', requireRole('editor'), validateOpenerEdit, async (req, res) => {
+  try {
+    const { jobId, urlId } = req.params;
+    const url = await database.getUrl(jobId, urlId);
+
+    if (!url) {
+      return res.status(404).json({ error: 'URL not found' });
+    }
+    if (url.status !== 'completed') {
+      return res.status(400).json({ error: 'Only generated openers can be edited' });
+    }
+
+    const updated = await database.editUrlOpener(urlId, req.body.opener, reviewerName(req.user!));
+    return res.json(toReviewedUrl(updated));
+  } catch (error) {
+    logger.error('Edit opener error:', error);
+    return res.status(500).json({ error: 'Failed to edit opener' });
+  }
+});
+
+// Approve or reject a generated opener, or put it back to pending
+router.patch('/:jobId/urls/:urlId/review', requireRole('editor'), validateUrlReview, async (req, res) => {
+  try {
+    const { jobId, urlId } = req.params;
+    const url = await database.getUrl(jobId, urlId);
+
+    if (!url) {
+      return res.status(404).json({ error: 'URL not found' });
+    }
+    if (url.status !== 'completed') {
+      return res.status(400).json({ error: 'Only generated openers can be reviewed' });
+    }
+
+    const updated = await database.updateUrlReview(urlId, req.body.status, reviewerName(req.user!));
+    return res.json(toReviewedUrl(updated));
+  } catch (error) {
+    logger.error('Review opener error:', error);
+    return res.status(500).json({ error: 'Failed to review opener' });
+  }
+});
+
+// Star one of a row's variants; it becomes the row's exported opener
+router.put('/:jobId/urls/:urlId/preferred-variant', requireRole('editor'), validatePreferredVariant, async (req, res) => {
+  try {
+    const { jobId, urlId } = req.params;
+    const variant = await database.setPreferredVariant(jobId, urlId, req.body.variant);
+
+    if (!variant) {
+      return res.status(404).json({ error: 'Variant not found or has no opener' });
+    }
+
+    return res.json({
+      urlId,
+      variant: variant.variant_index,
+      label: variantLabel(variant.variant_index),
+      opener: variant.opener,
+    });
+  } catch (error) {
+    logger.error('Set preferred variant error:', error);
+    return res.status(500).json({ error: 'Failed to set preferred variant' });
+  }
+});
+
+/**
+ * Generate selected rows again, completed or failed, of a job that has completed
+ * or failed, optionally steered by an instruction such as "shorter". The openers
+ * they had are kept in their history.
+ */
+router.post('/:jobId/regenerate', requireRole('editor'), validateRegenerate, async (req, res) => {
+  try {
+    const { jobId } = req.params;
+    const instruction: string | null = req.body.instruction?.trim() || null;
+    const job = await database.getJob(jobId);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    if (job.status === 'pending') {
+      return res.status(400).json({ error: 'Job has not been started' });
+    }
+    if (job.status === 'processing') {
+      return res.status(409).json({ error: 'Wait for the job to finish before regenerating rows' });
+    }
+    // A stopped job still has unprocessed rows, so it would stay processing once the regenerated ones are done
+    if (job.status === 'stopped') {
+      return res.status(409).json({ error: 'Resume the job and let it finish before regenerating rows' });
+    }
+
+    const exceeded = await checkJobBudgets(job);
+    if (exceeded) {
+      return res.status(400).json({
+        error: `${describeExceededBudget(exceeded)}. Raise the budget to regenerate rows.`,
+        budget: exceeded,
+      });
+    }
+
+    const rows = await database.regenerateUrls(jobId, req.body.urlIds, instruction);
+    if (rows.length === 0) {
+      return res.status(400).json({ error: 'None of the selected rows are completed or failed' });
+    }
+
+    const progress = await database.getJobProgress(jobId);
+    if (progress) {
+      await database.updateJobProgress(jobId, progress.processed, progress.failed);
+      progressEmitter.emitUrlProgress(jobId, progress.processed, progress.failed, progress.pending);
+    }
+
+    const prompt = await getJobPrompt(job.template_version_id);
+    await addChunkedJobs(
+      jobId,
+      rows.map(url => ({
+        id: url.id,
+        url: url.url,
+        originalData: url.original_data || undefined,
+        previousOpener: url.status === 'completed' ? url.opener : undefined,
+      })),
+      job.content_type,
+      prompt,
+      { priority: REGENERATION_PRIORITY, regeneration: { instruction } }
+    );
+
+    logger.info(`Regenerating ${rows.length} rows of job ${jobId}${instruction ? ` with instruction "${instruction}"` : ''}`);
+
+    return res.json({
+      message: 'Rows queued for regeneration',
+      regenerated: rows.length,
+      instruction,
+      jobId,
+    });
+  } catch (error) {
+    logger.error('Regenerate rows error:', error);
+    return res.status(500).json({ error: 'Failed to regenerate rows' });
+  }
+});
+
+// Openers a row had before it was regenerated, newest first
+router.get('/:jobId/urls/:urlId/history', async (req, res) => {
+  try {
+    const { jobId, urlId } = req.params;
+    const url = await database.getUrl(jobId, urlId);
+
+    if (!url) {
+      return res.status(404).json({ error: 'URL not found' });
+    }
+
+    const history = await database.getUrlOpenerHistory(urlId);
+    return res.json({
+      urlId,
+      opener: url.opener || null,
+      instruction: url.instruction,
+      history,
+    });
+  } catch (error) {
+    logger.error('Get opener history error:', error);
+    return res.status(500).json({ error: 'Failed to get opener history' });
+  }
+});
+
+// Go back to one of a row's previous openers
+router.post('/:jobId/urls/:urlId/revert', requireRole('editor'), validateOpenerRevert, async (req, res) => {
+  try {
+    const { jobId, urlId } = req.params;
+    const url = await database.getUrl(jobId, urlId);
+
+    if (!url) {
+      return res.status(404).json({ error: 'URL not found' });
+    }
+    if (url.status === 'pending' || url.status === 'processing') {
+      return res.status(409).json({ error: 'Row is still being generated' });
+    }
+
+    const reverted = await database.revertUrlOpener(urlId, req.body.historyId);
+    if (!reverted) {
+      return res.status(404).json({ error: 'History entry not found' });
+    }
+
+    // Reverting a row whose regeneration failed completes it again
+    if (url.status === 'failed') {
+      const progress = await database.getJobProgress(jobId);
+      if (progress) {
+        await database.updateJobProgress(jobId, progress.processed, progress.failed);
+      }
+    }
+
+    return res.json({ ...toReviewedUrl(reverted), instruction: reverted.instruction });
+  } catch (error) {
+    logger.error('Revert opener error:', error);
+    return res.status(500).json({ error: 'Failed to revert opener' });
+  }
+});
+
+// Project tokens, cost and duration before starting a job; settings default to the job's current ones
+router.post('/:jobId/estimate', requireRole('editor'), validateJobEstimate, async (req, res) => {
+  try {
+    const { jobId } = req.params;
+    const job = await database.getJob(jobId);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    let prompt: PromptTemplate | undefined;
+    if (req.body.templateId) {
+      const template = await database.getPromptTemplate(req.body.templateId, req.workspace!.id);
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+      prompt = { system: template.system_prompt, user: template.user_prompt };
+    } else if (req.body.templateId === undefined && job.template_version_id) {
+      const version = await database.getPromptTemplateVersion(job.template_version_id);
+      if (version) {
+        prompt = { system: version.system_prompt, user: version.user_prompt };
+      }
+    }
+
+    if (req.body.provider && !providerRegistry.has(req.body.provider)) {
+      return res.status(400).json({
+        error: `Unknown AI provider: ${req.body.provider}`,
+        providers: providerRegistry.list().map(provider => provider.id),
+      });
+    }
+
+    const estimate = await estimateJob(job, {
+      providerId: req.body.provider,
+      mode: req.body.mode || job.processing_mode,
+      variants: req.body.variants || job.variant_count,
+      contentType: req.body.contentType || job.content_type,
+      prompt,
+      enrichPages: typeof req.body.enrichPages === 'boolean' ? req.body.enrichPages : job.enrich_pages,
+      sampleSize: req.body.sampleSize,
+    });
+
+    return res.json({ jobId, ...estimate });
+  } catch (error) {
+    logger.error('Estimate job error:', error);
+    return res.status(500).json({
+      error: 'Failed to estimate job',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// Get the batches submitted for a batch mode job
+router.get('/:jobId/batches', async (req, res) => {
+  try {
+    const { jobId } = req.params;
+    const job = await database.getJob(jobId);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const batches = await database.getAiBatchesByJob(jobId);
+    return res.json({
+      jobId,
+      processingMode: job.processing_mode,
+      batches: batches.map(toBatchSummary),
+    });
+  } catch (error) {
+    logger.error('Get job batches error:', error);
+    return res.status(500).json({ error: 'Failed to get job batches' });
+  }
+});
+
 // Retry failed URLs
-router.post('/:jobId/retry', async (req, res) => {
+router.post('/:jobId/retry', requireRole('editor'), async (req, res) => {
   try {
     const { jobId } = req.params;
     const { urlIds } = req.body;
@@ -305,10 +753,10 @@ router.post('/:jobId/retry', async (req, res) => {
   }
 });
 
-// Get all jobs
+// Get the workspace's jobs
 router.get('/', async (req, res) => {
   try {
-    const jobs = await database.getAllJobs();
+    const jobs = await database.getJobsByWorkspace(req.workspace!.id);
     res.json(jobs);
   } catch (error) {
     logger.error('Get all jobs error:', error);
@@ -317,54 +765,101 @@ router.get('/', async (req, res) => {
 });
 
 
-// SSE endpoint for real-time job progress
+// Current progress of a job from the database, for the start and end of a progress stream
+async function progressSnapshot(jobId: string): Promise<JobProgressUpdate | null> {
+  const job = await database.getJob(jobId);
+  const progress = job ? await database.getJobProgress(jobId) : null;
+  if (!job || !progress) {
+    return null;
+  }
+
+  return {
+    jobId: job.id,
+    status: job.status,
+    progress: {
+      // Live updates count only the rows being generated, so skipped rows are left out here too
+      total: progress.total - progress.skipped,
+      completed: progress.processed,
+      failed: progress.failed,
+      pending: progress.pending
+    },
+    cost: toProgressCost(toJobUsage(job)),
+    stopReason: job.stop_reason || undefined
+  };
+}
+
+const FINISHED_STATUSES: JobProgressUpdate['status'][] = ['completed', 'failed', 'stopped'];
+
+// SSE endpoint for real-time job progress. Updates carry their event id, so a client that
+// reconnects with Last-Event-ID (or ?lastEventId=) gets the updates it missed first
 router.get('/:jobId/stream', async (req, res): Promise<void> => {
   const { jobId } = req.params;
+  const lastEventId = req.header('last-event-id') || req.query.lastEventId;
   
   try {
-    // Verify job exists
-    const job = await database.getJob(jobId);
-    if (!job) {
+    const initialUpdate = await progressSnapshot(jobId);
+    if (!initialUpdate) {
       res.status(404).json({ error: 'Job not found' });
       return;
     }
 
     // Set SSE headers
+    // CORS headers come from the cors middleware; a wildcard origin would stop browsers sending the session cookie
     res.writeHead(200, {
       'Content-Type': 'text/event-stream',
       'Cache-Control': 'no-cache',
-      'Connection': 'keep-alive',
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Headers': 'Cache-Control'
+      'Connection': 'keep-alive'
     });
+    res.write('retry: 3000\n\n');
 
-    // Send initial job status
-    const progress = await database.getJobProgress(jobId);
-    if (!progress) {
-      res.status(404).json({ error: 'Job progress not found' });
-      return;
-    }
-    
-    const initialUpdate: JobProgressUpdate = {
-      jobId: job.id,
-      status: job.status as any,
-      progress: {
-        total: progress.total,
-        completed: progress.processed,
-        failed: progress.failed,
-        pending: progress.pending
+    // Updates published while missed ones are replayed wait here, so none are lost or sent twice
+    let buffered: Array<{ update: JobProgressUpdate; eventId?: string }> | null = [];
+    let lastSentId = isProgressEventId(lastEventId) ? lastEventId : null;
+    let finished = false;
+
+    const cleanup = () => {
+      clearInterval(keepAlive);
+      progressEmitter.removeListener(`job-${jobId}`, progressHandler);
+    };
+
+    // The closing snapshot has no id, so a client that reconnects resumes from the last update it got;
+    // the end event tells clients not to reconnect
+    const finish = async (withSnapshot: boolean) => {
+      if (finished) return;
+      finished = true;
+      cleanup();
+      const finalUpdate = withSnapshot ? await progressSnapshot(jobId) : null;
+      if (finalUpdate) {
+        res.write(`data: ${JSON.stringify(finalUpdate)}\n\n`);
       }
+      res.write('event: end\ndata: {}\n\n');
+      res.end();
     };
-    
-    res.write(`data: ${JSON.stringify(initialUpdate)}\n\n`);
 
-    // Set up progress listener
-    const progressHandler = (update: JobProgressUpdate) => {
+    const send = (update: JobProgressUpdate, eventId?: string) => {
+      if (finished) return;
+      if (eventId) {
+        if (lastSentId && compareProgressEventIds(eventId, lastSentId) <= 0) {
+          return;
+        }
+        lastSentId = eventId;
+      }
       try {
-        res.write(`data: ${JSON.stringify(update)}\n\n`);
+        res.write(`${eventId ? `id: ${eventId}\n` : ''}data: ${JSON.stringify(update)}\n\n`);
       } catch (error) {
         logger.error(`Error writing SSE data for job ${jobId}:`, error);
       }
+      if (FINISHED_STATUSES.includes(update.status)) {
+        finish(Boolean(eventId)).catch(error => logger.error(`Error ending SSE stream for job ${jobId}:`, error));
+      }
+    };
+
+    const progressHandler = (update: JobProgressUpdate, eventId?: string) => {
+      if (buffered) {
+        buffered.push({ update, eventId });
+      } else {
+        send(update, eventId);
+      }
     };
 
     // Listen for progress updates
@@ -373,68 +868,58 @@ router.get('/:jobId/stream', async (req, res): Promise<void> => {
     // Handle client disconnect
     req.on('close', () => {
       logger.info(`SSE connection closed for job ${jobId}`);
-      progressEmitter.removeListener(`job-${jobId}`, progressHandler);
+      finished = true;
+      cleanup();
     });
 
     // Handle connection errors
     req.on('error', (error) => {
       logger.error(`SSE connection error for job ${jobId}:`, error);
-      progressEmitter.removeListener(`job-${jobId}`, progressHandler);
+      finished = true;
+      cleanup();
     });
 
-    // Send keep-alive every 30 seconds
-    const keepAlive = setInterval(() => {
+    // Send keep-alive every 30 seconds, and end the stream of a job that finished without an update
+    const keepAlive = setInterval(async () => {
       try {
         res.write(': keep-alive\n\n');
-      } catch (error) {
-        clearInterval(keepAlive);
-        progressEmitter.removeListener(`job-${jobId}`, progressHandler);
-      }
-    }, 30000);
-
-    // Clean up on job completion
-    const checkCompletion = setInterval(async () => {
-      try {
         const currentJob = await database.getJob(jobId);
-        if (currentJob && ['completed', 'failed', 'stopped'].includes(currentJob.status)) {
-          clearInterval(keepAlive);
-          clearInterval(checkCompletion);
-          progressEmitter.removeListener(`job-${jobId}`, progressHandler);
-          
-          // Send final update
-          const finalProgress = await database.getJobProgress(jobId);
-          if (finalProgress) {
-            const finalUpdate: JobProgressUpdate = {
-              jobId: currentJob.id,
-              status: currentJob.status as any,
-              progress: {
-                total: finalProgress.total,
-                completed: finalProgress.processed,
-                failed: finalProgress.failed,
-                pending: finalProgress.pending
-              }
-            };
-            
-            res.write(`data: ${JSON.stringify(finalUpdate)}\n\n`);
-          }
-          
-          res.end();
+        if (currentJob && FINISHED_STATUSES.includes(currentJob.status)) {
+          await finish(true);
         }
       } catch (error) {
         logger.error(`Error checking job completion for ${jobId}:`, error);
       }
-    }, 5000);
+    }, 30000);
+
+    const missed = lastSentId ? await progressEmitter.getProgressSince(jobId, lastSentId) : [];
+    if (missed.length === 0) {
+      send(initialUpdate);
+    }
+    for (const event of missed) {
+      send(event.update, event.id);
+    }
+
+    const pending = buffered;
+    buffered = null;
+    for (const event of pending) {
+      send(event.update, event.eventId);
+    }
 
   } catch (error) {
     logger.error(`SSE setup error for job ${jobId}:`, error);
-    res.status(500).json({ error: 'Failed to setup SSE connection' });
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to setup SSE connection' });
+    } else {
+      res.end();
+    }
   }
 });
 
 // Get AI service status
 router.get('/ai-service/status', async (req, res) => {
   try {
-    const status = AIServiceFactory.getServiceStatus();
+    const status = providerRegistry.getStatus();
     res.json({
       success: true,
       data: status
@@ -448,11 +933,81 @@ router.get('/ai-service/status', async (req, res) => {
   }
 });
 
+// List the AI providers jobs can be run with
+router.get('/ai-service/providers', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: providerRegistry.list()
+    });
+  } catch (error) {
+    logger.error('Error listing AI providers:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list AI providers'
+    });
+  }
+});
+
+// Check that a provider answers and its model is available
+router.get('/ai-service/providers/:providerId/health', async (req, res) => {
+  try {
+    const { providerId } = req.params;
+    if (!providerRegistry.has(providerId)) {
+      return res.status(404).json({ success: false, error: 'AI provider not found' });
+    }
+
+    const health = await providerRegistry.healthCheck(providerId);
+    return res.status(health.ok ? 200 : 503).json({
+      success: health.ok,
+      data: { providerId, ...health }
+    });
+  } catch (error) {
+    logger.error('Error checking AI provider health:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to check AI provider health'
+    });
+  }
+});
+
+// Get each provider's outbound rate limits and how much of them is in use
+router.get('/ai-service/rate-limits', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: await providerRegistry.getRateLimitStatus()
+    });
+  } catch (error) {
+    logger.error('Error getting AI rate limits:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get AI rate limits'
+    });
+  }
+});
+
+// Get the per-model price table used to cost generations
+router.get('/ai-service/pricing', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: getPricingTable()
+    });
+  } catch (error) {
+    logger.error('Error getting model pricing:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get model pricing'
+    });
+  }
+});
+
 // Refresh AI service (useful for testing config changes)
-router.post('/ai-service/refresh', async (req, res) => {
+router.post('/ai-service/refresh', requireRole('admin'), async (req, res) => {
   try {
-    const service = AIServiceFactory.refreshService();
-    const status = AIServiceFactory.getServiceStatus();
+    providerRegistry.reload();
+    const status = providerRegistry.getStatus();
     
     logger.info('AI service refreshed', { serviceType: status.currentType });
     
@@ -0,0 +1,148 @@
+import { Router } from 'express';
+import { database } from '../services/database';
+import { logger } from '../utils/logger';
+import {
+  validateTemplateId,
+  validateCreatePromptTemplate,
+  validateUpdatePromptTemplate,
+} from '../middleware/validation';
+import { requireRole } from '../middleware/workspace';
+
+const router = Router();
+
+// Templates from before workspaces are shared by all of them, so no single workspace may change them
+const SHARED_TEMPLATE_ERROR = 'Shared templates cannot be changed; create a copy in this workspace instead';
+
+async function isSharedTemplate(templateId: string, workspaceId: string): Promise<boolean> {
+  const template = await database.getPromptTemplate(templateId, workspaceId);
+  return template !== null && template.workspace_id === null;
+}
+
+// List the workspace's prompt templates and the shared ones (current version of each)
+router.get('/', async (req, res) => {
+  try {
+    const templates = await database.getPromptTemplates(req.workspace!.id);
+    res.json(templates);
+  } catch (error) {
+    logger.error('Get prompt templates error:', error);
+    res.status(500).json({ error: 'Failed to get prompt templates' });
+  }
+});
+
+// Get a single prompt template
+router.get('/:templateId', validateTemplateId, async (req, res) => {
+  try {
+    const template = await database.getPromptTemplate(req.params.templateId, req.workspace!.id);
+
+    if (!template) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+
+    return res.json(template);
+  } catch (error) {
+    logger.error('Get prompt template error:', error);
+    return res.status(500).json({ error: 'Failed to get prompt template' });
+  }
+});
+
+// List every revision of a prompt template
+router.get('/:templateId/versions', validateTemplateId, async (req, res) => {
+  try {
+    const template = await database.getPromptTemplate(req.params.templateId, req.workspace!.id);
+
+    if (!template) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+
+    const versions = await database.getPromptTemplateVersions(template.id);
+    return res.json(versions);
+  } catch (error) {
+    logger.error('Get prompt template versions error:', error);
+    return res.status(500).json({ error: 'Failed to get prompt template versions' });
+  }
+});
+
+// Create a prompt template
+router.post('/', requireRole('editor'), validateCreatePromptTemplate, async (req, res) => {
+  try {
+    const { name, description, systemPrompt, userPrompt } = req.body;
+
+    const templateId = await database.createPromptTemplate(
+      req.workspace!.id,
+      name.trim(),
+      description || null,
+      systemPrompt.trim(),
+      userPrompt.trim()
+    );
+    const template = await database.getPromptTemplate(templateId, req.workspace!.id);
+
+    logger.info(`Prompt template ${templateId} created`);
+
+    res.status(201).json(template);
+  } catch (error) {
+    logger.error('Create prompt template error:', error);
+    res.status(500).json({
+      error: 'Failed to create prompt template',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// Update one of the workspace's prompt templates; prompt edits create a new version
+router.put('/:templateId', requireRole('editor'), validateTemplateId, validateUpdatePromptTemplate, async (req, res) => {
+  try {
+    const { name, description, systemPrompt, userPrompt } = req.body;
+
+    if (await isSharedTemplate(req.params.templateId, req.workspace!.id)) {
+      return res.status(403).json({ error: SHARED_TEMPLATE_ERROR });
+    }
+
+    const template = await database.updatePromptTemplate(req.params.templateId, req.workspace!.id, {
+      name: name?.trim(),
+      description: description === undefined ? undefined : description || null,
+      systemPrompt: systemPrompt?.trim(),
+      userPrompt: userPrompt?.trim(),
+    });
+
+    if (!template) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+
+    logger.info(`Prompt template ${template.id} updated to version ${template.version}`);
+
+    return res.json(template);
+  } catch (error) {
+    logger.error('Update prompt template error:', error);
+    return res.status(500).json({
+      error: 'Failed to update prompt template',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// Delete (archive) one of the workspace's prompt templates
+router.delete('/:templateId', requireRole('admin'), validateTemplateId, async (req, res) => {
+  try {
+    if (await isSharedTemplate(req.params.templateId, req.workspace!.id)) {
+      return res.status(403).json({ error: SHARED_TEMPLATE_ERROR });
+    }
+
+    const archived = await database.archivePromptTemplate(req.params.templateId, req.workspace!.id);
+
+    if (!archived) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+
+    logger.info(`Prompt template ${req.params.templateId} deleted`);
+
+    return res.json({ message: 'Template deleted successfully' });
+  } catch (error) {
+    logger.error('Delete prompt template error:', error);
+    return res.status(500).json({
+      error: 'Failed to delete prompt template',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+export default router;
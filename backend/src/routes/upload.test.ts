@@ -0,0 +1,86 @@
+import http from 'http';
+import express from 'express';
+import { AddressInfo } from 'net';
+import uploadRoutes from './upload';
+import { UploadController } from '../controllers/uploadController';
+
+// Handlers answer 200, so only the route's middleware decides what gets through
+jest.mock('../controllers/uploadController', () => {
+  const handlers = [
+    'uploadCSV', 'createUploadSession', 'getUploadSession', 'uploadPart', 'completeUploadSession',
+    'abortUploadSession', 'startProcessing', 'previewPrompts', 'getJobStatus', 'downloadResults',
+    'cancelJob', 'retryFailedUrls',
+  ];
+  return {
+    UploadController: jest.fn().mockImplementation(() => ({
+      getUploadMiddleware: () => (_req: unknown, _res: unknown, next: () => void) => next(),
+      ...Object.fromEntries(handlers.map(name => [
+        name,
+        jest.fn((_req, res: { json(body: unknown): void }) => res.json({ ok: true })),
+      ])),
+    })),
+  };
+});
+jest.mock('../services/database', () => ({ database: {} }));
+jest.mock('../services/redis', () => ({ redis: {} }));
+
+const JOB_ID = '0b6f2a64-3f0e-4c8e-9d52-2f0d6c1a7b11';
+
+describe('POST /api/upload/process', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const uploadController = jest.mocked(UploadController).mock.results[0].value;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    // Stands in for requireAuth and requireWorkspace
+    app.use((req, _res, next) => {
+      req.workspace = { id: 'workspace-1', name: 'Acme', role: 'editor' };
+      next();
+    });
+    app.use('/api/upload', uploadRoutes);
+    server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    uploadController.startProcessing.mockClear();
+  });
+
+  function startProcessing(body: Record<string, unknown>): Promise<Response> {
+    return fetch(`${baseUrl}/api/upload/process`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it('starts a valid request', async () => {
+    const response = await startProcessing({ jobId: JOB_ID, contentType: 'company', variants: 3 });
+
+    expect(response.status).toBe(200);
+    expect(uploadController.startProcessing).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    ['too many variants', { jobId: JOB_ID, contentType: 'company', variants: 500 }],
+    ['no variants', { jobId: JOB_ID, contentType: 'company', variants: 0 }],
+    ['a job id that is not a UUID', { jobId: 'job-1', contentType: 'company' }],
+    ['an unknown mode', { jobId: JOB_ID, contentType: 'company', mode: 'overnight' }],
+    ['a budget that is not a number', { jobId: JOB_ID, contentType: 'company', budget: 'lots' }],
+    ['neither a content type nor a template', { jobId: JOB_ID }],
+  ])('rejects %s without starting the job', async (_name, body) => {
+    const response = await startProcessing(body);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: 'Validation error' });
+    expect(uploadController.startProcessing).not.toHaveBeenCalled();
+  });
+});
@@ -1,17 +1,72 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { UploadController } from '../controllers/uploadController';
+import {
+  validateStartProcessing,
+  validatePromptPreview,
+  validateCreateUploadSession,
+  validateUploadSessionId,
+  validateUploadPart,
+} from '../middleware/validation';
+import { uploadSessionRateLimiter } from '../middleware/rateLimiter';
+import { requireRole, requireWorkspaceJob } from '../middleware/workspace';
+import { config } from '../config';
 
 const router = Router();
 const uploadController = new UploadController();
 
+// Routes with a job id only reach jobs of the request's workspace
+router.param('jobId', requireWorkspaceJob);
+
 // Upload CSV file
 router.post('/', 
+  requireRole('editor'),
   uploadController.getUploadMiddleware(),
   uploadController.uploadCSV.bind(uploadController)
 );
 
+// Resumable uploads: create a session, send numbered parts, then complete it to create the job
+router.post('/sessions',
+  requireRole('editor'),
+  uploadSessionRateLimiter,
+  validateCreateUploadSession,
+  uploadController.createUploadSession.bind(uploadController)
+);
+
+router.get('/sessions/:sessionId',
+  requireRole('editor'),
+  uploadSessionRateLimiter,
+  validateUploadSessionId,
+  uploadController.getUploadSession.bind(uploadController)
+);
+
+router.put('/sessions/:sessionId/parts/:partNumber',
+  requireRole('editor'),
+  uploadSessionRateLimiter,
+  validateUploadSessionId,
+  validateUploadPart,
+  express.raw({ type: 'application/octet-stream', limit: config.uploadPartSize }),
+  uploadController.uploadPart.bind(uploadController)
+);
+
+router.post('/sessions/:sessionId/complete',
+  requireRole('editor'),
+  uploadSessionRateLimiter,
+  validateUploadSessionId,
+  uploadController.completeUploadSession.bind(uploadController)
+);
+
+router.delete('/sessions/:sessionId',
+  requireRole('editor'),
+  uploadSessionRateLimiter,
+  validateUploadSessionId,
+  uploadController.abortUploadSession.bind(uploadController)
+);
+
 // Start processing
-router.post('/process', uploadController.startProcessing.bind(uploadController));
+router.post('/process', requireRole('editor'), validateStartProcessing, uploadController.startProcessing.bind(uploadController));
+
+// Preview rendered prompts for the first rows of a job
+router.post('/preview', requireRole('editor'), validatePromptPreview, uploadController.previewPrompts.bind(uploadController));
 
 // Get job status
 router.get('/:jobId/status', uploadController.getJobStatus.bind(uploadController));
@@ -20,9 +75,9 @@ router.get('/:jobId/status', uploadController.getJobStatus.bind(uploadController
 router.get('/:jobId/download', uploadController.downloadResults.bind(uploadController));
 
 // Cancel job
-router.post('/:jobId/cancel', uploadController.cancelJob.bind(uploadController));
+router.post('/:jobId/cancel', requireRole('editor'), uploadController.cancelJob.bind(uploadController));
 
 // Retry failed URLs
-router.post('/:jobId/retry', uploadController.retryFailedUrls.bind(uploadController));
+router.post('/:jobId/retry', requireRole('editor'), uploadController.retryFailedUrls.bind(uploadController));
 
 export default router;
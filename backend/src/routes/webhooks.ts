@@ -0,0 +1,178 @@
+import { Router } from 'express';
+import { validate as isUuid } from 'uuid';
+import { database, WebhookRecord } from '../services/database';
+import {
+  generateWebhookSecret,
+  sendTestEvent,
+  toPublicWebhook,
+  toPublicWebhookDelivery,
+} from '../services/webhooks';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { assertPublicUrl, UnsafeUrlError } from '../utils/networkGuard';
+import { validateCreateWebhook, validateUpdateWebhook } from '../middleware/validation';
+
+const router = Router();
+
+const DEFAULT_DELIVERY_LIMIT = 50;
+const MAX_DELIVERY_LIMIT = 200;
+
+async function findWebhook(webhookId: string, workspaceId: string): Promise<WebhookRecord | null> {
+  return isUuid(webhookId) ? database.getWebhook(webhookId, workspaceId) : null;
+}
+
+// Receivers must be reachable from outside this host's networks, unless WEBHOOK_ALLOW_PRIVATE_URLS is set
+async function checkWebhookUrl(url: string): Promise<string | null> {
+  if (config.webhookAllowPrivateUrls) {
+    return null;
+  }
+  try {
+    await assertPublicUrl(url);
+    return null;
+  } catch (error) {
+    if (error instanceof UnsafeUrlError) {
+      return error.message;
+    }
+    throw error;
+  }
+}
+
+// An empty description clears it
+function parseDescription(description: unknown): string | null {
+  return typeof description === 'string' && description.trim() ? description.trim() : null;
+}
+
+// List the workspace's webhooks, without their secrets
+router.get('/', async (req, res) => {
+  try {
+    const webhooks = await database.getWebhooksByWorkspace(req.workspace!.id);
+    res.json(webhooks.map(toPublicWebhook));
+  } catch (error) {
+    logger.error('Get webhooks error:', error);
+    res.status(500).json({ error: 'Failed to get webhooks' });
+  }
+});
+
+// Register a webhook; the response includes the secret its deliveries are signed with
+router.post('/', validateCreateWebhook, async (req, res) => {
+  try {
+    const urlProblem = await checkWebhookUrl(req.body.url.trim());
+    if (urlProblem) {
+      return res.status(400).json({ error: urlProblem });
+    }
+
+    const webhook = await database.createWebhook(
+      req.workspace!.id,
+      req.body.url.trim(),
+      [...new Set<string>(req.body.events)] as WebhookRecord['events'],
+      parseDescription(req.body.description),
+      generateWebhookSecret()
+    );
+
+    logger.info(`User ${req.user!.id} registered webhook ${webhook.id} in workspace ${req.workspace!.id}`);
+    return res.status(201).json({ ...toPublicWebhook(webhook), secret: webhook.secret });
+  } catch (error) {
+    logger.error('Create webhook error:', error);
+    return res.status(500).json({ error: 'Failed to create webhook' });
+  }
+});
+
+// A webhook with its secret, for setting up the receiver
+router.get('/:webhookId', async (req, res) => {
+  try {
+    const webhook = await findWebhook(req.params.webhookId, req.workspace!.id);
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    return res.json({ ...toPublicWebhook(webhook), secret: webhook.secret });
+  } catch (error) {
+    logger.error('Get webhook error:', error);
+    return res.status(500).json({ error: 'Failed to get webhook' });
+  }
+});
+
+// Change a webhook's URL, events or description, or pause and resume it with `active`
+router.patch('/:webhookId', validateUpdateWebhook, async (req, res) => {
+  try {
+    const { url, events, description, active } = req.body;
+    const urlProblem = url !== undefined ? await checkWebhookUrl(url.trim()) : null;
+    if (urlProblem) {
+      return res.status(400).json({ error: urlProblem });
+    }
+
+    const webhook = isUuid(req.params.webhookId)
+      ? await database.updateWebhook(req.params.webhookId, req.workspace!.id, {
+        url: url !== undefined ? url.trim() : undefined,
+        events: events !== undefined ? [...new Set<string>(events)] as WebhookRecord['events'] : undefined,
+        description: description !== undefined ? parseDescription(description) : undefined,
+        active,
+      })
+      : null;
+
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    return res.json(toPublicWebhook(webhook));
+  } catch (error) {
+    logger.error('Update webhook error:', error);
+    return res.status(500).json({ error: 'Failed to update webhook' });
+  }
+});
+
+// Delete a webhook and its delivery log; deliveries still queued are dropped
+router.delete('/:webhookId', async (req, res) => {
+  try {
+    const deleted = isUuid(req.params.webhookId)
+      && await database.deleteWebhook(req.params.webhookId, req.workspace!.id);
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    logger.info(`User ${req.user!.id} deleted webhook ${req.params.webhookId}`);
+    return res.json({ message: 'Webhook deleted' });
+  } catch (error) {
+    logger.error('Delete webhook error:', error);
+    return res.status(500).json({ error: 'Failed to delete webhook' });
+  }
+});
+
+// The webhook's latest deliveries, newest first; `limit` defaults to 50
+router.get('/:webhookId/deliveries', async (req, res) => {
+  try {
+    const webhook = await findWebhook(req.params.webhookId, req.workspace!.id);
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const limit = parseInt(String(req.query.limit || DEFAULT_DELIVERY_LIMIT), 10);
+    const deliveries = await database.getWebhookDeliveries(
+      webhook.id,
+      Number.isFinite(limit) && limit > 0 ? Math.min(limit, MAX_DELIVERY_LIMIT) : DEFAULT_DELIVERY_LIMIT
+    );
+    return res.json(deliveries.map(toPublicWebhookDelivery));
+  } catch (error) {
+    logger.error('Get webhook deliveries error:', error);
+    return res.status(500).json({ error: 'Failed to get webhook deliveries' });
+  }
+});
+
+// Queue a webhook.test event for the webhook; its outcome shows up in the delivery log
+router.post('/:webhookId/test', async (req, res) => {
+  try {
+    const webhook = await findWebhook(req.params.webhookId, req.workspace!.id);
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const delivery = await sendTestEvent(webhook);
+    return res.status(202).json(toPublicWebhookDelivery(delivery));
+  } catch (error) {
+    logger.error('Send test webhook error:', error);
+    return res.status(500).json({ error: 'Failed to send test event' });
+  }
+});
+
+export default router;
@@ -0,0 +1,142 @@
+import { Router } from 'express';
+import { database } from '../services/database';
+import {
+  addMember,
+  createWorkspace,
+  getMembership,
+  getUserWorkspaces,
+  removeMember,
+  toPublicWorkspace,
+  toPublicWorkspaceMember,
+  updateMemberRole,
+  WorkspaceError,
+} from '../services/workspaces';
+import { logger } from '../utils/logger';
+import { requireRole } from '../middleware/workspace';
+import {
+  validateAddWorkspaceMember,
+  validateWorkspace,
+  validateWorkspaceMemberRole,
+} from '../middleware/validation';
+
+const router = Router();
+
+// Routes below act in the workspace named in the path, which the user has to be a member of
+router.param('workspaceId', async (req, res, next, workspaceId: string) => {
+  try {
+    const membership = await getMembership(workspaceId, req.user!.id);
+    req.workspace = { id: membership.id, name: membership.name, role: membership.role };
+    next();
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    logger.error('Workspace check error:', error);
+    res.status(500).json({ error: 'Failed to get workspace' });
+  }
+});
+
+// List the workspaces the signed-in user is a member of
+router.get('/', async (req, res) => {
+  try {
+    const workspaces = await getUserWorkspaces(req.user!);
+    res.json(workspaces.map(toPublicWorkspace));
+  } catch (error) {
+    logger.error('Get workspaces error:', error);
+    res.status(500).json({ error: 'Failed to get workspaces' });
+  }
+});
+
+// Create a workspace; its creator becomes its admin
+router.post('/', validateWorkspace, async (req, res) => {
+  try {
+    const workspace = await createWorkspace(req.user!.id, req.body.name);
+    res.status(201).json(toPublicWorkspace(workspace));
+  } catch (error) {
+    logger.error('Create workspace error:', error);
+    res.status(500).json({ error: 'Failed to create workspace' });
+  }
+});
+
+router.get('/:workspaceId', (req, res) => {
+  res.json(req.workspace);
+});
+
+// Rename a workspace
+router.patch('/:workspaceId', requireRole('admin'), validateWorkspace, async (req, res) => {
+  try {
+    await database.updateWorkspaceName(req.workspace!.id, req.body.name.trim());
+    const workspace = await getMembership(req.workspace!.id, req.user!.id);
+    res.json(toPublicWorkspace(workspace));
+  } catch (error) {
+    logger.error('Update workspace error:', error);
+    res.status(500).json({ error: 'Failed to update workspace' });
+  }
+});
+
+// List the members of a workspace and their roles
+router.get('/:workspaceId/members', async (req, res) => {
+  try {
+    const members = await database.getWorkspaceMembers(req.workspace!.id);
+    res.json(members.map(toPublicWorkspaceMember));
+  } catch (error) {
+    logger.error('Get workspace members error:', error);
+    res.status(500).json({ error: 'Failed to get workspace members' });
+  }
+});
+
+// Add someone who already has an account to the workspace
+router.post('/:workspaceId/members', requireRole('admin'), validateAddWorkspaceMember, async (req, res) => {
+  try {
+    await addMember(req.workspace!.id, req.body.email, req.body.role);
+    const members = await database.getWorkspaceMembers(req.workspace!.id);
+    return res.status(201).json(members.map(toPublicWorkspaceMember));
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Add workspace member error:', error);
+    return res.status(500).json({ error: 'Failed to add workspace member' });
+  }
+});
+
+// Change a member's role
+router.patch(
+  '/:workspaceId/members/:userId',
+  requireRole('admin'),
+  validateWorkspaceMemberRole,
+  async (req, res) => {
+    try {
+      await updateMemberRole(req.workspace!.id, req.params.userId, req.body.role);
+      const members = await database.getWorkspaceMembers(req.workspace!.id);
+      return res.json(members.map(toPublicWorkspaceMember));
+    } catch (error) {
+      if (error instanceof WorkspaceError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      logger.error('Update workspace member error:', error);
+      return res.status(500).json({ error: 'Failed to update workspace member' });
+    }
+  }
+);
+
+// Remove a member; admins can remove anyone, everyone else only themselves
+router.delete('/:workspaceId/members/:userId', async (req, res) => {
+  if (req.params.userId !== req.user!.id && req.workspace!.role !== 'admin') {
+    return res.status(403).json({ error: 'This action needs the admin role in the workspace' });
+  }
+
+  try {
+    await removeMember(req.workspace!.id, req.params.userId);
+    return res.json({ message: 'Member removed' });
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Remove workspace member error:', error);
+    return res.status(500).json({ error: 'Failed to remove workspace member' });
+  }
+});
+
+export default router;
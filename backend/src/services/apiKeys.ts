@@ -0,0 +1,64 @@
+import { randomBytes } from 'crypto';
+import { logger } from '../utils/logger';
+import { hashToken } from './auth';
+import { ApiKeyRecord, ApiKeyScope, database, UserRecord } from './database';
+
+// Tells API keys apart from session tokens in an `Authorization: Bearer` header
+export const API_KEY_PREFIX = 'csvo_';
+
+// Characters of the key kept in the clear so users can recognise it in the list
+const DISPLAYED_KEY_LENGTH = API_KEY_PREFIX.length + 6;
+
+// What the API returns for a key; the key itself is only returned once, when it is created
+export interface PublicApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+export function toPublicApiKey(apiKey: ApiKeyRecord): PublicApiKey {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    prefix: apiKey.key_prefix,
+    scopes: apiKey.scopes,
+    lastUsedAt: apiKey.last_used_at,
+    revokedAt: apiKey.revoked_at,
+    createdAt: apiKey.created_at,
+  };
+}
+
+export function isApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+// GET requests need the read scope, everything else the write scope
+export function scopeForMethod(method: string): ApiKeyScope {
+  return method === 'GET' || method === 'HEAD' ? 'read' : 'write';
+}
+
+export async function createApiKey(
+  userId: string,
+  name: string,
+  scopes: ApiKeyScope[]
+): Promise<{ apiKey: ApiKeyRecord; key: string }> {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const apiKey = await database.createApiKey(
+    userId,
+    name.trim(),
+    key.slice(0, DISPLAYED_KEY_LENGTH),
+    hashToken(key),
+    [...new Set(scopes)]
+  );
+
+  logger.info(`User ${userId} created API key ${apiKey.id} (${apiKey.scopes.join(', ')})`);
+  return { apiKey, key };
+}
+
+export async function authenticateApiKey(key: string): Promise<{ user: UserRecord; apiKey: ApiKeyRecord } | null> {
+  return database.useApiKey(hashToken(key));
+}
@@ -0,0 +1,104 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { database, UserRecord } from './database';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+// Compared against when the e-mail is unknown, so a failed sign-in takes as long either way
+const UNKNOWN_USER_HASH = `scrypt:${'0'.repeat(32)}:${'0'.repeat(KEY_LENGTH * 2)}`;
+
+export class AuthError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 401) {
+    super(message);
+    this.name = 'AuthError';
+    this.status = status;
+  }
+}
+
+// What the API returns for a user; the password hash never leaves the server
+export interface PublicUser {
+  id: string;
+  email: string;
+  name: string | null;
+  createdAt: Date;
+}
+
+export function toPublicUser(user: UserRecord): PublicUser {
+  return { id: user.id, email: user.email, name: user.name, createdAt: user.created_at };
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// Stored as `scrypt:<salt>:<key>`, both hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString('hex')}:${key.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, key] = stored.split(':');
+  if (scheme !== 'scrypt' || !salt || !key) {
+    return false;
+  }
+
+  const expected = Buffer.from(key, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Session tokens and API keys are random; the database only sees their SHA-256
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export async function registerUser(email: string, name: string | null, password: string): Promise<UserRecord> {
+  if (!config.allowRegistration) {
+    throw new AuthError('Registration is disabled', 403);
+  }
+
+  const normalized = normalizeEmail(email);
+  if (await database.getUserByEmail(normalized)) {
+    throw new AuthError('An account with this e-mail already exists', 409);
+  }
+
+  const user = await database.createUser(normalized, name?.trim() || null, await hashPassword(password));
+  logger.info(`Registered user ${user.id}`);
+  return user;
+}
+
+export async function authenticateUser(email: string, password: string): Promise<UserRecord> {
+  const user = await database.getUserByEmail(normalizeEmail(email));
+  const valid = await verifyPassword(password, user ? user.password_hash : UNKNOWN_USER_HASH);
+  if (!user || !valid) {
+    throw new AuthError('Invalid e-mail or password');
+  }
+  return user;
+}
+
+// Start a session and return its token; expired sessions are swept whenever someone signs in
+export async function createSession(userId: string): Promise<string> {
+  await database.deleteExpiredUserSessions().catch(error => {
+    logger.warn('Failed to remove expired sessions:', error);
+  });
+
+  const token = randomBytes(32).toString('base64url');
+  await database.createUserSession(hashToken(token), userId, config.sessionTtl);
+  return token;
+}
+
+export async function getSessionUser(token: string): Promise<UserRecord | null> {
+  return database.getUserBySession(hashToken(token));
+}
+
+export async function endSession(token: string): Promise<void> {
+  await database.deleteUserSession(hashToken(token));
+}
@@ -0,0 +1,381 @@
+import { Queue, Worker, Job } from 'bullmq';
+import { redis } from './redis';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { calculateCost } from '../utils/pricing';
+import { database, toJobUsage, AiBatchRecord, RecordedUsage } from './database';
+import { findExceededBudget, describeExceededBudget } from './budgets';
+import { providerRegistry } from './providers/registry';
+import { BatchCapableProvider, BatchItem, BatchState, isBatchFinished, supportsBatch } from './providers/types';
+import { progressEmitter, toProgressCost } from './progressEmitter';
+import { prepareRowPrompt } from './rowPrompt';
+import { getJobPrompt, stopJob } from './queue';
+import { checkOpener, getQualitySettings } from './openerQuality';
+import { cacheOpener, getCachedOpener, isCacheable, rowCacheKey } from './openerCache';
+import { applyColumnMapping } from '../utils/columnMapping';
+import { getPromptTemplate } from '../utils/prompts';
+
+interface SubmitBatchData {
+  jobId: string;
+}
+
+// Batch state as shown on the job page
+export interface BatchSummary {
+  id: string;
+  providerBatchId: string;
+  provider: string;
+  status: AiBatchRecord['status'];
+  requestCount: number;
+  completedCount: number;
+  failedCount: number;
+  error: string | null;
+  ingested: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export function toBatchSummary(batch: AiBatchRecord): BatchSummary {
+  return {
+    id: batch.id,
+    providerBatchId: batch.provider_batch_id,
+    provider: batch.provider_id,
+    status: batch.status,
+    requestCount: batch.request_count,
+    completedCount: batch.completed_count,
+    failedCount: batch.failed_count,
+    error: batch.error,
+    ingested: batch.ingested_at !== null,
+    createdAt: batch.created_at,
+    updatedAt: batch.updated_at,
+  };
+}
+
+// Submissions and the repeatable poll share one queue, so batch work never waits behind chunk jobs
+export const batchQueue = new Queue('ai-batches', {
+  connection: redis,
+  defaultJobOptions: {
+    removeOnComplete: 10,
+    removeOnFail: 50,
+  },
+});
+
+export const batchWorker = new Worker(
+  'ai-batches',
+  async (job: Job) => {
+    if (job.name === 'submit-batch') {
+      const { jobId } = job.data as SubmitBatchData;
+      try {
+        return await submitJobBatches(jobId);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(`Failed to submit batch for job ${jobId}:`, message);
+        await database.updateJobStatus(jobId, 'failed');
+        progressEmitter.emitJobFailed(jobId, `Batch submission failed: ${message}`);
+        return { submitted: 0 };
+      }
+    }
+
+    if (job.name === 'poll-batches') {
+      return pollBatches();
+    }
+
+    logger.warn(`Batch worker received unknown job: ${job.name}`);
+    return null;
+  },
+  {
+    connection: redis,
+    concurrency: 1,
+  }
+);
+
+batchWorker.on('failed', (job, error) => {
+  logger.error(`Batch job ${job?.id} failed:`, error.message);
+});
+
+batchWorker.on('error', (error) => {
+  logger.error('Batch worker error:', error);
+});
+
+batchQueue.on('error', (error) => {
+  logger.error('Batch queue error:', error);
+});
+
+// Check submitted batches every BATCH_POLL_INTERVAL; the fixed jobId keeps a single schedule across restarts
+batchQueue.add('poll-batches', {}, {
+  repeat: { every: config.batchPollInterval },
+  jobId: 'poll-batches',
+}).catch(error => {
+  logger.error('Failed to schedule batch polling:', error);
+});
+
+export async function queueBatchSubmission(jobId: string): Promise<void> {
+  await batchQueue.add('submit-batch', { jobId } as SubmitBatchData);
+  logger.info(`Queued batch submission for job ${jobId}`);
+}
+
+function getBatchProvider(providerId: string | null): BatchCapableProvider {
+  const provider = providerRegistry.get(providerId);
+  if (!supportsBatch(provider)) {
+    throw new Error(`AI provider ${provider.id} does not support batch mode`);
+  }
+  return provider;
+}
+
+/**
+ * Submit the job's pending and failed rows, in batches of BATCH_MAX_REQUESTS.
+ * Rows move to processing with the batch they were submitted in. Duplicate
+ * rows wait for the row they repeat, and rows found in the opener cache are
+ * completed without being submitted.
+ */
+async function submitJobBatches(jobId: string): Promise<{ submitted: number }> {
+  const job = await database.getJob(jobId);
+  if (!job || job.status !== 'processing') {
+    logger.info(`Job ${jobId} is no longer processing, not submitting a batch`);
+    return { submitted: 0 };
+  }
+
+  const provider = getBatchProvider(job.provider_id);
+  const prompt = await getJobPrompt(job.template_version_id);
+  await database.requeueDuplicates(jobId);
+  const candidates = (await database.getUrlsByJob(jobId))
+    .filter(url => !url.duplicate_of && (url.status === 'pending' || url.status === 'failed'));
+
+  const urls: typeof candidates = [];
+  let cacheHits = 0;
+  for (const url of candidates) {
+    const cacheKey = rowCacheKey(job, url.url, url.original_data || undefined, prompt);
+    const cached = cacheKey ? await getCachedOpener(cacheKey) : null;
+    if (cached) {
+      await database.completeUrlFromCache(url.id, cached);
+      cacheHits++;
+    } else {
+      urls.push(url);
+    }
+  }
+  if (cacheHits > 0) {
+    await database.fanOutDuplicates(jobId);
+    logger.info(`Reused ${cacheHits} cached openers for batch job ${jobId}`);
+  }
+
+  let submitted = 0;
+  for (let start = 0; start < urls.length; start += config.batchMaxRequests) {
+    const slice = urls.slice(start, start + config.batchMaxRequests);
+
+    const items: BatchItem[] = [];
+    for (const url of slice) {
+      const row = await prepareRowPrompt(job, url.url, url.original_data || undefined, job.content_type, prompt);
+      items.push({
+        customId: url.id,
+        url: url.url,
+        contentType: job.content_type,
+        template: row.prompt,
+        rowData: row.rowData,
+      });
+    }
+
+    // A job stopped while the rows were prepared keeps its remaining rows pending
+    const current = await database.getJob(jobId);
+    if (!current || current.status !== 'processing') {
+      logger.info(`Job ${jobId} stopped before its batch was submitted`);
+      break;
+    }
+
+    const batch = await provider.submitBatch(items, { job_id: jobId });
+    await database.createAiBatch(jobId, provider.id, batch, slice.map(url => url.id));
+    submitted += slice.length;
+    logger.info(`Submitted batch ${batch.id} with ${slice.length} rows for job ${jobId}`);
+  }
+
+  // With every row cached there is no batch whose ingestion would complete the job
+  if (cacheHits > 0) {
+    await updateJobAfterBatch(jobId, null);
+  }
+
+  return { submitted };
+}
+
+// Check every batch whose results haven't been stored yet, and ingest the ones that have ended
+async function pollBatches(): Promise<{ checked: number }> {
+  const batches = await database.getActiveAiBatches();
+
+  for (const batch of batches) {
+    try {
+      const provider = getBatchProvider(batch.provider_id);
+      const state = await provider.getBatch(batch.provider_batch_id);
+      await database.updateAiBatch(batch.id, state);
+
+      if (isBatchFinished(state.status)) {
+        await ingestBatch(batch, state, provider);
+      }
+    } catch (error) {
+      logger.error(`Failed to check batch ${batch.provider_batch_id} of job ${batch.job_id}:`, error);
+    }
+  }
+
+  return { checked: batches.length };
+}
+
+/**
+ * Store the openers and errors of an ended batch on its rows. Rows the batch
+ * has no result for fail with the batch's status, or go back to pending when
+ * the job was stopped so that resuming submits them again. Openers breaking a
+ * quality rule are flagged for review; batches aren't regenerated automatically.
+ * Duplicates of the batch's rows get the same outcome.
+ */
+async function ingestBatch(batch: AiBatchRecord, state: BatchState, provider: BatchCapableProvider): Promise<void> {
+  const { job_id: jobId } = batch;
+  const job = await database.getJob(jobId);
+  if (!job) {
+    await database.markAiBatchIngested(batch.id);
+    return;
+  }
+
+  const unresolved = new Map((await database.getProcessingUrlsByBatch(batch.id)).map(url => [url.id, url]));
+  const results = await provider.getBatchResults(state);
+  let recorded: RecordedUsage | null = null;
+  const quality = getQualitySettings();
+  const jobPrompt = await getJobPrompt(job.template_version_id);
+  const prompt = jobPrompt || getPromptTemplate(job.content_type);
+
+  for (const item of results) {
+    const url = unresolved.get(item.customId);
+    if (!url) {
+      continue;
+    }
+    unresolved.delete(item.customId);
+
+    if (item.result) {
+      await database.updateUrlStatus(url.id, 'completed', item.result.opener, undefined, 0);
+      const issues = quality.enabled
+        ? checkOpener(item.result.opener, {
+          url: url.url,
+          rowData: applyColumnMapping(url.original_data || undefined, job.column_mapping),
+          prompt,
+        }, quality)
+        : null;
+      if (issues) {
+        await database.recordUrlQuality(url.id, issues, 0);
+      }
+      const usage = {
+        model: item.result.model,
+        provider: batch.provider_id,
+        promptTokens: item.result.usage.promptTokens,
+        completionTokens: item.result.usage.completionTokens,
+        cost: calculateCost(item.result.model, item.result.usage) * config.batchCostMultiplier,
+      };
+      recorded = await database.recordUrlUsage(jobId, url.id, usage);
+      progressEmitter.emitUrlCompleted(jobId, { id: url.id, url: url.url, opener: item.result.opener });
+
+      const cacheKey = rowCacheKey(job, url.url, url.original_data || undefined, jobPrompt);
+      if (cacheKey && isCacheable(job, usage, issues)) {
+        await cacheOpener(cacheKey, { opener: item.result.opener, model: usage.model, provider: usage.provider });
+      }
+    } else {
+      await database.updateUrlStatus(url.id, 'failed', undefined, item.error || 'Batch request failed', 1);
+    }
+  }
+
+  const missingReason = state.status === 'completed'
+    ? 'Missing from batch results'
+    : `Batch ${state.status}${state.error ? `: ${state.error}` : ''}`;
+  for (const url of unresolved.values()) {
+    if (job.status === 'stopped') {
+      await database.updateUrlStatus(url.id, 'pending');
+    } else {
+      await database.updateUrlStatus(url.id, 'failed', undefined, missingReason, 1);
+    }
+  }
+
+  await database.fanOutDuplicates(jobId);
+  await database.markAiBatchIngested(batch.id);
+  logger.info(`Ingested batch ${batch.provider_batch_id} (${state.status}) for job ${jobId}: ${results.length} results, ${unresolved.size} rows without one`);
+
+  await updateJobAfterBatch(jobId, recorded);
+}
+
+async function updateJobAfterBatch(jobId: string, recorded: RecordedUsage | null): Promise<void> {
+  const job = await database.getJob(jobId);
+  const progress = await database.getJobProgress(jobId);
+  if (!job || !progress || job.status !== 'processing') {
+    return;
+  }
+
+  progressEmitter.emitUrlProgress(
+    jobId,
+    progress.processed,
+    progress.failed,
+    progress.pending,
+    undefined,
+    recorded ? toProgressCost(recorded.job) : undefined
+  );
+
+  // The batch has already been paid for, but the job's other batches can still be cancelled
+  if (recorded) {
+    const exceeded = await findExceededBudget(job, recorded.job.cost, recorded.dayCost);
+    if (exceeded) {
+      logger.warn(`Stopping job ${jobId}: ${describeExceededBudget(exceeded)}`);
+      await stopJob(jobId, 'budget_exceeded', exceeded);
+      await cancelJobBatches(jobId);
+      return;
+    }
+  }
+
+  const active = (await database.getAiBatchesByJob(jobId)).filter(batch => batch.ingested_at === null);
+  if (active.length === 0 && progress.pending === 0) {
+    const completed = await database.getJob(jobId);
+    await database.updateJobStatus(jobId, 'completed', progress.processed, progress.failed);
+    progressEmitter.emitJobComplete(
+      jobId,
+      progress.processed,
+      progress.failed,
+      completed ? toProgressCost(toJobUsage(completed)) : undefined
+    );
+    logger.info(`Batch job ${jobId} completed`);
+  } else {
+    await database.updateJobProgress(jobId, progress.processed, progress.failed);
+  }
+}
+
+// Ask the provider to cancel the job's running batches; whatever they finished is still ingested
+export async function cancelJobBatches(jobId: string): Promise<void> {
+  const batches = await database.getAiBatchesByJob(jobId);
+
+  for (const batch of batches) {
+    if (batch.ingested_at !== null || isBatchFinished(batch.status) || batch.status === 'cancelling') {
+      continue;
+    }
+    try {
+      await getBatchProvider(batch.provider_id).cancelBatch(batch.provider_batch_id);
+      logger.info(`Cancelled batch ${batch.provider_batch_id} of job ${jobId}`);
+    } catch (error) {
+      logger.warn(`Could not cancel batch ${batch.provider_batch_id} of job ${jobId}:`, error);
+    }
+  }
+}
+
+// Resume a stopped batch mode job by submitting its pending and failed rows again
+export async function resumeBatchJob(jobId: string): Promise<boolean> {
+  try {
+    const progress = await database.getJobProgress(jobId);
+    if (!progress) {
+      return false;
+    }
+
+    const urls = await database.getUrlsByJob(jobId);
+    if (!urls.some(url => url.status === 'pending' || url.status === 'failed')) {
+      logger.info(`No pending URLs to resume for batch job ${jobId}`);
+      await database.updateJobStatus(jobId, 'completed');
+      await database.updateJobStopReason(jobId, null);
+      return true;
+    }
+
+    await database.updateJobStatus(jobId, 'processing');
+    await database.updateJobStopReason(jobId, null);
+    await database.updateJobProgress(jobId, progress.processed, progress.failed);
+    await queueBatchSubmission(jobId);
+    return true;
+  } catch (error) {
+    logger.error(`Error resuming batch job ${jobId}:`, error);
+    return false;
+  }
+}
@@ -0,0 +1,70 @@
+import { config } from '../config';
+import { database, JobRecord } from './database';
+
+export type BudgetScope = 'job' | 'day';
+
+export interface ExceededBudget {
+  scope: BudgetScope;
+  // USD
+  limit: number;
+  spent: number;
+}
+
+export interface DailyBudgetStatus {
+  // null when there is no daily cap
+  limit: number | null;
+  spent: number;
+  // 'custom' when set through the API, 'default' when it comes from DAILY_BUDGET
+  source: 'custom' | 'default';
+}
+
+// Each workspace has its own daily cap, falling back to DAILY_BUDGET until one is set
+export async function getDailyBudget(workspaceId: string): Promise<DailyBudgetStatus> {
+  const [stored, spent] = await Promise.all([
+    database.getSpendingBudget(workspaceId, 'day'),
+    database.getDailySpend(workspaceId),
+  ]);
+  const amount = stored ? stored.amount : config.dailyBudget;
+
+  return {
+    limit: amount > 0 ? amount : null,
+    spent,
+    source: stored ? 'custom' : 'default',
+  };
+}
+
+/**
+ * The first cap the job has reached, checking its own budget before its
+ * workspace's daily one. Reaching a cap exactly counts as crossing it.
+ */
+export async function findExceededBudget(
+  job: Pick<JobRecord, 'budget' | 'workspace_id'>,
+  jobCost: number,
+  dayCost: number
+): Promise<ExceededBudget | null> {
+  if (job.budget !== null && job.budget > 0 && jobCost >= job.budget) {
+    return { scope: 'job', limit: job.budget, spent: jobCost };
+  }
+
+  if (!job.workspace_id) {
+    return null;
+  }
+
+  const daily = await getDailyBudget(job.workspace_id);
+  if (daily.limit !== null && dayCost >= daily.limit) {
+    return { scope: 'day', limit: daily.limit, spent: dayCost };
+  }
+
+  return null;
+}
+
+// Whether a job may (re)start given what it and its workspace's jobs today have already spent
+export async function checkJobBudgets(job: JobRecord): Promise<ExceededBudget | null> {
+  const dayCost = job.workspace_id ? await database.getDailySpend(job.workspace_id) : 0;
+  return findExceededBudget(job, job.total_cost, dayCost);
+}
+
+export function describeExceededBudget(exceeded: ExceededBudget): string {
+  const label = exceeded.scope === 'job' ? 'Job budget' : 'Daily budget';
+  return `${label} of $${exceeded.limit.toFixed(2)} reached ($${exceeded.spent.toFixed(2)} spent)`;
+}
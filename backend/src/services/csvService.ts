@@ -1,13 +1,28 @@
 import csv from 'csv-parser';
 import * as createCsvWriter from 'csv-writer';
+import ExcelJS from 'exceljs';
 import fs from 'fs';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
-import { CSVRow, ProcessedCSVRow } from '../types';
+import { CSVRow, ProcessedCSVRow, SourceFormat } from '../types';
 import { validateAndNormalizeUrl } from '../utils/urlValidator';
+import { toDelimited } from '../utils/resultsExport';
 import { config } from '../config';
 import { logger } from '../utils/logger';
 import { memoryMonitor } from '../utils/memoryMonitor';
+import type { NewUrlRecord } from './database';
+import {
+  ValidationReport,
+  createValidationReport,
+  findSkipReason,
+  recordRowValidation,
+} from '../utils/rowValidation';
+
+const SOURCE_FORMATS: Record<string, SourceFormat> = {
+  '.csv': 'csv',
+  '.tsv': 'tsv',
+  '.xlsx': 'xlsx',
+};
 
 export class CSVService {
   private uploadDir: string;
@@ -46,6 +61,56 @@ export class CSVService {
     return bestDelimiter;
   }
 
+  // TSV files are never sniffed: tabs are their delimiter even when cells contain commas
+  private getDelimiter(filePath: string, content: string): string {
+    return path.extname(filePath).toLowerCase() === '.tsv' ? '\t' : this.detectDelimiter(content);
+  }
+
+  getSourceFormat(fileName: string): SourceFormat | null {
+    return SOURCE_FORMATS[path.extname(fileName).toLowerCase()] || null;
+  }
+
+  /**
+   * Write one worksheet of an .xlsx workbook out as a TSV file next to it, so
+   * workbooks go through the same row pipeline as delimited files. The first
+   * row is the header. Without a sheet name the first worksheet is used.
+   */
+  async convertWorkbookToTSV(
+    filePath: string,
+    sheetName?: string
+  ): Promise<{ filePath: string; sheet: string | null; sheets: string[] }> {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(filePath);
+
+    const sheets = workbook.worksheets.map(worksheet => worksheet.name);
+    const worksheet = sheetName ? workbook.getWorksheet(sheetName) : workbook.worksheets[0];
+    if (!worksheet) {
+      return { filePath, sheet: null, sheets };
+    }
+
+    const headerRow = worksheet.getRow(1);
+    const columnCount = Math.max(headerRow.cellCount, worksheet.columnCount);
+    const headers = Array.from({ length: columnCount }, (_, index) =>
+      headerRow.getCell(index + 1).text.trim() || `column_${index + 1}`
+    );
+
+    const rows: string[][] = [];
+    for (let rowNumber = 2; rowNumber <= worksheet.rowCount; rowNumber++) {
+      const row = worksheet.getRow(rowNumber);
+      const values = headers.map((_, index) => row.getCell(index + 1).text);
+      if (values.some(value => value.trim())) {
+        rows.push(values);
+      }
+    }
+
+    const tsvPath = path.join(path.dirname(filePath), `${path.basename(filePath, path.extname(filePath))}.tsv`);
+    fs.writeFileSync(tsvPath, toDelimited([headers, ...rows], '\t'));
+
+    logger.info(`Converted sheet '${worksheet.name}' of ${filePath} to ${tsvPath}: ${rows.length} rows`);
+
+    return { filePath: tsvPath, sheet: worksheet.name, sheets };
+  }
+
   async parseCSV(filePath: string): Promise<{ rows: CSVRow[]; columns: string[] }> {
     return new Promise((resolve, reject) => {
       const rows: CSVRow[] = [];
@@ -54,7 +119,7 @@ export class CSVService {
 
       // Read first few lines to detect delimiter
       const content = fs.readFileSync(filePath, 'utf8');
-      const delimiter = this.detectDelimiter(content);
+      const delimiter = this.getDelimiter(filePath, content);
 
       fs.createReadStream(filePath)
         .pipe(csv({ separator: delimiter }))
@@ -83,23 +148,46 @@ export class CSVService {
     });
   }
 
+  /**
+   * URL record for one source row. Rows without a usable URL are kept too,
+   * marked with why they are skipped, so every input row ends up in the results.
+   */
+  private toUrlRecord(
+    data: Record<string, string>,
+    rowIndex: number,
+    urlColumn: string,
+    report: ValidationReport
+  ): NewUrlRecord {
+    const url = (data[urlColumn] || '').trim();
+    const skipReason = findSkipReason(url);
+    recordRowValidation(report, rowIndex, url, skipReason);
+    return { url, rowIndex, originalData: data, skipReason };
+  }
+
+  extractUrlRecords(rows: CSVRow[], urlColumn: string): { urls: NewUrlRecord[]; validation: ValidationReport } {
+    const validation = createValidationReport(urlColumn);
+    const urls = rows.map((row, rowIndex) => this.toUrlRecord(row.originalData, rowIndex, urlColumn, validation));
+    return { urls, validation };
+  }
+
   // New streaming method for large files
   async parseCSVStreaming(
     filePath: string, 
     urlColumn: string, 
     jobId: string,
     onProgress?: (processed: number, total: number) => void
-  ): Promise<{ totalRows: number; columns: string[] }> {
+  ): Promise<{ totalRows: number; columns: string[]; validation: ValidationReport }> {
     return new Promise((resolve, reject) => {
       let totalRows = 0;
       let processedRows = 0;
       let columns: string[] = [];
-      let currentBatch: string[] = [];
+      let currentBatch: NewUrlRecord[] = [];
+      const validation = createValidationReport(urlColumn);
       const batchSize = config.streamingBatchSize;
 
       // Read first few lines to detect delimiter
       const content = fs.readFileSync(filePath, 'utf8');
-      const delimiter = this.detectDelimiter(content);
+      const delimiter = this.getDelimiter(filePath, content);
 
       logger.info(`Starting streaming CSV parse for job ${jobId} with batch size ${batchSize}`);
 
@@ -110,33 +198,29 @@ export class CSVService {
           logger.info(`Detected columns: ${headers.join(', ')}`);
         })
         .on('data', async (data: Record<string, string>) => {
-          totalRows++;
-          const urlValue = data[urlColumn];
+          const rowIndex = totalRows++;
+          currentBatch.push(this.toUrlRecord(data, rowIndex, urlColumn, validation));
           
-          if (urlValue && urlValue.trim()) {
-            currentBatch.push(urlValue.trim());
-            
-            // Process batch when it reaches batch size
-            if (currentBatch.length >= batchSize) {
-              try {
-                await this.processBatch(jobId, currentBatch);
-                processedRows += currentBatch.length;
-                currentBatch = []; // Clear batch from memory
-                
-                // Check memory usage
-                memoryMonitor.checkMemoryUsage();
-                
-                // Report progress
-                if (onProgress) {
-                  onProgress(processedRows, totalRows);
-                }
-                
-                logger.debug(`Processed ${processedRows}/${totalRows} rows for job ${jobId}`);
-              } catch (error) {
-                logger.error(`Error processing batch for job ${jobId}:`, error);
-                reject(error);
-                return;
+          // Process batch when it reaches batch size
+          if (currentBatch.length >= batchSize) {
+            try {
+              await this.processBatch(jobId, currentBatch);
+              processedRows += currentBatch.length;
+              currentBatch = []; // Clear batch from memory
+              
+              // Check memory usage
+              memoryMonitor.checkMemoryUsage();
+              
+              // Report progress
+              if (onProgress) {
+                onProgress(processedRows, totalRows);
               }
+              
+              logger.debug(`Processed ${processedRows}/${totalRows} rows for job ${jobId}`);
+            } catch (error) {
+              logger.error(`Error processing batch for job ${jobId}:`, error);
+              reject(error);
+              return;
             }
           }
         })
@@ -148,8 +232,8 @@ export class CSVService {
               processedRows += currentBatch.length;
             }
             
-            logger.info(`Completed streaming CSV parse for job ${jobId}: ${processedRows}/${totalRows} rows processed`);
-            resolve({ totalRows, columns });
+            logger.info(`Completed streaming CSV parse for job ${jobId}: ${processedRows}/${totalRows} rows processed, ${validation.skippedRows} skipped`);
+            resolve({ totalRows, columns, validation });
           } catch (error) {
             logger.error(`Error processing final batch for job ${jobId}:`, error);
             reject(error);
@@ -162,7 +246,39 @@ export class CSVService {
     });
   }
 
-  private async processBatch(jobId: string, urls: string[]): Promise<void> {
+  /**
+   * What extracting the URLs from another column would give, without storing
+   * anything: every row's URL value, the first rows that would be processed and
+   * the validation report.
+   */
+  async readUrlColumn(
+    filePath: string,
+    urlColumn: string,
+    sampleSize: number
+  ): Promise<{ urls: string[]; sample: NewUrlRecord[]; validation: ValidationReport }> {
+    return new Promise((resolve, reject) => {
+      const urls: string[] = [];
+      const sample: NewUrlRecord[] = [];
+      const validation = createValidationReport(urlColumn);
+
+      const content = fs.readFileSync(filePath, 'utf8');
+      const delimiter = this.getDelimiter(filePath, content);
+
+      fs.createReadStream(filePath)
+        .pipe(csv({ separator: delimiter }))
+        .on('data', (data: Record<string, string>) => {
+          const record = this.toUrlRecord(data, urls.length, urlColumn, validation);
+          urls.push(record.url);
+          if (!record.skipReason && sample.length < sampleSize) {
+            sample.push(record);
+          }
+        })
+        .on('end', () => resolve({ urls, sample, validation }))
+        .on('error', reject);
+    });
+  }
+
+  private async processBatch(jobId: string, urls: NewUrlRecord[]): Promise<void> {
     // This will be implemented when we update the database service
     // For now, we'll use the existing createUrls method
     const { database } = await import('./database');
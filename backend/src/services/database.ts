@@ -1,9 +1,83 @@
 import { Pool, PoolClient } from 'pg';
 import { config } from '../config';
 import { logger } from '../utils/logger';
+import { ProcessingMode, SourceFormat } from '../types';
+import { BatchState, BatchStatus } from './providers/types';
+import { QualityIssue } from './openerQuality';
+import { urlDedupKey } from '../utils/urlValidator';
+import { SKIP_REASON_MESSAGES, SkipReason, ValidationReport } from '../utils/rowValidation';
+
+// Which uploaded columns hold the URL and, optionally, the name/company used by templates
+export interface ColumnMapping {
+  urlColumn: string;
+  nameColumn: string | null;
+  companyColumn: string | null;
+}
+
+// Why a job was stopped: by a user, or automatically when it crossed a spending cap
+export type StopReason = 'user' | 'budget_exceeded';
+
+// needs_review is set by the quality checks, the others by reviewers
+export type ReviewStatus = 'pending' | 'needs_review' | 'approved' | 'rejected';
+
+// Where a row's opener came from when it wasn't generated for the row itself
+export type ResultSource = 'duplicate' | 'cache';
+
+export interface UserRecord {
+  id: string;
+  // Stored lower-cased, so sign-in is case-insensitive
+  email: string;
+  name: string | null;
+  password_hash: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// read allows GET requests, write everything else
+export type ApiKeyScope = 'read' | 'write';
+
+export interface ApiKeyRecord {
+  id: string;
+  user_id: string;
+  name: string;
+  // First characters of the key, shown so keys can be told apart; the key itself is only stored hashed
+  key_prefix: string;
+  key_hash: string;
+  scopes: ApiKeyScope[];
+  last_used_at: Date | null;
+  revoked_at: Date | null;
+  created_at: Date;
+}
+
+// viewer can read and download, editor can also run jobs, admin can also delete them and manage members
+export type WorkspaceRole = 'viewer' | 'editor' | 'admin';
+
+export interface WorkspaceRecord {
+  id: string;
+  name: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// A workspace with the role a particular user has in it
+export interface WorkspaceMembershipRecord extends WorkspaceRecord {
+  role: WorkspaceRole;
+}
+
+export interface WorkspaceMemberRecord {
+  user_id: string;
+  email: string;
+  name: string | null;
+  role: WorkspaceRole;
+  created_at: Date;
+}
 
 export interface JobRecord {
   id: string;
+  // Jobs, templates and budgets belong to a workspace; null only for jobs not yet moved into one
+  workspace_id: string | null;
+  // The user who uploaded the file; null for jobs created before sign-in was required
+  owner_id: string | null;
   file_name: string;
   file_path: string;
   status: 'pending' | 'processing' | 'completed' | 'failed' | 'stopped';
@@ -12,6 +86,31 @@ export interface JobRecord {
   failed_rows: number;
   progress: number;
   content_type: 'company' | 'person' | 'news';
+  columns: string[];
+  column_mapping: ColumnMapping | null;
+  source_format: SourceFormat;
+  source_sheet: string | null;
+  template_version_id: string | null;
+  enrich_pages: boolean;
+  // AI provider id the job generates with
+  provider_id: string | null;
+  total_prompt_tokens: number;
+  total_completion_tokens: number;
+  total_cost: number;
+  // Spending cap in USD, null for no per-job cap
+  budget: number | null;
+  stop_reason: StopReason | null;
+  processing_mode: ProcessingMode;
+  // Openers generated per row; above 1 every opener is kept in url_variants
+  variant_count: number;
+  // Template version per variant, by position; null entries use the job's own prompt
+  variant_template_version_ids: Array<string | null> | null;
+  // Whether openers are looked up in and added to the cross-job opener cache
+  use_cache: boolean;
+  // Rows stored as skipped because their URL can't be processed; counted in total_rows
+  skipped_rows: number;
+  // How the URL column validated when the rows were last extracted
+  validation_report: ValidationReport | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -19,15 +118,317 @@ export interface JobRecord {
 export interface UrlRecord {
   id: string;
   job_id: string;
+  row_index: number;
   url: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  // urlDedupKey of the URL; null for rows stored before keys were recorded
+  url_key: string | null;
+  original_data: Record<string, string> | null;
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'skipped';
+  // Why a skipped row isn't processed; `error` holds the matching message
+  skip_reason: SkipReason | null;
   opener?: string;
   error?: string;
   retry_count: number;
+  model: string | null;
+  // Provider that produced the opener, which differs from the job's when a fallback was used
+  provider_id: string | null;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  cost: number | null;
+  // Provider batch the row was last submitted in, for batch mode jobs
+  batch_id: string | null;
+  review_status: ReviewStatus;
+  // Model output, kept once a reviewer edits `opener`
+  opener_original: string | null;
+  // Reviewer's text, also written to `opener`
+  opener_edited: string | null;
+  reviewed_by: string | null;
+  reviewed_at: Date | null;
+  // Instruction the current opener was regenerated with
+  instruction: string | null;
+  // Rules the opener broke; null when it wasn't checked
+  quality_issues: QualityIssue[] | null;
+  quality_regenerations: number;
+  // Earlier row of the job with the same URL and template values, which is generated in this row's place
+  duplicate_of: string | null;
+  result_source: ResultSource | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// An opener a row had before it was regenerated or reverted
+export interface UrlOpenerHistoryRecord {
+  id: string;
+  url_id: string;
+  job_id: string;
+  opener: string;
+  instruction: string | null;
+  model: string | null;
+  provider_id: string | null;
+  created_at: Date;
+}
+
+// A batch submitted for a batch mode job; ingested_at is set once its results are stored
+export interface AiBatchRecord {
+  id: string;
+  job_id: string;
+  provider_id: string;
+  provider_batch_id: string;
+  input_file_id: string | null;
+  output_file_id: string | null;
+  error_file_id: string | null;
+  status: BatchStatus;
+  request_count: number;
+  completed_count: number;
+  failed_count: number;
+  error: string | null;
+  ingested_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface UrlVariantRecord {
+  id: string;
+  url_id: string;
+  job_id: string;
+  // 1-based; shown as A, B, C...
+  variant_index: number;
+  template_version_id: string | null;
+  opener: string | null;
+  error: string | null;
+  model: string | null;
+  provider_id: string | null;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  cost: number | null;
+  quality_issues: QualityIssue[] | null;
+  // The variant copied to the row's opener and exported as `opener`
+  is_preferred: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface NewUrlVariant {
+  variantIndex: number;
+  templateVersionId: string | null;
+  opener?: string;
+  error?: string;
+  usage?: UrlUsage;
+  qualityIssues?: QualityIssue[] | null;
+}
+
+// Outcome of the quality checks across a job's rows
+export interface QualitySummary {
+  checked: number;
+  passed: number;
+  flagged: number;
+  needsReview: number;
+  regenerations: number;
+  // Rows breaking each rule
+  rules: Record<string, number>;
+}
+
+// How many of a job's rows got their opener without a generation of their own
+export interface ReuseSummary {
+  // Rows that repeat an earlier row and share its opener
+  duplicates: number;
+  fromDuplicates: number;
+  cacheHits: number;
+}
+
+// Enough of a cached opener to complete a row with
+export interface CachedOpener {
+  opener: string;
+  model: string;
+  provider: string;
+}
+
+export interface UrlUsage {
+  model: string;
+  provider: string;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+// Running totals for a job, including tokens spent on rows that were later retried
+export interface JobUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+export interface RecordedUsage {
+  job: JobUsage;
+  // Spent across all jobs so far today (UTC)
+  dayCost: number;
+}
+
+export type BudgetPeriod = 'day';
+
+export interface SpendingBudgetRecord {
+  workspace_id: string;
+  period: BudgetPeriod;
+  amount: number;
+  updated_at: Date;
+}
+
+export interface NewUrlRecord {
+  url: string;
+  rowIndex: number;
+  originalData: Record<string, string>;
+  // Stores the row as skipped instead of pending
+  skipReason?: SkipReason | null;
+}
+
+// uploading until every part is stored; assembled once the parts are joined but no job was created from the file yet
+export type UploadSessionStatus = 'uploading' | 'assembling' | 'assembled' | 'completed';
+
+// A file uploaded in numbered parts over several requests, so a dropped connection only loses one part
+export interface UploadSessionRecord {
+  id: string;
+  owner_id: string | null;
+  file_name: string;
+  file_size: number;
+  part_size: number;
+  part_count: number;
+  // SHA-256 of the whole file, when the client sent one
+  checksum: string | null;
+  status: UploadSessionStatus;
+  // The assembled file, once the parts are joined
+  file_path: string | null;
+  job_id: string | null;
+  expires_at: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface UploadSessionPartRecord {
+  // 1-based
+  part_number: number;
+  size: number;
+  // SHA-256 of the part, verified when it was stored
+  checksum: string;
+  created_at: Date;
+}
+
+// Events a webhook can subscribe to; url.completed is sent for every row that gets an opener
+export type WebhookEvent = 'job.started' | 'job.completed' | 'job.failed' | 'job.stopped' | 'url.completed';
+
+// An endpoint that receives signed POSTs for events of the workspace's jobs
+export interface WebhookRecord {
+  id: string;
+  workspace_id: string;
+  url: string;
+  description: string | null;
+  events: WebhookEvent[];
+  // Signs every delivery; kept in the clear because the signature has to be computed with it
+  secret: string;
+  active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// retrying while attempts remain after a failed one; failed once they are used up
+export type WebhookDeliveryStatus = 'pending' | 'retrying' | 'delivered' | 'failed';
+
+// One event sent to one webhook, with the outcome of its latest attempt
+export interface WebhookDeliveryRecord {
+  id: string;
+  webhook_id: string;
+  event: string;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  response_status: number | null;
+  // Start of the receiver's response body
+  response_body: string | null;
+  error: string | null;
+  duration_ms: number | null;
+  delivered_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// The outcome of one delivery attempt
+export interface WebhookAttempt {
+  attempts: number;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number;
+}
+
+export interface MergedResultRow {
+  id: string;
+  row_index: number;
+  original_data: Record<string, string> | null;
+  url: string;
+  status: string;
+  opener?: string;
+  error?: string;
+}
+
+export interface PromptTemplateRecord {
+  id: string;
+  // null for templates created before workspaces, which every workspace can use but not change
+  workspace_id: string | null;
+  name: string;
+  description: string | null;
+  version: number;
+  version_id: string;
+  system_prompt: string;
+  user_prompt: string;
   created_at: Date;
   updated_at: Date;
 }
 
+export interface PromptTemplateVersionRecord {
+  id: string;
+  template_id: string;
+  version: number;
+  system_prompt: string;
+  user_prompt: string;
+  created_at: Date;
+}
+
+// file_size is a BIGINT, which pg returns as a string
+const UPLOAD_SESSION_SELECT = `
+  SELECT id, owner_id, file_name, file_size::float8 AS file_size, part_size, part_count, checksum, status,
+         file_path, job_id, expires_at, created_at, updated_at
+  FROM upload_sessions`;
+
+const PROMPT_TEMPLATE_SELECT = `
+  SELECT t.id, t.workspace_id, t.name, t.description, t.created_at, t.updated_at,
+         v.id AS version_id, v.version, v.system_prompt, v.user_prompt
+  FROM prompt_templates t
+  JOIN prompt_template_versions v ON v.template_id = t.id AND v.version = t.current_version
+  WHERE t.archived = FALSE`;
+
+export function toJobUsage(job: Pick<JobRecord, 'total_prompt_tokens' | 'total_completion_tokens' | 'total_cost'>): JobUsage {
+  return {
+    promptTokens: job.total_prompt_tokens,
+    completionTokens: job.total_completion_tokens,
+    totalTokens: job.total_prompt_tokens + job.total_completion_tokens,
+    cost: job.total_cost,
+  };
+}
+
+// Rows the job generates openers for; it is complete once these are processed or failed
+export function processableRows(job: Pick<JobRecord, 'total_rows' | 'skipped_rows'>): number {
+  return job.total_rows - (job.skipped_rows || 0);
+}
+
+// review_status for new quality issues (a jsonb parameter): flagged rows need review, a clean row drops that flag
+function reviewStatusForIssues(issuesParam: string): string {
+  return `CASE
+    WHEN jsonb_array_length(COALESCE(${issuesParam}::jsonb, '[]'::jsonb)) > 0 THEN 'needs_review'
+    WHEN review_status = 'needs_review' THEN 'pending'
+    ELSE review_status
+  END`;
+}
+
 export class DatabaseService {
   private pool: Pool;
 
@@ -46,10 +447,102 @@ export class DatabaseService {
     try {
       const client = await this.pool.connect();
       
+      // Create users table; jobs reference their owner
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS users (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          email VARCHAR(255) NOT NULL UNIQUE,
+          name VARCHAR(255),
+          password_hash VARCHAR(255) NOT NULL,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        )
+      `);
+
+      // Signed-in sessions; only a hash of each token is stored
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS user_sessions (
+          token_hash VARCHAR(64) PRIMARY KEY,
+          user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        )
+      `);
+
+      // Personal API keys for scripts, which act as the user who created them
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS api_keys (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          name VARCHAR(255) NOT NULL,
+          key_prefix VARCHAR(20) NOT NULL,
+          key_hash VARCHAR(64) NOT NULL UNIQUE,
+          scopes JSONB NOT NULL DEFAULT '[]'::jsonb,
+          last_used_at TIMESTAMP WITH TIME ZONE,
+          revoked_at TIMESTAMP WITH TIME ZONE,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        )
+      `);
+
+      // Create workspace tables; jobs, templates and budgets belong to a workspace
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS workspaces (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          name VARCHAR(255) NOT NULL,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        )
+      `);
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS workspace_members (
+          workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+          user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          role VARCHAR(20) NOT NULL DEFAULT 'viewer',
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          PRIMARY KEY (workspace_id, user_id)
+        )
+      `);
+
+      // Outbound webhooks and the log of what was sent to them
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS webhooks (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+          url TEXT NOT NULL,
+          description TEXT,
+          events JSONB NOT NULL DEFAULT '[]'::jsonb,
+          secret VARCHAR(100) NOT NULL,
+          active BOOLEAN NOT NULL DEFAULT TRUE,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        )
+      `);
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS webhook_deliveries (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          webhook_id UUID NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+          event VARCHAR(50) NOT NULL,
+          payload JSONB NOT NULL,
+          status VARCHAR(20) NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          response_status INTEGER,
+          response_body TEXT,
+          error TEXT,
+          duration_ms INTEGER,
+          delivered_at TIMESTAMP WITH TIME ZONE,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        )
+      `);
+
       // Create jobs table
       await client.query(`
         CREATE TABLE IF NOT EXISTS jobs (
           id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          workspace_id UUID REFERENCES workspaces(id),
+          owner_id UUID REFERENCES users(id),
           file_name VARCHAR(255) NOT NULL,
           file_path VARCHAR(500) NOT NULL,
           status VARCHAR(20) NOT NULL DEFAULT 'pending',
@@ -58,6 +551,23 @@ export class DatabaseService {
           failed_rows INTEGER NOT NULL DEFAULT 0,
           progress DECIMAL(5,2) NOT NULL DEFAULT 0.00,
           content_type VARCHAR(20) NOT NULL DEFAULT 'company',
+          columns JSONB NOT NULL DEFAULT '[]'::jsonb,
+          column_mapping JSONB,
+          source_format VARCHAR(10) NOT NULL DEFAULT 'csv',
+          source_sheet VARCHAR(255),
+          enrich_pages BOOLEAN NOT NULL DEFAULT FALSE,
+          provider_id VARCHAR(100),
+          total_prompt_tokens INTEGER NOT NULL DEFAULT 0,
+          total_completion_tokens INTEGER NOT NULL DEFAULT 0,
+          total_cost DOUBLE PRECISION NOT NULL DEFAULT 0,
+          budget DOUBLE PRECISION,
+          stop_reason VARCHAR(30),
+          processing_mode VARCHAR(20) NOT NULL DEFAULT 'realtime',
+          variant_count INTEGER NOT NULL DEFAULT 1,
+          variant_template_version_ids JSONB,
+          use_cache BOOLEAN NOT NULL DEFAULT FALSE,
+          skipped_rows INTEGER NOT NULL DEFAULT 0,
+          validation_report JSONB,
           created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
           updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
         )
@@ -68,22 +578,247 @@ export class DatabaseService {
         CREATE TABLE IF NOT EXISTS urls (
           id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
           job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+          row_index INTEGER NOT NULL DEFAULT 0,
           url TEXT NOT NULL,
+          url_key TEXT,
+          original_data JSONB,
           status VARCHAR(20) NOT NULL DEFAULT 'pending',
           opener TEXT,
           error TEXT,
           retry_count INTEGER NOT NULL DEFAULT 0,
+          model VARCHAR(100),
+          provider_id VARCHAR(100),
+          prompt_tokens INTEGER,
+          completion_tokens INTEGER,
+          cost DOUBLE PRECISION,
+          batch_id UUID,
+          review_status VARCHAR(20) NOT NULL DEFAULT 'pending',
+          opener_original TEXT,
+          opener_edited TEXT,
+          reviewed_by VARCHAR(255),
+          reviewed_at TIMESTAMP WITH TIME ZONE,
+          instruction TEXT,
+          quality_issues JSONB,
+          quality_regenerations INTEGER NOT NULL DEFAULT 0,
+          duplicate_of UUID,
+          result_source VARCHAR(20),
+          skip_reason VARCHAR(30),
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        )
+      `);
+
+      // Batches submitted to a provider's batch API for batch mode jobs
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS ai_batches (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+          provider_id VARCHAR(100) NOT NULL,
+          provider_batch_id VARCHAR(255) NOT NULL,
+          input_file_id VARCHAR(255),
+          output_file_id VARCHAR(255),
+          error_file_id VARCHAR(255),
+          status VARCHAR(20) NOT NULL,
+          request_count INTEGER NOT NULL DEFAULT 0,
+          completed_count INTEGER NOT NULL DEFAULT 0,
+          failed_count INTEGER NOT NULL DEFAULT 0,
+          error TEXT,
+          ingested_at TIMESTAMP WITH TIME ZONE,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        )
+      `);
+
+      // Every opener of jobs that generate more than one per row
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS url_variants (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          url_id UUID NOT NULL REFERENCES urls(id) ON DELETE CASCADE,
+          job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+          variant_index INTEGER NOT NULL,
+          template_version_id UUID,
+          opener TEXT,
+          error TEXT,
+          model VARCHAR(100),
+          provider_id VARCHAR(100),
+          prompt_tokens INTEGER,
+          completion_tokens INTEGER,
+          cost DOUBLE PRECISION,
+          quality_issues JSONB,
+          is_preferred BOOLEAN NOT NULL DEFAULT FALSE,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          UNIQUE (url_id, variant_index)
+        )
+      `);
+
+      // Openers replaced by a regeneration, so a row can be reverted to them
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS url_opener_history (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          url_id UUID NOT NULL REFERENCES urls(id) ON DELETE CASCADE,
+          job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+          opener TEXT NOT NULL,
+          instruction TEXT,
+          model VARCHAR(100),
+          provider_id VARCHAR(100),
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        )
+      `);
+
+      // Create prompt template tables; every edit creates a new immutable version
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS prompt_templates (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE,
+          name VARCHAR(255) NOT NULL,
+          description TEXT,
+          current_version INTEGER NOT NULL DEFAULT 1,
+          archived BOOLEAN NOT NULL DEFAULT FALSE,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        )
+      `);
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS prompt_template_versions (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          template_id UUID NOT NULL REFERENCES prompt_templates(id) ON DELETE CASCADE,
+          version INTEGER NOT NULL,
+          system_prompt TEXT NOT NULL,
+          user_prompt TEXT NOT NULL,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          UNIQUE (template_id, version)
+        )
+      `);
+
+      // Spend per workspace and UTC day, checked against the workspace's daily budget
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS daily_spend (
+          workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE,
+          day DATE NOT NULL,
+          prompt_tokens BIGINT NOT NULL DEFAULT 0,
+          completion_tokens BIGINT NOT NULL DEFAULT 0,
+          cost DOUBLE PRECISION NOT NULL DEFAULT 0,
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        )
+      `);
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS spending_budgets (
+          workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE,
+          period VARCHAR(10) NOT NULL,
+          amount DOUBLE PRECISION NOT NULL,
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        )
+      `);
+
+      // Resumable uploads; the parts themselves are kept on disk until the file is assembled
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS upload_sessions (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          owner_id UUID REFERENCES users(id) ON DELETE CASCADE,
+          file_name VARCHAR(255) NOT NULL,
+          file_size BIGINT NOT NULL,
+          part_size INTEGER NOT NULL,
+          part_count INTEGER NOT NULL,
+          checksum VARCHAR(64),
+          status VARCHAR(20) NOT NULL DEFAULT 'uploading',
+          file_path VARCHAR(500),
+          job_id UUID REFERENCES jobs(id) ON DELETE SET NULL,
+          expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
           created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
           updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
         )
       `);
 
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS upload_session_parts (
+          session_id UUID NOT NULL REFERENCES upload_sessions(id) ON DELETE CASCADE,
+          part_number INTEGER NOT NULL,
+          size INTEGER NOT NULL,
+          checksum VARCHAR(64) NOT NULL,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          PRIMARY KEY (session_id, part_number)
+        )
+      `);
+
+      // Add columns introduced after the initial schema
+      await client.query(`
+        ALTER TABLE jobs ADD COLUMN IF NOT EXISTS columns JSONB NOT NULL DEFAULT '[]'::jsonb;
+        ALTER TABLE jobs ADD COLUMN IF NOT EXISTS template_version_id UUID REFERENCES prompt_template_versions(id);
+        ALTER TABLE jobs ADD COLUMN IF NOT EXISTS enrich_pages BOOLEAN NOT NULL DEFAULT FALSE;
+        ALTER TABLE jobs ADD COLUMN IF NOT EXISTS column_mapping JSONB;
+        ALTER TABLE jobs ADD COLUMN IF NOT EXISTS source_format VARCHAR(10) NOT NULL DEFAULT 'csv';
+        ALTER TABLE jobs ADD COLUMN IF NOT EXISTS source_sheet VARCHAR(255);
+        ALTER TABLE jobs ADD COLUMN IF NOT EXISTS total_prompt_tokens INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE jobs ADD COLUMN IF NOT EXISTS total_completion_tokens INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE jobs ADD COLUMN IF NOT EXISTS total_cost DOUBLE PRECISION NOT NULL DEFAULT 0;
+        ALTER TABLE jobs ADD COLUMN IF NOT EXISTS budget DOUBLE PRECISION;
+        ALTER TABLE jobs ADD COLUMN IF NOT EXISTS stop_reason VARCHAR(30);
+        ALTER TABLE jobs ADD COLUMN IF NOT EXISTS provider_id VARCHAR(100);
+        ALTER TABLE jobs ADD COLUMN IF NOT EXISTS processing_mode VARCHAR(20) NOT NULL DEFAULT 'realtime';
+        ALTER TABLE jobs ADD COLUMN IF NOT EXISTS variant_count INTEGER NOT NULL DEFAULT 1;
+        ALTER TABLE jobs ADD COLUMN IF NOT EXISTS variant_template_version_ids JSONB;
+        ALTER TABLE jobs ADD COLUMN IF NOT EXISTS use_cache BOOLEAN NOT NULL DEFAULT FALSE;
+        ALTER TABLE jobs ADD COLUMN IF NOT EXISTS skipped_rows INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE jobs ADD COLUMN IF NOT EXISTS validation_report JSONB;
+        ALTER TABLE urls ADD COLUMN IF NOT EXISTS row_index INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE urls ADD COLUMN IF NOT EXISTS original_data JSONB;
+        ALTER TABLE urls ADD COLUMN IF NOT EXISTS model VARCHAR(100);
+        ALTER TABLE urls ADD COLUMN IF NOT EXISTS prompt_tokens INTEGER;
+        ALTER TABLE urls ADD COLUMN IF NOT EXISTS completion_tokens INTEGER;
+        ALTER TABLE urls ADD COLUMN IF NOT EXISTS cost DOUBLE PRECISION;
+        ALTER TABLE urls ADD COLUMN IF NOT EXISTS provider_id VARCHAR(100);
+        ALTER TABLE urls ADD COLUMN IF NOT EXISTS batch_id UUID;
+        ALTER TABLE urls ADD COLUMN IF NOT EXISTS review_status VARCHAR(20) NOT NULL DEFAULT 'pending';
+        ALTER TABLE urls ADD COLUMN IF NOT EXISTS opener_original TEXT;
+        ALTER TABLE urls ADD COLUMN IF NOT EXISTS opener_edited TEXT;
+        ALTER TABLE urls ADD COLUMN IF NOT EXISTS reviewed_by VARCHAR(255);
+        ALTER TABLE urls ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE;
+        ALTER TABLE urls ADD COLUMN IF NOT EXISTS instruction TEXT;
+        ALTER TABLE urls ADD COLUMN IF NOT EXISTS quality_issues JSONB;
+        ALTER TABLE urls ADD COLUMN IF NOT EXISTS quality_regenerations INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE urls ADD COLUMN IF NOT EXISTS url_key TEXT;
+        ALTER TABLE urls ADD COLUMN IF NOT EXISTS duplicate_of UUID;
+        ALTER TABLE urls ADD COLUMN IF NOT EXISTS result_source VARCHAR(20);
+        ALTER TABLE urls ADD COLUMN IF NOT EXISTS skip_reason VARCHAR(30);
+        ALTER TABLE url_variants ADD COLUMN IF NOT EXISTS quality_issues JSONB;
+        ALTER TABLE jobs ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES users(id);
+        ALTER TABLE upload_sessions ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES users(id) ON DELETE CASCADE;
+        ALTER TABLE jobs ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES workspaces(id);
+        ALTER TABLE prompt_templates ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+        ALTER TABLE daily_spend ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+        ALTER TABLE daily_spend DROP CONSTRAINT IF EXISTS daily_spend_pkey;
+        ALTER TABLE spending_budgets ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+        ALTER TABLE spending_budgets DROP CONSTRAINT IF EXISTS spending_budgets_pkey;
+      `);
+
       // Create indexes for better performance
       await client.query(`
         CREATE INDEX IF NOT EXISTS idx_urls_job_id ON urls(job_id);
+        CREATE INDEX IF NOT EXISTS idx_urls_job_row ON urls(job_id, row_index);
         CREATE INDEX IF NOT EXISTS idx_urls_status ON urls(status);
         CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
         CREATE INDEX IF NOT EXISTS idx_jobs_created_at ON jobs(created_at);
+        CREATE INDEX IF NOT EXISTS idx_urls_batch_id ON urls(batch_id);
+        CREATE INDEX IF NOT EXISTS idx_ai_batches_job_id ON ai_batches(job_id);
+        CREATE INDEX IF NOT EXISTS idx_url_variants_job_id ON url_variants(job_id);
+        CREATE INDEX IF NOT EXISTS idx_urls_job_review ON urls(job_id, review_status);
+        CREATE INDEX IF NOT EXISTS idx_url_opener_history_url_id ON url_opener_history(url_id);
+        CREATE INDEX IF NOT EXISTS idx_urls_duplicate_of ON urls(duplicate_of);
+        CREATE INDEX IF NOT EXISTS idx_upload_sessions_expires_at ON upload_sessions(expires_at);
+        CREATE INDEX IF NOT EXISTS idx_jobs_owner_created ON jobs(owner_id, created_at);
+        CREATE INDEX IF NOT EXISTS idx_jobs_workspace_created ON jobs(workspace_id, created_at);
+        CREATE INDEX IF NOT EXISTS idx_prompt_templates_workspace_id ON prompt_templates(workspace_id);
+        CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON workspace_members(user_id);
+        CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON api_keys(user_id);
+        CREATE INDEX IF NOT EXISTS idx_webhooks_workspace_id ON webhooks(workspace_id);
+        CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_created ON webhook_deliveries(webhook_id, created_at);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_daily_spend_workspace_day ON daily_spend(workspace_id, day);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_spending_budgets_workspace_period ON spending_budgets(workspace_id, period);
+        CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON user_sessions(user_id);
+        CREATE INDEX IF NOT EXISTS idx_user_sessions_expires_at ON user_sessions(expires_at);
       `);
 
       client.release();
@@ -95,51 +830,54 @@ export class DatabaseService {
     }
   }
 
-  async createJob(
-    fileName: string,
-    filePath: string,
-    totalRows: number,
-    contentType: 'company' | 'person' | 'news' = 'company'
-  ): Promise<string> {
+  async createUser(email: string, name: string | null, passwordHash: string): Promise<UserRecord> {
     const client = await this.pool.connect();
     try {
       const result = await client.query(
-        `INSERT INTO jobs (file_name, file_path, total_rows, status, content_type)
-         VALUES ($1, $2, $3, 'pending', $4)
-         RETURNING id`,
-        [fileName, filePath, totalRows, contentType]
+        `INSERT INTO users (email, name, password_hash)
+         VALUES ($1, $2, $3)
+         RETURNING *`,
+        [email, name, passwordHash]
       );
-      return result.rows[0].id;
+      return result.rows[0];
     } finally {
       client.release();
     }
   }
 
-  async createUrls(jobId: string, urls: string[]): Promise<void> {
-    if (urls.length === 0) {
-      return; // No URLs to insert
+  async getUserByEmail(email: string): Promise<UserRecord | null> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query('SELECT * FROM users WHERE email = $1', [email]);
+      return result.rows[0] || null;
+    } finally {
+      client.release();
     }
+  }
 
+  async createUserSession(tokenHash: string, userId: string, ttlSeconds: number): Promise<void> {
     const client = await this.pool.connect();
     try {
-      // Use parameterized query to avoid SQL injection
-      const values = urls.map((_, index) => `($1, $${index + 2}, 'pending')`).join(',');
-      const params = [jobId, ...urls];
       await client.query(
-        `INSERT INTO urls (job_id, url, status) VALUES ${values}`,
-        params
+        `INSERT INTO user_sessions (token_hash, user_id, expires_at)
+         VALUES ($1, $2, NOW() + make_interval(secs => $3))`,
+        [tokenHash, userId, ttlSeconds]
       );
     } finally {
       client.release();
     }
   }
 
-  async getJob(jobId: string): Promise<JobRecord | null> {
+  // The user a session token belongs to, or null when the session is unknown or expired
+  async getUserBySession(tokenHash: string): Promise<UserRecord | null> {
     const client = await this.pool.connect();
     try {
       const result = await client.query(
-        'SELECT * FROM jobs WHERE id = $1',
-        [jobId]
+        `SELECT u.*
+         FROM user_sessions s
+         JOIN users u ON u.id = s.user_id
+         WHERE s.token_hash = $1 AND s.expires_at > NOW()`,
+        [tokenHash]
       );
       return result.rows[0] || null;
     } finally {
@@ -147,134 +885,1834 @@ export class DatabaseService {
     }
   }
 
-  async updateJobStatus(
-    jobId: string,
-    status: JobRecord['status'],
-    processedRows?: number,
-    failedRows?: number
-  ): Promise<void> {
+  async createApiKey(
+    userId: string,
+    name: string,
+    keyPrefix: string,
+    keyHash: string,
+    scopes: ApiKeyScope[]
+  ): Promise<ApiKeyRecord> {
     const client = await this.pool.connect();
     try {
-      const updates = ['status = $2', 'updated_at = NOW()'];
-      const values = [jobId, status];
-      let paramIndex = 3;
+      const result = await client.query(
+        `INSERT INTO api_keys (user_id, name, key_prefix, key_hash, scopes)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+        [userId, name, keyPrefix, keyHash, JSON.stringify(scopes)]
+      );
+      return result.rows[0];
+    } finally {
+      client.release();
+    }
+  }
 
-      if (processedRows !== undefined) {
+  // The user's keys, newest first, including revoked ones
+  async getApiKeysByUser(userId: string): Promise<ApiKeyRecord[]> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT * FROM api_keys WHERE user_id = $1 ORDER BY created_at DESC',
+        [userId]
+      );
+      return result.rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async revokeApiKey(keyId: string, userId: string): Promise<boolean> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `UPDATE api_keys SET revoked_at = NOW()
+         WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL`,
+        [keyId, userId]
+      );
+      return (result.rowCount || 0) > 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  // The key's user, recording the key as used; null for unknown and revoked keys
+  async useApiKey(keyHash: string): Promise<{ user: UserRecord; apiKey: ApiKeyRecord } | null> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `UPDATE api_keys SET last_used_at = NOW()
+         WHERE key_hash = $1 AND revoked_at IS NULL
+         RETURNING *`,
+        [keyHash]
+      );
+      const apiKey: ApiKeyRecord | undefined = result.rows[0];
+      if (!apiKey) {
+        return null;
+      }
+
+      const user = await client.query('SELECT * FROM users WHERE id = $1', [apiKey.user_id]);
+      return user.rows[0] ? { user: user.rows[0], apiKey } : null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async deleteUserSession(tokenHash: string): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('DELETE FROM user_sessions WHERE token_hash = $1', [tokenHash]);
+    } finally {
+      client.release();
+    }
+  }
+
+  async deleteExpiredUserSessions(): Promise<number> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query('DELETE FROM user_sessions WHERE expires_at < NOW()');
+      return result.rowCount || 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Create a workspace with the given user as its first admin
+  async createWorkspace(name: string, adminUserId: string): Promise<WorkspaceRecord> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        'INSERT INTO workspaces (name) VALUES ($1) RETURNING *',
+        [name]
+      );
+      const workspace: WorkspaceRecord = result.rows[0];
+
+      await client.query(
+        `INSERT INTO workspace_members (workspace_id, user_id, role) VALUES ($1, $2, 'admin')`,
+        [workspace.id, adminUserId]
+      );
+
+      await client.query('COMMIT');
+      return workspace;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateWorkspaceName(workspaceId: string, name: string): Promise<WorkspaceRecord | null> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'UPDATE workspaces SET name = $2, updated_at = NOW() WHERE id = $1 RETURNING *',
+        [workspaceId, name]
+      );
+      return result.rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Workspaces the user is a member of, oldest first, with their role in each
+  async getWorkspacesForUser(userId: string): Promise<WorkspaceMembershipRecord[]> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT w.*, m.role
+         FROM workspaces w
+         JOIN workspace_members m ON m.workspace_id = w.id
+         WHERE m.user_id = $1
+         ORDER BY m.created_at, w.name`,
+        [userId]
+      );
+      return result.rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getWorkspaceMembership(workspaceId: string, userId: string): Promise<WorkspaceMembershipRecord | null> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT w.*, m.role
+         FROM workspaces w
+         JOIN workspace_members m ON m.workspace_id = w.id
+         WHERE w.id = $1 AND m.user_id = $2`,
+        [workspaceId, userId]
+      );
+      return result.rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMemberRecord[]> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT u.id AS user_id, u.email, u.name, m.role, m.created_at
+         FROM workspace_members m
+         JOIN users u ON u.id = m.user_id
+         WHERE m.workspace_id = $1
+         ORDER BY m.created_at`,
+        [workspaceId]
+      );
+      return result.rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Add a member, or change the role of someone who already is one
+  async setWorkspaceMember(workspaceId: string, userId: string, role: WorkspaceRole): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `INSERT INTO workspace_members (workspace_id, user_id, role)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (workspace_id, user_id) DO UPDATE SET role = EXCLUDED.role`,
+        [workspaceId, userId, role]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async removeWorkspaceMember(workspaceId: string, userId: string): Promise<boolean> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'DELETE FROM workspace_members WHERE workspace_id = $1 AND user_id = $2',
+        [workspaceId, userId]
+      );
+      return (result.rowCount || 0) > 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  async countWorkspaceAdmins(workspaceId: string): Promise<number> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT COUNT(*)::int AS count FROM workspace_members WHERE workspace_id = $1 AND role = 'admin'`,
+        [workspaceId]
+      );
+      return result.rows[0].count;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Move the user's jobs from before workspaces existed into the given workspace
+  async assignUnplacedJobs(ownerId: string, workspaceId: string): Promise<number> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'UPDATE jobs SET workspace_id = $2 WHERE owner_id = $1 AND workspace_id IS NULL',
+        [ownerId, workspaceId]
+      );
+      return result.rowCount || 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  async createWebhook(
+    workspaceId: string,
+    url: string,
+    events: WebhookEvent[],
+    description: string | null,
+    secret: string
+  ): Promise<WebhookRecord> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `INSERT INTO webhooks (workspace_id, url, events, description, secret)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+        [workspaceId, url, JSON.stringify(events), description, secret]
+      );
+      return result.rows[0];
+    } finally {
+      client.release();
+    }
+  }
+
+  async getWebhooksByWorkspace(workspaceId: string): Promise<WebhookRecord[]> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT * FROM webhooks WHERE workspace_id = $1 ORDER BY created_at',
+        [workspaceId]
+      );
+      return result.rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getWebhook(webhookId: string, workspaceId: string): Promise<WebhookRecord | null> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT * FROM webhooks WHERE id = $1 AND workspace_id = $2',
+        [webhookId, workspaceId]
+      );
+      return result.rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Active webhooks of the job's workspace subscribed to the event
+  async getWebhooksForJobEvent(jobId: string, event: WebhookEvent): Promise<WebhookRecord[]> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT w.*
+         FROM webhooks w
+         JOIN jobs j ON j.workspace_id = w.workspace_id
+         WHERE j.id = $1 AND w.active = TRUE AND w.events ? $2`,
+        [jobId, event]
+      );
+      return result.rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateWebhook(
+    webhookId: string,
+    workspaceId: string,
+    updates: { url?: string; events?: WebhookEvent[]; description?: string | null; active?: boolean }
+  ): Promise<WebhookRecord | null> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `UPDATE webhooks
+         SET url = COALESCE($3, url),
+             events = COALESCE($4::jsonb, events),
+             description = CASE WHEN $5::boolean THEN $6 ELSE description END,
+             active = COALESCE($7, active),
+             updated_at = NOW()
+         WHERE id = $1 AND workspace_id = $2
+         RETURNING *`,
+        [
+          webhookId,
+          workspaceId,
+          updates.url ?? null,
+          updates.events ? JSON.stringify(updates.events) : null,
+          updates.description !== undefined,
+          updates.description ?? null,
+          updates.active ?? null,
+        ]
+      );
+      return result.rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async deleteWebhook(webhookId: string, workspaceId: string): Promise<boolean> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'DELETE FROM webhooks WHERE id = $1 AND workspace_id = $2',
+        [webhookId, workspaceId]
+      );
+      return (result.rowCount || 0) > 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  async createWebhookDelivery(webhookId: string, event: string, payload: Record<string, unknown>): Promise<WebhookDeliveryRecord> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `INSERT INTO webhook_deliveries (webhook_id, event, payload)
+         VALUES ($1, $2, $3)
+         RETURNING *`,
+        [webhookId, event, JSON.stringify(payload)]
+      );
+      return result.rows[0];
+    } finally {
+      client.release();
+    }
+  }
+
+  // A delivery with the webhook it is sent to; null once the webhook was deleted
+  async getWebhookDelivery(deliveryId: string): Promise<{ delivery: WebhookDeliveryRecord; webhook: WebhookRecord } | null> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query('SELECT * FROM webhook_deliveries WHERE id = $1', [deliveryId]);
+      const delivery: WebhookDeliveryRecord | undefined = result.rows[0];
+      if (!delivery) {
+        return null;
+      }
+
+      const webhook = await client.query('SELECT * FROM webhooks WHERE id = $1', [delivery.webhook_id]);
+      return webhook.rows[0] ? { delivery, webhook: webhook.rows[0] } : null;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Newest first
+  async getWebhookDeliveries(webhookId: string, limit: number): Promise<WebhookDeliveryRecord[]> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT * FROM webhook_deliveries
+         WHERE webhook_id = $1
+         ORDER BY created_at DESC
+         LIMIT $2`,
+        [webhookId, limit]
+      );
+      return result.rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async recordWebhookAttempt(deliveryId: string, status: WebhookDeliveryStatus, attempt: WebhookAttempt): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `UPDATE webhook_deliveries
+         SET status = $2,
+             attempts = $3,
+             response_status = $4,
+             response_body = $5,
+             error = $6,
+             duration_ms = $7,
+             delivered_at = CASE WHEN $2 = 'delivered' THEN NOW() ELSE delivered_at END,
+             updated_at = NOW()
+         WHERE id = $1`,
+        [deliveryId, status, attempt.attempts, attempt.responseStatus, attempt.responseBody, attempt.error, attempt.durationMs]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async createJob(
+    workspaceId: string,
+    ownerId: string,
+    fileName: string,
+    filePath: string,
+    totalRows: number,
+    contentType: 'company' | 'person' | 'news' = 'company',
+    columns: string[] = []
+  ): Promise<string> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `INSERT INTO jobs (workspace_id, owner_id, file_name, file_path, total_rows, status, content_type, columns)
+         VALUES ($1, $2, $3, $4, $5, 'pending', $6, $7)
+         RETURNING id`,
+        [workspaceId, ownerId, fileName, filePath, totalRows, contentType, JSON.stringify(columns)]
+      );
+      return result.rows[0].id;
+    } finally {
+      client.release();
+    }
+  }
+
+  async createUrls(jobId: string, urls: NewUrlRecord[]): Promise<void> {
+    if (urls.length === 0) {
+      return; // No URLs to insert
+    }
+
+    const client = await this.pool.connect();
+    try {
+      // Insert in slices to stay well below the Postgres parameter limit
+      const sliceSize = 1000;
+      for (let start = 0; start < urls.length; start += sliceSize) {
+        const slice = urls.slice(start, start + sliceSize);
+
+        // Use parameterized query to avoid SQL injection
+        const values = slice
+          .map((_, index) => {
+            const base = index * 7 + 1;
+            return `($1, $${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6}, $${base + 7})`;
+          })
+          .join(',');
+        const params: Array<string | number | null> = [jobId];
+        slice.forEach(record => {
+          const skipReason = record.skipReason || null;
+          params.push(
+            record.rowIndex,
+            record.url,
+            skipReason ? null : urlDedupKey(record.url),
+            JSON.stringify(record.originalData),
+            skipReason ? 'skipped' : 'pending',
+            skipReason,
+            skipReason ? SKIP_REASON_MESSAGES[skipReason] : null
+          );
+        });
+
+        await client.query(
+          `INSERT INTO urls (job_id, row_index, url, url_key, original_data, status, skip_reason, error) VALUES ${values}`,
+          params
+        );
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateJobColumns(jobId: string, columns: string[]): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        'UPDATE jobs SET columns = $1, updated_at = NOW() WHERE id = $2',
+        [JSON.stringify(columns), jobId]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateJobSource(jobId: string, format: SourceFormat, sheet: string | null): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        'UPDATE jobs SET source_format = $1, source_sheet = $2, updated_at = NOW() WHERE id = $3',
+        [format, sheet, jobId]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateJobColumnMapping(jobId: string, mapping: ColumnMapping): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        'UPDATE jobs SET column_mapping = $1, updated_at = NOW() WHERE id = $2',
+        [JSON.stringify(mapping), jobId]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  // Drop a job's URL records so they can be re-extracted from a different column
+  // Row counts of the extracted file; skipped rows count towards total_rows but are never processed
+  async updateJobRowValidation(jobId: string, totalRows: number, report: ValidationReport): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `UPDATE jobs SET total_rows = $2, skipped_rows = $3, validation_report = $4, updated_at = NOW() WHERE id = $1`,
+        [jobId, totalRows, report.skippedRows, JSON.stringify(report)]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async deleteUrlsByJob(jobId: string): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('DELETE FROM urls WHERE job_id = $1', [jobId]);
+    } finally {
+      client.release();
+    }
+  }
+
+  async getJob(jobId: string): Promise<JobRecord | null> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT * FROM jobs WHERE id = $1',
+        [jobId]
+      );
+      return result.rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  // The job, only when it belongs to the given workspace
+  async getJobForWorkspace(jobId: string, workspaceId: string): Promise<JobRecord | null> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT * FROM jobs WHERE id = $1 AND workspace_id = $2',
+        [jobId, workspaceId]
+      );
+      return result.rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateJobStatus(
+    jobId: string,
+    status: JobRecord['status'],
+    processedRows?: number,
+    failedRows?: number
+  ): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      const updates = ['status = $2', 'updated_at = NOW()'];
+      const values = [jobId, status];
+      let paramIndex = 3;
+
+      if (processedRows !== undefined) {
         updates.push(`processed_rows = $${paramIndex++}`);
         values.push(processedRows.toString());
       }
 
-      if (failedRows !== undefined) {
-        updates.push(`failed_rows = $${paramIndex++}`);
-        values.push(failedRows.toString());
-      }
+      if (failedRows !== undefined) {
+        updates.push(`failed_rows = $${paramIndex++}`);
+        values.push(failedRows.toString());
+      }
+
+      // Calculate progress
+      const job = await this.getJob(jobId);
+      if (job) {
+        const progress = processableRows(job) > 0 ? 
+          ((processedRows || job.processed_rows) / processableRows(job)) * 100 : 0;
+        updates.push(`progress = $${paramIndex++}`);
+        values.push(progress.toString());
+      }
+
+      await client.query(
+        `UPDATE jobs SET ${updates.join(', ')} WHERE id = $1`,
+        values
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  // Mark a processing job failed; false when it had already failed, finished or been stopped
+  async failProcessingJob(jobId: string): Promise<boolean> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `UPDATE jobs
+         SET status = 'failed', updated_at = NOW()
+         WHERE id = $1 AND status = 'processing'
+         RETURNING id`,
+        [jobId]
+      );
+      return result.rows.length > 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateJobProgress(
+    jobId: string,
+    processedRows: number,
+    failedRows: number
+  ): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      const job = await this.getJob(jobId);
+      if (!job) {
+        throw new Error(`Job ${jobId} not found`);
+      }
+
+      const progress = processableRows(job) > 0 ? (processedRows / processableRows(job)) * 100 : 0;
+
+      await client.query(
+        `UPDATE jobs SET processed_rows = $2, failed_rows = $3, progress = $4, updated_at = NOW() WHERE id = $1`,
+        [jobId, processedRows, failedRows, progress]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateJobContentType(jobId: string, contentType: 'company' | 'person' | 'news'): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        'UPDATE jobs SET content_type = $1, updated_at = NOW() WHERE id = $2',
+        [contentType, jobId]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateJobPageEnrichment(jobId: string, enrichPages: boolean): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        'UPDATE jobs SET enrich_pages = $1, updated_at = NOW() WHERE id = $2',
+        [enrichPages, jobId]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateJobCacheUse(jobId: string, useCache: boolean): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        'UPDATE jobs SET use_cache = $1, updated_at = NOW() WHERE id = $2',
+        [useCache, jobId]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateJobProvider(jobId: string, providerId: string): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        'UPDATE jobs SET provider_id = $1, updated_at = NOW() WHERE id = $2',
+        [providerId, jobId]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateJobProcessingMode(jobId: string, mode: ProcessingMode): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        'UPDATE jobs SET processing_mode = $1, updated_at = NOW() WHERE id = $2',
+        [mode, jobId]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateJobVariants(jobId: string, count: number, templateVersionIds: Array<string | null>): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        'UPDATE jobs SET variant_count = $1, variant_template_version_ids = $2, updated_at = NOW() WHERE id = $3',
+        [count, templateVersionIds.length > 0 ? JSON.stringify(templateVersionIds) : null, jobId]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateJobTemplateVersion(jobId: string, templateVersionId: string | null): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        'UPDATE jobs SET template_version_id = $1, updated_at = NOW() WHERE id = $2',
+        [templateVersionId, jobId]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateUrlStatus(
+    urlId: string,
+    status: UrlRecord['status'],
+    opener?: string,
+    error?: string,
+    retryCount?: number
+  ): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      const updates = ['status = $2', 'updated_at = NOW()'];
+      const values = [urlId, status];
+      let paramIndex = 3;
+
+      if (opener !== undefined) {
+        updates.push(`opener = $${paramIndex++}`);
+        values.push(opener);
+      }
+
+      if (error !== undefined) {
+        updates.push(`error = $${paramIndex++}`);
+        values.push(error);
+      }
+
+      if (retryCount !== undefined) {
+        updates.push(`retry_count = $${paramIndex++}`);
+        values.push(retryCount.toString());
+      }
+
+      const result = await client.query(
+        `UPDATE urls SET ${updates.join(', ')} WHERE id = $1`,
+        values
+      );
+      
+      // Log the update result for debugging
+      logger.debug(`Updated URL ${urlId} to status ${status}, rows affected: ${result.rowCount}`);
+      
+      if (result.rowCount === 0) {
+        logger.warn(`No rows updated for URL ${urlId} - URL may not exist`);
+      }
+    } catch (error) {
+      logger.error(`Failed to update URL ${urlId} status:`, error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateJobBudget(jobId: string, budget: number | null): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        'UPDATE jobs SET budget = $2, updated_at = NOW() WHERE id = $1',
+        [jobId, budget]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateJobStopReason(jobId: string, reason: StopReason | null): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        'UPDATE jobs SET stop_reason = $2, updated_at = NOW() WHERE id = $1',
+        [jobId, reason]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  // Store what a generation cost on the URL and add it to the job's and its workspace's running totals for the day
+  async recordUrlUsage(jobId: string, urlId: string, usage: UrlUsage): Promise<RecordedUsage> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      await client.query(
+        `UPDATE urls
+         SET model = $2, provider_id = $3, prompt_tokens = $4, completion_tokens = $5, cost = $6, updated_at = NOW()
+         WHERE id = $1`,
+        [urlId, usage.model, usage.provider, usage.promptTokens, usage.completionTokens, usage.cost]
+      );
+
+      const result = await client.query(
+        `UPDATE jobs
+         SET total_prompt_tokens = total_prompt_tokens + $2,
+             total_completion_tokens = total_completion_tokens + $3,
+             total_cost = total_cost + $4,
+             updated_at = NOW()
+         WHERE id = $1
+         RETURNING total_prompt_tokens, total_completion_tokens, total_cost`,
+        [jobId, usage.promptTokens, usage.completionTokens, usage.cost]
+      );
+
+      // Jobs not yet moved into a workspace aren't counted against any daily budget
+      const day = await client.query(
+        `INSERT INTO daily_spend (workspace_id, day, prompt_tokens, completion_tokens, cost)
+         SELECT workspace_id, (NOW() AT TIME ZONE 'UTC')::date, $2, $3, $4
+         FROM jobs
+         WHERE id = $1 AND workspace_id IS NOT NULL
+         ON CONFLICT (workspace_id, day) DO UPDATE
+         SET prompt_tokens = daily_spend.prompt_tokens + EXCLUDED.prompt_tokens,
+             completion_tokens = daily_spend.completion_tokens + EXCLUDED.completion_tokens,
+             cost = daily_spend.cost + EXCLUDED.cost,
+             updated_at = NOW()
+         RETURNING cost`,
+        [jobId, usage.promptTokens, usage.completionTokens, usage.cost]
+      );
+
+      await client.query('COMMIT');
+      return {
+        job: result.rows.length > 0
+          ? toJobUsage(result.rows[0])
+          : { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 },
+        dayCost: day.rows.length > 0 ? day.rows[0].cost : 0,
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Replace a row's variants with a new generation. The first variant with an
+   * opener becomes the preferred one until another is starred.
+   */
+  async saveUrlVariants(jobId: string, urlId: string, variants: NewUrlVariant[]): Promise<UrlVariantRecord[]> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM url_variants WHERE url_id = $1', [urlId]);
+
+      const preferredIndex = variants.find(variant => variant.opener !== undefined)?.variantIndex;
+      const saved: UrlVariantRecord[] = [];
+      for (const variant of variants) {
+        const result = await client.query(
+          `INSERT INTO url_variants (
+             url_id, job_id, variant_index, template_version_id, opener, error,
+             model, provider_id, prompt_tokens, completion_tokens, cost, quality_issues, is_preferred
+           )
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+           RETURNING *`,
+          [
+            urlId,
+            jobId,
+            variant.variantIndex,
+            variant.templateVersionId,
+            variant.opener ?? null,
+            variant.error ?? null,
+            variant.usage?.model ?? null,
+            variant.usage?.provider ?? null,
+            variant.usage?.promptTokens ?? null,
+            variant.usage?.completionTokens ?? null,
+            variant.usage?.cost ?? null,
+            variant.qualityIssues ? JSON.stringify(variant.qualityIssues) : null,
+            variant.variantIndex === preferredIndex,
+          ]
+        );
+        saved.push(result.rows[0]);
+      }
+
+      await client.query('COMMIT');
+      return saved;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Every variant of the job's rows, grouped by row
+  async getVariantsByJob(jobId: string): Promise<Map<string, UrlVariantRecord[]>> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT * FROM url_variants WHERE job_id = $1 ORDER BY url_id, variant_index',
+        [jobId]
+      );
+
+      const variants = new Map<string, UrlVariantRecord[]>();
+      for (const row of result.rows as UrlVariantRecord[]) {
+        variants.set(row.url_id, [...(variants.get(row.url_id) || []), row]);
+      }
+      return variants;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Star one of a row's variants: it becomes the row's opener, and so the one
+   * exported as `opener`. Returns null when the row has no such variant with an opener.
+   */
+  async setPreferredVariant(jobId: string, urlId: string, variantIndex: number): Promise<UrlVariantRecord | null> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const variant = await client.query(
+        `SELECT * FROM url_variants
+         WHERE job_id = $1 AND url_id = $2 AND variant_index = $3 AND opener IS NOT NULL`,
+        [jobId, urlId, variantIndex]
+      );
+      if (variant.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      await client.query(
+        'UPDATE url_variants SET is_preferred = (variant_index = $2), updated_at = NOW() WHERE url_id = $1',
+        [urlId, variantIndex]
+      );
+      // A reviewer's edit was made to the previous variant, so it doesn't carry over; its quality checks do
+      await client.query(
+        `UPDATE urls
+         SET opener = $2, opener_original = NULL, opener_edited = NULL, quality_issues = $3::jsonb,
+             review_status = ${reviewStatusForIssues('$3')}, updated_at = NOW()
+         WHERE id = $1`,
+        [urlId, variant.rows[0].opener, variant.rows[0].quality_issues ? JSON.stringify(variant.rows[0].quality_issues) : null]
+      );
+
+      await client.query('COMMIT');
+      return { ...variant.rows[0], is_preferred: true };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Record a submitted batch and mark its rows as processing in it
+  async createAiBatch(jobId: string, providerId: string, batch: BatchState, urlIds: string[]): Promise<AiBatchRecord> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `INSERT INTO ai_batches
+           (job_id, provider_id, provider_batch_id, input_file_id, output_file_id, error_file_id, status, request_count, error)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         RETURNING *`,
+        [jobId, providerId, batch.id, batch.inputFileId, batch.outputFileId, batch.errorFileId, batch.status, urlIds.length, batch.error]
+      );
+
+      await client.query(
+        `UPDATE urls SET status = 'processing', batch_id = $1, updated_at = NOW()
+         WHERE id = ANY($2::uuid[])`,
+        [result.rows[0].id, urlIds]
+      );
+
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateAiBatch(batchId: string, batch: BatchState): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `UPDATE ai_batches
+         SET status = $2, output_file_id = $3, error_file_id = $4,
+             completed_count = $5, failed_count = $6, error = $7, updated_at = NOW()
+         WHERE id = $1`,
+        [
+          batchId,
+          batch.status,
+          batch.outputFileId,
+          batch.errorFileId,
+          batch.requestCounts.completed,
+          batch.requestCounts.failed,
+          batch.error,
+        ]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async markAiBatchIngested(batchId: string): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        'UPDATE ai_batches SET ingested_at = NOW(), updated_at = NOW() WHERE id = $1',
+        [batchId]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  // Batches whose results haven't been stored yet, across all jobs
+  async getActiveAiBatches(): Promise<AiBatchRecord[]> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT * FROM ai_batches WHERE ingested_at IS NULL ORDER BY created_at'
+      );
+      return result.rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getAiBatchesByJob(jobId: string): Promise<AiBatchRecord[]> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT * FROM ai_batches WHERE job_id = $1 ORDER BY created_at',
+        [jobId]
+      );
+      return result.rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Rows of a batch that haven't been given a result yet
+  async getProcessingUrlsByBatch(batchId: string): Promise<UrlRecord[]> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT * FROM urls WHERE batch_id = $1 AND status = 'processing'`,
+        [batchId]
+      );
+      return result.rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getUrlsByJob(jobId: string): Promise<UrlRecord[]> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT * FROM urls WHERE job_id = $1 ORDER BY row_index, created_at',
+        [jobId]
+      );
+      return result.rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  // New paginated method for memory optimization; skipped rows are left out
+  async getUrlsByJobPaginated(jobId: string, offset: number, limit: number): Promise<UrlRecord[]> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT * FROM urls WHERE job_id = $1 AND status <> 'skipped'
+         ORDER BY row_index, created_at LIMIT $2 OFFSET $3`,
+        [jobId, limit, offset]
+      );
+      return result.rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Cost recorded across the workspace's jobs today (UTC)
+  async getDailySpend(workspaceId: string): Promise<number> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT cost FROM daily_spend WHERE workspace_id = $1 AND day = (NOW() AT TIME ZONE 'UTC')::date`,
+        [workspaceId]
+      );
+      return result.rows.length > 0 ? result.rows[0].cost : 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getSpendingBudget(workspaceId: string, period: BudgetPeriod): Promise<SpendingBudgetRecord | null> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT workspace_id, period, amount, updated_at FROM spending_budgets WHERE workspace_id = $1 AND period = $2',
+        [workspaceId, period]
+      );
+      return result.rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  // An amount of 0 means no cap; without a row the server default applies
+  async setSpendingBudget(workspaceId: string, period: BudgetPeriod, amount: number): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `INSERT INTO spending_budgets (workspace_id, period, amount)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (workspace_id, period) DO UPDATE SET amount = EXCLUDED.amount, updated_at = NOW()`,
+        [workspaceId, period, amount]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  // Just the URL values of a job, for counting without loading every source row
+  async getUrlValuesByJob(jobId: string): Promise<string[]> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT url FROM urls WHERE job_id = $1',
+        [jobId]
+      );
+      return result.rows.map((row: { url: string }) => row.url);
+    } finally {
+      client.release();
+    }
+  }
+
+  // Average completion length of the model's most recent openers, null before it has any
+  async getAverageCompletionTokens(model: string, recent: number = 1000): Promise<number | null> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT AVG(completion_tokens)::float8 AS average
+         FROM (
+           SELECT completion_tokens FROM urls
+           WHERE model = $1 AND completion_tokens IS NOT NULL
+           ORDER BY updated_at DESC
+           LIMIT $2
+         ) recent`,
+        [model, recent]
+      );
+      return result.rows[0].average;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Get count of URLs for a job that can be processed, skipped rows excluded
+  async getUrlCountByJob(jobId: string): Promise<number> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT COUNT(*) as count FROM urls WHERE job_id = $1 AND status <> 'skipped'`,
+        [jobId]
+      );
+      return parseInt(result.rows[0].count);
+    } finally {
+      client.release();
+    }
+  }
+
+  async resetUrlStatusesForJob(jobId: string): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `UPDATE urls
+         SET status = $1, opener = NULL, error = NULL, retry_count = 0,
+             model = NULL, provider_id = NULL, prompt_tokens = NULL, completion_tokens = NULL, cost = NULL,
+             batch_id = NULL, review_status = 'pending', opener_original = NULL, opener_edited = NULL,
+             reviewed_by = NULL, reviewed_at = NULL, instruction = NULL, quality_issues = NULL,
+             quality_regenerations = 0, duplicate_of = NULL, result_source = NULL, updated_at = NOW()
+         WHERE job_id = $2 AND status <> 'skipped'`,
+        ['pending', jobId]
+      );
+      await client.query('DELETE FROM url_variants WHERE job_id = $1', [jobId]);
+      await client.query('DELETE FROM url_opener_history WHERE job_id = $1', [jobId]);
+    } finally {
+      client.release();
+    }
+  }
+
+  async getFailedUrls(jobId: string): Promise<UrlRecord[]> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT * FROM urls WHERE job_id = $1 AND status = $2',
+        [jobId, 'failed']
+      );
+      return result.rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getJobProgress(jobId: string): Promise<{
+    total: number;
+    processed: number;
+    failed: number;
+    pending: number;
+    skipped: number;
+    status: string;
+  } | null> {
+    const client = await this.pool.connect();
+    try {
+      const jobResult = await client.query(
+        'SELECT * FROM jobs WHERE id = $1',
+        [jobId]
+      );
+
+      if (jobResult.rows.length === 0) {
+        return null;
+      }
+
+      const job = jobResult.rows[0];
+      const urlStats = await client.query(
+        `SELECT status, COUNT(*) as count 
+         FROM urls 
+         WHERE job_id = $1 
+         GROUP BY status`,
+        [jobId]
+      );
 
-      // Calculate progress
-      const job = await this.getJob(jobId);
-      if (job) {
-        const progress = job.total_rows > 0 ? 
-          ((processedRows || job.processed_rows) / job.total_rows) * 100 : 0;
-        updates.push(`progress = $${paramIndex++}`);
-        values.push(progress.toString());
+      const stats = {
+        pending: 0,
+        processing: 0,
+        completed: 0,
+        failed: 0,
+        skipped: 0
+      };
+
+      urlStats.rows.forEach((row: any) => {
+        stats[row.status as keyof typeof stats] = parseInt(row.count);
+      });
+
+      return {
+        total: job.total_rows,
+        processed: stats.completed,
+        failed: stats.failed,
+        pending: stats.pending + stats.processing,
+        skipped: stats.skipped,
+        status: job.status
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  // Optionally only the rows in one review state
+  async getJobResults(jobId: string, reviewStatus?: ReviewStatus): Promise<{
+    urls: Array<{
+      id: string;
+      url: string;
+      status: string;
+      opener?: string;
+      error?: string;
+      retry_count: number;
+      model: string | null;
+      prompt_tokens: number | null;
+      completion_tokens: number | null;
+      cost: number | null;
+      review_status: ReviewStatus;
+      opener_original: string | null;
+      opener_edited: string | null;
+      reviewed_by: string | null;
+      reviewed_at: Date | null;
+      instruction: string | null;
+      quality_issues: QualityIssue[] | null;
+      quality_regenerations: number;
+      duplicate_of: string | null;
+      result_source: ResultSource | null;
+      skip_reason: SkipReason | null;
+    }>;
+  }> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT id, url, status, opener, error, retry_count, model, provider_id, prompt_tokens, completion_tokens, cost,
+                review_status, opener_original, opener_edited, reviewed_by, reviewed_at, instruction,
+                quality_issues, quality_regenerations, duplicate_of, result_source, skip_reason
+         FROM urls
+         WHERE job_id = $1 AND ($2::varchar IS NULL OR review_status = $2)
+         ORDER BY row_index, created_at`,
+        [jobId, reviewStatus || null]
+      );
+
+      return {
+        urls: result.rows
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  // Results joined with the source rows, in the order they appeared in the uploaded file
+  async getMergedResults(jobId: string, reviewStatus?: ReviewStatus): Promise<MergedResultRow[]> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT id, row_index, original_data, url, status, opener, error
+         FROM urls
+         WHERE job_id = $1 AND ($2::varchar IS NULL OR review_status = $2)
+         ORDER BY row_index, created_at`,
+        [jobId, reviewStatus || null]
+      );
+      return result.rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getUrl(jobId: string, urlId: string): Promise<UrlRecord | null> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT * FROM urls WHERE id = $1 AND job_id = $2',
+        [urlId, jobId]
+      );
+      return result.rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Replace a row's opener with a reviewer's text, keeping the model output in
+   * opener_original. A null opener reverts the row to the model output.
+   */
+  async editUrlOpener(urlId: string, opener: string | null, reviewedBy: string | null): Promise<UrlRecord> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        opener === null
+          ? `UPDATE urls
+             SET opener = COALESCE(opener_original, opener), opener_original = NULL, opener_edited = NULL,
+                 reviewed_by = $2, reviewed_at = NOW(), updated_at = NOW()
+             WHERE id = $1
+             RETURNING *`
+          : `UPDATE urls
+             SET opener_original = COALESCE(opener_original, opener), opener_edited = $3, opener = $3,
+                 reviewed_by = $2, reviewed_at = NOW(), updated_at = NOW()
+             WHERE id = $1
+             RETURNING *`,
+        opener === null ? [urlId, reviewedBy] : [urlId, reviewedBy, opener]
+      );
+      return result.rows[0];
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateUrlReview(urlId: string, status: ReviewStatus, reviewedBy: string | null): Promise<UrlRecord> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `UPDATE urls
+         SET review_status = $2, reviewed_by = $3, reviewed_at = NOW(), updated_at = NOW()
+         WHERE id = $1
+         RETURNING *`,
+        [urlId, status, reviewedBy]
+      );
+      return result.rows[0];
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Store the outcome of a row's quality checks. A row that broke a rule needs
+   * review; one that passes again loses that flag, but keeps any reviewer decision.
+   */
+  async recordUrlQuality(urlId: string, issues: QualityIssue[], regenerations: number): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `UPDATE urls
+         SET quality_issues = $2::jsonb, quality_regenerations = $3,
+             review_status = ${reviewStatusForIssues('$2')}, updated_at = NOW()
+         WHERE id = $1`,
+        [urlId, JSON.stringify(issues), regenerations]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async getQualitySummary(jobId: string): Promise<QualitySummary> {
+    const client = await this.pool.connect();
+    try {
+      const totals = await client.query(
+        `SELECT COUNT(*) FILTER (WHERE quality_issues IS NOT NULL) AS checked,
+                COUNT(*) FILTER (WHERE jsonb_array_length(quality_issues) > 0) AS flagged,
+                COUNT(*) FILTER (WHERE review_status = 'needs_review') AS needs_review,
+                COALESCE(SUM(quality_regenerations), 0) AS regenerations
+         FROM urls
+         WHERE job_id = $1`,
+        [jobId]
+      );
+      const rules = await client.query(
+        `SELECT issue->>'rule' AS rule, COUNT(DISTINCT urls.id) AS count
+         FROM urls, jsonb_array_elements(urls.quality_issues) AS issue
+         WHERE urls.job_id = $1 AND jsonb_typeof(urls.quality_issues) = 'array'
+         GROUP BY issue->>'rule'`,
+        [jobId]
+      );
+
+      const row = totals.rows[0];
+      const checked = parseInt(row.checked, 10);
+      const flagged = parseInt(row.flagged, 10);
+      return {
+        checked,
+        passed: checked - flagged,
+        flagged,
+        needsReview: parseInt(row.needs_review, 10),
+        regenerations: parseInt(row.regenerations, 10),
+        rules: Object.fromEntries(rules.rows.map((rule: { rule: string; count: string }) => [rule.rule, parseInt(rule.count, 10)])),
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Point every row that repeats an earlier one at it: same normalised URL and
+   * same values in `columns`, the uploaded columns the job's templates use. Only
+   * the first row of each group is generated; the others get its opener. Rows
+   * without a url_key are never treated as duplicates. Returns the duplicates.
+   */
+  async assignDuplicateRows(jobId: string, columns: string[]): Promise<number> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `WITH keyed AS (
+           SELECT id, row_index, created_at, COALESCE(url_key, id::text) AS url_key,
+                  (SELECT jsonb_agg(original_data->column_name) FROM unnest($2::text[]) AS column_name) AS template_values
+           FROM urls
+           WHERE job_id = $1 AND status <> 'skipped'
+         ), ranked AS (
+           SELECT id, FIRST_VALUE(id) OVER (
+             PARTITION BY url_key, template_values ORDER BY row_index, created_at
+           ) AS primary_id
+           FROM keyed
+         )
+         UPDATE urls
+         SET duplicate_of = NULLIF(ranked.primary_id, ranked.id)
+         FROM ranked
+         WHERE urls.id = ranked.id
+         RETURNING urls.duplicate_of`,
+        [jobId, columns]
+      );
+      return result.rows.filter((row: { duplicate_of: string | null }) => row.duplicate_of !== null).length;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Copy the outcome of rows in `primaryStatuses` to their duplicates in `duplicateStatuses`, variants included
+  private async copyToDuplicates(
+    client: PoolClient,
+    jobId: string,
+    primaryStatuses: Array<UrlRecord['status']>,
+    duplicateStatuses: Array<UrlRecord['status']>,
+    primaryIds: string[] | null
+  ): Promise<Array<{ id: string; status: UrlRecord['status'] }>> {
+    const result = await client.query(
+      `UPDATE urls AS duplicate
+       SET status = primary_row.status, opener = primary_row.opener, error = primary_row.error,
+           retry_count = primary_row.retry_count, model = primary_row.model, provider_id = primary_row.provider_id,
+           prompt_tokens = 0, completion_tokens = 0, cost = 0, instruction = primary_row.instruction,
+           quality_issues = primary_row.quality_issues, quality_regenerations = 0,
+           review_status = CASE WHEN primary_row.review_status = 'needs_review' THEN 'needs_review' ELSE 'pending' END,
+           result_source = 'duplicate', updated_at = NOW()
+       FROM urls AS primary_row
+       WHERE duplicate.duplicate_of = primary_row.id
+         AND duplicate.job_id = $1
+         AND primary_row.status = ANY($2::text[])
+         AND duplicate.status = ANY($3::text[])
+         AND ($4::uuid[] IS NULL OR primary_row.id = ANY($4::uuid[]))
+       RETURNING duplicate.id, duplicate.status`,
+      [jobId, primaryStatuses, duplicateStatuses, primaryIds]
+    );
+
+    const completedIds = result.rows
+      .filter((row: { status: string }) => row.status === 'completed')
+      .map((row: { id: string }) => row.id);
+    if (completedIds.length > 0) {
+      await client.query('DELETE FROM url_variants WHERE url_id = ANY($1::uuid[])', [completedIds]);
+      await client.query(
+        `INSERT INTO url_variants (url_id, job_id, variant_index, template_version_id, opener, error, model, provider_id,
+                                   prompt_tokens, completion_tokens, cost, quality_issues, is_preferred)
+         SELECT duplicate.id, variant.job_id, variant.variant_index, variant.template_version_id, variant.opener, variant.error,
+                variant.model, variant.provider_id, 0, 0, 0, variant.quality_issues, variant.is_preferred
+         FROM urls AS duplicate
+         JOIN url_variants AS variant ON variant.url_id = duplicate.duplicate_of
+         WHERE duplicate.id = ANY($1::uuid[])`,
+        [completedIds]
+      );
+    }
+
+    return result.rows;
+  }
+
+  /**
+   * Give the pending duplicates of finished rows the same opener or error,
+   * optionally only for the given rows. Returns how many duplicates completed and failed.
+   */
+  async fanOutDuplicates(jobId: string, primaryIds?: string[]): Promise<{ completed: number; failed: number }> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const rows = await this.copyToDuplicates(client, jobId, ['completed', 'failed'], ['pending'], primaryIds || null);
+      await client.query('COMMIT');
+      return {
+        completed: rows.filter(row => row.status === 'completed').length,
+        failed: rows.filter(row => row.status === 'failed').length,
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Before a job's pending and failed rows are sent again: duplicates of rows
+   * that have since completed take their opener, and failed duplicates of rows
+   * about to be retried go back to pending to follow them.
+   */
+  async requeueDuplicates(jobId: string): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await this.copyToDuplicates(client, jobId, ['completed'], ['pending', 'failed'], null);
+      await client.query(
+        `UPDATE urls
+         SET status = 'pending', error = NULL, updated_at = NOW()
+         WHERE job_id = $1 AND duplicate_of IS NOT NULL AND status = 'failed'`,
+        [jobId]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Complete a row with an opener from the cross-job cache; it costs nothing and isn't checked again
+  async completeUrlFromCache(urlId: string, cached: CachedOpener): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `UPDATE urls
+         SET status = 'completed', opener = $2, error = NULL, retry_count = 0, model = $3, provider_id = $4,
+             prompt_tokens = 0, completion_tokens = 0, cost = 0, result_source = 'cache', updated_at = NOW()
+         WHERE id = $1`,
+        [urlId, cached.opener, cached.model, cached.provider]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async getReuseSummary(jobId: string): Promise<ReuseSummary> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT COUNT(*) FILTER (WHERE duplicate_of IS NOT NULL) AS duplicates,
+                COUNT(*) FILTER (WHERE result_source = 'duplicate' AND status = 'completed') AS from_duplicates,
+                COUNT(*) FILTER (WHERE result_source = 'cache') AS cache_hits
+         FROM urls
+         WHERE job_id = $1`,
+        [jobId]
+      );
+
+      const row = result.rows[0];
+      return {
+        duplicates: parseInt(row.duplicates, 10),
+        fromDuplicates: parseInt(row.from_duplicates, 10),
+        cacheHits: parseInt(row.cache_hits, 10),
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  async retryFailedUrls(jobId: string): Promise<number> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `UPDATE urls 
+         SET status = 'pending', error = NULL, updated_at = NOW()
+         WHERE job_id = $1 AND status = 'failed'
+         RETURNING id`,
+        [jobId]
+      );
+
+      // Reset job status to processing if it was completed/failed
+      await client.query(
+        `UPDATE jobs 
+         SET status = 'processing', updated_at = NOW()
+         WHERE id = $1 AND status IN ('completed', 'failed')`,
+        [jobId]
+      );
+
+      return result.rows.length;
+    } finally {
+      client.release();
+    }
+  }
+
+  async retrySpecificUrls(jobId: string, urlIds: string[]): Promise<number> {
+    const client = await this.pool.connect();
+    try {
+      // Create placeholders for the IN clause
+      const placeholders = urlIds.map((_, index) => `$${index + 2}`).join(',');
+      
+      const result = await client.query(
+        `UPDATE urls 
+         SET status = 'pending', error = NULL, updated_at = NOW()
+         WHERE job_id = $1 AND id IN (${placeholders}) AND status = 'failed'
+         RETURNING id`,
+        [jobId, ...urlIds]
+      );
+
+      // Reset job status to processing if it was completed/failed
+      await client.query(
+        `UPDATE jobs 
+         SET status = 'processing', updated_at = NOW()
+         WHERE id = $1 AND status IN ('completed', 'failed')`,
+        [jobId]
+      );
+
+      return result.rows.length;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Put completed and failed rows back to pending to be generated again. The
+   * current openers are kept in url_opener_history, and the rows' review and
+   * edits are reset. Returns the rows as they were before, so the worker can
+   * show the model the opener being replaced.
+   */
+  async regenerateUrls(jobId: string, urlIds: string[], instruction: string | null): Promise<UrlRecord[]> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const rows = await client.query(
+        `SELECT * FROM urls
+         WHERE job_id = $1 AND id = ANY($2::uuid[]) AND status IN ('completed', 'failed')
+         ORDER BY row_index
+         FOR UPDATE`,
+        [jobId, urlIds]
+      );
+      const ids = rows.rows.map((row: UrlRecord) => row.id);
+
+      if (ids.length > 0) {
+        await client.query(
+          `INSERT INTO url_opener_history (url_id, job_id, opener, instruction, model, provider_id)
+           SELECT id, job_id, opener, instruction, model, provider_id
+           FROM urls
+           WHERE id = ANY($1::uuid[]) AND status = 'completed' AND opener IS NOT NULL`,
+          [ids]
+        );
+        await client.query(
+          `UPDATE urls
+           SET status = 'pending', opener = NULL, error = NULL, retry_count = 0, batch_id = NULL,
+               review_status = 'pending', opener_original = NULL, opener_edited = NULL,
+               reviewed_by = NULL, reviewed_at = NULL, instruction = $2, quality_issues = NULL,
+               quality_regenerations = 0, duplicate_of = NULL, result_source = NULL, updated_at = NOW()
+           WHERE id = ANY($1::uuid[])`,
+          [ids, instruction]
+        );
+        await client.query(
+          `UPDATE jobs
+           SET status = 'processing', stop_reason = NULL, updated_at = NOW()
+           WHERE id = $1`,
+          [jobId]
+        );
       }
 
-      await client.query(
-        `UPDATE jobs SET ${updates.join(', ')} WHERE id = $1`,
-        values
+      await client.query('COMMIT');
+      return rows.rows;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Previous openers of a row, newest first
+  async getUrlOpenerHistory(urlId: string): Promise<UrlOpenerHistoryRecord[]> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT * FROM url_opener_history WHERE url_id = $1 ORDER BY created_at DESC',
+        [urlId]
       );
+      return result.rows;
     } finally {
       client.release();
     }
   }
 
-  async updateJobProgress(
-    jobId: string,
-    processedRows: number,
-    failedRows: number
-  ): Promise<void> {
+  /**
+   * Make a previous opener the row's opener again. The opener it replaces moves
+   * into the history in its place, so a revert can itself be reverted. Returns
+   * null when the row has no such history entry.
+   */
+  async revertUrlOpener(urlId: string, historyId: string): Promise<UrlRecord | null> {
     const client = await this.pool.connect();
     try {
-      const job = await this.getJob(jobId);
-      if (!job) {
-        throw new Error(`Job ${jobId} not found`);
-      }
+      await client.query('BEGIN');
 
-      const progress = job.total_rows > 0 ? (processedRows / job.total_rows) * 100 : 0;
+      const entry = await client.query(
+        'DELETE FROM url_opener_history WHERE id = $1 AND url_id = $2 RETURNING *',
+        [historyId, urlId]
+      );
+      if (entry.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+      const previous: UrlOpenerHistoryRecord = entry.rows[0];
 
       await client.query(
-        `UPDATE jobs SET processed_rows = $2, failed_rows = $3, progress = $4, updated_at = NOW() WHERE id = $1`,
-        [jobId, processedRows, failedRows, progress]
+        `INSERT INTO url_opener_history (url_id, job_id, opener, instruction, model, provider_id)
+         SELECT id, job_id, opener, instruction, model, provider_id
+         FROM urls
+         WHERE id = $1 AND status = 'completed' AND opener IS NOT NULL`,
+        [urlId]
+      );
+      const result = await client.query(
+        `UPDATE urls
+         SET status = 'completed', opener = $2, instruction = $3, model = $4, provider_id = $5, error = NULL,
+             review_status = 'pending', opener_original = NULL, opener_edited = NULL,
+             reviewed_by = NULL, reviewed_at = NULL, quality_issues = NULL, quality_regenerations = 0,
+             result_source = NULL, updated_at = NOW()
+         WHERE id = $1
+         RETURNING *`,
+        [urlId, previous.opener, previous.instruction, previous.model, previous.provider_id]
       );
+
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
     } finally {
       client.release();
     }
   }
 
-  async updateJobContentType(jobId: string, contentType: 'company' | 'person' | 'news'): Promise<void> {
+  async getJobsByWorkspace(workspaceId: string): Promise<JobRecord[]> {
     const client = await this.pool.connect();
     try {
-      await client.query(
-        'UPDATE jobs SET content_type = $1, updated_at = NOW() WHERE id = $2',
-        [contentType, jobId]
+      const result = await client.query(
+        'SELECT * FROM jobs WHERE workspace_id = $1 ORDER BY created_at DESC',
+        [workspaceId]
       );
+      return result.rows;
     } finally {
       client.release();
     }
   }
 
-  async updateUrlStatus(
-    urlId: string,
-    status: UrlRecord['status'],
-    opener?: string,
-    error?: string,
-    retryCount?: number
-  ): Promise<void> {
+  // Delete job and all its URLs
+  async deleteJob(jobId: string): Promise<void> {
     const client = await this.pool.connect();
     try {
-      const updates = ['status = $2', 'updated_at = NOW()'];
-      const values = [urlId, status];
-      let paramIndex = 3;
-
-      if (opener !== undefined) {
-        updates.push(`opener = $${paramIndex++}`);
-        values.push(opener);
-      }
-
-      if (error !== undefined) {
-        updates.push(`error = $${paramIndex++}`);
-        values.push(error);
-      }
-
-      if (retryCount !== undefined) {
-        updates.push(`retry_count = $${paramIndex++}`);
-        values.push(retryCount.toString());
-      }
-
-      const result = await client.query(
-        `UPDATE urls SET ${updates.join(', ')} WHERE id = $1`,
-        values
-      );
+      await client.query('BEGIN');
       
-      // Log the update result for debugging
-      logger.debug(`Updated URL ${urlId} to status ${status}, rows affected: ${result.rowCount}`);
+      // Delete all URLs for this job
+      await client.query('DELETE FROM urls WHERE job_id = $1', [jobId]);
       
-      if (result.rowCount === 0) {
-        logger.warn(`No rows updated for URL ${urlId} - URL may not exist`);
-      }
+      // Delete the job
+      await client.query('DELETE FROM jobs WHERE id = $1', [jobId]);
+      
+      await client.query('COMMIT');
+      logger.info(`Deleted job ${jobId} and all its URLs`);
     } catch (error) {
-      logger.error(`Failed to update URL ${urlId} status:`, error);
+      await client.query('ROLLBACK');
+      logger.error(`Error deleting job ${jobId}:`, error);
       throw error;
     } finally {
       client.release();
     }
   }
 
-  async getUrlsByJob(jobId: string): Promise<UrlRecord[]> {
+  // The workspace's own templates plus the shared ones from before workspaces
+  async getPromptTemplates(workspaceId: string): Promise<PromptTemplateRecord[]> {
     const client = await this.pool.connect();
     try {
       const result = await client.query(
-        'SELECT * FROM urls WHERE job_id = $1 ORDER BY created_at',
-        [jobId]
+        `${PROMPT_TEMPLATE_SELECT} AND (t.workspace_id = $1 OR t.workspace_id IS NULL) ORDER BY t.name`,
+        [workspaceId]
       );
       return result.rows;
     } finally {
@@ -282,190 +2720,280 @@ export class DatabaseService {
     }
   }
 
-  // New paginated method for memory optimization
-  async getUrlsByJobPaginated(jobId: string, offset: number, limit: number): Promise<UrlRecord[]> {
+  async getPromptTemplate(templateId: string, workspaceId: string): Promise<PromptTemplateRecord | null> {
     const client = await this.pool.connect();
     try {
       const result = await client.query(
-        'SELECT * FROM urls WHERE job_id = $1 ORDER BY created_at LIMIT $2 OFFSET $3',
-        [jobId, limit, offset]
+        `${PROMPT_TEMPLATE_SELECT} AND t.id = $1 AND (t.workspace_id = $2 OR t.workspace_id IS NULL)`,
+        [templateId, workspaceId]
       );
-      return result.rows;
+      return result.rows[0] || null;
     } finally {
       client.release();
     }
   }
 
-  // Get total count of URLs for a job
-  async getUrlCountByJob(jobId: string): Promise<number> {
+  async getPromptTemplateVersion(versionId: string): Promise<PromptTemplateVersionRecord | null> {
     const client = await this.pool.connect();
     try {
       const result = await client.query(
-        'SELECT COUNT(*) as count FROM urls WHERE job_id = $1',
-        [jobId]
+        'SELECT * FROM prompt_template_versions WHERE id = $1',
+        [versionId]
       );
-      return parseInt(result.rows[0].count);
+      return result.rows[0] || null;
     } finally {
       client.release();
     }
   }
 
-  async resetUrlStatusesForJob(jobId: string): Promise<void> {
+  async getPromptTemplateVersions(templateId: string): Promise<PromptTemplateVersionRecord[]> {
     const client = await this.pool.connect();
     try {
-      await client.query(
-        'UPDATE urls SET status = $1, opener = NULL, error = NULL, retry_count = 0, updated_at = NOW() WHERE job_id = $2',
-        ['pending', jobId]
+      const result = await client.query(
+        'SELECT * FROM prompt_template_versions WHERE template_id = $1 ORDER BY version DESC',
+        [templateId]
       );
+      return result.rows;
     } finally {
       client.release();
     }
   }
 
-  async getFailedUrls(jobId: string): Promise<UrlRecord[]> {
+  async createPromptTemplate(
+    workspaceId: string,
+    name: string,
+    description: string | null,
+    systemPrompt: string,
+    userPrompt: string
+  ): Promise<string> {
     const client = await this.pool.connect();
     try {
+      await client.query('BEGIN');
+
       const result = await client.query(
-        'SELECT * FROM urls WHERE job_id = $1 AND status = $2',
-        [jobId, 'failed']
+        `INSERT INTO prompt_templates (workspace_id, name, description, current_version)
+         VALUES ($1, $2, $3, 1)
+         RETURNING id`,
+        [workspaceId, name, description]
       );
-      return result.rows;
+      const templateId = result.rows[0].id;
+
+      await client.query(
+        `INSERT INTO prompt_template_versions (template_id, version, system_prompt, user_prompt)
+         VALUES ($1, 1, $2, $3)`,
+        [templateId, systemPrompt, userPrompt]
+      );
+
+      await client.query('COMMIT');
+      return templateId;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
     } finally {
       client.release();
     }
   }
 
-  async getJobProgress(jobId: string): Promise<{
-    total: number;
-    processed: number;
-    failed: number;
-    pending: number;
-    status: string;
-  } | null> {
+  // Name/description are edited in place, prompt changes are stored as a new version.
+  // Only the workspace's own templates can be changed, not the shared ones.
+  async updatePromptTemplate(
+    templateId: string,
+    workspaceId: string,
+    updates: {
+      name?: string;
+      description?: string | null;
+      systemPrompt?: string;
+      userPrompt?: string;
+    }
+  ): Promise<PromptTemplateRecord | null> {
+    const current = await this.getPromptTemplate(templateId, workspaceId);
+    if (!current || current.workspace_id !== workspaceId) {
+      return null;
+    }
+
     const client = await this.pool.connect();
     try {
-      const jobResult = await client.query(
-        'SELECT * FROM jobs WHERE id = $1',
-        [jobId]
-      );
+      await client.query('BEGIN');
 
-      if (jobResult.rows.length === 0) {
-        return null;
+      const systemPrompt = updates.systemPrompt ?? current.system_prompt;
+      const userPrompt = updates.userPrompt ?? current.user_prompt;
+      let version = current.version;
+
+      if (systemPrompt !== current.system_prompt || userPrompt !== current.user_prompt) {
+        version = current.version + 1;
+        await client.query(
+          `INSERT INTO prompt_template_versions (template_id, version, system_prompt, user_prompt)
+           VALUES ($1, $2, $3, $4)`,
+          [templateId, version, systemPrompt, userPrompt]
+        );
       }
 
-      const job = jobResult.rows[0];
-      const urlStats = await client.query(
-        `SELECT status, COUNT(*) as count 
-         FROM urls 
-         WHERE job_id = $1 
-         GROUP BY status`,
-        [jobId]
+      await client.query(
+        `UPDATE prompt_templates
+         SET name = $2, description = $3, current_version = $4, updated_at = NOW()
+         WHERE id = $1`,
+        [
+          templateId,
+          updates.name ?? current.name,
+          updates.description !== undefined ? updates.description : current.description,
+          version,
+        ]
       );
 
-      const stats = {
-        pending: 0,
-        processing: 0,
-        completed: 0,
-        failed: 0
-      };
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
 
-      urlStats.rows.forEach((row: any) => {
-        stats[row.status as keyof typeof stats] = parseInt(row.count);
-      });
+    return this.getPromptTemplate(templateId, workspaceId);
+  }
 
-      return {
-        total: job.total_rows,
-        processed: stats.completed,
-        failed: stats.failed,
-        pending: stats.pending + stats.processing,
-        status: job.status
-      };
+  // Templates are archived rather than deleted so jobs keep their recorded version
+  async archivePromptTemplate(templateId: string, workspaceId: string): Promise<boolean> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `UPDATE prompt_templates SET archived = TRUE, updated_at = NOW()
+         WHERE id = $1 AND workspace_id = $2 AND archived = FALSE`,
+        [templateId, workspaceId]
+      );
+      return (result.rowCount || 0) > 0;
     } finally {
       client.release();
     }
   }
 
-  async getJobResults(jobId: string): Promise<{
-    urls: Array<{
-      url: string;
-      status: string;
-      opener?: string;
-      error?: string;
-    }>;
-  }> {
+  async createUploadSession(
+    ownerId: string,
+    fileName: string,
+    fileSize: number,
+    partSize: number,
+    partCount: number,
+    checksum: string | null,
+    ttlSeconds: number
+  ): Promise<UploadSessionRecord> {
     const client = await this.pool.connect();
     try {
       const result = await client.query(
-        'SELECT url, status, opener, error FROM urls WHERE job_id = $1 ORDER BY created_at',
-        [jobId]
+        `INSERT INTO upload_sessions (owner_id, file_name, file_size, part_size, part_count, checksum, expires_at)
+         VALUES ($1, $2, $3, $4, $5, $6, NOW() + make_interval(secs => $7))
+         RETURNING id`,
+        [ownerId, fileName, fileSize, partSize, partCount, checksum, ttlSeconds]
       );
+      const session = await client.query(`${UPLOAD_SESSION_SELECT} WHERE id = $1`, [result.rows[0].id]);
+      return session.rows[0];
+    } finally {
+      client.release();
+    }
+  }
 
-      return {
-        urls: result.rows
-      };
+  async getUploadSession(sessionId: string): Promise<UploadSessionRecord | null> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(`${UPLOAD_SESSION_SELECT} WHERE id = $1`, [sessionId]);
+      return result.rows[0] || null;
     } finally {
       client.release();
     }
   }
 
-  async retryFailedUrls(jobId: string): Promise<number> {
+  async getUploadSessionParts(sessionId: string): Promise<UploadSessionPartRecord[]> {
     const client = await this.pool.connect();
     try {
       const result = await client.query(
-        `UPDATE urls 
-         SET status = 'pending', error = NULL, updated_at = NOW()
-         WHERE job_id = $1 AND status = 'failed'
-         RETURNING id`,
-        [jobId]
+        `SELECT part_number, size, checksum, created_at
+         FROM upload_session_parts
+         WHERE session_id = $1
+         ORDER BY part_number`,
+        [sessionId]
       );
+      return result.rows;
+    } finally {
+      client.release();
+    }
+  }
 
-      // Reset job status to processing if it was completed/failed
+  // A part uploaded again replaces the earlier copy; every part keeps the session alive for another TTL
+  async saveUploadSessionPart(
+    sessionId: string,
+    partNumber: number,
+    size: number,
+    checksum: string,
+    ttlSeconds: number
+  ): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
       await client.query(
-        `UPDATE jobs 
-         SET status = 'processing', updated_at = NOW()
-         WHERE id = $1 AND status IN ('completed', 'failed')`,
-        [jobId]
+        `INSERT INTO upload_session_parts (session_id, part_number, size, checksum)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (session_id, part_number)
+         DO UPDATE SET size = EXCLUDED.size, checksum = EXCLUDED.checksum, created_at = NOW()`,
+        [sessionId, partNumber, size, checksum]
       );
-
-      return result.rows.length;
+      await client.query(
+        `UPDATE upload_sessions
+         SET expires_at = NOW() + make_interval(secs => $2), updated_at = NOW()
+         WHERE id = $1`,
+        [sessionId, ttlSeconds]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
     } finally {
       client.release();
     }
   }
 
-  async retrySpecificUrls(jobId: string, urlIds: string[]): Promise<number> {
+  // Only one request assembles a session's parts; null when it isn't waiting for assembly
+  async claimUploadSessionAssembly(sessionId: string): Promise<UploadSessionRecord | null> {
     const client = await this.pool.connect();
     try {
-      // Create placeholders for the IN clause
-      const placeholders = urlIds.map((_, index) => `$${index + 2}`).join(',');
-      
       const result = await client.query(
-        `UPDATE urls 
-         SET status = 'pending', error = NULL, updated_at = NOW()
-         WHERE job_id = $1 AND id IN (${placeholders}) AND status = 'failed'
+        `UPDATE upload_sessions SET status = 'assembling', updated_at = NOW()
+         WHERE id = $1 AND status = 'uploading'
          RETURNING id`,
-        [jobId, ...urlIds]
+        [sessionId]
       );
+      if (result.rows.length === 0) {
+        return null;
+      }
+      const session = await client.query(`${UPLOAD_SESSION_SELECT} WHERE id = $1`, [sessionId]);
+      return session.rows[0];
+    } finally {
+      client.release();
+    }
+  }
 
-      // Reset job status to processing if it was completed/failed
+  async updateUploadSessionStatus(
+    sessionId: string,
+    status: UploadSessionStatus,
+    filePath: string | null = null,
+    jobId: string | null = null
+  ): Promise<void> {
+    const client = await this.pool.connect();
+    try {
       await client.query(
-        `UPDATE jobs 
-         SET status = 'processing', updated_at = NOW()
-         WHERE id = $1 AND status IN ('completed', 'failed')`,
-        [jobId]
+        `UPDATE upload_sessions
+         SET status = $2, file_path = COALESCE($3, file_path), job_id = COALESCE($4, job_id), updated_at = NOW()
+         WHERE id = $1`,
+        [sessionId, status, filePath, jobId]
       );
-
-      return result.rows.length;
     } finally {
       client.release();
     }
   }
 
-  async getAllJobs(): Promise<JobRecord[]> {
+  // Sessions past their expiry that never produced a job
+  async getExpiredUploadSessions(): Promise<UploadSessionRecord[]> {
     const client = await this.pool.connect();
     try {
       const result = await client.query(
-        'SELECT * FROM jobs ORDER BY created_at DESC'
+        `${UPLOAD_SESSION_SELECT} WHERE expires_at < NOW() AND status <> 'completed'`
       );
       return result.rows;
     } finally {
@@ -473,24 +3001,10 @@ export class DatabaseService {
     }
   }
 
-  // Delete job and all its URLs
-  async deleteJob(jobId: string): Promise<void> {
+  async deleteUploadSession(sessionId: string): Promise<void> {
     const client = await this.pool.connect();
     try {
-      await client.query('BEGIN');
-      
-      // Delete all URLs for this job
-      await client.query('DELETE FROM urls WHERE job_id = $1', [jobId]);
-      
-      // Delete the job
-      await client.query('DELETE FROM jobs WHERE id = $1', [jobId]);
-      
-      await client.query('COMMIT');
-      logger.info(`Deleted job ${jobId} and all its URLs`);
-    } catch (error) {
-      await client.query('ROLLBACK');
-      logger.error(`Error deleting job ${jobId}:`, error);
-      throw error;
+      await client.query('DELETE FROM upload_sessions WHERE id = $1', [sessionId]);
     } finally {
       client.release();
     }
@@ -1,17 +1,33 @@
+import { config } from '../config';
 import { logger } from '../utils/logger';
-import { PROMPT_TEMPLATES } from '../utils/prompts';
+import { formatPrompt } from '../utils/prompts';
+import { estimateTokens } from '../utils/pricing';
+import { ContentType, GenerationResult, PromptTemplate } from '../types';
+import { BaseProvider, ProviderError, isRetryableStatus, parseRetryAfter } from './providers/baseProvider';
+import { NO_RATE_LIMITS, RateLimits } from './providers/rateLimiter';
+import { GenerationRequest, ProviderHealth } from './providers/types';
 
-export class HuggingFaceService {
+export class HuggingFaceService extends BaseProvider {
+  readonly id = 'huggingface';
+  readonly type = 'huggingface' as const;
+  readonly capabilities = {
+    systemPrompt: false,
+    reportsUsage: false,
+    exactTokenCounts: true,
+    batch: false,
+  };
   private apiKey: string | null;
   private baseUrl: string;
   private model: string;
   private dummyMode: boolean;
 
   constructor() {
+    super();
     this.apiKey = process.env.HUGGINGFACE_API_KEY || null;
     this.baseUrl = 'https://api-inference.huggingface.co/models';
     this.model = 'distilgpt2'; // Smaller, faster GPT-2 model
-    this.dummyMode = process.env.HUGGINGFACE_DUMMY_MODE === 'true' || !this.apiKey;
+    // Placeholder openers must never reach customers, so production only ever calls the API
+    this.dummyMode = (process.env.HUGGINGFACE_DUMMY_MODE === 'true' || !this.apiKey) && config.allowDummyResponses;
 
     if (this.dummyMode) {
       console.log('🤗 Hugging Face Service: DUMMY MODE ENABLED - Using fake responses');
@@ -23,42 +39,31 @@ export class HuggingFaceService {
     }
   }
 
-  async generateOpenerWithRetry(
-    url: string, 
-    contentType: 'company' | 'person' | 'news', 
-    maxRetries: number = 3
-  ): Promise<string> {
-    let lastError: Error | null = null;
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        return await this.generateOpener(url, contentType);
-      } catch (error) {
-        lastError = error as Error;
-        logger.warn(`Attempt ${attempt}/${maxRetries} failed for URL ${url}:`, error);
-        
-        if (attempt < maxRetries) {
-          // Wait before retrying (exponential backoff)
-          const delay = Math.pow(2, attempt - 1) * 1000;
-          await new Promise(resolve => setTimeout(resolve, delay));
-        }
-      }
-    }
+  getModel(): string {
+    return this.model;
+  }
 
-    // If all retries failed, throw the last error
-    throw lastError || new Error('All retry attempts failed');
+  // Dummy responses never reach the API, so they aren't held back by its limits
+  getRateLimits(): RateLimits {
+    return this.dummyMode ? NO_RATE_LIMITS : super.getRateLimits();
   }
 
-  async generateOpener(url: string, contentType: 'company' | 'person' | 'news'): Promise<string> {
-    try {
-      if (this.dummyMode) {
-        console.log('🤗 Hugging Face Service: Generating DUMMY opener for URL:', url);
-        return this.generateDummyOpener(url, contentType);
-      }
+  async generate(request: GenerationRequest): Promise<GenerationResult> {
+    const { url, contentType } = request;
+    const prompt = request.prompt.user;
 
+    if (this.dummyMode) {
+      console.log('🤗 Hugging Face Service: Generating DUMMY opener for URL:', url);
+      return this.toResult(prompt, this.generateDummyOpener(url, contentType));
+    }
+
+    if (!this.apiKey) {
+      throw new ProviderError(`${this.id} has no API key configured`, undefined, false);
+    }
+
+    try {
       console.log('🤗 Hugging Face Service: Making REAL Hugging Face API call for URL:', url);
       
-      const prompt = this.formatPrompt(url, contentType);
       console.log('🤗 Hugging Face Service: Formatted prompt:', prompt);
 
       const response = await fetch(`${this.baseUrl}/${this.model}`, {
@@ -82,42 +87,87 @@ export class HuggingFaceService {
       if (!response.ok) {
         const errorText = await response.text();
         console.error('🤗 Hugging Face Service: API Error:', response.status, errorText);
-        throw new Error(`Hugging Face API error: ${response.status} - ${errorText}`);
+        throw new ProviderError(
+          `Hugging Face API error: ${response.status} - ${errorText}`,
+          response.status,
+          isRetryableStatus(response.status),
+          parseRetryAfter(name => response.headers.get(name))
+        );
       }
 
       const data = await response.json();
       console.log('🤗 Hugging Face Service: API Response:', data);
 
-      if (Array.isArray(data) && data.length > 0 && data[0].generated_text) {
-        const opener = this.cleanGeneratedText(data[0].generated_text);
-        console.log('🤗 Hugging Face Service: Generated opener:', opener);
-        return opener;
-      } else {
+      const opener = Array.isArray(data) && data.length > 0 && data[0].generated_text
+        ? this.cleanGeneratedText(data[0].generated_text)
+        : '';
+      if (!opener) {
         console.warn('🤗 Hugging Face Service: Unexpected response format:', data);
-        return this.generateDummyOpener(url, contentType);
+        throw new ProviderError('Hugging Face API returned no generated text');
       }
+
+      console.log('🤗 Hugging Face Service: Generated opener:', opener);
+      return this.toResult(prompt, opener);
     } catch (error) {
       logger.error('Hugging Face API error:', error);
-      console.error('🤗 Hugging Face Service: Error generating opener:', error);
-      
-      // Fallback to dummy response on error
-      return this.generateDummyOpener(url, contentType);
+
+      // Errors are surfaced so the row fails or falls back, never replaced with placeholder text
+      if (error instanceof ProviderError) {
+        throw error;
+      }
+      throw new ProviderError(`Hugging Face request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  private formatPrompt(url: string, contentType: 'company' | 'person' | 'news'): string {
+  // The inference API doesn't report usage, so tokens are estimated from the text
+  private toResult(prompt: string, opener: string): GenerationResult {
+    return {
+      opener,
+      model: this.model,
+      usage: {
+        promptTokens: estimateTokens(prompt),
+        completionTokens: estimateTokens(opener),
+      },
+    };
+  }
+
+  async healthCheck(): Promise<ProviderHealth> {
+    return this.measureHealth(async () => {
+      if (this.dummyMode) {
+        return;
+      }
+      const response = await fetch(`${this.baseUrl}/${this.model}`, {
+        headers: { 'Authorization': `Bearer ${this.apiKey}` },
+      });
+      if (!response.ok) {
+        throw new Error(`Hugging Face API error: ${response.status}`);
+      }
+    });
+  }
+
+  protected renderPrompt(
+    url: string,
+    contentType: ContentType,
+    template?: PromptTemplate,
+    rowData?: Record<string, string>
+  ): PromptTemplate {
+    // Custom templates are sent as-is; GPT-2 has no system role so only the user prompt is used
+    if (template) {
+      return { system: '', user: formatPrompt(template, url, rowData).user };
+    }
+
     // For GPT-2, we'll use a more direct prompt format
-    return `Professional business outreach message for ${url}: Hi, I noticed your company and was impressed by your work. I'd love to learn more about your approach to innovation and how you're tackling current market challenges. Would you be open to a brief conversation about potential collaboration opportunities?`;
+    return { system: '', user: `Professional business outreach message for ${url}: Hi, I noticed your company and was impressed by your work. I'd love to learn more about your approach to innovation and how you're tackling current market challenges. Would you be open to a brief conversation about potential collaboration opportunities?` };
   }
 
+  // Length isn't cut here: over-long openers are left to the quality checks to flag
   private cleanGeneratedText(text: string): string {
     // Clean up the generated text
     return text
       .trim()
       .replace(/^["']|["']$/g, '') // Remove quotes at start/end
       .replace(/\n+/g, ' ') // Replace newlines with spaces
-      .replace(/\s+/g, ' ') // Normalize whitespace
-      .substring(0, 200); // Limit length
+      .replace(/\s+/g, ' '); // Normalize whitespace
   }
 
   private generateDummyOpener(url: string, contentType: 'company' | 'person' | 'news'): string {
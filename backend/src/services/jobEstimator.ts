@@ -0,0 +1,202 @@
+import { config } from '../config';
+import { database, JobRecord, NewUrlRecord } from './database';
+import { providerRegistry } from './providers/registry';
+import { ContentType, ProcessingMode, PromptTemplate } from '../types';
+import { getPromptTemplate, formatPrompt, extractTemplateColumns } from '../utils/prompts';
+import { applyColumnMapping, looksLikeUrl } from '../utils/columnMapping';
+import { urlDedupKey } from '../utils/urlValidator';
+import { calculateCost, getModelPricing, CHARS_PER_TOKEN } from '../utils/pricing';
+import { countPromptTokens } from '../utils/tokenizer';
+
+export interface EstimateOptions {
+  contentType: ContentType;
+  // Selected template version; the built-in prompt for the content type otherwise
+  prompt?: PromptTemplate;
+  enrichPages: boolean;
+  // The job's provider, or the default one, when not given
+  providerId?: string | null;
+  // Batch mode is priced at BATCH_COST_MULTIPLIER and finishes within the provider's batch window
+  mode?: ProcessingMode;
+  // Openers per row; every variant is costed with the job's prompt
+  variants?: number;
+  sampleSize?: number;
+  // Rows read from the file instead of the stored ones, for a URL column the job hasn't extracted yet
+  rows?: EstimateRows;
+}
+
+export interface EstimateRows {
+  // The URL value of every row, including the ones that will be skipped
+  urls: string[];
+  // The first rows that will be processed, in file order
+  sample: NewUrlRecord[];
+}
+
+export interface JobEstimate {
+  provider: string;
+  mode: ProcessingMode;
+  model: string;
+  urls: {
+    total: number;
+    valid: number;
+    // Valid URLs that repeat an earlier row once normalised
+    duplicate: number;
+    invalid: number;
+  };
+  // Rows with a valid URL are sent to the AI service, invalid ones are skipped. Duplicates share an
+  // earlier row's opener, but are only known up front when the template uses no columns
+  rowsToProcess: number;
+  variants: number;
+  // One per row and variant
+  requests: number;
+  sample: {
+    rows: number;
+    averagePromptTokens: number;
+    maxPromptTokens: number;
+  };
+  tokens: {
+    promptPerRow: number;
+    completionPerRow: number;
+    // 'history' averages the model's recent openers, 'max_tokens' is the configured upper bound
+    completionSource: 'history' | 'max_tokens';
+    prompt: number;
+    completion: number;
+    total: number;
+  };
+  // USD; null when the model has no price configured
+  cost: number | null;
+  time: {
+    concurrency: number;
+    requestsPerMinute: number;
+    requestLatencyMs: number;
+    estimatedSeconds: number;
+    bottleneck: 'concurrency' | 'rate_limit' | 'batch_window';
+  };
+}
+
+// Batches complete within 24 hours, often much sooner
+const BATCH_WINDOW_SECONDS = 24 * 60 * 60;
+
+export const DEFAULT_SAMPLE_SIZE = 20;
+// Page context heading and labels plus a typical title and description, on top of the page text
+const PAGE_CONTEXT_OVERHEAD_TOKENS = 100;
+
+function countUrls(urls: string[]): JobEstimate['urls'] {
+  const seen = new Set<string>();
+  let valid = 0;
+  let duplicate = 0;
+
+  for (const url of urls) {
+    if (!looksLikeUrl(url)) {
+      continue;
+    }
+    const key = urlDedupKey(url);
+    if (seen.has(key)) {
+      duplicate++;
+    } else {
+      seen.add(key);
+      valid++;
+    }
+  }
+
+  return { total: urls.length, valid, duplicate, invalid: urls.length - valid - duplicate };
+}
+
+/**
+ * Chunks run in parallel up to maxConcurrentJobs and each chunk works through
+ * its URLs one at a time, so a job takes as long as its longest chunk unless
+ * the request rate limit is the tighter bound.
+ */
+function projectDuration(rows: number, requestsPerRow: number, requestsPerMinute: number): JobEstimate['time'] {
+  const chunks = Math.ceil(rows / config.chunkSize);
+  const concurrency = Math.max(1, Math.min(config.maxConcurrentJobs, chunks));
+  const requestLatencyMs = config.estimatedRequestLatency;
+
+  const concurrencySeconds = Math.ceil(rows / concurrency) * requestsPerRow * requestLatencyMs / 1000;
+  const rateLimitSeconds = requestsPerMinute > 0 ? (rows * requestsPerRow / requestsPerMinute) * 60 : 0;
+
+  return {
+    concurrency,
+    requestsPerMinute,
+    requestLatencyMs,
+    estimatedSeconds: Math.ceil(Math.max(concurrencySeconds, rateLimitSeconds)),
+    bottleneck: rateLimitSeconds > concurrencySeconds ? 'rate_limit' : 'concurrency',
+  };
+}
+
+/**
+ * Project the tokens, cost and duration of running a job, from its stored URLs
+ * and the prompt rendered for a sample of its rows.
+ */
+export async function estimateJob(job: JobRecord, options: EstimateOptions): Promise<JobEstimate> {
+  const providerId = options.providerId || job.provider_id || providerRegistry.getDefaultId();
+  const provider = providerRegistry.get(providerId);
+  const model = provider.getModel();
+  const countText = (text: string) => provider.countTokens(text);
+  const prompt = options.prompt || getPromptTemplate(options.contentType);
+
+  const urls = countUrls(options.rows ? options.rows.urls : await database.getUrlValuesByJob(job.id));
+  const rowsToProcess = extractTemplateColumns(prompt).length === 0 ? urls.valid : urls.valid + urls.duplicate;
+
+  const sampleSize = options.sampleSize || DEFAULT_SAMPLE_SIZE;
+  const sampleRows = options.rows
+    ? options.rows.sample.slice(0, sampleSize)
+    : (await database.getUrlsByJobPaginated(job.id, 0, sampleSize))
+      .map(row => ({ url: row.url, originalData: row.original_data || undefined }));
+  const samplePromptTokens = sampleRows.map(row =>
+    countPromptTokens(
+      formatPrompt(prompt, row.url, applyColumnMapping(row.originalData, job.column_mapping)),
+      model,
+      countText
+    )
+  );
+  const averagePromptTokens = samplePromptTokens.length > 0
+    ? Math.ceil(samplePromptTokens.reduce((sum, tokens) => sum + tokens, 0) / samplePromptTokens.length)
+    : countPromptTokens(prompt, model, countText);
+
+  // Page content can't be known before fetching, so enrichment is costed at its size limit
+  const pageContextTokens = options.enrichPages
+    ? Math.ceil(config.pageContextMaxChars / CHARS_PER_TOKEN) + PAGE_CONTEXT_OVERHEAD_TOKENS
+    : 0;
+  const promptPerRow = averagePromptTokens + pageContextTokens;
+
+  const averageCompletion = await database.getAverageCompletionTokens(model);
+  const completionPerRow = averageCompletion !== null ? Math.ceil(averageCompletion) : config.openaiMaxTokens;
+
+  const variants = Math.max(1, options.variants || 1);
+  const requests = rowsToProcess * variants;
+  const usage = {
+    promptTokens: promptPerRow * requests,
+    completionTokens: completionPerRow * requests,
+  };
+  const mode = options.mode || 'realtime';
+  const time = projectDuration(rowsToProcess, variants, provider.getRateLimits().requestsPerMinute);
+
+  return {
+    provider: providerId,
+    mode,
+    model,
+    urls,
+    rowsToProcess,
+    variants,
+    requests,
+    sample: {
+      rows: sampleRows.length,
+      averagePromptTokens,
+      maxPromptTokens: samplePromptTokens.length > 0 ? Math.max(...samplePromptTokens) : averagePromptTokens,
+    },
+    tokens: {
+      promptPerRow,
+      completionPerRow,
+      completionSource: averageCompletion !== null ? 'history' : 'max_tokens',
+      prompt: usage.promptTokens,
+      completion: usage.completionTokens,
+      total: usage.promptTokens + usage.completionTokens,
+    },
+    cost: getModelPricing(model)
+      ? calculateCost(model, usage) * (mode === 'batch' ? config.batchCostMultiplier : 1)
+      : null,
+    time: mode === 'batch'
+      ? { ...time, estimatedSeconds: BATCH_WINDOW_SECONDS, bottleneck: 'batch_window' }
+      : time,
+  };
+}
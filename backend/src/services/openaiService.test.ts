@@ -0,0 +1,236 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { OpenAIService } from './openaiService';
+import { BatchItem } from './providers/types';
+
+jest.mock('./redis', () => ({ redis: {} }));
+
+interface StoredBatch {
+  id: string;
+  object: 'batch';
+  endpoint: string;
+  input_file_id: string;
+  completion_window: string;
+  status: string;
+  output_file_id: string | null;
+  error_file_id: string | null;
+  created_at: number;
+  request_counts: { total: number; completed: number; failed: number };
+  metadata: Record<string, string> | null;
+}
+
+/**
+ * A stand-in for OpenAI's Files and Batches endpoints. Batches stay in_progress
+ * until the test finishes them with the output and error lines it wants back.
+ */
+class BatchApiServer {
+  files = new Map<string, string>();
+  batches = new Map<string, StoredBatch>();
+  private nextId = 1;
+  private server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => this.handle(req, Buffer.concat(chunks).toString('utf-8'), res));
+  });
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/v1`;
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => {
+      this.server.closeAllConnections();
+      this.server.close(() => resolve());
+    });
+  }
+
+  // The requests of the batch's input file
+  inputLines(batchId: string): Array<{ custom_id: string; method: string; url: string; body: Record<string, unknown> }> {
+    const input = this.files.get(this.batches.get(batchId)!.input_file_id) || '';
+    return input.split('\n').filter(Boolean).map(line => JSON.parse(line));
+  }
+
+  finish(batchId: string, outputLines: unknown[], errorLines: unknown[] = []): void {
+    const batch = this.batches.get(batchId)!;
+    batch.status = 'completed';
+    batch.output_file_id = outputLines.length > 0 ? this.storeFile(outputLines.map(line => JSON.stringify(line)).join('\n')) : null;
+    batch.error_file_id = errorLines.length > 0 ? this.storeFile(errorLines.map(line => JSON.stringify(line)).join('\n')) : null;
+    batch.request_counts = {
+      total: outputLines.length + errorLines.length,
+      completed: outputLines.length,
+      failed: errorLines.length,
+    };
+  }
+
+  private storeFile(content: string): string {
+    const id = `file-${this.nextId++}`;
+    this.files.set(id, content);
+    return id;
+  }
+
+  private send(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private handle(req: http.IncomingMessage, body: string, res: http.ServerResponse): void {
+    const path = req.url || '';
+
+    if (req.method === 'POST' && path === '/v1/files') {
+      // The JSONL file is the multipart part holding the request lines
+      const content = body.split('\r\n').filter(line => line.startsWith('{"custom_id"')).join('\n');
+      const id = this.storeFile(content);
+      return this.send(res, 200, { id, object: 'file', bytes: content.length, created_at: 0, filename: 'batch.jsonl', purpose: 'batch' });
+    }
+
+    const fileContent = path.match(/^\/v1\/files\/([^/]+)\/content$/);
+    if (req.method === 'GET' && fileContent) {
+      const content = this.files.get(fileContent[1]);
+      if (content === undefined) {
+        return this.send(res, 404, { error: { message: 'No such file' } });
+      }
+      res.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+      res.end(content);
+      return;
+    }
+
+    if (req.method === 'POST' && path === '/v1/batches') {
+      const request = JSON.parse(body);
+      if (!this.files.has(request.input_file_id)) {
+        return this.send(res, 400, { error: { message: 'Unknown input file' } });
+      }
+      const batch: StoredBatch = {
+        id: `batch_${this.nextId++}`,
+        object: 'batch',
+        endpoint: request.endpoint,
+        input_file_id: request.input_file_id,
+        completion_window: request.completion_window,
+        status: 'in_progress',
+        output_file_id: null,
+        error_file_id: null,
+        created_at: 0,
+        request_counts: { total: 0, completed: 0, failed: 0 },
+        metadata: request.metadata || null,
+      };
+      this.batches.set(batch.id, batch);
+      return this.send(res, 200, batch);
+    }
+
+    const batchPath = path.match(/^\/v1\/batches\/([^/]+)$/);
+    if (req.method === 'GET' && batchPath) {
+      const batch = this.batches.get(batchPath[1]);
+      return batch ? this.send(res, 200, batch) : this.send(res, 404, { error: { message: 'No such batch' } });
+    }
+
+    return this.send(res, 404, { error: { message: `Unexpected ${req.method} ${path}` } });
+  }
+}
+
+function completion(customId: string, content: string) {
+  return {
+    id: `response-${customId}`,
+    custom_id: customId,
+    response: {
+      status_code: 200,
+      body: {
+        model: 'gpt-4o-mini-2024-07-18',
+        choices: [{ index: 0, message: { role: 'assistant', content } }],
+        usage: { prompt_tokens: 50, completion_tokens: 10 },
+      },
+    },
+    error: null,
+  };
+}
+
+const ITEMS: BatchItem[] = ['ok', 'rejected', 'empty', 'expired', 'garbled'].map(name => ({
+  customId: `row-${name}`,
+  url: `https://${name}.test`,
+  contentType: 'company',
+}));
+
+describe('OpenAIService batch mode', () => {
+  let server: BatchApiServer;
+  let service: OpenAIService;
+
+  beforeEach(async () => {
+    // The service logs every step to the console
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    server = new BatchApiServer();
+    const baseUrl = await server.start();
+    service = new OpenAIService({ id: 'openai-batch', type: 'openai', model: 'gpt-4o-mini', apiKey: 'sk-test', baseUrl });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await server.close();
+  });
+
+  it('submits the rows as chat completion requests', async () => {
+    const state = await service.submitBatch(ITEMS.slice(0, 2), { jobId: 'job-1' });
+
+    expect(state).toMatchObject({ status: 'in_progress', outputFileId: null, errorFileId: null, error: null });
+    expect(server.batches.get(state.id)).toMatchObject({
+      endpoint: '/v1/chat/completions',
+      completion_window: '24h',
+      metadata: { jobId: 'job-1' },
+    });
+
+    const lines = server.inputLines(state.id);
+    expect(lines.map(line => line.custom_id)).toEqual(['row-ok', 'row-rejected']);
+    expect(lines[0]).toMatchObject({ method: 'POST', url: '/v1/chat/completions', body: { model: 'gpt-4o-mini' } });
+    expect(JSON.stringify(lines[0].body.messages)).toContain('https://ok.test');
+  });
+
+  it('reports the batch state while it runs and once it has finished', async () => {
+    const submitted = await service.submitBatch(ITEMS);
+
+    expect((await service.getBatch(submitted.id)).status).toBe('in_progress');
+
+    server.finish(submitted.id, [completion('row-ok', 'Hi there.')], [{ custom_id: 'row-expired', response: null, error: { code: 'batch_expired', message: 'Expired' } }]);
+    const finished = await service.getBatch(submitted.id);
+
+    expect(finished).toMatchObject({
+      status: 'completed',
+      requestCounts: { total: 2, completed: 1, failed: 1 },
+    });
+    expect(finished.outputFileId).not.toBeNull();
+    expect(finished.errorFileId).not.toBeNull();
+  });
+
+  it('reads results and per-row errors from the output and error files', async () => {
+    const submitted = await service.submitBatch(ITEMS);
+    server.finish(
+      submitted.id,
+      [
+        completion('row-ok', ' Loved your latest release. '),
+        {
+          id: 'response-row-rejected',
+          custom_id: 'row-rejected',
+          response: { status_code: 400, body: { error: { message: 'Invalid max_tokens' } } },
+          error: null,
+        },
+        completion('row-empty', '   '),
+        { id: 'response-row-garbled', custom_id: 'row-garbled', response: { status_code: 200, body: 'not json' }, error: null },
+      ],
+      [{ id: 'response-row-expired', custom_id: 'row-expired', response: null, error: { code: 'batch_expired', message: 'This request expired' } }]
+    );
+
+    const results = await service.getBatchResults(await service.getBatch(submitted.id));
+
+    expect(results).toEqual([
+      {
+        customId: 'row-ok',
+        result: {
+          opener: 'Loved your latest release.',
+          model: 'gpt-4o-mini-2024-07-18',
+          usage: { promptTokens: 50, completionTokens: 10 },
+        },
+      },
+      { customId: 'row-rejected', error: 'OpenAI API error: 400 - Invalid max_tokens' },
+      { customId: 'row-empty', error: 'openai-batch returned an empty completion' },
+      { customId: 'row-garbled', error: 'Batch response has no choices' },
+      { customId: 'row-expired', error: 'This request expired' },
+    ]);
+  });
+});
@@ -1,81 +1,288 @@
-import OpenAI from 'openai';
-import { formatPrompt, getPromptTemplate } from '../utils/prompts';
-import { ContentType, OpenAIResponse } from '../types';
+import OpenAI, { toFile } from 'openai';
+import { config } from '../config';
+import { estimateTokens } from '../utils/pricing';
+import { ContentType, GenerationResult, PromptTemplate } from '../types';
+import { BaseProvider, ProviderError, isRetryableStatus, parseRetryAfter } from './providers/baseProvider';
+import { NO_RATE_LIMITS, RateLimits, resolveRateLimits } from './providers/rateLimiter';
+import {
+  BatchCapableProvider,
+  BatchItem,
+  BatchResultItem,
+  BatchState,
+  GenerationRequest,
+  ProviderCapabilities,
+  ProviderConfig,
+  ProviderHealth,
+} from './providers/types';
 
-export class OpenAIService {
+const BATCH_ENDPOINT = '/v1/chat/completions';
+
+// The fields of a parsed JSON value, or none when it isn't an object
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+function stringField(fields: Record<string, unknown>, name: string): string | undefined {
+  const value = fields[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+export class OpenAIService extends BaseProvider implements BatchCapableProvider {
+  readonly id: string;
+  readonly type = 'openai' as const;
+  readonly capabilities: ProviderCapabilities;
   private client?: OpenAI;
   private model: string;
   private temperature: number;
   private maxTokens: number;
   private dummyMode: boolean;
+  private rateLimits: RateLimits;
 
-  constructor() {
-    this.dummyMode = process.env.OPENAI_DUMMY_MODE === 'true' || !process.env.OPENAI_API_KEY;
+  // Without a config this is the built-in 'openai' provider configured by the OPENAI_* variables.
+  // AI_PROVIDERS entries of type 'openai' add more, e.g. a cheaper model to fall back to.
+  constructor(providerConfig?: ProviderConfig) {
+    super();
+    this.id = providerConfig?.id || 'openai';
+    const apiKey = providerConfig?.apiKey
+      || (providerConfig?.apiKeyEnv ? process.env[providerConfig.apiKeyEnv] : process.env.OPENAI_API_KEY);
+    const dummyRequested = process.env.OPENAI_DUMMY_MODE === 'true' || !apiKey;
+
+    // Placeholder openers must never reach customers, so production only ever calls the API
+    this.dummyMode = dummyRequested && config.allowDummyResponses;
     
     // Log the mode being used
     if (this.dummyMode) {
       console.log('🤖 OpenAI Service: DUMMY MODE ENABLED - Using fake responses');
-      console.log('🤖 OpenAI Service: Dummy mode reason:', !process.env.OPENAI_API_KEY ? 'No API key provided' : 'Dummy mode explicitly enabled');
+      console.log('🤖 OpenAI Service: Dummy mode reason:', !apiKey ? 'No API key provided' : 'Dummy mode explicitly enabled');
     } else {
+      if (dummyRequested) {
+        console.warn('🤖 OpenAI Service: Dummy mode is disabled in production');
+      }
       console.log('🤖 OpenAI Service: REAL API MODE ENABLED - Using OpenAI API');
-      console.log('🤖 OpenAI Service: API Key present:', process.env.OPENAI_API_KEY ? 'Yes' : 'No');
+      console.log('🤖 OpenAI Service: API Key present:', apiKey ? 'Yes' : 'No');
     }
     
-    if (!this.dummyMode) {
+    if (!this.dummyMode && apiKey) {
       this.client = new OpenAI({
-        apiKey: process.env.OPENAI_API_KEY,
+        apiKey,
+        ...(providerConfig?.baseUrl ? { baseURL: providerConfig.baseUrl } : {}),
+        ...(providerConfig?.timeoutMs ? { timeout: providerConfig.timeoutMs } : {}),
       });
     }
     
-    this.model = process.env.OPENAI_MODEL || 'gpt-3.5-turbo';
-    this.temperature = parseFloat(process.env.OPENAI_TEMPERATURE || '0.7');
-    this.maxTokens = parseInt(process.env.OPENAI_MAX_TOKENS || '100');
+    this.model = providerConfig?.model || process.env.OPENAI_MODEL || 'gpt-3.5-turbo';
+    this.temperature = providerConfig?.temperature ?? parseFloat(process.env.OPENAI_TEMPERATURE || '0.7');
+    this.maxTokens = providerConfig?.maxTokens ?? parseInt(process.env.OPENAI_MAX_TOKENS || '100');
+    this.rateLimits = resolveRateLimits(providerConfig);
+    // Batches go through the real API, so dummy mode can't run them
+    this.capabilities = {
+      systemPrompt: true,
+      reportsUsage: true,
+      exactTokenCounts: true,
+      batch: !!this.client,
+    };
     
     console.log('🤖 OpenAI Service: Model:', this.model, 'Temperature:', this.temperature, 'Max Tokens:', this.maxTokens);
   }
 
-  async generateOpener(url: string, contentType: ContentType): Promise<OpenAIResponse> {
+  getModel(): string {
+    return this.model;
+  }
+
+  // Dummy responses never reach the API, so they aren't held back by its limits
+  getRateLimits(): RateLimits {
+    return this.dummyMode ? NO_RATE_LIMITS : this.rateLimits;
+  }
+
+  protected completionTokenLimit(): number {
+    return this.maxTokens;
+  }
+
+  async generate(request: GenerationRequest): Promise<GenerationResult> {
+    const { system, user } = request.prompt;
+
     // Dummy mode for local development
     if (this.dummyMode) {
-      console.log('🤖 OpenAI Service: Generating DUMMY opener for URL:', url);
-      return this.generateDummyOpener(url, contentType);
+      console.log('🤖 OpenAI Service: Generating DUMMY opener for URL:', request.url);
+      return this.generateDummyOpener(request.url, request.contentType, `${system}\n${user}`);
+    }
+
+    if (!this.client) {
+      throw new ProviderError(`${this.id} has no API key configured`, undefined, false);
     }
 
     try {
-      console.log('🤖 OpenAI Service: Making REAL OpenAI API call for URL:', url);
-      const template = getPromptTemplate(contentType);
-      const { system, user } = formatPrompt(template, url);
+      console.log('🤖 OpenAI Service: Making REAL OpenAI API call for URL:', request.url);
 
       console.log('🤖 OpenAI Service: System prompt:', system);
       console.log('🤖 OpenAI Service: User prompt:', user);
 
-      const response = await this.client!.chat.completions.create({
-        model: this.model,
-        messages: [
-          { role: 'system', content: system },
-          { role: 'user', content: user }
-        ],
-        temperature: this.temperature,
-        max_tokens: this.maxTokens,
-      });
+      const response = await this.client.chat.completions.create(this.completionBody(request.prompt));
+      const result = this.toGenerationResult(response);
 
-      const opener = response.choices[0]?.message?.content?.trim() || '';
-      const tokensUsed = response.usage?.total_tokens || 0;
+      console.log('🤖 OpenAI Service: API Response - Tokens used:', result.usage.promptTokens + result.usage.completionTokens);
+      console.log('🤖 OpenAI Service: Generated opener:', result.opener);
 
-      console.log('🤖 OpenAI Service: API Response - Tokens used:', tokensUsed);
-      console.log('🤖 OpenAI Service: Generated opener:', opener);
-
-      return {
-        opener,
-        tokensUsed
-      };
+      return result;
     } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error;
+      }
       console.error('🤖 OpenAI Service: API error:', error);
-      throw new Error(`Failed to generate opener: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      // Invalid keys, exhausted quota and bad requests fail the same way on retry
+      const status = error instanceof OpenAI.APIError ? error.status : undefined;
+      const headers = error instanceof OpenAI.APIError ? error.headers : undefined;
+      throw new ProviderError(
+        `Failed to generate opener: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        status,
+        status === undefined || isRetryableStatus(status),
+        headers ? parseRetryAfter(name => headers[name]) : undefined
+      );
+    }
+  }
+
+  // Upload the rows as a JSONL file of chat completion requests and start a batch over it
+  async submitBatch(items: BatchItem[], metadata?: Record<string, string>): Promise<BatchState> {
+    const client = this.requireClient();
+    const lines = items.map(item => JSON.stringify({
+      custom_id: item.customId,
+      method: 'POST',
+      url: BATCH_ENDPOINT,
+      body: this.completionBody(this.renderPrompt(item.url, item.contentType, item.template, item.rowData)),
+    }));
+
+    const file = await client.files.create({
+      file: await toFile(Buffer.from(lines.join('\n'), 'utf-8'), 'batch.jsonl'),
+      purpose: 'batch',
+    });
+    const batch = await client.batches.create({
+      input_file_id: file.id,
+      endpoint: BATCH_ENDPOINT,
+      completion_window: '24h',
+      metadata,
+    });
+
+    return this.toBatchState(batch);
+  }
+
+  async getBatch(batchId: string): Promise<BatchState> {
+    return this.toBatchState(await this.requireClient().batches.retrieve(batchId));
+  }
+
+  async getBatchResults(batch: BatchState): Promise<BatchResultItem[]> {
+    const results: BatchResultItem[] = [];
+
+    for (const fileId of [batch.outputFileId, batch.errorFileId]) {
+      if (!fileId) {
+        continue;
+      }
+      const content = await (await this.requireClient().files.content(fileId)).text();
+      for (const line of content.split('\n')) {
+        if (line.trim()) {
+          results.push(this.toBatchResultItem(JSON.parse(line)));
+        }
+      }
+    }
+
+    return results;
+  }
+
+  async cancelBatch(batchId: string): Promise<void> {
+    await this.requireClient().batches.cancel(batchId);
+  }
+
+  async healthCheck(): Promise<ProviderHealth> {
+    return this.measureHealth(async () => {
+      if (this.dummyMode) {
+        return;
+      }
+      if (!this.client) {
+        throw new Error('No API key configured');
+      }
+      await this.client.models.retrieve(this.model);
+    });
+  }
+
+  private requireClient(): OpenAI {
+    if (!this.client) {
+      throw new ProviderError(`${this.id} has no API key configured`, undefined, false);
+    }
+    return this.client;
+  }
+
+  private completionBody(prompt: PromptTemplate) {
+    return {
+      model: this.model,
+      messages: [
+        { role: 'system' as const, content: prompt.system },
+        { role: 'user' as const, content: prompt.user }
+      ],
+      temperature: this.temperature,
+      max_tokens: this.maxTokens,
+    };
+  }
+
+  private toGenerationResult(response: OpenAI.Chat.ChatCompletion): GenerationResult {
+    const opener = response.choices?.[0]?.message?.content?.trim() || '';
+    if (!opener) {
+      throw new ProviderError(`${this.id} returned an empty completion`);
+    }
+
+    return {
+      opener,
+      model: response.model || this.model,
+      usage: {
+        promptTokens: response.usage?.prompt_tokens || 0,
+        completionTokens: response.usage?.completion_tokens || 0,
+      }
+    };
+  }
+
+  private toBatchState(batch: OpenAI.Batches.Batch): BatchState {
+    return {
+      id: batch.id,
+      status: batch.status,
+      inputFileId: batch.input_file_id,
+      outputFileId: batch.output_file_id || null,
+      errorFileId: batch.error_file_id || null,
+      requestCounts: {
+        total: batch.request_counts?.total || 0,
+        completed: batch.request_counts?.completed || 0,
+        failed: batch.request_counts?.failed || 0,
+      },
+      error: batch.errors?.data?.map(error => error.message).filter(Boolean).join('; ') || null,
+    };
+  }
+
+  // A line of the output or error file: the completion, or the error it ended with
+  private toBatchResultItem(line: unknown): BatchResultItem {
+    const fields = asRecord(line);
+    const customId = typeof fields.custom_id === 'string' ? fields.custom_id : '';
+    if (fields.error) {
+      return { customId, error: stringField(asRecord(fields.error), 'message') || 'Batch request failed' };
+    }
+
+    const response = asRecord(fields.response);
+    const statusCode = response.status_code;
+    if (statusCode !== 200) {
+      const message = stringField(asRecord(asRecord(response.body).error), 'message') || 'Batch request failed';
+      return { customId, error: `OpenAI API error: ${statusCode} - ${message}` };
+    }
+
+    const body = asRecord(response.body);
+    if (!Array.isArray(body.choices)) {
+      return { customId, error: 'Batch response has no choices' };
+    }
+
+    try {
+      // Checked just enough: toGenerationResult copes with missing fields
+      return { customId, result: this.toGenerationResult(body as unknown as OpenAI.Chat.ChatCompletion) };
+    } catch (error) {
+      return { customId, error: error instanceof Error ? error.message : 'Unknown error' };
     }
   }
 
-  private async generateDummyOpener(url: string, contentType: ContentType): Promise<OpenAIResponse> {
+  private async generateDummyOpener(url: string, contentType: ContentType, prompt: string): Promise<GenerationResult> {
     console.log('🤖 OpenAI Service: Simulating API delay for dummy response...');
     // Simulate API delay (2-3 seconds)
     const delay = Math.random() * 1000 + 2000; // 2-3 seconds
@@ -105,44 +312,14 @@ export class OpenAIService {
 
     console.log('🤖 OpenAI Service: Generated DUMMY opener:', randomOpener);
 
+    // Estimated from the text so dummy runs still produce realistic usage and cost
     return {
       opener: randomOpener,
-      tokensUsed: Math.floor(Math.random() * 50) + 20 // Random token count
-    };
-  }
-
-  async generateOpenerWithRetry(
-    url: string, 
-    contentType: ContentType, 
-    maxRetries: number = 3
-  ): Promise<string> {
-    let lastError: Error | null = null;
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        const response = await this.generateOpener(url, contentType);
-        return response.opener;
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error('Unknown error');
-        
-        // Don't retry on certain errors
-        if (error instanceof Error && (
-          error.message.includes('Invalid API key') ||
-          error.message.includes('insufficient_quota') ||
-          error.message.includes('billing')
-        )) {
-          throw error;
-        }
-
-        if (attempt < maxRetries) {
-          const delay = Math.pow(2, attempt) * 1000; // Exponential backoff
-          console.log(`Retrying OpenAI request (attempt ${attempt + 1}/${maxRetries}) after ${delay}ms`);
-          await new Promise(resolve => setTimeout(resolve, delay));
-        }
+      model: this.model,
+      usage: {
+        promptTokens: estimateTokens(prompt),
+        completionTokens: estimateTokens(randomOpener)
       }
-    }
-
-    throw lastError || new Error('Max retries exceeded');
+    };
   }
 }
-
@@ -0,0 +1,70 @@
+import { createHash } from 'crypto';
+import { redis } from './redis';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { CachedOpener, JobRecord, UrlUsage } from './database';
+import { providerRegistry } from './providers/registry';
+import { QualityIssue } from './openerQuality';
+import { templateSourceColumns } from '../utils/columnMapping';
+import { extractTemplateColumns, getPromptTemplate } from '../utils/prompts';
+import { urlDedupKey } from '../utils/urlValidator';
+import { PromptTemplate } from '../types';
+
+const KEY_PREFIX = 'opener-cache:';
+
+/**
+ * Key a row's opener is cached under, or null when the job doesn't use the
+ * cache. A cached opener is reused for rows of the same workspace's jobs with the
+ * same normalised URL, template version, model and page enrichment, and the
+ * same values in the columns the template uses. Jobs with several variants
+ * aren't cached.
+ */
+export function rowCacheKey(
+  job: JobRecord,
+  url: string,
+  originalData: Record<string, string> | undefined,
+  prompt?: PromptTemplate
+): string | null {
+  if (!job.use_cache || job.variant_count > 1) {
+    return null;
+  }
+
+  const columns = templateSourceColumns(
+    extractTemplateColumns(prompt || getPromptTemplate(job.content_type)),
+    job.column_mapping
+  );
+  const parts = [
+    job.workspace_id,
+    urlDedupKey(url),
+    job.template_version_id || `built-in:${job.content_type}`,
+    providerRegistry.get(job.provider_id).getModel(),
+    job.enrich_pages,
+    columns.map(column => [column, originalData?.[column] ?? null]),
+  ];
+
+  return KEY_PREFIX + createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+}
+
+// Only openers from the job's own model that passed the quality checks are shared with other jobs
+export function isCacheable(job: JobRecord, usage: UrlUsage, issues: QualityIssue[] | null): boolean {
+  return usage.model === providerRegistry.get(job.provider_id).getModel() && (!issues || issues.length === 0);
+}
+
+// A cache that can't be reached counts as a miss, so rows are generated as usual
+export async function getCachedOpener(key: string): Promise<CachedOpener | null> {
+  try {
+    const value = await redis.get(key);
+    return value ? JSON.parse(value) : null;
+  } catch (error) {
+    logger.warn('Opener cache unavailable, generating instead:', error);
+    return null;
+  }
+}
+
+export async function cacheOpener(key: string, opener: CachedOpener): Promise<void> {
+  try {
+    await redis.set(key, JSON.stringify(opener), 'EX', config.openerCacheTtl);
+  } catch (error) {
+    logger.warn('Failed to cache opener:', error);
+  }
+}
@@ -0,0 +1,237 @@
+import { config } from '../config';
+import { PromptTemplate } from '../types';
+
+export type QualityRule =
+  | 'max_words'
+  | 'max_chars'
+  | 'banned_phrase'
+  | 'placeholder'
+  | 'prompt_leak'
+  | 'language'
+  | 'invented_contact';
+
+export const QUALITY_RULES: QualityRule[] = [
+  'max_words',
+  'max_chars',
+  'banned_phrase',
+  'placeholder',
+  'prompt_leak',
+  'language',
+  'invented_contact',
+];
+
+export interface QualityIssue {
+  rule: QualityRule;
+  message: string;
+}
+
+// What happens to an opener that fails a rule: flag it for review, or generate it again first
+export type QualityAction = 'review' | 'regenerate';
+
+export interface QualitySettings {
+  enabled: boolean;
+  rules: QualityRule[];
+  // 0 disables the limit
+  maxWords: number;
+  maxChars: number;
+  bannedPhrases: string[];
+  // ISO 639-1 code openers are expected in; empty disables the check
+  language: string;
+  action: QualityAction;
+  // Automatic regenerations per row before it is flagged for review
+  maxRegenerations: number;
+}
+
+// What the opener was generated from, to tell invented details from real ones
+export interface OpenerContext {
+  url: string;
+  rowData: Record<string, string>;
+  prompt: PromptTemplate;
+}
+
+export function getQualitySettings(): QualitySettings {
+  return {
+    enabled: config.qualityChecksEnabled,
+    rules: QUALITY_RULES.filter(rule => !config.qualityDisabledRules.includes(rule)),
+    maxWords: config.qualityMaxWords,
+    maxChars: config.qualityMaxChars,
+    bannedPhrases: config.qualityBannedPhrases,
+    language: config.qualityLanguage,
+    action: config.qualityAction === 'regenerate' ? 'regenerate' : 'review',
+    maxRegenerations: Math.max(0, config.qualityMaxRegenerations),
+  };
+}
+
+// Brackets and leftover template variables the model should have filled in, e.g. [Name] or {{company}}
+const PLACEHOLDER_PATTERNS = [
+  /\[[^\]\n]{1,40}\]/,
+  /\{\{?[^{}\n]{1,40}\}\}?/,
+  /<[A-Za-z][A-Za-z _-]{0,30}>/,
+  /\bX{3,}\b/,
+];
+
+// Lead-ins that mean the model answered the prompt instead of writing just the opener
+const COMMENTARY_PATTERN = /^\s*(?:opener\s*:|here(?:'s| is) (?:an?|the|your)\b|sure[,!.])/i;
+
+const PROMPT_SHINGLE_WORDS = 6;
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>"')]+|\bwww\.[^\s<>"')]+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|io|co|org|net|ai|dev|app|de|uk|fr|es|nl)\b/gi;
+
+// Common function words, enough to tell the languages apart in a sentence or two
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'you', 'your', 'with', 'for', 'are', 'how', 'what', 'this', 'that', 'would', 'love', 'have', 'is', 'to', 'of', 'in'],
+  de: ['der', 'die', 'das', 'und', 'sie', 'ihr', 'ihre', 'mit', 'für', 'ist', 'wie', 'nicht', 'auf', 'ich', 'zu', 'den', 'von', 'ein'],
+  fr: ['le', 'la', 'les', 'et', 'vous', 'votre', 'avec', 'pour', 'est', 'comment', 'que', 'des', 'une', 'dans', 'sur', 'je', 'du', 'un'],
+  es: ['el', 'la', 'los', 'las', 'y', 'usted', 'su', 'con', 'para', 'es', 'cómo', 'que', 'una', 'en', 'del', 'por', 'me', 'un'],
+  it: ['il', 'la', 'gli', 'e', 'lei', 'suo', 'con', 'per', 'è', 'come', 'che', 'una', 'nel', 'della', 'sono', 'mi', 'di', 'un'],
+  nl: ['de', 'het', 'en', 'je', 'jouw', 'uw', 'met', 'voor', 'is', 'hoe', 'dat', 'een', 'van', 'op', 'niet', 'ik', 'zijn', 'wat'],
+  pt: ['o', 'os', 'as', 'e', 'você', 'seu', 'sua', 'com', 'para', 'é', 'como', 'que', 'uma', 'em', 'do', 'da', 'não', 'um'],
+};
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || [];
+}
+
+/**
+ * The most likely language of a short text, or null when too few of its words
+ * are known function words to tell.
+ */
+export function detectLanguage(text: string): string | null {
+  const tokens = words(text);
+  const scores = Object.entries(STOPWORDS)
+    .map(([language, stopwords]) => ({ language, score: tokens.filter(token => stopwords.includes(token)).length }))
+    .sort((a, b) => b.score - a.score);
+
+  const [best, second] = scores;
+  if (best.score < 3 || best.score < second.score * 1.5) {
+    return null;
+  }
+  return best.language;
+}
+
+function hostOf(value: string): string {
+  const host = value.replace(/^https?:\/\//i, '').split(/[/?#:]/)[0].toLowerCase();
+  return host.replace(/^www\./, '');
+}
+
+// The prompt's own sentences, without the row's values, as runs of consecutive words
+function promptShingles(prompt: PromptTemplate): Set<string> {
+  const text = `${prompt.system}\n${prompt.user}`
+    .replace(/\{\{[^{}]*\}\}/g, '\n')
+    .split('{url}').join('\n');
+
+  const shingles = new Set<string>();
+  for (const line of text.split('\n')) {
+    const lineWords = words(line);
+    for (let i = 0; i + PROMPT_SHINGLE_WORDS <= lineWords.length; i++) {
+      shingles.add(lineWords.slice(i, i + PROMPT_SHINGLE_WORDS).join(' '));
+    }
+  }
+  return shingles;
+}
+
+function findPromptLeak(opener: string, prompt: PromptTemplate): string | null {
+  if (COMMENTARY_PATTERN.test(opener)) {
+    return 'Starts with commentary instead of the opener';
+  }
+
+  const shingles = promptShingles(prompt);
+  const openerWords = words(opener);
+  for (let i = 0; i + PROMPT_SHINGLE_WORDS <= openerWords.length; i++) {
+    const shingle = openerWords.slice(i, i + PROMPT_SHINGLE_WORDS).join(' ');
+    if (shingles.has(shingle)) {
+      return `Repeats the prompt: "${shingle}"`;
+    }
+  }
+  return null;
+}
+
+// Email addresses and links that appear neither in the row nor as the row's own site
+function findInventedContacts(opener: string, context: OpenerContext): string[] {
+  const known = [context.url, ...Object.values(context.rowData)].join('\n').toLowerCase();
+  const rowHost = hostOf(context.url);
+  const invented: string[] = [];
+
+  const emails = opener.match(EMAIL_PATTERN) || [];
+  for (const email of emails) {
+    if (!known.includes(email.toLowerCase())) {
+      invented.push(email);
+    }
+  }
+
+  const withoutEmails = emails.reduce((text, email) => text.split(email).join(' '), opener);
+  for (const link of withoutEmails.match(URL_PATTERN) || []) {
+    const host = hostOf(link.replace(/[.,;:!?]+$/, ''));
+    if (host !== rowHost && !host.endsWith(`.${rowHost}`) && !known.includes(host)) {
+      invented.push(link);
+    }
+  }
+
+  return invented;
+}
+
+/**
+ * Check a generated opener against the configured rules. Returns every rule it
+ * breaks; an empty list means it passed.
+ */
+export function checkOpener(
+  opener: string,
+  context: OpenerContext,
+  settings: QualitySettings = getQualitySettings()
+): QualityIssue[] {
+  const enabled = new Set(settings.rules);
+  const issues: QualityIssue[] = [];
+
+  const wordCount = words(opener).length;
+  if (enabled.has('max_words') && settings.maxWords > 0 && wordCount > settings.maxWords) {
+    issues.push({ rule: 'max_words', message: `${wordCount} words, more than the limit of ${settings.maxWords}` });
+  }
+
+  if (enabled.has('max_chars') && settings.maxChars > 0 && opener.length > settings.maxChars) {
+    issues.push({ rule: 'max_chars', message: `${opener.length} characters, more than the limit of ${settings.maxChars}` });
+  }
+
+  if (enabled.has('banned_phrase')) {
+    const lower = opener.toLowerCase();
+    for (const phrase of settings.bannedPhrases) {
+      if (lower.includes(phrase.toLowerCase())) {
+        issues.push({ rule: 'banned_phrase', message: `Contains "${phrase}"` });
+      }
+    }
+  }
+
+  if (enabled.has('placeholder')) {
+    const placeholder = PLACEHOLDER_PATTERNS.map(pattern => opener.match(pattern)).find(Boolean);
+    if (placeholder) {
+      issues.push({ rule: 'placeholder', message: `Contains the placeholder ${placeholder[0]}` });
+    }
+  }
+
+  if (enabled.has('prompt_leak')) {
+    const leak = findPromptLeak(opener, context.prompt);
+    if (leak) {
+      issues.push({ rule: 'prompt_leak', message: leak });
+    }
+  }
+
+  if (enabled.has('language') && settings.language) {
+    const detected = detectLanguage(opener);
+    if (detected && detected !== settings.language) {
+      issues.push({ rule: 'language', message: `Written in "${detected}" rather than "${settings.language}"` });
+    }
+  }
+
+  if (enabled.has('invented_contact')) {
+    for (const contact of findInventedContacts(opener, context)) {
+      issues.push({ rule: 'invented_contact', message: `Mentions ${contact}, which isn't in the row` });
+    }
+  }
+
+  return issues;
+}
+
+// The instruction an automatic regeneration is steered by
+export function describeQualityIssues(issues: QualityIssue[]): string {
+  return `Fix these problems with the previous opener: ${issues.map(issue => issue.message).join('; ')}`;
+}
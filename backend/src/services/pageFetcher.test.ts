@@ -0,0 +1,258 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { PageFetcher, parseRobotsTxt, isPathAllowed } from './pageFetcher';
+
+jest.mock('./redis', () => ({ redis: {} }));
+
+type Route = (req: http.IncomingMessage, res: http.ServerResponse) => void;
+
+interface FixtureServer {
+  origin: string;
+  requests: string[];
+  close(): Promise<void>;
+}
+
+// A local site serving the given routes; anything else is a 404
+async function startFixture(routes: Record<string, Route>): Promise<FixtureServer> {
+  const requests: string[] = [];
+  const server = http.createServer((req, res) => {
+    requests.push(req.url || '');
+    const route = routes[req.url || ''];
+    if (route) {
+      route(req, res);
+    } else {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    origin: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    close: () => new Promise(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+function html(body: string): Route {
+  return (_req, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(body);
+  };
+}
+
+function redirect(location: string, status = 302): Route {
+  return (_req, res) => {
+    res.writeHead(status, { Location: location });
+    res.end();
+  };
+}
+
+function robots(content: string): Route {
+  return (_req, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/plain' });
+    res.end(content);
+  };
+}
+
+const PAGE = `<html><head>
+  <title>Acme Robotics</title>
+  <meta name="description" content="Warehouse robots for small teams">
+  <meta property="og:title" content="Acme">
+</head><body><main><p>We build robots that move boxes.</p></main></body></html>`;
+
+function createFetcher(overrides: Partial<ConstructorParameters<typeof PageFetcher>[0]> = {}): PageFetcher {
+  return new PageFetcher({
+    cache: null,
+    domainDelayMs: 0,
+    timeoutMs: 2000,
+    allowPrivateAddresses: true,
+    ...overrides,
+  });
+}
+
+describe('PageFetcher', () => {
+  const servers: FixtureServer[] = [];
+
+  async function fixture(routes: Record<string, Route>): Promise<FixtureServer> {
+    const server = await startFixture(routes);
+    servers.push(server);
+    return server;
+  }
+
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map(server => server.close()));
+  });
+
+  it('extracts the page content', async () => {
+    const site = await fixture({ '/': html(PAGE) });
+
+    const result = await createFetcher().fetchPage(`${site.origin}/`);
+
+    expect(result.status).toBe('ok');
+    if (result.status === 'ok') {
+      expect(result.content.title).toBe('Acme Robotics');
+      expect(result.content.description).toBe('Warehouse robots for small teams');
+      expect(result.content.text).toContain('We build robots that move boxes.');
+      expect(result.cached).toBe(false);
+    }
+    expect(site.requests).toEqual(['/robots.txt', '/']);
+  });
+
+  it('skips pages disallowed by robots.txt', async () => {
+    const site = await fixture({
+      '/robots.txt': robots('User-agent: *\nDisallow: /private'),
+      '/private/page': html(PAGE),
+    });
+
+    const result = await createFetcher().fetchPage(`${site.origin}/private/page`);
+
+    expect(result).toEqual({ status: 'skipped', reason: 'Disallowed by robots.txt' });
+    expect(site.requests).toEqual(['/robots.txt']);
+  });
+
+  it('follows redirects', async () => {
+    const site = await fixture({
+      '/old': redirect('/new', 301),
+      '/new': html(PAGE),
+    });
+
+    const result = await createFetcher().fetchPage(`${site.origin}/old`);
+
+    expect(result.status).toBe('ok');
+    expect(site.requests).toEqual(['/robots.txt', '/old', '/new']);
+  });
+
+  it('checks robots.txt of the site a redirect leads to', async () => {
+    const target = await fixture({
+      '/robots.txt': robots('User-agent: CSVOpenerBot\nDisallow: /'),
+      '/': html(PAGE),
+    });
+    const site = await fixture({ '/': redirect(`${target.origin}/`) });
+
+    const result = await createFetcher().fetchPage(`${site.origin}/`);
+
+    expect(result).toEqual({ status: 'skipped', reason: 'Disallowed by robots.txt' });
+    expect(target.requests).toEqual(['/robots.txt']);
+  });
+
+  it('checks robots.txt for a redirect within the same site', async () => {
+    const site = await fixture({
+      '/robots.txt': robots('User-agent: *\nDisallow: /admin'),
+      '/': redirect('/admin'),
+      '/admin': html(PAGE),
+    });
+
+    const result = await createFetcher().fetchPage(`${site.origin}/`);
+
+    expect(result).toEqual({ status: 'skipped', reason: 'Disallowed by robots.txt' });
+    expect(site.requests).not.toContain('/admin');
+  });
+
+  it('follows a redirected robots.txt', async () => {
+    const site = await fixture({
+      '/robots.txt': redirect('/static/robots.txt', 301),
+      '/static/robots.txt': robots('User-agent: *\nDisallow: /private'),
+      '/private/page': html(PAGE),
+    });
+
+    const result = await createFetcher().fetchPage(`${site.origin}/private/page`);
+
+    expect(result).toEqual({ status: 'skipped', reason: 'Disallowed by robots.txt' });
+    expect(site.requests).toEqual(['/robots.txt', '/static/robots.txt']);
+  });
+
+  it('stays away when robots.txt redirects somewhere it cannot be fetched from', async () => {
+    const site = await fixture({
+      '/robots.txt': redirect('ftp://files.test/robots.txt'),
+      '/': html(PAGE),
+    });
+
+    const result = await createFetcher().fetchPage(`${site.origin}/`);
+
+    expect(result).toEqual({ status: 'skipped', reason: 'Disallowed by robots.txt' });
+    expect(site.requests).toEqual(['/robots.txt']);
+  });
+
+  it('gives up after too many redirects', async () => {
+    const site = await fixture(Object.fromEntries(
+      Array.from({ length: 10 }, (_, index) => [`/${index}`, redirect(`/${index + 1}`)])
+    ));
+
+    const result = await createFetcher().fetchPage(`${site.origin}/0`);
+
+    expect(result).toEqual({ status: 'skipped', reason: 'More than 5 redirects' });
+  });
+
+  it('skips hosts on private addresses unless allowed', async () => {
+    const site = await fixture({ '/': html(PAGE) });
+
+    const result = await createFetcher({ allowPrivateAddresses: false }).fetchPage(`${site.origin}/`);
+
+    expect(result).toEqual({
+      status: 'skipped',
+      reason: '127.0.0.1 resolves to a private, loopback or link-local address',
+    });
+    expect(site.requests).toEqual([]);
+  });
+
+  it('times out while the body is still being read', async () => {
+    const site = await fixture({
+      '/': (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'text/html' });
+        res.write('<html><head><title>Slow</title>');
+        // Never finishes the body
+      },
+    });
+
+    const result = await createFetcher({ timeoutMs: 200 }).fetchPage(`${site.origin}/`);
+
+    expect(result).toEqual({ status: 'skipped', reason: 'Timed out after 200ms' });
+  });
+
+  it('forgets hosts once their request slot has passed', async () => {
+    const first = await fixture({ '/': html(PAGE) });
+    const second = await fixture({ '/': html(PAGE) });
+    const fetcher = createFetcher({ domainDelayMs: 20 });
+
+    await fetcher.fetchPage(`${first.origin}/`);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await fetcher.fetchPage(`${second.origin}/`);
+
+    expect([...fetcher['nextSlotByHost'].keys()]).toEqual([new URL(second.origin).host]);
+  });
+
+  it('skips non-HTML responses', async () => {
+    const site = await fixture({
+      '/data.json': (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end('{}');
+      },
+    });
+
+    const result = await createFetcher().fetchPage(`${site.origin}/data.json`);
+
+    expect(result).toEqual({ status: 'skipped', reason: 'Unsupported content type application/json' });
+  });
+});
+
+describe('robots.txt rules', () => {
+  it('prefers the group naming our user agent', () => {
+    const rules = parseRobotsTxt('User-agent: *\nDisallow: /\n\nUser-agent: CSVOpenerBot\nDisallow: /private', 'CSVOpenerBot/1.0');
+
+    expect(isPathAllowed(rules, '/about')).toBe(true);
+    expect(isPathAllowed(rules, '/private/page')).toBe(false);
+  });
+
+  it('lets the longest matching rule win', () => {
+    const rules = parseRobotsTxt('User-agent: *\nDisallow: /docs\nAllow: /docs/public\nDisallow: /*.pdf$', 'CSVOpenerBot/1.0');
+
+    expect(isPathAllowed(rules, '/docs/internal')).toBe(false);
+    expect(isPathAllowed(rules, '/docs/public/intro')).toBe(true);
+    expect(isPathAllowed(rules, '/files/report.pdf')).toBe(false);
+    expect(isPathAllowed(rules, '/files/report.pdf?download=1')).toBe(true);
+  });
+});
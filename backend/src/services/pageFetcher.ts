@@ -0,0 +1,436 @@
+import { fetch, Response } from 'undici';
+import { redis } from './redis';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { extractPageContent, PageContent } from '../utils/htmlExtractor';
+import { normalizeUrl, normalizeUrlKey } from '../utils/urlValidator';
+import { assertPublicUrl, findUnsafeUrlError, publicDispatcher, UnsafeUrlError } from '../utils/networkGuard';
+
+export interface PageCache {
+  get(key: string): Promise<PageContent | null>;
+  set(key: string, value: PageContent, ttlSeconds: number): Promise<void>;
+}
+
+export interface PageFetcherOptions {
+  timeoutMs: number;
+  maxBytes: number;
+  domainDelayMs: number;
+  cacheTtlSeconds: number;
+  userAgent: string;
+  maxTextLength: number;
+  // Fetch hosts on loopback, private or link-local addresses (e.g. a local fixture server)
+  allowPrivateAddresses: boolean;
+  // null disables caching (e.g. when running against a local fixture server)
+  cache: PageCache | null;
+}
+
+export type PageFetchResult =
+  | { status: 'ok'; content: PageContent; cached: boolean }
+  | { status: 'skipped'; reason: string };
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+const ROBOTS_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+const ROBOTS_MAX_BYTES = 512 * 1024;
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// One response: the page's HTML, where it redirects to, or why it can't be used
+type PageResponse = { html: string } | { redirect: string } | { skipped: string };
+
+// One robots.txt response: the rules (null to stay away from the site), or where it redirects to
+type RobotsResponse = { rules: RobotsRule[] | null } | { redirect: string };
+
+class RedisPageCache implements PageCache {
+  private prefix = 'page-cache:';
+
+  async get(key: string): Promise<PageContent | null> {
+    const value = await redis.get(this.prefix + key);
+    return value ? JSON.parse(value) : null;
+  }
+
+  async set(key: string, value: PageContent, ttlSeconds: number): Promise<void> {
+    await redis.set(this.prefix + key, JSON.stringify(value), 'EX', ttlSeconds);
+  }
+}
+
+function defaultOptions(): PageFetcherOptions {
+  return {
+    timeoutMs: config.pageFetchTimeout,
+    maxBytes: config.pageFetchMaxBytes,
+    domainDelayMs: config.pageFetchDomainDelay,
+    cacheTtlSeconds: config.pageCacheTtl,
+    userAgent: config.pageFetchUserAgent,
+    maxTextLength: config.pageContextMaxChars,
+    allowPrivateAddresses: config.pageFetchAllowPrivateUrls,
+    cache: new RedisPageCache(),
+  };
+}
+
+/**
+ * Parse robots.txt into the rules that apply to our user agent. Groups naming
+ * our agent take precedence over the wildcard group.
+ */
+export function parseRobotsTxt(content: string, userAgent: string): RobotsRule[] {
+  const agentToken = userAgent.split('/')[0].toLowerCase();
+  const groups: Array<{ agents: string[]; rules: RobotsRule[] }> = [];
+  let current: { agents: string[]; rules: RobotsRule[] } | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || current.rules.length > 0) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+    } else if ((field === 'allow' || field === 'disallow') && current) {
+      // An empty Disallow allows everything
+      if (value) {
+        current.rules.push({ allow: field === 'allow', pattern: value });
+      }
+    }
+  }
+
+  const specific = groups.filter(group => group.agents.some(agent => agent !== '*' && agentToken.includes(agent)));
+  const matching = specific.length > 0 ? specific : groups.filter(group => group.agents.includes('*'));
+  return matching.flatMap(group => group.rules);
+}
+
+function robotsPatternToRegex(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+// Longest matching rule wins; Allow wins a tie
+export function isPathAllowed(rules: RobotsRule[], path: string): boolean {
+  let best: RobotsRule | null = null;
+
+  for (const rule of rules) {
+    if (!robotsPatternToRegex(rule.pattern).test(path)) {
+      continue;
+    }
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+
+  return best ? best.allow : true;
+}
+
+export class PageFetcher {
+  private options: PageFetcherOptions;
+  private robotsCache = new Map<string, { rules: RobotsRule[] | null; expiresAt: number }>();
+  private nextSlotByHost = new Map<string, number>();
+
+  constructor(options: Partial<PageFetcherOptions> = {}) {
+    this.options = { ...defaultOptions(), ...options };
+  }
+
+  /**
+   * Fetch a page and extract its content, serving from the shared cache when possible.
+   * Never throws: anything that prevents enrichment is reported as skipped.
+   */
+  async fetchPage(url: string): Promise<PageFetchResult> {
+    const cacheKey = normalizeUrlKey(url);
+
+    const cached = await this.readCache(cacheKey);
+    if (cached) {
+      return { status: 'ok', content: cached, cached: true };
+    }
+
+    let target: URL;
+    try {
+      target = new URL(normalizeUrl(url));
+    } catch {
+      return { status: 'skipped', reason: 'Invalid URL' };
+    }
+
+    try {
+      let page: PageResponse;
+      // Redirects are followed here rather than by fetch, so every hop gets the same checks as the first URL
+      for (let redirects = 0; ; redirects++) {
+        const problem = await this.checkTarget(target);
+        if (problem) {
+          return { status: 'skipped', reason: problem };
+        }
+
+        await this.waitForDomainSlot(target.host);
+        page = await this.request(target.toString(), response => this.readPage(response));
+
+        if (!('redirect' in page)) {
+          break;
+        }
+        if (redirects >= MAX_REDIRECTS) {
+          return { status: 'skipped', reason: `More than ${MAX_REDIRECTS} redirects` };
+        }
+        try {
+          target = new URL(page.redirect, target);
+        } catch {
+          return { status: 'skipped', reason: 'Invalid redirect location' };
+        }
+      }
+
+      if ('skipped' in page) {
+        return { status: 'skipped', reason: page.skipped };
+      }
+
+      const content = extractPageContent(page.html, this.options.maxTextLength);
+
+      await this.writeCache(cacheKey, content);
+      return { status: 'ok', content, cached: false };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      logger.debug(`Page fetch skipped for ${url}: ${reason}`);
+      return { status: 'skipped', reason };
+    }
+  }
+
+  // Why a URL (the first or one redirected to) can't be fetched, or null when it can
+  private async checkTarget(target: URL): Promise<string | null> {
+    const problem = await this.checkHost(target);
+    if (problem) {
+      return problem;
+    }
+
+    if (!(await this.isAllowedByRobots(target))) {
+      return 'Disallowed by robots.txt';
+    }
+
+    return null;
+  }
+
+  // Why a URL's protocol or host rules out requesting it at all, robots.txt aside
+  private async checkHost(target: URL): Promise<string | null> {
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+      return `Unsupported protocol ${target.protocol}`;
+    }
+
+    if (!this.options.allowPrivateAddresses) {
+      try {
+        await assertPublicUrl(target);
+      } catch (error) {
+        if (error instanceof UnsafeUrlError) {
+          return error.message;
+        }
+        throw error;
+      }
+    }
+
+    return null;
+  }
+
+  private async readPage(response: Response): Promise<PageResponse> {
+    if (REDIRECT_STATUSES.has(response.status)) {
+      await response.body?.cancel();
+      const location = response.headers.get('location');
+      return location ? { redirect: location } : { skipped: `HTTP ${response.status} without a Location` };
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      return { skipped: `HTTP ${response.status}` };
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType && !/html|xml/i.test(contentType)) {
+      await response.body?.cancel();
+      return { skipped: `Unsupported content type ${contentType}` };
+    }
+
+    return { html: await this.readBody(response, this.options.maxBytes) };
+  }
+
+  // The timeout covers reading the body in `handle` as well as waiting for the response
+  private async request<T>(url: string, handle: (response: Response) => Promise<T>): Promise<T> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.options.timeoutMs);
+
+    try {
+      const response = await fetch(url, {
+        headers: {
+          'User-Agent': this.options.userAgent,
+          'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.5',
+        },
+        redirect: 'manual',
+        signal: controller.signal,
+        // Refuses private addresses at connect time too, in case the host now resolves elsewhere than checkTarget saw
+        dispatcher: this.options.allowPrivateAddresses ? undefined : publicDispatcher,
+      });
+      return await handle(response);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error(`Timed out after ${this.options.timeoutMs}ms`);
+      }
+      throw findUnsafeUrlError(error) || error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  // Read at most maxBytes of the body and drop the rest of the stream
+  private async readBody(response: Response, maxBytes: number): Promise<string> {
+    if (!response.body) {
+      return '';
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+
+    while (received < maxBytes) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      chunks.push(value);
+      received += value.byteLength;
+    }
+
+    if (received >= maxBytes) {
+      await reader.cancel();
+    }
+
+    return new TextDecoder('utf-8').decode(Buffer.concat(chunks).subarray(0, maxBytes));
+  }
+
+  private async isAllowedByRobots(target: URL): Promise<boolean> {
+    const origin = target.origin;
+    const cached = this.robotsCache.get(origin);
+    let rules: RobotsRule[] | null;
+
+    if (cached && cached.expiresAt > Date.now()) {
+      rules = cached.rules;
+    } else {
+      rules = await this.loadRobots(target);
+      this.robotsCache.set(origin, { rules, expiresAt: Date.now() + ROBOTS_CACHE_TTL_MS });
+    }
+
+    // null means the site's robots.txt was unavailable due to a server error: stay away
+    if (rules === null) {
+      return false;
+    }
+
+    return isPathAllowed(rules, `${target.pathname}${target.search}`);
+  }
+
+  /**
+   * Redirects (typically http to https) are followed with the same host checks
+   * as pages. When they can't be, the site is treated as off limits rather than
+   * as having no robots.txt.
+   */
+  private async loadRobots(target: URL): Promise<RobotsRule[] | null> {
+    let robotsUrl = new URL('/robots.txt', target.origin);
+
+    try {
+      for (let redirects = 0; ; redirects++) {
+        await this.waitForDomainSlot(robotsUrl.host);
+        const robots = await this.request(robotsUrl.toString(), response => this.readRobots(response));
+
+        if (!('redirect' in robots)) {
+          return robots.rules;
+        }
+        if (redirects >= MAX_REDIRECTS) {
+          logger.debug(`robots.txt for ${target.origin} redirects more than ${MAX_REDIRECTS} times`);
+          return null;
+        }
+
+        try {
+          robotsUrl = new URL(robots.redirect, robotsUrl);
+        } catch {
+          return null;
+        }
+        const problem = await this.checkHost(robotsUrl);
+        if (problem) {
+          logger.debug(`robots.txt for ${target.origin} redirects to ${robotsUrl}: ${problem}`);
+          return null;
+        }
+      }
+    } catch (error) {
+      logger.debug(`Could not load robots.txt for ${target.origin}:`, error);
+      return [];
+    }
+  }
+
+  private async readRobots(response: Response): Promise<RobotsResponse> {
+    if (REDIRECT_STATUSES.has(response.status)) {
+      await response.body?.cancel();
+      const location = response.headers.get('location');
+      return location ? { redirect: location } : { rules: null };
+    }
+    if (response.status >= 500) {
+      await response.body?.cancel();
+      return { rules: null };
+    }
+    if (!response.ok) {
+      // A missing robots.txt (or any 4xx) allows everything
+      await response.body?.cancel();
+      return { rules: [] };
+    }
+
+    return { rules: parseRobotsTxt(await this.readBody(response, ROBOTS_MAX_BYTES), this.options.userAgent) };
+  }
+
+  // Space out requests to the same host by domainDelayMs, across concurrent workers in this process
+  private async waitForDomainSlot(host: string): Promise<void> {
+    const now = Date.now();
+    // A host whose slot has passed can be fetched right away, so it needn't be remembered
+    for (const [knownHost, nextSlot] of this.nextSlotByHost) {
+      if (nextSlot <= now) {
+        this.nextSlotByHost.delete(knownHost);
+      }
+    }
+
+    const slot = Math.max(now, this.nextSlotByHost.get(host) || 0);
+    this.nextSlotByHost.set(host, slot + this.options.domainDelayMs);
+
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+  }
+
+  private async readCache(key: string): Promise<PageContent | null> {
+    if (!this.options.cache) {
+      return null;
+    }
+    try {
+      return await this.options.cache.get(key);
+    } catch (error) {
+      logger.warn(`Page cache read failed for ${key}:`, error);
+      return null;
+    }
+  }
+
+  private async writeCache(key: string, content: PageContent): Promise<void> {
+    if (!this.options.cache) {
+      return;
+    }
+    try {
+      await this.options.cache.set(key, content, this.options.cacheTtlSeconds);
+    } catch (error) {
+      logger.warn(`Page cache write failed for ${key}:`, error);
+    }
+  }
+}
+
+export const pageFetcher = new PageFetcher();
@@ -1,5 +1,18 @@
 import { EventEmitter } from 'events';
+import Redis from 'ioredis';
+import { redis } from './redis';
+import { config } from '../config';
 import { logger } from '../utils/logger';
+import { JobUsage, StopReason, WebhookEvent } from './database';
+import { ExceededBudget, describeExceededBudget } from './budgets';
+
+// Running token usage and cost of the job so far
+export interface JobProgressCost {
+  promptTokens: number;
+  completionTokens: number;
+  tokensUsed: number;
+  estimatedCost: number;
+}
 
 export interface JobProgressUpdate {
   jobId: string;
@@ -13,18 +26,93 @@ export interface JobProgressUpdate {
   currentUrl?: string;
   error?: string;
   estimatedTimeRemaining?: number;
-  cost?: {
-    tokensUsed: number;
-    estimatedCost: number;
+  cost?: JobProgressCost;
+  stopReason?: StopReason;
+  // The cap that stopped the job, when stopReason is budget_exceeded
+  budget?: ExceededBudget;
+}
+
+// A row that got an opener, announced as url.completed
+export interface CompletedUrl {
+  id: string;
+  url: string;
+  opener: string;
+}
+
+// Job lifecycle events and completed rows, emitted as JOB_EVENT for listeners outside the job's SSE stream
+export type JobEvent =
+  | { type: Exclude<WebhookEvent, 'url.completed'>; jobId: string; update: JobProgressUpdate }
+  | { type: 'url.completed'; jobId: string; url: CompletedUrl };
+
+export const JOB_EVENT = 'job-event';
+
+// Progress updates are published here for every API instance, and kept per job in a stream for replay
+const PROGRESS_CHANNEL = 'job-progress';
+const HISTORY_KEY_PREFIX = 'job-progress:';
+
+// Redis stream entry ids, "<ms>-<sequence>", are used as SSE event ids
+const EVENT_ID_PATTERN = /^\d+-\d+$/;
+
+// A progress update with the id it was stored under
+export interface ProgressEvent {
+  id: string;
+  update: JobProgressUpdate;
+}
+
+export function isProgressEventId(value: unknown): value is string {
+  return typeof value === 'string' && EVENT_ID_PATTERN.test(value);
+}
+
+// Negative when a is older than b
+export function compareProgressEventIds(a: string, b: string): number {
+  const [aTime, aSeq] = a.split('-').map(BigInt);
+  const [bTime, bSeq] = b.split('-').map(BigInt);
+  if (aTime !== bTime) {
+    return aTime < bTime ? -1 : 1;
+  }
+  return aSeq === bSeq ? 0 : aSeq < bSeq ? -1 : 1;
+}
+
+function historyKey(jobId: string): string {
+  return `${HISTORY_KEY_PREFIX}${jobId}`;
+}
+
+export function toProgressCost(usage: JobUsage): JobProgressCost {
+  return {
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    tokensUsed: usage.totalTokens,
+    estimatedCost: usage.cost,
   };
 }
 
+/**
+ * Progress updates go through Redis so that SSE clients connected to any API
+ * instance hear about jobs processed by any worker: each update is appended to
+ * the job's stream, which gives it an event id, and published on
+ * PROGRESS_CHANNEL. Every instance re-emits what it receives on the channel as
+ * `job-${jobId}` with the update and its id. Job events (JOB_EVENT) stay in the
+ * process that emits them, so webhooks are sent once per event.
+ */
 class ProgressEmitter extends EventEmitter {
   private static instance: ProgressEmitter;
+  // Subscribed connections can't run other commands, so the channel gets its own
+  private subscriber: Redis;
+  // Updates are published one at a time, so every instance receives a job's updates in the order of their ids
+  private publishing: Promise<void> = Promise.resolve();
 
   private constructor() {
     super();
     this.setMaxListeners(100); // Allow up to 100 listeners per event
+
+    this.subscriber = redis.duplicate();
+    this.subscriber.on('message', (channel: string, message: string) => this.receive(message));
+    this.subscriber.on('error', (error) => {
+      logger.error('Progress subscriber connection error:', error);
+    });
+    this.subscriber.subscribe(PROGRESS_CHANNEL).catch((error) => {
+      logger.error(`Failed to subscribe to ${PROGRESS_CHANNEL}:`, error);
+    });
   }
 
   public static getInstance(): ProgressEmitter {
@@ -35,14 +123,71 @@ class ProgressEmitter extends EventEmitter {
   }
 
   public emitProgress(jobId: string, update: JobProgressUpdate): void {
+    this.publishing = this.publishing
+      .then(() => this.publish(jobId, update))
+      .catch((error) => {
+        // Listeners in this process still get the update, without an id to resume from
+        logger.error(`Error publishing progress for job ${jobId}, emitting locally:`, error);
+        this.emitLocally(jobId, update);
+      });
+  }
+
+  // Updates stored after lastEventId, oldest first; only the latest PROGRESS_HISTORY_LENGTH are kept
+  public async getProgressSince(jobId: string, lastEventId: string): Promise<ProgressEvent[]> {
+    const result = await redis.xread('COUNT', config.progressHistoryLength, 'STREAMS', historyKey(jobId), lastEventId);
+    if (!result) {
+      return [];
+    }
+
+    const events: ProgressEvent[] = [];
+    for (const [, entries] of result) {
+      for (const [id, fields] of entries) {
+        events.push({ id, update: JSON.parse(fields[1]) });
+      }
+    }
+    return events;
+  }
+
+  public async close(): Promise<void> {
+    await this.publishing;
+    await this.subscriber.quit();
+  }
+
+  private async publish(jobId: string, update: JobProgressUpdate): Promise<void> {
+    const key = historyKey(jobId);
+    const id = await redis.xadd(key, 'MAXLEN', '~', String(config.progressHistoryLength), '*', 'update', JSON.stringify(update));
+    await redis.multi()
+      .expire(key, config.progressHistoryTtl)
+      .publish(PROGRESS_CHANNEL, JSON.stringify({ jobId, id, update }))
+      .exec();
+    logger.debug(`Progress published for job ${jobId} as ${id}:`, update);
+  }
+
+  private receive(message: string): void {
+    try {
+      const { jobId, id, update } = JSON.parse(message);
+      this.emitLocally(jobId, update, id);
+    } catch (error) {
+      logger.error('Error handling published progress:', error);
+    }
+  }
+
+  private emitLocally(jobId: string, update: JobProgressUpdate, eventId?: string): void {
     try {
-      this.emit(`job-${jobId}`, update);
-      logger.debug(`Progress emitted for job ${jobId}:`, update);
+      this.emit(`job-${jobId}`, update, eventId);
     } catch (error) {
       logger.error(`Error emitting progress for job ${jobId}:`, error);
     }
   }
 
+  public emitJobEvent(event: JobEvent): void {
+    try {
+      this.emit(JOB_EVENT, event);
+    } catch (error) {
+      logger.error(`Error emitting ${event.type} for job ${event.jobId}:`, error);
+    }
+  }
+
   public emitJobStart(jobId: string, totalUrls: number): void {
     const update: JobProgressUpdate = {
       jobId,
@@ -55,9 +200,10 @@ class ProgressEmitter extends EventEmitter {
       }
     };
     this.emitProgress(jobId, update);
+    this.emitJobEvent({ type: 'job.started', jobId, update });
   }
 
-  public emitJobComplete(jobId: string, totalCompleted: number, totalFailed: number): void {
+  public emitJobComplete(jobId: string, totalCompleted: number, totalFailed: number, cost?: JobProgressCost): void {
     const update: JobProgressUpdate = {
       jobId,
       status: 'completed',
@@ -66,9 +212,11 @@ class ProgressEmitter extends EventEmitter {
         completed: totalCompleted,
         failed: totalFailed,
         pending: 0
-      }
+      },
+      cost
     };
     this.emitProgress(jobId, update);
+    this.emitJobEvent({ type: 'job.completed', jobId, update });
   }
 
   public emitJobFailed(jobId: string, error: string): void {
@@ -84,9 +232,17 @@ class ProgressEmitter extends EventEmitter {
       error
     };
     this.emitProgress(jobId, update);
+    this.emitJobEvent({ type: 'job.failed', jobId, update });
   }
 
-  public emitUrlProgress(jobId: string, completed: number, failed: number, pending: number, currentUrl?: string): void {
+  public emitUrlProgress(
+    jobId: string,
+    completed: number,
+    failed: number,
+    pending: number,
+    currentUrl?: string,
+    cost?: JobProgressCost
+  ): void {
     const update: JobProgressUpdate = {
       jobId,
       status: 'processing',
@@ -96,12 +252,20 @@ class ProgressEmitter extends EventEmitter {
         failed,
         pending
       },
-      currentUrl
+      currentUrl,
+      cost
     };
     this.emitProgress(jobId, update);
   }
 
-  public emitJobStopped(jobId: string, completed: number, failed: number, pending: number): void {
+  public emitJobStopped(
+    jobId: string,
+    completed: number,
+    failed: number,
+    pending: number,
+    stopReason?: StopReason,
+    budget?: ExceededBudget
+  ): void {
     const update: JobProgressUpdate = {
       jobId,
       status: 'stopped',
@@ -110,9 +274,17 @@ class ProgressEmitter extends EventEmitter {
         completed,
         failed,
         pending
-      }
+      },
+      stopReason,
+      budget,
+      error: budget ? describeExceededBudget(budget) : undefined
     };
     this.emitProgress(jobId, update);
+    this.emitJobEvent({ type: 'job.stopped', jobId, update });
+  }
+
+  public emitUrlCompleted(jobId: string, url: CompletedUrl): void {
+    this.emitJobEvent({ type: 'url.completed', jobId, url });
   }
 }
 
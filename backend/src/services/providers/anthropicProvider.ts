@@ -0,0 +1,78 @@
+import { GenerationResult } from '../../types';
+import { estimateTokens } from '../../utils/pricing';
+import { ProviderError } from './baseProvider';
+import { HttpProvider } from './httpProvider';
+import { GenerationRequest, ProviderConfig, ProviderHealth } from './types';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+interface MessagesResponse {
+  model?: string;
+  content?: Array<{ type: string; text?: string }>;
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+// Anthropic's Messages API
+export class AnthropicProvider extends HttpProvider {
+  readonly type = 'anthropic' as const;
+  readonly capabilities = {
+    systemPrompt: true,
+    reportsUsage: true,
+    exactTokenCounts: false,
+    batch: false,
+  };
+
+  constructor(providerConfig: ProviderConfig) {
+    super(providerConfig, 'https://api.anthropic.com');
+  }
+
+  protected headers(): Record<string, string> {
+    return {
+      'x-api-key': this.apiKey || '',
+      'anthropic-version': ANTHROPIC_VERSION,
+    };
+  }
+
+  // Claude's tokenizer isn't published, and tiktoken's encodings undercount it
+  countTokens(text: string): number {
+    return estimateTokens(text);
+  }
+
+  async generate(request: GenerationRequest): Promise<GenerationResult> {
+    if (!this.apiKey) {
+      throw new ProviderError(`${this.id} has no API key configured`, undefined, false);
+    }
+
+    const response = await this.requestJson<MessagesResponse>('POST', '/v1/messages', {
+      model: this.model,
+      system: request.prompt.system,
+      messages: [{ role: 'user', content: request.prompt.user }],
+      temperature: this.temperature,
+      max_tokens: this.maxTokens,
+    });
+
+    const opener = (response.content || [])
+      .filter(block => block.type === 'text')
+      .map(block => block.text || '')
+      .join('')
+      .trim();
+    if (!opener) {
+      throw new ProviderError(`${this.id} returned an empty completion`);
+    }
+
+    return {
+      opener,
+      model: response.model || this.model,
+      usage: {
+        promptTokens: response.usage?.input_tokens || 0,
+        completionTokens: response.usage?.output_tokens || 0,
+      },
+    };
+  }
+
+  async healthCheck(): Promise<ProviderHealth> {
+    return this.measureHealth(async () => {
+      await this.requestJson('GET', `/v1/models/${encodeURIComponent(this.model)}`);
+    });
+  }
+}
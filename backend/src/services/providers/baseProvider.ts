@@ -0,0 +1,158 @@
+import { config } from '../../config';
+import { logger } from '../../utils/logger';
+import { formatPrompt, getPromptTemplate } from '../../utils/prompts';
+import { countTokens } from '../../utils/tokenizer';
+import { ContentType, GenerationResult, PromptTemplate } from '../../types';
+import { aiRateLimiter, RateLimits, resolveRateLimits } from './rateLimiter';
+import {
+  AIProvider,
+  GenerationRequest,
+  ProviderCapabilities,
+  ProviderHealth,
+  ProviderType,
+} from './types';
+
+export class ProviderError extends Error {
+  status?: number;
+  // Authentication, quota and malformed request errors fail the same way on every attempt
+  retryable: boolean;
+  // From a rate limit response's Retry-After header
+  retryAfterMs?: number;
+
+  constructor(message: string, status?: number, retryable: boolean = true, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+    this.retryable = retryable;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Rate limits and server errors are worth retrying, other HTTP errors are not
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+// Retry-After is either seconds or an HTTP date; OpenAI also sends retry-after-ms
+export function parseRetryAfter(getHeader: (name: string) => string | null | undefined): number | undefined {
+  const milliseconds = Number(getHeader('retry-after-ms'));
+  if (getHeader('retry-after-ms') && Number.isFinite(milliseconds)) {
+    return Math.max(0, milliseconds);
+  }
+
+  const value = getHeader('retry-after');
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Prompt rendering, retries and token counting shared by every provider.
+ * Adapters only implement the request itself and the health probe.
+ */
+export abstract class BaseProvider implements AIProvider {
+  abstract readonly id: string;
+  abstract readonly type: ProviderType;
+  abstract readonly capabilities: ProviderCapabilities;
+
+  abstract getModel(): string;
+  abstract generate(request: GenerationRequest): Promise<GenerationResult>;
+  abstract healthCheck(): Promise<ProviderHealth>;
+
+  // tiktoken's encoding for the model, or cl100k_base as an approximation for models it doesn't know
+  countTokens(text: string): number {
+    return countTokens(text, this.getModel());
+  }
+
+  getRateLimits(): RateLimits {
+    return resolveRateLimits();
+  }
+
+  // Most tokens a completion can use, reserved from the token bucket until the response reports usage
+  protected completionTokenLimit(): number {
+    return config.openaiMaxTokens;
+  }
+
+  async generateOpenerWithRetry(
+    url: string,
+    contentType: ContentType,
+    maxRetries: number = config.maxRetries,
+    template?: PromptTemplate,
+    rowData?: Record<string, string>
+  ): Promise<GenerationResult> {
+    const prompt = this.renderPrompt(url, contentType, template, rowData);
+    let lastError: Error | null = null;
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      try {
+        return await this.generateWithinRateLimits({ prompt, url, contentType });
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error('Unknown error');
+
+        if (error instanceof ProviderError && !error.retryable) {
+          throw error;
+        }
+
+        if (attempt < maxRetries) {
+          const delay = config.retryDelay * Math.pow(config.backoffMultiplier, attempt - 1);
+          logger.warn(`${this.id} request failed (attempt ${attempt}/${maxRetries}), retrying in ${delay}ms:`, lastError.message);
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
+      }
+    }
+
+    throw lastError || new Error('Max retries exceeded');
+  }
+
+  // Take the request and its expected tokens from the shared buckets, and slow them down on a 429
+  private async generateWithinRateLimits(request: GenerationRequest): Promise<GenerationResult> {
+    const limits = this.getRateLimits();
+    const expectedTokens = this.countTokens(`${request.prompt.system}\n${request.prompt.user}`) + this.completionTokenLimit();
+    const reserved = await aiRateLimiter.acquire(this.id, limits, expectedTokens);
+
+    try {
+      const result = await this.generate(request);
+      const used = result.usage.promptTokens + result.usage.completionTokens;
+      await aiRateLimiter.settle(this.id, limits, reserved, used, true);
+      return result;
+    } catch (error) {
+      await aiRateLimiter.settle(this.id, limits, reserved, 0, false);
+      if (error instanceof ProviderError && error.status === 429) {
+        await aiRateLimiter.slowDown(this.id, limits, error.retryAfterMs);
+      }
+      throw error;
+    }
+  }
+
+  // The prompt sent for a row; providers that need a different shape override it
+  protected renderPrompt(
+    url: string,
+    contentType: ContentType,
+    template?: PromptTemplate,
+    rowData?: Record<string, string>
+  ): PromptTemplate {
+    return formatPrompt(template || getPromptTemplate(contentType), url, rowData);
+  }
+
+  // Run a probe and report how long it took, turning failures into an unhealthy result
+  protected async measureHealth(probe: () => Promise<void>): Promise<ProviderHealth> {
+    const startedAt = Date.now();
+    try {
+      await probe();
+      return { ok: true, model: this.getModel(), latencyMs: Date.now() - startedAt };
+    } catch (error) {
+      return {
+        ok: false,
+        model: this.getModel(),
+        latencyMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { config } from '../../config';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  lastError: string | null;
+}
+
+/**
+ * Stops sending requests to a provider after `failureThreshold` consecutive
+ * failures. Once `resetTimeoutMs` has passed a single trial request is let
+ * through: success closes the circuit again, failure keeps it open.
+ */
+export class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+  private lastError: string | null = null;
+
+  constructor(
+    private failureThreshold: number = config.aiCircuitFailureThreshold,
+    private resetTimeoutMs: number = config.aiCircuitResetTimeout
+  ) {}
+
+  getState(): CircuitState {
+    if (this.openedAt === null) {
+      return 'closed';
+    }
+    return Date.now() - this.openedAt >= this.resetTimeoutMs ? 'half_open' : 'open';
+  }
+
+  // Whether a request may be sent now; in the half-open state only one trial runs at a time
+  tryAcquire(): boolean {
+    const state = this.getState();
+    if (state === 'closed') {
+      return true;
+    }
+    if (state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+    this.lastError = null;
+  }
+
+  recordFailure(error: string): void {
+    this.consecutiveFailures++;
+    this.lastError = error;
+
+    // A failed trial restarts the wait, as does reaching the threshold
+    if (this.trialInFlight || this.consecutiveFailures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+    }
+    this.trialInFlight = false;
+  }
+
+  getStatus(): CircuitStatus {
+    return {
+      state: this.getState(),
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt !== null ? new Date(this.openedAt).toISOString() : null,
+      lastError: this.lastError,
+    };
+  }
+}
@@ -0,0 +1,74 @@
+import { logger } from '../../utils/logger';
+import { ContentType, PromptTemplate } from '../../types';
+import { providerRegistry } from './registry';
+import { ProviderGeneration } from './types';
+import { ProviderError } from './baseProvider';
+
+/**
+ * Whether an error says the provider is unhealthy: an outage, a timeout, a rate
+ * limit or bad credentials. A non-retryable rejection of one row's request (e.g.
+ * a 400 for its prompt) means the provider answered, so it doesn't count.
+ */
+function isProviderFailure(error: Error): boolean {
+  if (!(error instanceof ProviderError) || error.retryable || error.status === undefined) {
+    return true;
+  }
+  return error.status === 401 || error.status === 403;
+}
+
+/**
+ * Generate an opener with the first provider in the chain that succeeds.
+ * Each provider runs its own retries first; providers whose circuit is open
+ * are skipped. Throws with every provider's error when none of them succeeds.
+ */
+export async function generateWithFallback(
+  chain: string[],
+  url: string,
+  contentType: ContentType,
+  maxRetries?: number,
+  template?: PromptTemplate,
+  rowData?: Record<string, string>
+): Promise<ProviderGeneration> {
+  const failures: string[] = [];
+  let lastError: Error | null = null;
+
+  for (const providerId of chain) {
+    const breaker = providerRegistry.getCircuitBreaker(providerId);
+    if (!breaker.tryAcquire()) {
+      failures.push(`${providerId}: circuit open`);
+      continue;
+    }
+
+    try {
+      const provider = providerRegistry.get(providerId);
+      const result = await provider.generateOpenerWithRetry(url, contentType, maxRetries, template, rowData);
+      breaker.recordSuccess();
+
+      if (failures.length > 0) {
+        logger.warn(`Generated opener for ${url} with fallback provider ${providerId} (${failures.join('; ')})`);
+      }
+      return { ...result, provider: providerId };
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error('Unknown error');
+      const message = lastError.message;
+      if (isProviderFailure(lastError)) {
+        breaker.recordFailure(message);
+
+        const status = breaker.getStatus();
+        if (status.state !== 'closed') {
+          logger.warn(`Circuit opened for AI provider ${providerId} after ${status.consecutiveFailures} consecutive failures`);
+        }
+      } else {
+        // The provider answered, so a trial request closes the circuit as a success would
+        breaker.recordSuccess();
+      }
+      failures.push(`${providerId}: ${message}`);
+    }
+  }
+
+  // Without fallbacks the row keeps the provider's own error
+  if (chain.length === 1 && lastError) {
+    throw lastError;
+  }
+  throw new Error(`All AI providers failed (${failures.join('; ')})`);
+}
@@ -0,0 +1,338 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { AnthropicProvider } from './anthropicProvider';
+import { OllamaProvider } from './ollamaProvider';
+import { OpenAICompatibleProvider } from './openaiCompatibleProvider';
+import { ProviderError } from './baseProvider';
+import { GenerationRequest, ProviderConfig } from './types';
+
+jest.mock('../redis', () => ({ redis: {} }));
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: unknown;
+}
+
+interface MockResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+  // Never answer, to run into the client's timeout
+  hang?: boolean;
+}
+
+// A stand-in for a provider's API: answers with the queued responses in order, then with 200 {}
+class MockProviderServer {
+  requests: RecordedRequest[] = [];
+  private responses: MockResponse[] = [];
+  private server = http.createServer((req, res) => this.handle(req, res));
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  respond(...responses: MockResponse[]): void {
+    this.responses.push(...responses);
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => {
+      this.server.closeAllConnections();
+      this.server.close(() => resolve());
+    });
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks).toString('utf-8');
+      this.requests.push({
+        method: req.method || '',
+        path: req.url || '',
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : undefined,
+      });
+
+      const response = this.responses.shift() || { status: 200, body: {} };
+      if (response.hang) {
+        return;
+      }
+      res.writeHead(response.status, { 'Content-Type': 'application/json', ...response.headers });
+      res.end(JSON.stringify(response.body ?? {}));
+    });
+  }
+}
+
+const REQUEST: GenerationRequest = {
+  prompt: { system: 'You write openers.', user: 'Write an opener for https://acme.test' },
+  url: 'https://acme.test',
+  contentType: 'company',
+};
+
+// No rate limits, so requests don't go through Redis
+function providerConfig(type: ProviderConfig['type'], baseUrl: string, overrides: Partial<ProviderConfig> = {}): ProviderConfig {
+  return {
+    id: `test-${type}`,
+    type,
+    model: 'test-model',
+    baseUrl,
+    temperature: 0.5,
+    maxTokens: 80,
+    timeoutMs: 2000,
+    requestsPerMinute: 0,
+    tokensPerMinute: 0,
+    ...overrides,
+  };
+}
+
+async function generateError(promise: Promise<unknown>): Promise<ProviderError> {
+  const error = await promise.then(() => null, (caught: unknown) => caught);
+  expect(error).toBeInstanceOf(ProviderError);
+  return error as ProviderError;
+}
+
+let server: MockProviderServer;
+let baseUrl: string;
+
+beforeEach(async () => {
+  server = new MockProviderServer();
+  baseUrl = await server.start();
+});
+
+afterEach(async () => {
+  await server.close();
+});
+
+describe('AnthropicProvider', () => {
+  const createProvider = (overrides: Partial<ProviderConfig> = {}) =>
+    new AnthropicProvider(providerConfig('anthropic', baseUrl, { apiKey: 'sk-ant-test', ...overrides }));
+
+  it('sends a Messages API request and maps the response', async () => {
+    server.respond({
+      status: 200,
+      body: {
+        model: 'claude-test',
+        content: [{ type: 'text', text: ' Loved your launch. ' }],
+        usage: { input_tokens: 42, output_tokens: 7 },
+      },
+    });
+
+    const result = await createProvider().generate(REQUEST);
+
+    expect(result).toEqual({ opener: 'Loved your launch.', model: 'claude-test', usage: { promptTokens: 42, completionTokens: 7 } });
+    expect(server.requests).toHaveLength(1);
+    const [request] = server.requests;
+    expect(request.method).toBe('POST');
+    expect(request.path).toBe('/v1/messages');
+    expect(request.headers['x-api-key']).toBe('sk-ant-test');
+    expect(request.headers['anthropic-version']).toBe('2023-06-01');
+    expect(request.body).toEqual({
+      model: 'test-model',
+      system: REQUEST.prompt.system,
+      messages: [{ role: 'user', content: REQUEST.prompt.user }],
+      temperature: 0.5,
+      max_tokens: 80,
+    });
+  });
+
+  it('maps a rate limit to a retryable error with its Retry-After', async () => {
+    server.respond({ status: 429, body: { error: { type: 'rate_limit_error' } }, headers: { 'retry-after': '2' } });
+
+    const error = await generateError(createProvider().generate(REQUEST));
+
+    expect(error.status).toBe(429);
+    expect(error.retryable).toBe(true);
+    expect(error.retryAfterMs).toBe(2000);
+  });
+
+  it.each([500, 529])('maps a %i response to a retryable error', async status => {
+    server.respond({ status, body: { error: { type: 'overloaded_error' } } });
+
+    const error = await generateError(createProvider().generate(REQUEST));
+
+    expect(error.status).toBe(status);
+    expect(error.retryable).toBe(true);
+  });
+
+  it.each([400, 401, 403])('maps a %i response to a non-retryable error', async status => {
+    server.respond({ status, body: { error: { type: 'invalid_request_error' } } });
+
+    const error = await generateError(createProvider().generate(REQUEST));
+
+    expect(error.status).toBe(status);
+    expect(error.retryable).toBe(false);
+    expect(error.message).toContain(`${status}`);
+  });
+
+  it('fails without a request when no API key is configured', async () => {
+    const error = await generateError(createProvider({ apiKey: undefined }).generate(REQUEST));
+
+    expect(error.retryable).toBe(false);
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it('treats an empty completion as retryable', async () => {
+    server.respond({ status: 200, body: { content: [] } });
+
+    const error = await generateError(createProvider().generate(REQUEST));
+
+    expect(error.retryable).toBe(true);
+    expect(error.message).toContain('empty completion');
+  });
+
+  it('checks health by looking the model up', async () => {
+    server.respond({ status: 200, body: { id: 'test-model' } }, { status: 404, body: { error: { type: 'not_found_error' } } });
+    const provider = createProvider();
+
+    expect((await provider.healthCheck()).ok).toBe(true);
+    const unhealthy = await provider.healthCheck();
+    expect(unhealthy.ok).toBe(false);
+    expect(unhealthy.error).toContain('404');
+    expect(server.requests.map(request => request.path)).toEqual(['/v1/models/test-model', '/v1/models/test-model']);
+  });
+});
+
+describe('OllamaProvider', () => {
+  const createProvider = () => new OllamaProvider(providerConfig('ollama', baseUrl));
+
+  it('sends a chat request and maps the response', async () => {
+    server.respond({
+      status: 200,
+      body: { model: 'llama-test', message: { content: 'Great docs. ' }, prompt_eval_count: 30, eval_count: 5 },
+    });
+
+    const result = await createProvider().generate(REQUEST);
+
+    expect(result).toEqual({ opener: 'Great docs.', model: 'llama-test', usage: { promptTokens: 30, completionTokens: 5 } });
+    const [request] = server.requests;
+    expect(request.path).toBe('/api/chat');
+    expect(request.headers.authorization).toBeUndefined();
+    expect(request.body).toEqual({
+      model: 'test-model',
+      messages: [
+        { role: 'system', content: REQUEST.prompt.system },
+        { role: 'user', content: REQUEST.prompt.user },
+      ],
+      stream: false,
+      options: { temperature: 0.5, num_predict: 80 },
+    });
+  });
+
+  it('maps a server error to a retryable error', async () => {
+    server.respond({ status: 503, body: { error: 'loading model' } });
+
+    const error = await generateError(createProvider().generate(REQUEST));
+
+    expect(error.status).toBe(503);
+    expect(error.retryable).toBe(true);
+  });
+
+  it('maps a missing model to a non-retryable error', async () => {
+    server.respond({ status: 404, body: { error: 'model "test-model" not found, try pulling it first' } });
+
+    const error = await generateError(createProvider().generate(REQUEST));
+
+    expect(error.status).toBe(404);
+    expect(error.retryable).toBe(false);
+  });
+
+  it('is healthy only once the model has been pulled', async () => {
+    server.respond(
+      { status: 200, body: { models: [{ name: 'test-model:latest' }] } },
+      { status: 200, body: { models: [{ name: 'other-model:latest' }] } }
+    );
+    const provider = createProvider();
+
+    expect((await provider.healthCheck()).ok).toBe(true);
+    expect(await provider.healthCheck()).toMatchObject({ ok: false, error: 'Model test-model has not been pulled' });
+  });
+});
+
+describe('OpenAICompatibleProvider', () => {
+  const createProvider = (overrides: Partial<ProviderConfig> = {}) =>
+    new OpenAICompatibleProvider(providerConfig('openai-compatible', `${baseUrl}/v1`, overrides));
+
+  it('sends a chat completion request and maps the response', async () => {
+    server.respond({
+      status: 200,
+      body: {
+        model: 'local-model',
+        choices: [{ message: { content: 'Nice pricing page.' } }],
+        usage: { prompt_tokens: 25, completion_tokens: 4 },
+      },
+    });
+
+    const result = await createProvider({ apiKey: 'local-key' }).generate(REQUEST);
+
+    expect(result).toEqual({ opener: 'Nice pricing page.', model: 'local-model', usage: { promptTokens: 25, completionTokens: 4 } });
+    const [request] = server.requests;
+    expect(request.path).toBe('/v1/chat/completions');
+    expect(request.headers.authorization).toBe('Bearer local-key');
+    expect(request.body).toMatchObject({ model: 'test-model', temperature: 0.5, max_tokens: 80 });
+  });
+
+  it('maps a request timeout to a retryable error', async () => {
+    server.respond({ status: 200, hang: true });
+
+    const error = await generateError(createProvider({ timeoutMs: 100 }).generate(REQUEST));
+
+    expect(error.retryable).toBe(true);
+    expect(error.status).toBeUndefined();
+    expect(error.message).toContain('timed out after 100ms');
+  });
+
+  it('maps a refused connection to a retryable error', async () => {
+    await server.close();
+
+    const error = await generateError(createProvider().generate(REQUEST));
+
+    expect(error.retryable).toBe(true);
+    expect(error.message).toContain('request failed');
+    // afterEach closes it again
+    server = new MockProviderServer();
+  });
+
+  it('maps a 408 to a retryable error and a 422 to a non-retryable one', async () => {
+    server.respond({ status: 408 }, { status: 422 });
+    const provider = createProvider();
+
+    expect((await generateError(provider.generate(REQUEST))).retryable).toBe(true);
+    expect((await generateError(provider.generate(REQUEST))).retryable).toBe(false);
+  });
+});
+
+describe('generateOpenerWithRetry', () => {
+  const createProvider = () => new OpenAICompatibleProvider(providerConfig('openai-compatible', baseUrl));
+  const completion = { status: 200, body: { choices: [{ message: { content: 'Hello there.' } }] } };
+
+  it('retries retryable errors', async () => {
+    server.respond({ status: 503 }, { status: 429 }, completion);
+
+    const result = await createProvider().generateOpenerWithRetry('https://acme.test', 'company', 3);
+
+    expect(result.opener).toBe('Hello there.');
+    expect(server.requests).toHaveLength(3);
+  });
+
+  it('gives up after maxRetries attempts', async () => {
+    server.respond({ status: 500 }, { status: 500 }, completion);
+
+    const error = await generateError(createProvider().generateOpenerWithRetry('https://acme.test', 'company', 2));
+
+    expect(error.status).toBe(500);
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('does not retry non-retryable errors', async () => {
+    server.respond({ status: 400 }, completion);
+
+    const error = await generateError(createProvider().generateOpenerWithRetry('https://acme.test', 'company', 3));
+
+    expect(error.status).toBe(400);
+    expect(server.requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,82 @@
+import { config } from '../../config';
+import { BaseProvider, ProviderError, isRetryableStatus, parseRetryAfter } from './baseProvider';
+import { RateLimits, resolveRateLimits } from './rateLimiter';
+import { ProviderConfig } from './types';
+
+/**
+ * Base for providers configured through AI_PROVIDERS and called over plain HTTP.
+ * The base URL is always configurable so each adapter can be pointed at a local mock server.
+ */
+export abstract class HttpProvider extends BaseProvider {
+  readonly id: string;
+  protected model: string;
+  protected baseUrl: string;
+  protected apiKey: string | null;
+  protected temperature: number;
+  protected maxTokens: number;
+  protected timeoutMs: number;
+  protected rateLimits: RateLimits;
+
+  constructor(providerConfig: ProviderConfig, defaultBaseUrl: string) {
+    super();
+    this.id = providerConfig.id;
+    this.model = providerConfig.model;
+    this.baseUrl = (providerConfig.baseUrl || defaultBaseUrl).replace(/\/+$/, '');
+    this.apiKey = providerConfig.apiKey
+      || (providerConfig.apiKeyEnv ? process.env[providerConfig.apiKeyEnv] || null : null);
+    this.temperature = providerConfig.temperature ?? config.openaiTemperature;
+    this.maxTokens = providerConfig.maxTokens ?? config.openaiMaxTokens;
+    this.timeoutMs = providerConfig.timeoutMs ?? config.aiRequestTimeout;
+    this.rateLimits = resolveRateLimits(providerConfig);
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+
+  getRateLimits(): RateLimits {
+    return this.rateLimits;
+  }
+
+  protected completionTokenLimit(): number {
+    return this.maxTokens;
+  }
+
+  protected abstract headers(): Record<string, string>;
+
+  protected async requestJson<T>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<T> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers: { 'Content-Type': 'application/json', ...this.headers() },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => '');
+        throw new ProviderError(
+          `${this.id} API error: ${response.status} - ${errorText.substring(0, 500)}`,
+          response.status,
+          isRetryableStatus(response.status),
+          parseRetryAfter(name => response.headers.get(name))
+        );
+      }
+
+      return await response.json() as T;
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error;
+      }
+      if (controller.signal.aborted) {
+        throw new ProviderError(`${this.id} request timed out after ${this.timeoutMs}ms`);
+      }
+      throw new ProviderError(`${this.id} request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
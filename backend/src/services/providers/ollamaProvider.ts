@@ -0,0 +1,75 @@
+import { GenerationResult } from '../../types';
+import { ProviderError } from './baseProvider';
+import { HttpProvider } from './httpProvider';
+import { GenerationRequest, ProviderConfig, ProviderHealth } from './types';
+
+interface OllamaChatResponse {
+  model?: string;
+  message?: { content?: string };
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+interface OllamaTagsResponse {
+  models?: Array<{ name: string }>;
+}
+
+// A local Ollama server, using its native /api/chat endpoint
+export class OllamaProvider extends HttpProvider {
+  readonly type = 'ollama' as const;
+  readonly capabilities = {
+    systemPrompt: true,
+    reportsUsage: true,
+    exactTokenCounts: false,
+    batch: false,
+  };
+
+  constructor(providerConfig: ProviderConfig) {
+    super(providerConfig, 'http://localhost:11434');
+  }
+
+  protected headers(): Record<string, string> {
+    // Only needed when Ollama sits behind an authenticating proxy
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+  }
+
+  async generate(request: GenerationRequest): Promise<GenerationResult> {
+    const response = await this.requestJson<OllamaChatResponse>('POST', '/api/chat', {
+      model: this.model,
+      messages: [
+        { role: 'system', content: request.prompt.system },
+        { role: 'user', content: request.prompt.user },
+      ],
+      stream: false,
+      options: {
+        temperature: this.temperature,
+        num_predict: this.maxTokens,
+      },
+    });
+
+    const opener = response.message?.content?.trim();
+    if (!opener) {
+      throw new ProviderError(`${this.id} returned an empty completion`);
+    }
+
+    return {
+      opener,
+      model: response.model || this.model,
+      usage: {
+        promptTokens: response.prompt_eval_count || 0,
+        completionTokens: response.eval_count || 0,
+      },
+    };
+  }
+
+  // Healthy when the server answers and the model has been pulled
+  async healthCheck(): Promise<ProviderHealth> {
+    return this.measureHealth(async () => {
+      const tags = await this.requestJson<OllamaTagsResponse>('GET', '/api/tags');
+      const names = (tags.models || []).map(model => model.name);
+      if (!names.some(name => name === this.model || name === `${this.model}:latest`)) {
+        throw new Error(`Model ${this.model} has not been pulled`);
+      }
+    });
+  }
+}
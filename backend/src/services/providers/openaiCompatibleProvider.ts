@@ -0,0 +1,65 @@
+import { GenerationResult } from '../../types';
+import { ProviderError } from './baseProvider';
+import { HttpProvider } from './httpProvider';
+import { GenerationRequest, ProviderConfig, ProviderHealth } from './types';
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/**
+ * Any server implementing OpenAI's /chat/completions, such as vLLM, LM Studio
+ * or the llama.cpp server. `baseUrl` includes the version prefix, e.g. http://localhost:8000/v1.
+ */
+export class OpenAICompatibleProvider extends HttpProvider {
+  readonly type = 'openai-compatible' as const;
+  readonly capabilities = {
+    systemPrompt: true,
+    reportsUsage: true,
+    exactTokenCounts: false,
+    batch: false,
+  };
+
+  constructor(providerConfig: ProviderConfig) {
+    super(providerConfig, 'http://localhost:8000/v1');
+  }
+
+  protected headers(): Record<string, string> {
+    // Local servers usually run without authentication
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+  }
+
+  async generate(request: GenerationRequest): Promise<GenerationResult> {
+    const response = await this.requestJson<ChatCompletionResponse>('POST', '/chat/completions', {
+      model: this.model,
+      messages: [
+        { role: 'system', content: request.prompt.system },
+        { role: 'user', content: request.prompt.user },
+      ],
+      temperature: this.temperature,
+      max_tokens: this.maxTokens,
+    });
+
+    const opener = response.choices?.[0]?.message?.content?.trim();
+    if (!opener) {
+      throw new ProviderError(`${this.id} returned an empty completion`);
+    }
+
+    return {
+      opener,
+      model: response.model || this.model,
+      usage: {
+        promptTokens: response.usage?.prompt_tokens || 0,
+        completionTokens: response.usage?.completion_tokens || 0,
+      },
+    };
+  }
+
+  async healthCheck(): Promise<ProviderHealth> {
+    return this.measureHealth(async () => {
+      await this.requestJson('GET', '/models');
+    });
+  }
+}
@@ -0,0 +1,237 @@
+import { config } from '../../config';
+import { logger } from '../../utils/logger';
+import { redis } from '../redis';
+import { ProviderConfig } from './types';
+
+// 0 disables a limit
+export interface RateLimits {
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+  // Requests that may be sent back to back before the per-minute rate applies
+  burst: number;
+}
+
+export interface RateLimitStatus extends RateLimits {
+  provider: string;
+  availableRequests: number | null;
+  availableTokens: number | null;
+  // Requests and tokens sent over roughly the last minute
+  usedRequests: number;
+  usedTokens: number;
+  requestUtilisation: number | null;
+  tokenUtilisation: number | null;
+  // Share of the configured rates currently allowed, lowered after rate limit responses
+  throttleFactor: number;
+  pausedUntil: string | null;
+}
+
+const KEY_PREFIX = 'ai-rate:';
+const BUCKET_TTL_MS = 60 * 60 * 1000;
+const MAX_WAIT_STEP_MS = 5000;
+const MIN_THROTTLE_FACTOR = 0.1;
+const THROTTLE_RECOVERY_STEP = 0.05;
+
+// Refills both buckets for the time since the last call, then takes one request and
+// ARGV[5] tokens, or returns how many ms to wait before trying again
+const ACQUIRE_SCRIPT = `
+local now = tonumber(ARGV[1])
+local rpm = tonumber(ARGV[2])
+local burst = tonumber(ARGV[3])
+local tpm = tonumber(ARGV[4])
+local cost = tonumber(ARGV[5])
+local state = redis.call('HMGET', KEYS[1], 'requests', 'tokens', 'updated_at', 'factor', 'paused_until')
+local requests = tonumber(state[1]) or burst
+local tokens = tonumber(state[2]) or tpm
+local updated = tonumber(state[3]) or now
+local factor = tonumber(state[4]) or 1
+local paused = tonumber(state[5]) or 0
+local elapsed = math.max(0, now - updated)
+if rpm > 0 then requests = math.min(burst, requests + elapsed * rpm * factor / 60000) end
+if tpm > 0 then tokens = math.min(tpm, tokens + elapsed * tpm * factor / 60000) end
+local wait = 0
+if paused > now then
+  wait = paused - now
+else
+  if rpm > 0 and requests < 1 then wait = math.max(wait, (1 - requests) * 60000 / (rpm * factor)) end
+  if tpm > 0 and tokens < cost then wait = math.max(wait, (cost - tokens) * 60000 / (tpm * factor)) end
+end
+if wait == 0 then
+  if rpm > 0 then requests = requests - 1 end
+  if tpm > 0 then tokens = tokens - cost end
+end
+redis.call('HSET', KEYS[1], 'requests', tostring(requests), 'tokens', tostring(tokens), 'updated_at', tostring(now), 'factor', tostring(factor))
+redis.call('PEXPIRE', KEYS[1], ARGV[6])
+return math.ceil(wait)
+`;
+
+// Returns the tokens reserved but not used (ARGV[1]) and counts the request towards usage;
+// a successful request also lets the throttle factor recover a little
+const SETTLE_SCRIPT = `
+if tonumber(ARGV[1]) ~= 0 then redis.call('HINCRBYFLOAT', KEYS[1], 'tokens', ARGV[1]) end
+if ARGV[2] == '1' then
+  local factor = tonumber(redis.call('HGET', KEYS[1], 'factor')) or 1
+  redis.call('HSET', KEYS[1], 'factor', tostring(math.min(1, factor + tonumber(ARGV[3]))))
+end
+redis.call('HINCRBY', KEYS[2], 'requests', 1)
+redis.call('HINCRBY', KEYS[2], 'tokens', ARGV[4])
+redis.call('EXPIRE', KEYS[2], 120)
+return 1
+`;
+
+// Halves the throttle factor and holds every request until ARGV[2]
+const SLOW_DOWN_SCRIPT = `
+local factor = tonumber(redis.call('HGET', KEYS[1], 'factor')) or 1
+local paused = tonumber(redis.call('HGET', KEYS[1], 'paused_until')) or 0
+redis.call('HSET', KEYS[1], 'factor', tostring(math.max(tonumber(ARGV[1]), factor / 2)), 'paused_until', tostring(math.max(paused, tonumber(ARGV[2]))))
+redis.call('PEXPIRE', KEYS[1], ARGV[3])
+return 1
+`;
+
+// Limits from the RATE_LIMIT_* variables, overridden by an AI_PROVIDERS entry's own
+export function resolveRateLimits(providerConfig?: ProviderConfig): RateLimits {
+  return {
+    requestsPerMinute: providerConfig?.requestsPerMinute ?? config.rateLimitRequestsPerMinute,
+    tokensPerMinute: providerConfig?.tokensPerMinute ?? config.rateLimitTokensPerMinute,
+    burst: Math.max(1, config.rateLimitBurst),
+  };
+}
+
+export const NO_RATE_LIMITS: RateLimits = { requestsPerMinute: 0, tokensPerMinute: 0, burst: 1 };
+
+function isLimited(limits: RateLimits): boolean {
+  return limits.requestsPerMinute > 0 || limits.tokensPerMinute > 0;
+}
+
+function minuteWindow(time: number): number {
+  return Math.floor(time / 60000);
+}
+
+/**
+ * Token buckets for outbound AI requests, one per provider, kept in Redis so every
+ * worker process draws from the same budget. Each request takes one request token
+ * and its estimated prompt and completion tokens; unused tokens are returned once
+ * the response reports real usage. Redis errors let requests through rather than
+ * stalling every job.
+ */
+class AIRateLimiter {
+  private bucketKey(providerId: string): string {
+    return `${KEY_PREFIX}${providerId}`;
+  }
+
+  private usageKey(providerId: string, window: number): string {
+    return `${KEY_PREFIX}${providerId}:used:${window}`;
+  }
+
+  // Wait until the provider's buckets allow a request of `tokens`, and return the tokens reserved
+  async acquire(providerId: string, limits: RateLimits, tokens: number): Promise<number> {
+    if (!isLimited(limits)) {
+      return 0;
+    }
+
+    // A request larger than the whole bucket would otherwise wait forever
+    const reserved = limits.tokensPerMinute > 0 ? Math.min(tokens, limits.tokensPerMinute) : 0;
+
+    try {
+      for (;;) {
+        const wait = Number(await redis.eval(
+          ACQUIRE_SCRIPT,
+          1,
+          this.bucketKey(providerId),
+          Date.now(),
+          limits.requestsPerMinute,
+          limits.burst,
+          limits.tokensPerMinute,
+          reserved,
+          BUCKET_TTL_MS
+        ));
+        if (wait <= 0) {
+          return reserved;
+        }
+        await new Promise(resolve => setTimeout(resolve, Math.min(wait, MAX_WAIT_STEP_MS)));
+      }
+    } catch (error) {
+      logger.warn(`Rate limiter unavailable for ${providerId}, sending the request anyway:`, error);
+      return 0;
+    }
+  }
+
+  // Return reserved tokens the request didn't use and record what it did use
+  async settle(providerId: string, limits: RateLimits, reserved: number, used: number, succeeded: boolean): Promise<void> {
+    if (!isLimited(limits)) {
+      return;
+    }
+
+    try {
+      await redis.eval(
+        SETTLE_SCRIPT,
+        2,
+        this.bucketKey(providerId),
+        this.usageKey(providerId, minuteWindow(Date.now())),
+        limits.tokensPerMinute > 0 ? reserved - used : 0,
+        succeeded ? '1' : '0',
+        THROTTLE_RECOVERY_STEP,
+        Math.round(used)
+      );
+    } catch (error) {
+      logger.warn(`Failed to settle rate limit usage for ${providerId}:`, error);
+    }
+  }
+
+  // After a 429, hold the provider's requests for Retry-After (or RETRY_DELAY) and halve its rates
+  async slowDown(providerId: string, limits: RateLimits, retryAfterMs?: number): Promise<void> {
+    if (!isLimited(limits)) {
+      return;
+    }
+
+    const pauseMs = retryAfterMs ?? config.retryDelay;
+    try {
+      await redis.eval(
+        SLOW_DOWN_SCRIPT,
+        1,
+        this.bucketKey(providerId),
+        MIN_THROTTLE_FACTOR,
+        Date.now() + pauseMs,
+        BUCKET_TTL_MS
+      );
+      logger.warn(`${providerId} is rate limiting requests, pausing for ${pauseMs}ms and slowing down`);
+    } catch (error) {
+      logger.warn(`Failed to slow down rate limit for ${providerId}:`, error);
+    }
+  }
+
+  async getStatus(providerId: string, limits: RateLimits): Promise<RateLimitStatus> {
+    const now = Date.now();
+    const window = minuteWindow(now);
+    const [bucket, current, previous] = await Promise.all([
+      redis.hgetall(this.bucketKey(providerId)),
+      redis.hgetall(this.usageKey(providerId, window)),
+      redis.hgetall(this.usageKey(providerId, window - 1)),
+    ]);
+
+    // The previous minute counts for the part of it still inside the last 60 seconds
+    const previousWeight = 1 - (now % 60000) / 60000;
+    const usedRequests = Math.round(Number(current.requests || 0) + Number(previous.requests || 0) * previousWeight);
+    const usedTokens = Math.round(Number(current.tokens || 0) + Number(previous.tokens || 0) * previousWeight);
+
+    const factor = bucket.factor !== undefined ? Number(bucket.factor) : 1;
+    const elapsed = bucket.updated_at !== undefined ? Math.max(0, now - Number(bucket.updated_at)) : 0;
+    const refill = (stored: string | undefined, capacity: number, perMinute: number) =>
+      Math.floor(Math.min(capacity, (stored !== undefined ? Number(stored) : capacity) + elapsed * perMinute * factor / 60000));
+    const pausedUntil = Number(bucket.paused_until || 0);
+
+    return {
+      provider: providerId,
+      ...limits,
+      availableRequests: limits.requestsPerMinute > 0 ? refill(bucket.requests, limits.burst, limits.requestsPerMinute) : null,
+      availableTokens: limits.tokensPerMinute > 0 ? refill(bucket.tokens, limits.tokensPerMinute, limits.tokensPerMinute) : null,
+      usedRequests,
+      usedTokens,
+      requestUtilisation: limits.requestsPerMinute > 0 ? usedRequests / limits.requestsPerMinute : null,
+      tokenUtilisation: limits.tokensPerMinute > 0 ? usedTokens / limits.tokensPerMinute : null,
+      throttleFactor: factor,
+      pausedUntil: pausedUntil > now ? new Date(pausedUntil).toISOString() : null,
+    };
+  }
+}
+
+export const aiRateLimiter = new AIRateLimiter();
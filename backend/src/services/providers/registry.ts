@@ -0,0 +1,231 @@
+import { config } from '../../config';
+import { logger } from '../../utils/logger';
+import { OpenAIService } from '../openaiService';
+import { HuggingFaceService } from '../huggingFaceService';
+import { OpenAICompatibleProvider } from './openaiCompatibleProvider';
+import { OllamaProvider } from './ollamaProvider';
+import { AnthropicProvider } from './anthropicProvider';
+import { CircuitBreaker } from './circuitBreaker';
+import { aiRateLimiter, RateLimitStatus } from './rateLimiter';
+import { AIProvider, ProviderConfig, ProviderHealth, ProviderSummary } from './types';
+
+type ProviderFactory = () => AIProvider;
+
+const ADAPTERS: Record<ProviderConfig['type'], (providerConfig: ProviderConfig) => AIProvider> = {
+  'openai': providerConfig => new OpenAIService(providerConfig),
+  'openai-compatible': providerConfig => new OpenAICompatibleProvider(providerConfig),
+  'ollama': providerConfig => new OllamaProvider(providerConfig),
+  'anthropic': providerConfig => new AnthropicProvider(providerConfig),
+};
+
+// The two original services, always available under their own ids
+const BUILT_IN_PROVIDERS: Record<string, ProviderFactory> = {
+  openai: () => new OpenAIService(),
+  huggingface: () => new HuggingFaceService(),
+};
+
+function isProviderConfig(value: unknown): value is ProviderConfig {
+  const entry = value as ProviderConfig;
+  return !!entry
+    && typeof entry.id === 'string' && entry.id.length > 0
+    && typeof entry.model === 'string' && entry.model.length > 0
+    && Object.prototype.hasOwnProperty.call(ADAPTERS, entry.type);
+}
+
+/**
+ * AI_PROVIDERS is a JSON array of provider entries, e.g.
+ * `[{ "id": "local", "type": "ollama", "model": "llama3.1" }]`. Invalid entries are ignored.
+ */
+export function parseProviderConfigs(raw: string = config.aiProviders): ProviderConfig[] {
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    const entries = JSON.parse(raw);
+    if (!Array.isArray(entries)) {
+      logger.warn('AI_PROVIDERS must be a JSON array, ignoring it');
+      return [];
+    }
+
+    return entries.filter((entry, index) => {
+      if (!isProviderConfig(entry)) {
+        logger.warn(`Ignoring invalid AI_PROVIDERS entry at index ${index}`);
+        return false;
+      }
+      if (BUILT_IN_PROVIDERS[entry.id]) {
+        logger.warn(`Ignoring AI_PROVIDERS entry '${entry.id}': the id is reserved for the built-in provider`);
+        return false;
+      }
+      return true;
+    });
+  } catch (error) {
+    logger.warn('AI_PROVIDERS is not valid JSON, ignoring it:', error);
+    return [];
+  }
+}
+
+/**
+ * Without AI_PROVIDER, prefer a built-in service with a real API key over one
+ * in dummy mode, as the original service factory did.
+ */
+function detectDefaultProvider(): string {
+  const openaiDummyMode = process.env.OPENAI_DUMMY_MODE === 'true';
+  const huggingfaceDummyMode = process.env.HUGGINGFACE_DUMMY_MODE === 'true';
+
+  if (process.env.OPENAI_API_KEY && !openaiDummyMode) {
+    return 'openai';
+  }
+  if (process.env.HUGGINGFACE_API_KEY && !huggingfaceDummyMode) {
+    return 'huggingface';
+  }
+  if (process.env.OPENAI_API_KEY || openaiDummyMode) {
+    return 'openai';
+  }
+  return 'huggingface';
+}
+
+/**
+ * Every AI provider the server can generate with, by id. Configuration is read
+ * once; providers are created on first use and reused after that.
+ */
+class ProviderRegistry {
+  private factories = new Map<string, ProviderFactory>();
+  private instances = new Map<string, AIProvider>();
+  // Kept across reloads so a refresh doesn't hide a provider that keeps failing
+  private breakers = new Map<string, CircuitBreaker>();
+  private fallbackChain: string[] = [];
+  private defaultId: string | null = null;
+  private loaded = false;
+
+  private load(): void {
+    if (this.loaded) {
+      return;
+    }
+
+    this.factories.clear();
+    this.instances.clear();
+
+    for (const [id, factory] of Object.entries(BUILT_IN_PROVIDERS)) {
+      this.factories.set(id, factory);
+    }
+    for (const providerConfig of parseProviderConfigs()) {
+      this.factories.set(providerConfig.id, () => ADAPTERS[providerConfig.type](providerConfig));
+    }
+
+    const configured = config.aiProvider;
+    if (configured && !this.factories.has(configured)) {
+      logger.warn(`AI_PROVIDER '${configured}' is not a registered provider, auto-detecting instead`);
+    }
+    this.defaultId = configured && this.factories.has(configured) ? configured : detectDefaultProvider();
+
+    this.fallbackChain = config.aiFallbackChain.filter(id => {
+      if (!this.factories.has(id)) {
+        logger.warn(`Ignoring AI_FALLBACK_CHAIN entry '${id}': not a registered provider`);
+        return false;
+      }
+      return true;
+    });
+    this.loaded = true;
+
+    logger.info(`🤖 AI providers: ${Array.from(this.factories.keys()).join(', ')} (default: ${this.defaultId})`);
+    if (this.fallbackChain.length > 0) {
+      logger.info(`🤖 AI fallback chain: ${this.fallbackChain.join(' → ')}`);
+    }
+  }
+
+  has(id: string): boolean {
+    this.load();
+    return this.factories.has(id);
+  }
+
+  getDefaultId(): string {
+    this.load();
+    return this.defaultId!;
+  }
+
+  // The provider with the given id, or the default one when no id is given
+  get(id?: string | null): AIProvider {
+    this.load();
+    const providerId = id || this.defaultId!;
+
+    let provider = this.instances.get(providerId);
+    if (!provider) {
+      const factory = this.factories.get(providerId);
+      if (!factory) {
+        throw new Error(`Unknown AI provider: ${providerId}`);
+      }
+      provider = factory();
+      this.instances.set(providerId, provider);
+    }
+
+    return provider;
+  }
+
+  // The job's provider (or the default) followed by the configured fallbacks, without repeats
+  getChain(primaryId?: string | null): string[] {
+    this.load();
+    const primary = primaryId || this.defaultId!;
+    return [primary, ...this.fallbackChain.filter(id => id !== primary)];
+  }
+
+  getCircuitBreaker(id: string): CircuitBreaker {
+    let breaker = this.breakers.get(id);
+    if (!breaker) {
+      breaker = new CircuitBreaker();
+      this.breakers.set(id, breaker);
+    }
+    return breaker;
+  }
+
+  list(): ProviderSummary[] {
+    this.load();
+    return Array.from(this.factories.keys()).map(id => {
+      const provider = this.get(id);
+      return {
+        id,
+        type: provider.type,
+        model: provider.getModel(),
+        capabilities: provider.capabilities,
+        isDefault: id === this.defaultId,
+        circuit: this.getCircuitBreaker(id).getStatus(),
+      };
+    });
+  }
+
+  // Keeps the fields of the original service status alongside the registered providers
+  getStatus() {
+    this.load();
+    return {
+      currentType: this.defaultId!,
+      configuredType: config.aiProvider || null,
+      openaiAvailable: !!process.env.OPENAI_API_KEY,
+      huggingfaceAvailable: !!process.env.HUGGINGFACE_API_KEY,
+      openaiDummyMode: process.env.OPENAI_DUMMY_MODE === 'true',
+      huggingfaceDummyMode: process.env.HUGGINGFACE_DUMMY_MODE === 'true',
+      dummyResponsesAllowed: config.allowDummyResponses,
+      fallbackChain: this.fallbackChain,
+      providers: this.list(),
+    };
+  }
+
+  // Current usage of every provider's outbound rate limits
+  async getRateLimitStatus(): Promise<RateLimitStatus[]> {
+    this.load();
+    return Promise.all(Array.from(this.factories.keys()).map(id =>
+      aiRateLimiter.getStatus(id, this.get(id).getRateLimits())
+    ));
+  }
+
+  async healthCheck(id: string): Promise<ProviderHealth> {
+    return this.get(id).healthCheck();
+  }
+
+  // Drop the created providers so they pick up dummy mode or key changes when next used
+  reload(): void {
+    this.loaded = false;
+    this.load();
+  }
+}
+
+export const providerRegistry = new ProviderRegistry();
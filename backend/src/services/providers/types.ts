@@ -0,0 +1,135 @@
+import { ContentType, GenerationResult, PromptTemplate } from '../../types';
+import { CircuitStatus } from './circuitBreaker';
+import { RateLimits } from './rateLimiter';
+
+export type ProviderType = 'openai' | 'huggingface' | 'openai-compatible' | 'ollama' | 'anthropic';
+
+export interface ProviderCapabilities {
+  // Whether the system prompt is sent as its own message; otherwise only the user prompt is used
+  systemPrompt: boolean;
+  // Whether responses include token usage; otherwise it is estimated from the text
+  reportsUsage: boolean;
+  // Whether countTokens uses the model's own tokenizer rather than an approximation
+  exactTokenCounts: boolean;
+  // Whether jobs can be run through the provider's asynchronous batch API
+  batch: boolean;
+}
+
+export interface ProviderHealth {
+  ok: boolean;
+  model: string;
+  latencyMs: number;
+  error?: string;
+}
+
+// An already rendered prompt, with the row it was rendered for
+export interface GenerationRequest {
+  prompt: PromptTemplate;
+  url: string;
+  contentType: ContentType;
+}
+
+export interface AIProvider {
+  readonly id: string;
+  readonly type: ProviderType;
+  readonly capabilities: ProviderCapabilities;
+  // Model openers are generated with, used to tokenize and price requests
+  getModel(): string;
+  generate(request: GenerationRequest): Promise<GenerationResult>;
+  countTokens(text: string): number;
+  // Outbound limits shared by every worker sending requests to this provider
+  getRateLimits(): RateLimits;
+  healthCheck(): Promise<ProviderHealth>;
+  generateOpenerWithRetry(
+    url: string,
+    contentType: ContentType,
+    maxRetries?: number,
+    template?: PromptTemplate,
+    rowData?: Record<string, string>
+  ): Promise<GenerationResult>;
+}
+
+// One row of a batch, identified in the results by customId
+export interface BatchItem {
+  customId: string;
+  url: string;
+  contentType: ContentType;
+  template?: PromptTemplate;
+  rowData?: Record<string, string>;
+}
+
+export type BatchStatus =
+  | 'validating'
+  | 'in_progress'
+  | 'finalizing'
+  | 'completed'
+  | 'failed'
+  | 'expired'
+  | 'cancelling'
+  | 'cancelled';
+
+export interface BatchState {
+  id: string;
+  status: BatchStatus;
+  inputFileId: string;
+  outputFileId: string | null;
+  errorFileId: string | null;
+  requestCounts: { total: number; completed: number; failed: number };
+  error: string | null;
+}
+
+// Either the opener or the reason the row failed
+export interface BatchResultItem {
+  customId: string;
+  result?: GenerationResult;
+  error?: string;
+}
+
+export interface BatchCapableProvider extends AIProvider {
+  submitBatch(items: BatchItem[], metadata?: Record<string, string>): Promise<BatchState>;
+  getBatch(batchId: string): Promise<BatchState>;
+  // Results from the output and error files; only complete once the batch has ended
+  getBatchResults(batch: BatchState): Promise<BatchResultItem[]>;
+  cancelBatch(batchId: string): Promise<void>;
+}
+
+export function supportsBatch(provider: AIProvider): provider is BatchCapableProvider {
+  return provider.capabilities.batch && typeof (provider as BatchCapableProvider).submitBatch === 'function';
+}
+
+// Batches that won't change any more and can have their results ingested
+export function isBatchFinished(status: BatchStatus): boolean {
+  return status === 'completed' || status === 'failed' || status === 'expired' || status === 'cancelled';
+}
+
+/**
+ * One entry of AI_PROVIDERS. `apiKeyEnv` names an environment variable to read
+ * the key from, so keys don't have to be written into the JSON.
+ */
+export interface ProviderConfig {
+  id: string;
+  type: 'openai' | 'openai-compatible' | 'ollama' | 'anthropic';
+  model: string;
+  baseUrl?: string;
+  apiKey?: string;
+  apiKeyEnv?: string;
+  temperature?: number;
+  maxTokens?: number;
+  timeoutMs?: number;
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+export interface ProviderSummary {
+  id: string;
+  type: ProviderType;
+  model: string;
+  capabilities: ProviderCapabilities;
+  isDefault: boolean;
+  circuit: CircuitStatus;
+}
+
+// An opener along with the provider that actually produced it
+export interface ProviderGeneration extends GenerationResult {
+  provider: string;
+}
@@ -2,10 +2,18 @@ import { Queue, Worker, Job } from 'bullmq';
 import { redis } from './redis';
 import { config } from '../config';
 import { logger } from '../utils/logger';
-import { database } from './database';
-import { AIServiceFactory } from './aiServiceFactory';
-import { progressEmitter } from './progressEmitter';
+import { database, toJobUsage, processableRows, JobRecord, NewUrlVariant, RecordedUsage, StopReason, UrlUsage } from './database';
+import { findExceededBudget, describeExceededBudget, ExceededBudget } from './budgets';
+import { providerRegistry } from './providers/registry';
+import { generateWithFallback } from './providers/fallback';
+import { progressEmitter, toProgressCost } from './progressEmitter';
 import { v4 as uuidv4 } from 'uuid';
+import { prepareRowPrompt, RowRegeneration } from './rowPrompt';
+import { checkOpener, describeQualityIssues, getQualitySettings, OpenerContext, QualityIssue } from './openerQuality';
+import { cacheOpener, getCachedOpener, isCacheable, rowCacheKey } from './openerCache';
+import { calculateCost } from '../utils/pricing';
+import { getPromptTemplate } from '../utils/prompts';
+import { ContentType, PromptTemplate } from '../types';
 
 export interface ChunkJobData {
   jobId: string;
@@ -13,10 +21,29 @@ export interface ChunkJobData {
   urls: Array<{
     id: string;
     url: string;
+    // Source row, used to fill {{column}} template variables
+    originalData?: Record<string, string>;
+    // Opener being replaced, when the row is regenerated
+    previousOpener?: string;
   }>;
   contentType: 'company' | 'person' | 'news';
+  // Prompt of the template version recorded on the job, when one was selected
+  prompt?: PromptTemplate;
+  // Set for chunks of rows being regenerated, with the instruction to steer them by
+  regeneration?: { instruction: string | null };
 }
 
+export interface ChunkQueueOptions {
+  chunkSize?: number;
+  // BullMQ priority, lower numbers are picked up first
+  priority?: number;
+  regeneration?: ChunkJobData['regeneration'];
+}
+
+// Regenerated rows are waited on by someone looking at them, so they go ahead of whole jobs
+const CHUNK_PRIORITY = 10;
+export const REGENERATION_PRIORITY = 1;
+
 // Create the main CSV processing queue
 export const csvProcessingQueue = new Queue('csv-processing', {
   connection: redis,
@@ -35,7 +62,7 @@ export const csvProcessingQueue = new Queue('csv-processing', {
 export const csvProcessingWorker = new Worker(
   'csv-processing',
   async (job: Job<ChunkJobData>) => {
-    const { jobId, chunk, urls, contentType } = job.data;
+    const { jobId, chunk, urls, contentType, prompt, regeneration } = job.data;
     
     // Defensive check for malformed job data
     if (!jobId || !chunk || !urls || !Array.isArray(urls) || !contentType) {
@@ -64,9 +91,10 @@ export const csvProcessingWorker = new Worker(
     
     logger.info(`Processing chunk ${chunk} for job ${jobId} with ${urls.length} URLs`);
     
-    const aiService = AIServiceFactory.getService();
     let processedCount = 0;
     let failedCount = 0;
+    // Resolved with the first row, for jobs generating several openers per row
+    let variantPrompts: Array<PromptTemplate | undefined> | null = null;
 
     for (const urlRecord of urls) {
       try {
@@ -90,28 +118,55 @@ export const csvProcessingWorker = new Worker(
           break;
         }
 
-        // Update URL status to processing
-        await database.updateUrlStatus(urlRecord.id, 'processing');
+        // Regenerations are asked for a different opener, so they never come from the cache
+        const cacheKey = regeneration ? null : rowCacheKey(jobRecord, urlRecord.url, urlRecord.originalData, prompt);
+        const cached = cacheKey ? await getCachedOpener(cacheKey) : null;
+        let recorded: RecordedUsage | null = null;
+
+        if (cached) {
+          await database.completeUrlFromCache(urlRecord.id, cached);
+          logger.debug(`Reused cached opener for ${urlRecord.url}`);
+          progressEmitter.emitUrlCompleted(jobId, { id: urlRecord.id, url: urlRecord.url, opener: cached.opener });
+        } else {
+          // Update URL status to processing
+          await database.updateUrlStatus(urlRecord.id, 'processing');
+
+          const rowRegeneration: RowRegeneration | undefined = regeneration
+            ? { instruction: regeneration.instruction, previousOpener: urlRecord.previousOpener }
+            : undefined;
+
+          let result: RowOpener;
+          if (jobRecord.variant_count > 1) {
+            variantPrompts = variantPrompts || await getVariantPrompts(jobRecord, prompt);
+            result = await generateVariants(jobRecord, urlRecord, contentType, variantPrompts, rowRegeneration);
+          } else {
+            result = await generateOpener(jobRecord, urlRecord, contentType, prompt, rowRegeneration);
+          }
 
-        // Generate opener with retry logic
-        const result = await aiService.generateOpenerWithRetry(
-          urlRecord.url,
-          contentType,
-          config.maxRetries
-        );
+          // Update URL with success
+          logger.debug(`Updating URL ${urlRecord.id} to completed status`);
+          await database.updateUrlStatus(
+            urlRecord.id,
+            'completed',
+            result.opener,
+            undefined,
+            0
+          );
+          if (result.quality) {
+            await database.recordUrlQuality(urlRecord.id, result.quality.issues, result.quality.regenerations);
+          }
+          recorded = await database.recordUrlUsage(jobId, urlRecord.id, result.usage);
+          logger.debug(`Successfully updated URL ${urlRecord.id} in database`);
+          progressEmitter.emitUrlCompleted(jobId, { id: urlRecord.id, url: urlRecord.url, opener: result.opener });
 
-        // Update URL with success
-        logger.debug(`Updating URL ${urlRecord.id} to completed status`);
-        await database.updateUrlStatus(
-          urlRecord.id,
-          'completed',
-          result, // HuggingFaceService returns string directly
-          undefined,
-          0
-        );
-        logger.debug(`Successfully updated URL ${urlRecord.id} in database`);
+          if (cacheKey && isCacheable(jobRecord, result.usage, result.quality?.issues ?? null)) {
+            await cacheOpener(cacheKey, { opener: result.opener, model: result.usage.model, provider: result.usage.provider });
+          }
+        }
 
-        processedCount++;
+        // Rows repeating this one get the same opener without a generation of their own
+        const duplicates = await database.fanOutDuplicates(jobId, [urlRecord.id]);
+        processedCount += 1 + duplicates.completed;
         logger.debug(`Successfully processed URL: ${urlRecord.url}`);
 
         // Emit real-time progress update after each URL is processed
@@ -122,10 +177,19 @@ export const csvProcessingWorker = new Worker(
             currentProgress.processed,
             currentProgress.failed,
             currentProgress.pending,
-            urlRecord.url
+            urlRecord.url,
+            recorded ? toProgressCost(recorded.job) : undefined
           );
         }
 
+        // Stop the whole job once it, or today's spend across all jobs, reaches its cap
+        const exceeded = recorded ? await findExceededBudget(jobRecord, recorded.job.cost, recorded.dayCost) : null;
+        if (exceeded) {
+          logger.warn(`Stopping job ${jobId}: ${describeExceededBudget(exceeded)}`);
+          await stopJob(jobId, 'budget_exceeded', exceeded);
+          break;
+        }
+
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         
@@ -137,8 +201,9 @@ export const csvProcessingWorker = new Worker(
           errorMessage,
           1 // retry_count
         );
+        const duplicates = await database.fanOutDuplicates(jobId, [urlRecord.id]);
 
-        failedCount++;
+        failedCount += 1 + duplicates.failed;
         logger.error(`Failed to process URL ${urlRecord.url}:`, errorMessage);
 
         // Emit real-time progress update after each failed URL
@@ -183,9 +248,14 @@ export const csvProcessingWorker = new Worker(
       // No need to emit here as it would be duplicate
 
       // Check if job is complete
-      if (newProcessedRows + newFailedRows >= jobRecord.total_rows) {
+      if (newProcessedRows + newFailedRows >= processableRows(jobRecord)) {
         await database.updateJobStatus(jobId, 'completed');
-        progressEmitter.emitJobComplete(jobId, newProcessedRows, newFailedRows);
+        progressEmitter.emitJobComplete(
+          jobId,
+          newProcessedRows,
+          newFailedRows,
+          toProgressCost(toJobUsage(jobRecord))
+        );
         logger.info(`Job ${jobId} completed successfully`);
         
         // Automatically clean up completed job chunks
@@ -212,6 +282,176 @@ export const csvProcessingWorker = new Worker(
   }
 );
 
+interface RowQuality {
+  issues: QualityIssue[];
+  // Times the opener was generated again because it broke a rule
+  regenerations: number;
+}
+
+interface RowOpener {
+  opener: string;
+  usage: UrlUsage;
+  // null when quality checks are turned off
+  quality: RowQuality | null;
+}
+
+interface GeneratedOpener {
+  opener: string;
+  usage: UrlUsage;
+  context: OpenerContext;
+}
+
+function addUsage(total: UrlUsage, usage: UrlUsage): UrlUsage {
+  return {
+    model: usage.model,
+    provider: usage.provider,
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    cost: total.cost + usage.cost,
+  };
+}
+
+/**
+ * Generate a row's opener and check it against the quality rules. With
+ * QUALITY_ACTION=regenerate, an opener that breaks a rule is generated again
+ * with the problems as the instruction, up to QUALITY_MAX_REGENERATIONS times;
+ * whatever still breaks a rule is left for review.
+ */
+async function generateOpener(
+  job: JobRecord,
+  urlRecord: ChunkJobData['urls'][number],
+  contentType: ContentType,
+  prompt?: PromptTemplate,
+  regeneration?: RowRegeneration
+): Promise<RowOpener> {
+  const settings = getQualitySettings();
+  let result = await generateOnce(job, urlRecord, contentType, prompt, regeneration);
+  if (!settings.enabled) {
+    return { opener: result.opener, usage: result.usage, quality: null };
+  }
+
+  let usage = result.usage;
+  let issues = checkOpener(result.opener, result.context, settings);
+  let regenerations = 0;
+
+  while (issues.length > 0 && settings.action === 'regenerate' && regenerations < settings.maxRegenerations) {
+    regenerations++;
+    logger.info(`Regenerating opener for ${urlRecord.url} after quality checks: ${issues.map(issue => issue.rule).join(', ')}`);
+
+    const fix = describeQualityIssues(issues);
+    result = await generateOnce(job, urlRecord, contentType, prompt, {
+      instruction: regeneration?.instruction ? `${regeneration.instruction}. ${fix}` : fix,
+      previousOpener: result.opener,
+    });
+    usage = addUsage(usage, result.usage);
+    issues = checkOpener(result.opener, result.context, settings);
+  }
+
+  return { opener: result.opener, usage, quality: { issues, regenerations } };
+}
+
+// Generate with the job's provider, then any configured fallbacks, each with its own retries
+async function generateOnce(
+  job: JobRecord,
+  urlRecord: ChunkJobData['urls'][number],
+  contentType: ContentType,
+  prompt?: PromptTemplate,
+  regeneration?: RowRegeneration
+): Promise<GeneratedOpener> {
+  const { prompt: rowPrompt, rowData } = await prepareRowPrompt(
+    job,
+    urlRecord.url,
+    urlRecord.originalData,
+    contentType,
+    prompt,
+    regeneration
+  );
+
+  const result = await generateWithFallback(
+    providerRegistry.getChain(job.provider_id),
+    urlRecord.url,
+    contentType,
+    config.maxRetries,
+    rowPrompt,
+    rowData
+  );
+
+  return {
+    opener: result.opener,
+    usage: {
+      model: result.model,
+      provider: result.provider,
+      promptTokens: result.usage.promptTokens,
+      completionTokens: result.usage.completionTokens,
+      cost: calculateCost(result.model, result.usage),
+    },
+    context: {
+      url: urlRecord.url,
+      rowData,
+      prompt: rowPrompt || getPromptTemplate(contentType),
+    },
+  };
+}
+
+/**
+ * Generate every variant of a row and store them. The row succeeds when at least
+ * one variant does, with the first successful variant as its opener and the
+ * usage of all of them; otherwise it fails with the first variant's error.
+ */
+async function generateVariants(
+  job: JobRecord,
+  urlRecord: ChunkJobData['urls'][number],
+  contentType: ContentType,
+  prompts: Array<PromptTemplate | undefined>,
+  regeneration?: RowRegeneration
+): Promise<RowOpener> {
+  const variants: NewUrlVariant[] = [];
+  const qualities: Array<RowQuality | null> = [];
+
+  for (let index = 0; index < prompts.length; index++) {
+    const templateVersionId = job.variant_template_version_ids?.[index] || job.template_version_id;
+    try {
+      const result = await generateOpener(job, urlRecord, contentType, prompts[index], regeneration);
+      variants.push({
+        variantIndex: index + 1,
+        templateVersionId,
+        opener: result.opener,
+        usage: result.usage,
+        qualityIssues: result.quality?.issues ?? null,
+      });
+      qualities.push(result.quality);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn(`Variant ${index + 1} failed for ${urlRecord.url}: ${message}`);
+      variants.push({ variantIndex: index + 1, templateVersionId, error: message });
+    }
+  }
+
+  await database.saveUrlVariants(job.id, urlRecord.id, variants);
+
+  const generated = variants.filter(variant => variant.opener !== undefined);
+  if (generated.length === 0) {
+    throw new Error(variants[0].error);
+  }
+
+  // The row is checked as its preferred, first generated variant
+  const checked = qualities.filter((quality): quality is RowQuality => quality !== null);
+
+  return {
+    opener: generated[0].opener!,
+    usage: {
+      model: generated[0].usage!.model,
+      provider: generated[0].usage!.provider,
+      promptTokens: generated.reduce((sum, variant) => sum + variant.usage!.promptTokens, 0),
+      completionTokens: generated.reduce((sum, variant) => sum + variant.usage!.completionTokens, 0),
+      cost: generated.reduce((sum, variant) => sum + variant.usage!.cost, 0),
+    },
+    quality: checked.length > 0
+      ? { issues: checked[0].issues, regenerations: checked.reduce((sum, quality) => sum + quality.regenerations, 0) }
+      : null,
+  };
+}
+
 // Worker event handlers
 csvProcessingWorker.on('completed', (job) => {
   logger.info(`Chunk job ${job.id} completed successfully`);
@@ -220,20 +460,33 @@ csvProcessingWorker.on('completed', (job) => {
 csvProcessingWorker.on('failed', (job, err) => {
   logger.error(`Chunk job ${job?.id} failed:`, err.message);
   
-  // Update job status to failed if this was a critical failure
-  if (job?.data?.jobId) {
-    database.updateJobStatus(job.data.jobId, 'failed');
-    
-    // Automatically clean up failed job chunks after a delay
-    setTimeout(async () => {
-      try {
-        await cleanupJob(job.data.jobId);
-        logger.info(`Automatically cleaned up failed job ${job.data.jobId}`);
-      } catch (error) {
-        logger.warn(`Failed to auto-cleanup failed job ${job.data.jobId}:`, error);
-      }
-    }, 10000); // Clean up after 10 seconds
+  // A chunk that will be retried hasn't failed the job yet
+  if (!job?.data?.jobId || job.attemptsMade < (job.opts.attempts || 1)) {
+    return;
   }
+
+  const { jobId } = job.data;
+  database.failProcessingJob(jobId)
+    .then(failed => {
+      // Only the chunk that moves the job to failed reports it, not every chunk failing after it
+      if (!failed) {
+        return;
+      }
+      progressEmitter.emitJobFailed(jobId, err.message);
+
+      // Automatically clean up failed job chunks after a delay
+      setTimeout(async () => {
+        try {
+          await cleanupJob(jobId);
+          logger.info(`Automatically cleaned up failed job ${jobId}`);
+        } catch (error) {
+          logger.warn(`Failed to auto-cleanup failed job ${jobId}:`, error);
+        }
+      }, 10000); // Clean up after 10 seconds
+    })
+    .catch(error => {
+      logger.error(`Failed to mark job ${jobId} failed:`, error);
+    });
 });
 
 csvProcessingWorker.on('error', (err) => {
@@ -245,17 +498,24 @@ csvProcessingQueue.on('error', (error) => {
   logger.error('CSV processing queue error:', error);
 });
 
-// Helper function to add chunked jobs to the queue
+/**
+ * Helper function to add chunked jobs to the queue. Regeneration chunks get ids
+ * of their own, since the job's original chunks may still be kept in the queue.
+ */
 export async function addChunkedJobs(
   jobId: string,
-  urls: Array<{ id: string; url: string }>,
+  urls: ChunkJobData['urls'],
   contentType: 'company' | 'person' | 'news',
-  chunkSize: number = 500
+  prompt?: PromptTemplate,
+  options: ChunkQueueOptions = {}
 ): Promise<void> {
+  const { chunkSize = config.chunkSize, priority = CHUNK_PRIORITY, regeneration } = options;
+  const chunkIdPrefix = regeneration ? `${jobId}-regenerate-${uuidv4()}` : `${jobId}-chunk`;
+
   try {
     logger.info(`addChunkedJobs called for job ${jobId} with ${urls.length} URLs`);
     
-  const chunks: Array<{ id: string; url: string }[]> = [];
+  const chunks: Array<ChunkJobData['urls']> = [];
   
   for (let i = 0; i < urls.length; i += chunkSize) {
     chunks.push(urls.slice(i, i + chunkSize));
@@ -268,7 +528,9 @@ export async function addChunkedJobs(
       jobId,
       chunk: i + 1,
       urls: chunks[i],
-      contentType
+      contentType,
+      prompt,
+      regeneration
     };
 
       logger.info(`Adding chunk ${i + 1} with ${chunks[i].length} URLs to queue`);
@@ -277,8 +539,8 @@ export async function addChunkedJobs(
       'process-chunk',
       chunkData,
       {
-        jobId: `${jobId}-chunk-${i + 1}`,
-        priority: 1,
+        jobId: `${chunkIdPrefix}-${i + 1}`,
+        priority,
       }
     );
       
@@ -309,8 +571,43 @@ csvProcessingWorker.on('ready', () => {
   logger.info('CSV processing worker is ready and listening for jobs');
 });
 
+// Resolve the prompt of the template version recorded on a job
+export async function getJobPrompt(templateVersionId: string | null): Promise<PromptTemplate | undefined> {
+  if (!templateVersionId) {
+    return undefined;
+  }
+
+  const version = await database.getPromptTemplateVersion(templateVersionId);
+  if (!version) {
+    logger.warn(`Template version ${templateVersionId} not found, falling back to built-in prompt`);
+    return undefined;
+  }
+
+  return {
+    system: version.system_prompt,
+    user: version.user_prompt,
+  };
+}
+
+// The prompt of each of a job's variants; variants without a template of their own use the job's prompt
+export async function getVariantPrompts(
+  job: JobRecord,
+  prompt?: PromptTemplate
+): Promise<Array<PromptTemplate | undefined>> {
+  const prompts: Array<PromptTemplate | undefined> = [];
+  for (let index = 0; index < Math.max(1, job.variant_count); index++) {
+    const templateVersionId = job.variant_template_version_ids?.[index];
+    prompts.push(templateVersionId ? await getJobPrompt(templateVersionId) : prompt);
+  }
+  return prompts;
+}
+
 // Function to stop a job and all its chunks
-export async function stopJob(jobId: string): Promise<boolean> {
+export async function stopJob(
+  jobId: string,
+  reason: StopReason = 'user',
+  exceededBudget?: ExceededBudget
+): Promise<boolean> {
   try {
     // Get all jobs for this jobId
     const jobs = await csvProcessingQueue.getJobs(['waiting', 'active', 'delayed']);
@@ -353,17 +650,21 @@ export async function stopJob(jobId: string): Promise<boolean> {
       
       // Now set status to stopped
       await database.updateJobStatus(jobId, 'stopped');
+      await database.updateJobStopReason(jobId, reason);
       
       // Emit stopped status with current progress
       progressEmitter.emitJobStopped(
         jobId,
         currentProgress.processed,
         currentProgress.failed,
-        currentProgress.pending
+        currentProgress.pending,
+        reason,
+        exceededBudget
       );
     } else {
       // Fallback: just set status to stopped if we can't get progress
       await database.updateJobStatus(jobId, 'stopped');
+      await database.updateJobStopReason(jobId, reason);
     }
     
     logger.info(`Job ${jobId} stopping completed: ${removedCount} chunks removed, ${failedCount} chunks marked for stopping`);
@@ -433,7 +734,8 @@ export async function resumeJob(jobId: string): Promise<boolean> {
       logger.warn(`Force cleanup failed for job ${jobId}:`, forceCleanupError);
     }
 
-    // Get remaining URLs to process
+    // Get remaining URLs to process; duplicates follow the row they repeat
+    await database.requeueDuplicates(jobId);
     const remainingUrls = await database.getUrlsByJob(jobId);
     const pendingUrls = remainingUrls.filter(url => url.status === 'pending' || url.status === 'failed');
     const completedUrls = remainingUrls.filter(url => url.status === 'completed');
@@ -442,18 +744,26 @@ export async function resumeJob(jobId: string): Promise<boolean> {
     if (pendingUrls.length === 0) {
       logger.info(`No pending URLs to resume for job ${jobId}`);
       await database.updateJobStatus(jobId, 'completed');
+      await database.updateJobStopReason(jobId, null);
       return true;
     }
 
     // Update job status to processing and fix the progress counts
     await database.updateJobStatus(jobId, 'processing');
+    await database.updateJobStopReason(jobId, null);
     
     // Update the processed and failed counts to reflect current state
     await database.updateJobProgress(jobId, completedUrls.length, failedUrls.length);
 
     // Add new chunks to the queue
     logger.info(`About to call addChunkedJobs for job ${jobId} with ${pendingUrls.length} pending URLs`);
-    await addChunkedJobs(jobId, pendingUrls, job.content_type);
+    const prompt = await getJobPrompt(job.template_version_id);
+    const pendingRecords = pendingUrls.filter(url => !url.duplicate_of).map(url => ({
+      id: url.id,
+      url: url.url,
+      originalData: url.original_data || undefined
+    }));
+    await addChunkedJobs(jobId, pendingRecords, job.content_type, prompt);
     logger.info(`addChunkedJobs completed for job ${jobId}`);
 
     // Check if chunks were actually added to the queue
@@ -0,0 +1,76 @@
+import { logger } from '../utils/logger';
+import { applyColumnMapping } from '../utils/columnMapping';
+import {
+  getPromptTemplate,
+  pageContentVariables,
+  regenerationVariables,
+  withPageContext,
+  withRegenerationInstruction,
+} from '../utils/prompts';
+import { ContentType, PromptTemplate } from '../types';
+import { JobRecord } from './database';
+import { pageFetcher } from './pageFetcher';
+
+export interface RowPrompt {
+  prompt?: PromptTemplate;
+  rowData: Record<string, string>;
+}
+
+// A row being generated again, optionally steered by a free-text instruction
+export interface RowRegeneration {
+  instruction: string | null;
+  previousOpener?: string;
+}
+
+/**
+ * The prompt and template variables for one row of a job. Template variables see
+ * the mapped {{name}}/{{company}} columns, and with page enrichment the fetched
+ * page is added so the opener can reference what's actually on it.
+ */
+export async function prepareRowPrompt(
+  job: JobRecord,
+  url: string,
+  originalData: Record<string, string> | undefined,
+  contentType: ContentType,
+  prompt?: PromptTemplate,
+  regeneration?: RowRegeneration
+): Promise<RowPrompt> {
+  const row = await prepareSourcePrompt(job, url, originalData, contentType, prompt);
+  if (!regeneration) {
+    return row;
+  }
+
+  return {
+    prompt: withRegenerationInstruction(
+      row.prompt || getPromptTemplate(contentType),
+      regeneration.instruction,
+      regeneration.previousOpener
+    ),
+    rowData: { ...row.rowData, ...regenerationVariables(regeneration.instruction, regeneration.previousOpener) },
+  };
+}
+
+async function prepareSourcePrompt(
+  job: JobRecord,
+  url: string,
+  originalData: Record<string, string> | undefined,
+  contentType: ContentType,
+  prompt?: PromptTemplate
+): Promise<RowPrompt> {
+  const rowData = applyColumnMapping(originalData, job.column_mapping);
+
+  if (!job.enrich_pages) {
+    return { prompt, rowData };
+  }
+
+  const page = await pageFetcher.fetchPage(url);
+  if (page.status !== 'ok') {
+    logger.debug(`Generating without page context for ${url}: ${page.reason}`);
+    return { prompt, rowData };
+  }
+
+  return {
+    prompt: withPageContext(prompt || getPromptTemplate(contentType), page.content),
+    rowData: { ...rowData, ...pageContentVariables(page.content) },
+  };
+}
@@ -0,0 +1,213 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { database, UploadSessionPartRecord, UploadSessionRecord } from './database';
+
+export class UploadSessionError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'UploadSessionError';
+    this.status = status;
+  }
+}
+
+// What a client needs to resume: which parts the server already has, and their checksums
+export interface UploadSessionSummary {
+  sessionId: string;
+  fileName: string;
+  fileSize: number;
+  partSize: number;
+  partCount: number;
+  status: UploadSessionRecord['status'];
+  uploadedParts: Array<{ partNumber: number; size: number; checksum: string }>;
+  missingParts: number[];
+  jobId: string | null;
+  expiresAt: Date;
+}
+
+function sessionDir(sessionId: string): string {
+  return path.join(config.uploadDir, 'sessions', sessionId);
+}
+
+function partPath(sessionId: string, partNumber: number): string {
+  return path.join(sessionDir(sessionId), `${partNumber}.part`);
+}
+
+// Every part is part_size bytes except the last, which holds the remainder
+function expectedPartSize(session: UploadSessionRecord, partNumber: number): number {
+  return partNumber < session.part_count
+    ? session.part_size
+    : session.file_size - (session.part_count - 1) * session.part_size;
+}
+
+function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function isExpired(session: UploadSessionRecord): boolean {
+  return session.status !== 'completed' && new Date(session.expires_at).getTime() < Date.now();
+}
+
+export function summarizeUploadSession(
+  session: UploadSessionRecord,
+  parts: UploadSessionPartRecord[]
+): UploadSessionSummary {
+  const uploaded = new Set(parts.map(part => part.part_number));
+  return {
+    sessionId: session.id,
+    fileName: session.file_name,
+    fileSize: session.file_size,
+    partSize: session.part_size,
+    partCount: session.part_count,
+    status: session.status,
+    uploadedParts: parts.map(part => ({ partNumber: part.part_number, size: part.size, checksum: part.checksum })),
+    missingParts: Array.from({ length: session.part_count }, (_, index) => index + 1)
+      .filter(partNumber => !uploaded.has(partNumber)),
+    jobId: session.job_id,
+    expiresAt: session.expires_at,
+  };
+}
+
+export async function createUploadSession(
+  ownerId: string,
+  fileName: string,
+  fileSize: number,
+  checksum: string | null
+): Promise<UploadSessionRecord> {
+  // Abandoned sessions are swept whenever a new one starts
+  await removeExpiredUploadSessions().catch(error => {
+    logger.warn('Failed to remove expired upload sessions:', error);
+  });
+
+  const partSize = config.uploadPartSize;
+  const partCount = Math.max(1, Math.ceil(fileSize / partSize));
+  const session = await database.createUploadSession(
+    ownerId,
+    fileName,
+    fileSize,
+    partSize,
+    partCount,
+    checksum ? checksum.toLowerCase() : null,
+    config.uploadSessionTtl
+  );
+  fs.mkdirSync(sessionDir(session.id), { recursive: true });
+
+  logger.info(`Created upload session ${session.id} for ${fileName}: ${fileSize} bytes in ${partCount} parts`);
+  return session;
+}
+
+/**
+ * Store one part after checking its size and SHA-256. Parts can arrive in any
+ * order and be sent again, e.g. when a response was lost.
+ */
+export async function storeUploadPart(
+  session: UploadSessionRecord,
+  partNumber: number,
+  data: Buffer,
+  checksum: string
+): Promise<UploadSessionPartRecord> {
+  if (isExpired(session)) {
+    throw new UploadSessionError('Upload session has expired', 410);
+  }
+  if (session.status !== 'uploading') {
+    throw new UploadSessionError(`Upload session is ${session.status}`, 409);
+  }
+  if (partNumber < 1 || partNumber > session.part_count) {
+    throw new UploadSessionError(`Part number must be between 1 and ${session.part_count}`);
+  }
+
+  const expectedSize = expectedPartSize(session, partNumber);
+  if (data.length !== expectedSize) {
+    throw new UploadSessionError(`Part ${partNumber} should be ${expectedSize} bytes, got ${data.length}`);
+  }
+
+  const actualChecksum = sha256(data);
+  if (actualChecksum !== checksum.toLowerCase()) {
+    throw new UploadSessionError(`Checksum mismatch for part ${partNumber}`, 422);
+  }
+
+  // Written under a temporary name so an interrupted write never leaves a truncated part behind
+  const target = partPath(session.id, partNumber);
+  const temporary = `${target}.${uuidv4()}.tmp`;
+  fs.mkdirSync(sessionDir(session.id), { recursive: true });
+  await fs.promises.writeFile(temporary, data);
+  await fs.promises.rename(temporary, target);
+
+  await database.saveUploadSessionPart(session.id, partNumber, data.length, actualChecksum, config.uploadSessionTtl);
+  return { part_number: partNumber, size: data.length, checksum: actualChecksum, created_at: new Date() };
+}
+
+/**
+ * Join the parts into one file in the upload directory and check it against
+ * the whole-file checksum. The session goes back to uploading when parts are
+ * missing or the file doesn't match, so the client can send them again.
+ */
+export async function assembleUploadSession(sessionId: string): Promise<string> {
+  const session = await database.claimUploadSessionAssembly(sessionId);
+  if (!session) {
+    throw new UploadSessionError('Upload session is not waiting for its parts', 409);
+  }
+
+  const outputPath = path.join(config.uploadDir, `${uuidv4()}${path.extname(session.file_name)}`);
+  try {
+    const parts = await database.getUploadSessionParts(sessionId);
+    const missing = summarizeUploadSession(session, parts).missingParts;
+    if (missing.length > 0) {
+      throw new UploadSessionError(`Missing parts: ${missing.join(', ')}`);
+    }
+
+    const hash = createHash('sha256');
+    const output = await fs.promises.open(outputPath, 'w');
+    try {
+      for (const part of parts) {
+        const data = await fs.promises.readFile(partPath(sessionId, part.part_number));
+        if (data.length !== part.size) {
+          throw new UploadSessionError(`Part ${part.part_number} is incomplete on the server, please upload it again`);
+        }
+        hash.update(data);
+        await output.write(data);
+      }
+    } finally {
+      await output.close();
+    }
+
+    if (session.checksum && hash.digest('hex') !== session.checksum) {
+      throw new UploadSessionError('Checksum mismatch for the assembled file', 422);
+    }
+
+    await database.updateUploadSessionStatus(sessionId, 'assembled', outputPath);
+    await fs.promises.rm(sessionDir(sessionId), { recursive: true, force: true });
+
+    logger.info(`Assembled upload session ${sessionId} into ${outputPath}`);
+    return outputPath;
+  } catch (error) {
+    await fs.promises.rm(outputPath, { force: true });
+    await database.updateUploadSessionStatus(sessionId, 'uploading');
+    throw error;
+  }
+}
+
+export async function abortUploadSession(session: UploadSessionRecord): Promise<void> {
+  await fs.promises.rm(sessionDir(session.id), { recursive: true, force: true });
+  // An assembled file that became a job belongs to the job now
+  if (session.file_path && session.status !== 'completed') {
+    await fs.promises.rm(session.file_path, { force: true });
+  }
+  await database.deleteUploadSession(session.id);
+}
+
+export async function removeExpiredUploadSessions(): Promise<number> {
+  const sessions = await database.getExpiredUploadSessions();
+  for (const session of sessions) {
+    await abortUploadSession(session);
+  }
+  if (sessions.length > 0) {
+    logger.info(`Removed ${sessions.length} expired upload sessions`);
+  }
+  return sessions.length;
+}
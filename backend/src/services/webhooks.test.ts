@@ -0,0 +1,219 @@
+import http from 'http';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { AddressInfo } from 'net';
+import { Job } from 'bullmq';
+import { config } from '../config';
+import { database, WebhookDeliveryRecord, WebhookRecord } from './database';
+import { DeliverWebhookData, processDelivery, signWebhookPayload } from './webhooks';
+
+jest.mock('bullmq', () => ({
+  Queue: jest.fn(() => ({ on: jest.fn(), add: jest.fn() })),
+  Worker: jest.fn(() => ({ on: jest.fn() })),
+}));
+jest.mock('./redis', () => ({ redis: {} }));
+jest.mock('./progressEmitter', () => ({
+  JOB_EVENT: 'job-event',
+  progressEmitter: { on: jest.fn() },
+  toProgressCost: jest.fn(),
+}));
+jest.mock('./database', () => ({
+  database: {
+    getWebhookDelivery: jest.fn(),
+    recordWebhookAttempt: jest.fn(),
+  },
+  toJobUsage: jest.fn(),
+}));
+
+const mockedDatabase = jest.mocked(database);
+
+const SECRET = 'whsec_test';
+
+// What a receiver does with a delivery, as in scripts/webhook-receiver.js
+function verifySignature(secret: string, timestamp: string, body: string, signature: string): boolean {
+  const expected = `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+  return signature.length === expected.length && timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+}
+
+describe('signWebhookPayload', () => {
+  const body = JSON.stringify({ id: 'evt_1' });
+
+  it('is an HMAC-SHA256 of the timestamp and body', () => {
+    expect(signWebhookPayload(SECRET, 1700000000, body))
+      .toBe('c89214b5b5da833daed6f0b8c5bb6bd58cea9022bd80ccc78230f3942d632925');
+  });
+
+  it('verifies only with the same secret, timestamp and body', () => {
+    const signature = `sha256=${signWebhookPayload(SECRET, 1700000000, body)}`;
+
+    expect(verifySignature(SECRET, '1700000000', body, signature)).toBe(true);
+    expect(verifySignature('whsec_other', '1700000000', body, signature)).toBe(false);
+    expect(verifySignature(SECRET, '1700000001', body, signature)).toBe(false);
+    expect(verifySignature(SECRET, '1700000000', JSON.stringify({ id: 'evt_2' }), signature)).toBe(false);
+  });
+});
+
+interface ReceivedDelivery {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('processDelivery', () => {
+  let server: http.Server;
+  let received: ReceivedDelivery[];
+  // How the receiver answers the next delivery
+  let reply: { status: number; body: string; delayMs?: number };
+  let webhook: WebhookRecord;
+  let delivery: WebhookDeliveryRecord;
+  const originalConfig = { ...config };
+
+  function deliveryJob(attemptsMade: number, attempts = 3): Job<DeliverWebhookData> {
+    return { data: { deliveryId: delivery.id }, attemptsMade, opts: { attempts } } as unknown as Job<DeliverWebhookData>;
+  }
+
+  beforeEach(async () => {
+    received = [];
+    reply = { status: 200, body: '{"received":true}' };
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body: Buffer.concat(chunks).toString('utf-8') });
+        setTimeout(() => {
+          res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+          res.end(reply.body);
+        }, reply.delayMs || 0);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    webhook = {
+      id: 'webhook-1',
+      workspace_id: 'workspace-1',
+      url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`,
+      description: null,
+      events: ['job.completed'],
+      secret: SECRET,
+      active: true,
+      created_at: new Date(),
+      updated_at: new Date(),
+    };
+    delivery = {
+      id: 'delivery-1',
+      webhook_id: webhook.id,
+      event: 'job.completed',
+      payload: { id: 'evt_1', event: 'job.completed', data: { job: { id: 'job-1' } } },
+      status: 'pending',
+      attempts: 0,
+      response_status: null,
+      response_body: null,
+      error: null,
+      duration_ms: null,
+      delivered_at: null,
+      created_at: new Date(),
+      updated_at: new Date(),
+    };
+
+    jest.clearAllMocks();
+    mockedDatabase.getWebhookDelivery.mockResolvedValue({ webhook, delivery });
+    Object.assign(config, { webhookAllowPrivateUrls: true, webhookTimeout: 1000 });
+  });
+
+  afterEach(async () => {
+    Object.assign(config, originalConfig);
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('sends a signed delivery and records it as delivered', async () => {
+    await processDelivery(deliveryJob(1));
+
+    expect(received).toHaveLength(1);
+    const [{ headers, body }] = received;
+    expect(JSON.parse(body)).toEqual(delivery.payload);
+    expect(headers['x-webhook-id']).toBe(webhook.id);
+    expect(headers['x-webhook-event']).toBe('job.completed');
+    expect(headers['x-webhook-delivery']).toBe(delivery.id);
+    expect(verifySignature(SECRET, String(headers['x-webhook-timestamp']), body, String(headers['x-webhook-signature']))).toBe(true);
+
+    expect(mockedDatabase.recordWebhookAttempt).toHaveBeenCalledWith(delivery.id, 'delivered', expect.objectContaining({
+      attempts: 1,
+      responseStatus: 200,
+      responseBody: '{"received":true}',
+      error: null,
+    }));
+  });
+
+  it('records a failed attempt as retrying and throws so it is retried', async () => {
+    reply = { status: 500, body: 'Internal error' };
+
+    await expect(processDelivery(deliveryJob(1))).rejects.toThrow('Receiver responded with 500');
+
+    expect(mockedDatabase.recordWebhookAttempt).toHaveBeenCalledWith(delivery.id, 'retrying', expect.objectContaining({
+      attempts: 1,
+      responseStatus: 500,
+      responseBody: 'Internal error',
+      error: 'Receiver responded with 500',
+    }));
+  });
+
+  it('records the last attempt as failed', async () => {
+    reply = { status: 503, body: '' };
+
+    await expect(processDelivery(deliveryJob(3))).rejects.toThrow('Receiver responded with 503');
+
+    expect(mockedDatabase.recordWebhookAttempt).toHaveBeenCalledWith(delivery.id, 'failed', expect.objectContaining({
+      attempts: 3,
+      responseStatus: 503,
+      responseBody: null,
+    }));
+  });
+
+  it('delivers on a retry after earlier failures', async () => {
+    await processDelivery(deliveryJob(2));
+
+    expect(mockedDatabase.recordWebhookAttempt).toHaveBeenCalledWith(delivery.id, 'delivered', expect.objectContaining({ attempts: 2 }));
+  });
+
+  it('fails an attempt the receiver does not answer in time', async () => {
+    config.webhookTimeout = 100;
+    reply = { status: 200, body: '', delayMs: 1000 };
+
+    await expect(processDelivery(deliveryJob(1))).rejects.toThrow('No response within 100ms');
+
+    expect(mockedDatabase.recordWebhookAttempt).toHaveBeenCalledWith(delivery.id, 'retrying', expect.objectContaining({
+      responseStatus: null,
+      responseBody: null,
+      error: 'No response within 100ms',
+    }));
+  });
+
+  it('keeps only the start of a long response body', async () => {
+    reply = { status: 400, body: 'x'.repeat(5000) };
+
+    await expect(processDelivery(deliveryJob(1))).rejects.toThrow();
+
+    const [, , attempt] = mockedDatabase.recordWebhookAttempt.mock.calls[0];
+    expect(attempt.responseBody).toHaveLength(1000);
+  });
+
+  it('does not send to private addresses unless allowed', async () => {
+    config.webhookAllowPrivateUrls = false;
+
+    await expect(processDelivery(deliveryJob(3))).rejects.toThrow('private, loopback or link-local');
+
+    expect(received).toHaveLength(0);
+    expect(mockedDatabase.recordWebhookAttempt).toHaveBeenCalledWith(delivery.id, 'failed', expect.objectContaining({
+      responseStatus: null,
+      responseBody: null,
+    }));
+  });
+
+  it('skips deliveries whose webhook was deleted', async () => {
+    mockedDatabase.getWebhookDelivery.mockResolvedValue(null);
+
+    await processDelivery(deliveryJob(1));
+
+    expect(received).toHaveLength(0);
+    expect(mockedDatabase.recordWebhookAttempt).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,296 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { Queue, Worker, Job } from 'bullmq';
+import { fetch } from 'undici';
+import { redis } from './redis';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { assertPublicUrl, findUnsafeUrlError, publicDispatcher } from '../utils/networkGuard';
+import {
+  database,
+  toJobUsage,
+  JobRecord,
+  WebhookAttempt,
+  WebhookDeliveryRecord,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookRecord,
+} from './database';
+import { JobEvent, JOB_EVENT, progressEmitter, toProgressCost } from './progressEmitter';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['job.started', 'job.completed', 'job.failed', 'job.stopped', 'url.completed'];
+
+// Sent by the "send test event" route only; webhooks can't subscribe to it
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+const SECRET_PREFIX = 'whsec_';
+
+// Characters of the receiver's response kept in the delivery log
+const RESPONSE_BODY_LIMIT = 1000;
+
+export interface DeliverWebhookData {
+  deliveryId: string;
+}
+
+// The JSON body POSTed to a webhook
+export interface WebhookPayload {
+  // Shared by every webhook the event is sent to, so receivers can tell retries from new events
+  id: string;
+  event: string;
+  createdAt: string;
+  workspaceId: string;
+  data: Record<string, unknown>;
+}
+
+// What the API returns for a webhook; the secret is only included where a route adds it
+export interface PublicWebhook {
+  id: string;
+  url: string;
+  description: string | null;
+  events: WebhookEvent[];
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PublicWebhookDelivery {
+  id: string;
+  event: string;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export function toPublicWebhook(webhook: WebhookRecord): PublicWebhook {
+  return {
+    id: webhook.id,
+    url: webhook.url,
+    description: webhook.description,
+    events: webhook.events,
+    active: webhook.active,
+    createdAt: webhook.created_at,
+    updatedAt: webhook.updated_at,
+  };
+}
+
+export function toPublicWebhookDelivery(delivery: WebhookDeliveryRecord): PublicWebhookDelivery {
+  return {
+    id: delivery.id,
+    event: delivery.event,
+    payload: delivery.payload,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    responseStatus: delivery.response_status,
+    responseBody: delivery.response_body,
+    error: delivery.error,
+    durationMs: delivery.duration_ms,
+    deliveredAt: delivery.delivered_at,
+    createdAt: delivery.created_at,
+    updatedAt: delivery.updated_at,
+  };
+}
+
+export function generateWebhookSecret(): string {
+  return `${SECRET_PREFIX}${randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * Signature sent as `X-Webhook-Signature: sha256=<hex>`: an HMAC-SHA256, keyed
+ * with the webhook's secret, of the X-Webhook-Timestamp value, a dot and the raw
+ * body. Receivers recompute it to check the request came from us, and can reject
+ * old timestamps to stop replays.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// Failed attempts are retried with exponential backoff until WEBHOOK_MAX_ATTEMPTS are used up
+export const webhookQueue = new Queue('webhook-deliveries', {
+  connection: redis,
+  defaultJobOptions: {
+    removeOnComplete: 10,
+    removeOnFail: 50,
+    attempts: config.webhookMaxAttempts,
+    backoff: {
+      type: 'exponential',
+      delay: config.webhookRetryDelay,
+    },
+  },
+});
+
+/**
+ * Send one attempt of a delivery and record its outcome: delivered, retrying, or
+ * failed once the job's attempts are used up. Throws when the attempt failed.
+ */
+export async function processDelivery(job: Job<DeliverWebhookData>): Promise<void> {
+  const { deliveryId } = job.data;
+  const found = await database.getWebhookDelivery(deliveryId);
+  if (!found) {
+    logger.debug(`Skipping webhook delivery ${deliveryId}: the webhook was deleted`);
+    return;
+  }
+
+  // BullMQ counts the attempt being processed in attemptsMade
+  const attempts = job.attemptsMade;
+  const finalAttempt = attempts >= (job.opts.attempts || 1);
+  const attempt = await sendDelivery(found.webhook, found.delivery);
+  const delivered = attempt.error === null;
+  const status: WebhookDeliveryStatus = delivered ? 'delivered' : finalAttempt ? 'failed' : 'retrying';
+
+  await database.recordWebhookAttempt(deliveryId, status, { ...attempt, attempts });
+  if (!delivered) {
+    // Throwing hands the delivery back to BullMQ, which schedules the next attempt
+    throw new Error(attempt.error!);
+  }
+}
+
+export const webhookWorker = new Worker<DeliverWebhookData>(
+  'webhook-deliveries',
+  processDelivery,
+  {
+    connection: redis,
+    concurrency: 5,
+  }
+);
+
+webhookWorker.on('failed', (job, error) => {
+  logger.warn(`Webhook delivery ${job?.data?.deliveryId} attempt ${job?.attemptsMade} failed: ${error.message}`);
+});
+
+webhookWorker.on('error', (error) => {
+  logger.error('Webhook worker error:', error);
+});
+
+webhookQueue.on('error', (error) => {
+  logger.error('Webhook queue error:', error);
+});
+
+async function sendDelivery(
+  webhook: WebhookRecord,
+  delivery: WebhookDeliveryRecord
+): Promise<Omit<WebhookAttempt, 'attempts'>> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), config.webhookTimeout);
+  const startedAt = Date.now();
+
+  try {
+    // Checked on every attempt, as the host may resolve elsewhere than when the webhook was saved.
+    // publicDispatcher checks the addresses the request then connects to as well.
+    if (!config.webhookAllowPrivateUrls) {
+      await assertPublicUrl(webhook.url);
+    }
+
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'CSVOpener-Webhooks/1.0',
+        'X-Webhook-Id': webhook.id,
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': delivery.id,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': `sha256=${signWebhookPayload(webhook.secret, timestamp, body)}`,
+      },
+      body,
+      signal: controller.signal,
+      redirect: 'manual',
+      dispatcher: config.webhookAllowPrivateUrls ? undefined : publicDispatcher,
+    });
+    const responseBody = (await response.text().catch(() => '')).substring(0, RESPONSE_BODY_LIMIT);
+
+    return {
+      responseStatus: response.status,
+      responseBody: responseBody || null,
+      error: response.ok ? null : `Receiver responded with ${response.status}`,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    const message = controller.signal.aborted
+      ? `No response within ${config.webhookTimeout}ms`
+      : findUnsafeUrlError(error)?.message || (error instanceof Error ? error.message : 'Unknown error');
+    return { responseStatus: null, responseBody: null, error: message, durationMs: Date.now() - startedAt };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+async function enqueueDelivery(webhook: WebhookRecord, payload: WebhookPayload): Promise<WebhookDeliveryRecord> {
+  const delivery = await database.createWebhookDelivery(webhook.id, payload.event, { ...payload });
+  await webhookQueue.add('deliver', { deliveryId: delivery.id } as DeliverWebhookData, { jobId: delivery.id });
+  return delivery;
+}
+
+function buildPayload(event: string, workspaceId: string, data: Record<string, unknown>): WebhookPayload {
+  return {
+    id: randomUUID(),
+    event,
+    createdAt: new Date().toISOString(),
+    workspaceId,
+    data,
+  };
+}
+
+// The event's data: the job with its progress, or for url.completed the row and the job it belongs to
+function eventData(event: JobEvent, job: JobRecord): Record<string, unknown> {
+  if (event.type === 'url.completed') {
+    return {
+      job: { id: job.id, fileName: job.file_name },
+      url: event.url,
+    };
+  }
+
+  const { update } = event;
+  return {
+    job: {
+      id: job.id,
+      fileName: job.file_name,
+      status: update.status,
+      progress: update.progress,
+      cost: update.cost || toProgressCost(toJobUsage(job)),
+      stopReason: update.stopReason || null,
+      error: update.error || null,
+      createdAt: job.created_at,
+    },
+  };
+}
+
+async function dispatchJobEvent(event: JobEvent): Promise<void> {
+  const webhooks = await database.getWebhooksForJobEvent(event.jobId, event.type);
+  if (webhooks.length === 0) {
+    return;
+  }
+
+  const job = await database.getJob(event.jobId);
+  if (!job || !job.workspace_id) {
+    return;
+  }
+
+  const payload = buildPayload(event.type, job.workspace_id, eventData(event, job));
+  for (const webhook of webhooks) {
+    await enqueueDelivery(webhook, payload);
+  }
+  logger.debug(`Queued ${event.type} for job ${event.jobId} to ${webhooks.length} webhook(s)`);
+}
+
+// Send a webhook.test event to one webhook, whatever it is subscribed to
+export async function sendTestEvent(webhook: WebhookRecord): Promise<WebhookDeliveryRecord> {
+  const payload = buildPayload(WEBHOOK_TEST_EVENT, webhook.workspace_id, {
+    webhook: { id: webhook.id, url: webhook.url },
+    message: 'Test event sent from CSV Opener',
+  });
+  return enqueueDelivery(webhook, payload);
+}
+
+progressEmitter.on(JOB_EVENT, (event: JobEvent) => {
+  dispatchJobEvent(event).catch(error => {
+    logger.error(`Failed to queue webhooks for ${event.type} of job ${event.jobId}:`, error);
+  });
+});
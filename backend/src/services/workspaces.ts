@@ -0,0 +1,136 @@
+import { validate as isUuid } from 'uuid';
+import { logger } from '../utils/logger';
+import { normalizeEmail, PublicUser } from './auth';
+import {
+  database,
+  WorkspaceMemberRecord,
+  WorkspaceMembershipRecord,
+  WorkspaceRole,
+} from './database';
+
+export class WorkspaceError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'WorkspaceError';
+    this.status = status;
+  }
+}
+
+// Each role can do everything the roles below it can
+const ROLE_LEVELS: Record<WorkspaceRole, number> = {
+  viewer: 1,
+  editor: 2,
+  admin: 3,
+};
+
+export function hasRole(role: WorkspaceRole, required: WorkspaceRole): boolean {
+  return ROLE_LEVELS[role] >= ROLE_LEVELS[required];
+}
+
+// A workspace as the API returns it, with the signed-in user's role in it
+export interface PublicWorkspace {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+  createdAt: Date;
+}
+
+export interface PublicWorkspaceMember {
+  userId: string;
+  email: string;
+  name: string | null;
+  role: WorkspaceRole;
+  joinedAt: Date;
+}
+
+export function toPublicWorkspace(workspace: WorkspaceMembershipRecord): PublicWorkspace {
+  return { id: workspace.id, name: workspace.name, role: workspace.role, createdAt: workspace.created_at };
+}
+
+export function toPublicWorkspaceMember(member: WorkspaceMemberRecord): PublicWorkspaceMember {
+  return {
+    userId: member.user_id,
+    email: member.email,
+    name: member.name,
+    role: member.role,
+    joinedAt: member.created_at,
+  };
+}
+
+/**
+ * The user's workspaces, oldest membership first. Someone who isn't in any
+ * gets a personal workspace, which also takes over the jobs they uploaded
+ * before workspaces existed.
+ */
+export async function getUserWorkspaces(user: PublicUser): Promise<WorkspaceMembershipRecord[]> {
+  const workspaces = await database.getWorkspacesForUser(user.id);
+  if (workspaces.length > 0) {
+    return workspaces;
+  }
+
+  const workspace = await database.createWorkspace(`${user.name || user.email}'s workspace`, user.id);
+  const moved = await database.assignUnplacedJobs(user.id, workspace.id);
+  logger.info(`Created personal workspace ${workspace.id} for user ${user.id} with ${moved} existing jobs`);
+
+  return database.getWorkspacesForUser(user.id);
+}
+
+export async function getMembership(workspaceId: string, userId: string): Promise<WorkspaceMembershipRecord> {
+  const membership = isUuid(workspaceId) ? await database.getWorkspaceMembership(workspaceId, userId) : null;
+  if (!membership) {
+    // Workspaces the user isn't in are answered like ones that don't exist
+    throw new WorkspaceError('Workspace not found', 404);
+  }
+  return membership;
+}
+
+export async function createWorkspace(userId: string, name: string): Promise<WorkspaceMembershipRecord> {
+  const workspace = await database.createWorkspace(name.trim(), userId);
+  logger.info(`User ${userId} created workspace ${workspace.id}`);
+  return getMembership(workspace.id, userId);
+}
+
+export async function addMember(workspaceId: string, email: string, role: WorkspaceRole): Promise<void> {
+  const user = await database.getUserByEmail(normalizeEmail(email));
+  if (!user) {
+    throw new WorkspaceError('No account with this e-mail; ask them to sign up first', 404);
+  }
+  if (await database.getWorkspaceMembership(workspaceId, user.id)) {
+    throw new WorkspaceError('This user is already a member of the workspace', 409);
+  }
+
+  await database.setWorkspaceMember(workspaceId, user.id, role);
+  logger.info(`Added user ${user.id} to workspace ${workspaceId} as ${role}`);
+}
+
+async function getMemberRole(workspaceId: string, userId: string): Promise<WorkspaceRole> {
+  const membership = isUuid(userId) ? await database.getWorkspaceMembership(workspaceId, userId) : null;
+  if (!membership) {
+    throw new WorkspaceError('Member not found', 404);
+  }
+  return membership.role;
+}
+
+// A workspace always keeps at least one admin, so it can't be left without anyone to manage it
+async function assertNotLastAdmin(workspaceId: string, role: WorkspaceRole): Promise<void> {
+  if (role === 'admin' && (await database.countWorkspaceAdmins(workspaceId)) <= 1) {
+    throw new WorkspaceError('A workspace needs at least one admin', 409);
+  }
+}
+
+export async function updateMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<void> {
+  const current = await getMemberRole(workspaceId, userId);
+  if (current !== role) {
+    await assertNotLastAdmin(workspaceId, current);
+    await database.setWorkspaceMember(workspaceId, userId, role);
+    logger.info(`Changed role of user ${userId} in workspace ${workspaceId} to ${role}`);
+  }
+}
+
+export async function removeMember(workspaceId: string, userId: string): Promise<void> {
+  await assertNotLastAdmin(workspaceId, await getMemberRole(workspaceId, userId));
+  await database.removeWorkspaceMember(workspaceId, userId);
+  logger.info(`Removed user ${userId} from workspace ${workspaceId}`);
+}
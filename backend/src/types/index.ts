@@ -52,13 +52,26 @@ export interface JobStatusResponse {
   error?: string;
 }
 
-export interface OpenAIResponse {
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// A generated opener with the model that wrote it and the tokens it consumed
+export interface GenerationResult {
   opener: string;
-  tokensUsed: number;
+  model: string;
+  usage: TokenUsage;
 }
 
 export type ContentType = 'company' | 'person' | 'news';
 
+// Formats accepted at upload; workbooks are converted to TSV before parsing
+export type SourceFormat = 'csv' | 'tsv' | 'xlsx';
+
+// realtime sends one request per row; batch submits the rows to the provider's batch API
+export type ProcessingMode = 'realtime' | 'batch';
+
 export interface PromptTemplate {
   system: string;
   user: string;
@@ -0,0 +1,139 @@
+import { ColumnMapping } from '../services/database';
+import { validateAndNormalizeUrl } from './urlValidator';
+
+export interface ColumnCandidate {
+  column: string;
+  // Overall rank, 0-1: mostly URL validity, with a bonus for URL-like header names
+  score: number;
+  // Share of non-empty sampled values that look like URLs
+  urlValidity: number;
+  // Share of sampled rows with a value in this column
+  filled: number;
+  headerMatch: boolean;
+  sampleValues: string[];
+}
+
+export interface SuggestedColumnMapping {
+  urlColumn: string | null;
+  nameColumn: string | null;
+  companyColumn: string | null;
+}
+
+const URL_HEADER_PATTERN = /url|link|website|domain|site|homepage|profile/i;
+const NAME_HEADER_PATTERN = /^(full[\s_-]?)?name$|^(first[\s_-]?name|contact([\s_-]?name)?|person)$/i;
+const COMPANY_HEADER_PATTERN = /company|organi[sz]ation|business|employer|account/i;
+
+// Below this score a column is offered but not pre-selected
+const MIN_SUGGESTION_SCORE = 0.5;
+const DEFAULT_SAMPLE_SIZE = 100;
+
+// Template variables that resolve to the mapped name/company columns
+export const MAPPING_VARIABLES: Record<string, keyof Omit<ColumnMapping, 'urlColumn'>> = {
+  name: 'nameColumn',
+  company: 'companyColumn',
+};
+
+/**
+ * Stricter than validateAndNormalizeUrl: that accepts any single word once a
+ * scheme is added, so we also require a dotted host and reject e-mail addresses.
+ */
+export function looksLikeUrl(value: string): boolean {
+  const trimmed = value.trim();
+  if (!trimmed || /\s/.test(trimmed)) {
+    return false;
+  }
+
+  const hasScheme = /^https?:\/\//i.test(trimmed);
+  if (!hasScheme && trimmed.includes('@')) {
+    return false;
+  }
+
+  const validation = validateAndNormalizeUrl(trimmed);
+  if (!validation.isValid || !validation.normalizedUrl) {
+    return false;
+  }
+
+  return /\.[a-z]{2,}$/i.test(new URL(validation.normalizedUrl).hostname);
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Score every column as a potential URL column, best first. Ties keep the
+ * file's column order.
+ */
+export function rankUrlColumns(
+  columns: string[],
+  rows: Array<Record<string, string>>,
+  sampleSize: number = DEFAULT_SAMPLE_SIZE
+): ColumnCandidate[] {
+  const sample = rows.slice(0, sampleSize);
+
+  return columns
+    .map(column => {
+      const values = sample.map(row => (row[column] || '').trim()).filter(Boolean);
+      const validCount = values.filter(looksLikeUrl).length;
+      const urlValidity = values.length > 0 ? validCount / values.length : 0;
+      const headerMatch = URL_HEADER_PATTERN.test(column);
+
+      return {
+        column,
+        score: round(0.8 * urlValidity + (headerMatch ? 0.2 : 0)),
+        urlValidity: round(urlValidity),
+        filled: sample.length > 0 ? round(values.length / sample.length) : 0,
+        headerMatch,
+        sampleValues: values.slice(0, 3),
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+export function suggestColumnMapping(candidates: ColumnCandidate[]): SuggestedColumnMapping {
+  const best = candidates[0];
+  const urlColumn = best && best.urlValidity > 0 && best.score >= MIN_SUGGESTION_SCORE ? best.column : null;
+
+  const others = candidates.map(candidate => candidate.column).filter(column => column !== urlColumn);
+
+  return {
+    urlColumn,
+    nameColumn: others.find(column => NAME_HEADER_PATTERN.test(column)) || null,
+    companyColumn: others.find(column => COMPANY_HEADER_PATTERN.test(column)) || null,
+  };
+}
+
+// Columns a template may reference once the mapping's {{name}}/{{company}} aliases are added
+export function mappedTemplateColumns(columns: string[], mapping: ColumnMapping | null): string[] {
+  const aliases = Object.entries(MAPPING_VARIABLES)
+    .filter(([, key]) => mapping?.[key])
+    .map(([variable]) => variable);
+  return [...columns, ...aliases];
+}
+
+// Uploaded columns behind template variables, with {{name}}/{{company}} resolved through the mapping
+export function templateSourceColumns(variables: string[], mapping: ColumnMapping | null): string[] {
+  const columns = variables.map(variable => {
+    const key = Object.prototype.hasOwnProperty.call(MAPPING_VARIABLES, variable) ? MAPPING_VARIABLES[variable] : null;
+    return key && mapping?.[key] ? mapping[key]! : variable;
+  });
+  return Array.from(new Set(columns)).sort();
+}
+
+/**
+ * Row data as seen by templates: the original columns plus {{name}} and
+ * {{company}} resolved through the mapping, which overrides columns of the same name.
+ */
+export function applyColumnMapping(
+  originalData: Record<string, string> | undefined,
+  mapping: ColumnMapping | null
+): Record<string, string> {
+  const data = { ...originalData };
+
+  for (const [variable, key] of Object.entries(MAPPING_VARIABLES)) {
+    const column = mapping?.[key];
+    if (column) {
+      data[variable] = data[column] ?? '';
+    }
+  }
+
+  return data;
+}
@@ -0,0 +1,99 @@
+export interface PageContent {
+  title: string;
+  description: string;
+  openGraph: Record<string, string>;
+  text: string;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  mdash: '—',
+  ndash: '–',
+  hellip: '…',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? (match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+function extractMetaTags(html: string): { description: string; openGraph: Record<string, string> } {
+  let description = '';
+  const openGraph: Record<string, string> = {};
+
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const key = (getAttribute(tag, 'property') || getAttribute(tag, 'name') || '').toLowerCase();
+    const content = getAttribute(tag, 'content');
+    if (!key || content === undefined) {
+      continue;
+    }
+
+    const value = collapseWhitespace(decodeEntities(content));
+    if (key === 'description') {
+      description = value;
+    } else if (key.startsWith('og:')) {
+      openGraph[key.slice(3)] = value;
+    }
+  }
+
+  return { description, openGraph };
+}
+
+function extractMainText(html: string): string {
+  // Drop elements that never carry the page's own content
+  let body = html
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<(script|style|noscript|svg|template|iframe)\b[\s\S]*?<\/\1>/gi, ' ');
+
+  // Prefer the main/article region when the page marks one up
+  const main = body.match(/<main\b[^>]*>([\s\S]*?)<\/main>/i) || body.match(/<article\b[^>]*>([\s\S]*?)<\/article>/i);
+  if (main) {
+    body = main[1];
+  } else {
+    const bodyMatch = body.match(/<body\b[^>]*>([\s\S]*)<\/body>/i);
+    body = (bodyMatch ? bodyMatch[1] : body)
+      .replace(/<(nav|header|footer|aside|form)\b[\s\S]*?<\/\1>/gi, ' ');
+  }
+
+  return collapseWhitespace(decodeEntities(body.replace(/<[^>]+>/g, ' ')));
+}
+
+/**
+ * Pull the title, meta description, Open Graph tags and main text out of an HTML document.
+ * Regex based on purpose: pages are truncated by the fetcher, so the markup is often incomplete.
+ */
+export function extractPageContent(html: string, maxTextLength: number = 2000): PageContent {
+  const titleMatch = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i);
+  const { description, openGraph } = extractMetaTags(html);
+  const text = extractMainText(html);
+
+  return {
+    title: titleMatch ? collapseWhitespace(decodeEntities(titleMatch[1])) : openGraph.title || '',
+    description: description || openGraph.description || '',
+    openGraph,
+    text: text.length > maxTextLength ? `${text.slice(0, maxTextLength)}…` : text,
+  };
+}
@@ -0,0 +1,69 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { fetch } from 'undici';
+import {
+  assertPublicUrl,
+  findUnsafeUrlError,
+  isPrivateAddress,
+  publicDispatcher,
+  publicLookup,
+  UnsafeUrlError,
+} from './networkGuard';
+
+describe('isPrivateAddress', () => {
+  it.each(['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '::1', 'fd00::1', '::ffff:127.0.0.1'])(
+    'blocks %s',
+    address => {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  );
+
+  it.each(['8.8.8.8', '1.1.1.1', '2606:4700:4700::1111', '::ffff:8.8.8.8'])('allows %s', address => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+});
+
+describe('assertPublicUrl', () => {
+  it('rejects private IP literals', async () => {
+    await expect(assertPublicUrl('http://[::1]:8080/')).rejects.toThrow('::1 resolves to a private, loopback or link-local address');
+    await expect(assertPublicUrl('http://169.254.169.254/latest')).rejects.toBeInstanceOf(UnsafeUrlError);
+  });
+});
+
+describe('publicLookup', () => {
+  it('refuses hosts that resolve to a private address', done => {
+    publicLookup('localhost', {}, error => {
+      expect(error).toBeInstanceOf(UnsafeUrlError);
+      done();
+    });
+  });
+});
+
+describe('publicDispatcher', () => {
+  let server: http.Server;
+  let port: number;
+  let requests: number;
+
+  beforeEach(async () => {
+    requests = 0;
+    server = http.createServer((_req, res) => {
+      requests++;
+      res.end('ok');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  // The address is checked when the connection is made, not only before the request
+  it('does not connect to a host name that resolves to a private address', async () => {
+    const error = await fetch(`http://localhost:${port}/`, { dispatcher: publicDispatcher }).then(() => null, (caught: unknown) => caught);
+
+    expect(findUnsafeUrlError(error)?.message).toBe('localhost resolves to a private, loopback or link-local address');
+    expect(requests).toBe(0);
+  });
+});
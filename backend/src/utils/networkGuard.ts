@@ -0,0 +1,123 @@
+import dns from 'dns';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { Agent } from 'undici';
+
+// Addresses outbound requests to user-supplied URLs must not reach: this host, private networks and link-local ranges.
+// BlockList checks IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) against the IPv4 ranges.
+const PRIVATE_RANGES = new BlockList();
+
+const PRIVATE_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8], // "This" network
+  ['10.0.0.0', 8], // Private
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8], // Loopback
+  ['169.254.0.0', 16], // Link-local, including cloud metadata endpoints
+  ['172.16.0.0', 12], // Private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.168.0.0', 16], // Private
+  ['198.18.0.0', 15], // Benchmarking
+  ['224.0.0.0', 4], // Multicast
+  ['240.0.0.0', 4], // Reserved and broadcast
+];
+
+const PRIVATE_IPV6_RANGES: Array<[string, number]> = [
+  ['::', 128], // Unspecified
+  ['::1', 128], // Loopback
+  ['64:ff9b::', 96], // NAT64
+  ['fc00::', 7], // Unique local
+  ['fe80::', 10], // Link-local
+  ['ff00::', 8], // Multicast
+];
+
+for (const [network, prefix] of PRIVATE_IPV4_RANGES) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of PRIVATE_IPV6_RANGES) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+function privateHostMessage(host: string): string {
+  return `${host} resolves to a private, loopback or link-local address`;
+}
+
+export class UnsafeUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsafeUrlError';
+  }
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return PRIVATE_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Resolve the URL's host and throw an UnsafeUrlError when it can't be resolved or
+ * any of its addresses is loopback, private or link-local. Checked right before a
+ * request is sent as well as when a URL is saved, since DNS can change in between.
+ */
+export async function assertPublicUrl(url: string | URL): Promise<void> {
+  const { hostname } = typeof url === 'string' ? new URL(url) : url;
+  // IPv6 literals keep their brackets in URL.hostname
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true, verbatim: true })).map(entry => entry.address);
+    } catch {
+      throw new UnsafeUrlError(`Could not resolve ${host}`);
+    }
+  }
+
+  if (addresses.some(isPrivateAddress)) {
+    throw new UnsafeUrlError(privateHostMessage(host));
+  }
+}
+
+/**
+ * `lookup` for outbound sockets that refuses hosts resolving to a private address.
+ * The socket connects to the addresses checked here, so a host can't pass
+ * assertPublicUrl and then resolve elsewhere for the request (DNS rebinding).
+ * IP literals never reach a lookup; assertPublicUrl covers those.
+ */
+export const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+    if (addresses.length === 0 || addresses.some(entry => isPrivateAddress(entry.address))) {
+      callback(new UnsafeUrlError(privateHostMessage(hostname)), '');
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// Pass as fetch()'s `dispatcher` for requests to user-supplied URLs
+export const publicDispatcher = new Agent({ connect: { lookup: publicLookup } });
+
+/**
+ * The UnsafeUrlError behind a failed fetch() through publicDispatcher, which
+ * reports it as the cause of a generic "fetch failed".
+ */
+export function findUnsafeUrlError(error: unknown): UnsafeUrlError | null {
+  for (let current = error; current; current = (current as { cause?: unknown }).cause) {
+    if (current instanceof UnsafeUrlError) {
+      return current;
+    }
+  }
+  return null;
+}
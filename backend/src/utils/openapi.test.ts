@@ -0,0 +1,31 @@
+import { getOpenApiSpec } from './openapi';
+
+type JsonSchema = Record<string, any>;
+
+describe('getOpenApiSpec', () => {
+  const spec = getOpenApiSpec() as JsonSchema;
+
+  it('documents the body the start processing route validates', () => {
+    const schema = spec.components.schemas.StartProcessing;
+
+    expect(schema.required).toEqual(['jobId']);
+    expect(schema.anyOf).toEqual([{ required: ['contentType'] }, { required: ['templateId'] }]);
+    expect(schema.additionalProperties).toBe(false);
+    expect(schema.properties.jobId).toMatchObject({ type: 'string', format: 'uuid' });
+    expect(schema.properties.mode).toMatchObject({ type: 'string', enum: ['realtime', 'batch'] });
+    expect(schema.properties.variants).toMatchObject({ type: 'integer', minimum: 1, maximum: 5 });
+    expect(schema.properties.variantTemplateIds).toMatchObject({
+      type: 'array',
+      maxItems: 5,
+      items: { type: 'string', format: 'uuid', nullable: true },
+    });
+    expect(schema.properties.budget).toMatchObject({ type: 'number', minimum: 0 });
+  });
+
+  it('refers to the start processing schema from its route', () => {
+    const operation = spec.paths['/api/upload/process'].post;
+
+    expect(operation.requestBody.content['application/json'].schema).toEqual({ $ref: '#/components/schemas/StartProcessing' });
+    expect(operation.responses[400].content['application/json'].schema).toEqual({ $ref: '#/components/schemas/Error' });
+  });
+});
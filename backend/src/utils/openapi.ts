@@ -0,0 +1,401 @@
+import Joi from 'joi';
+import { config } from '../config';
+import { jobIdSchema, startProcessingSchema } from '../middleware/validation';
+import { EXPORT_FORMATS, REVIEW_STATUSES } from './resultsExport';
+
+type JsonSchema = Record<string, unknown>;
+
+function findRule(description: Joi.Description, name: string): { args?: Record<string, any> } | undefined {
+  return (description.rules || []).find((rule: { name: string }) => rule.name === name);
+}
+
+function flagsOf(description: Joi.Description): Record<string, any> {
+  return (description.flags || {}) as Record<string, any>;
+}
+
+function describeToSchema(description: Joi.Description): JsonSchema {
+  const schema: JsonSchema = {};
+  const flags = flagsOf(description);
+  const allowed: unknown[] = description.allow || [];
+  const limit = (name: string): number | undefined => findRule(description, name)?.args?.limit;
+
+  switch (description.type) {
+    case 'object': {
+      const keys: Record<string, Joi.Description> = description.keys || {};
+      schema.type = 'object';
+      schema.properties = Object.fromEntries(
+        Object.entries(keys).map(([key, value]) => [key, describeToSchema(value)])
+      );
+      const required = Object.keys(keys).filter(key => flagsOf(keys[key]).presence === 'required');
+      if (required.length > 0) {
+        schema.required = required;
+      }
+      if (limit('min') !== undefined) {
+        schema.minProperties = limit('min');
+      }
+      // `.or(a, b)` needs at least one of the keys
+      const or = (description.dependencies || []).find((dependency: { rel: string }) => dependency.rel === 'or');
+      if (or) {
+        schema.anyOf = or.peers.map((peer: string) => ({ required: [peer] }));
+      }
+      schema.additionalProperties = Boolean(flags.unknown);
+      break;
+    }
+    case 'string':
+      schema.type = 'string';
+      if (findRule(description, 'guid')) schema.format = 'uuid';
+      if (findRule(description, 'email')) schema.format = 'email';
+      if (findRule(description, 'hex')) schema.pattern = '^[0-9a-fA-F]*$';
+      if (limit('length') !== undefined) {
+        schema.minLength = limit('length');
+        schema.maxLength = limit('length');
+      }
+      if (limit('min') !== undefined) schema.minLength = limit('min');
+      if (limit('max') !== undefined) schema.maxLength = limit('max');
+      break;
+    case 'number':
+      schema.type = findRule(description, 'integer') ? 'integer' : 'number';
+      if (limit('min') !== undefined) schema.minimum = limit('min');
+      if (limit('max') !== undefined) schema.maximum = limit('max');
+      break;
+    case 'boolean':
+      schema.type = 'boolean';
+      break;
+    case 'array': {
+      const items: Joi.Description[] = description.items || [];
+      schema.type = 'array';
+      schema.items = items.length === 1
+        ? describeToSchema(items[0])
+        : items.length > 1 ? { oneOf: items.map(describeToSchema) } : {};
+      if (limit('min') !== undefined) schema.minItems = limit('min');
+      if (limit('max') !== undefined) schema.maxItems = limit('max');
+      break;
+    }
+  }
+
+  if (flags.only) {
+    schema.enum = allowed.filter(value => value !== null);
+  }
+  if (allowed.includes(null)) {
+    schema.nullable = true;
+  }
+  if (flags.description) {
+    schema.description = flags.description;
+  }
+  if (flags.default !== undefined) {
+    schema.default = flags.default;
+  }
+
+  return schema;
+}
+
+/**
+ * JSON Schema (in its OpenAPI 3.0 dialect) for a Joi schema, so the spec
+ * documents exactly what the validation middleware accepts.
+ */
+export function joiToJsonSchema(schema: Joi.Schema): JsonSchema {
+  return describeToSchema(schema.describe());
+}
+
+// Path parameters from a Joi object schema of `req.params`
+function pathParameters(schema: Joi.ObjectSchema): JsonSchema[] {
+  const properties = joiToJsonSchema(schema).properties as Record<string, JsonSchema>;
+  return Object.entries(properties).map(([name, property]) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: property,
+  }));
+}
+
+function queryParameter(name: string, values: readonly string[], description: string): JsonSchema {
+  return { name, in: 'query', required: false, description, schema: { type: 'string', enum: [...values] } };
+}
+
+function errorResponse(description: string): JsonSchema {
+  return { description, content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } } };
+}
+
+function jsonResponse(description: string, schema: JsonSchema): JsonSchema {
+  return { description, content: { 'application/json': { schema } } };
+}
+
+const messageSchema: JsonSchema = {
+  type: 'object',
+  properties: { message: { type: 'string' } },
+};
+
+function buildOpenApiSpec(): JsonSchema {
+  const jobPath = pathParameters(jobIdSchema);
+  const workspace = { $ref: '#/components/parameters/Workspace' };
+  const common = {
+    401: errorResponse('Missing, invalid or revoked credentials'),
+    403: errorResponse('The API key lacks the scope, or the role in the workspace is too low'),
+  };
+  const jobResponses = { ...common, 404: errorResponse('Job not found in the workspace') };
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'CSV Opener API',
+      version: '1.0.0',
+      description: 'Upload a file of URLs, generate an outreach opener for each row and download the results. '
+        + 'Authenticate with a personal API key (`Authorization: Bearer csvo_...`); keys with the `read` scope '
+        + 'can make GET requests, keys with the `write` scope everything else.',
+    },
+    servers: [{ url: `http://localhost:${config.port}` }],
+    security: [{ bearerAuth: [] }],
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'Personal API key or session token' },
+      },
+      parameters: {
+        Workspace: {
+          name: 'X-Workspace-Id',
+          in: 'header',
+          required: false,
+          description: "Workspace to act in; defaults to the user's first workspace",
+          schema: { type: 'string', format: 'uuid' },
+        },
+      },
+      schemas: {
+        Error: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            details: { type: 'array', items: { type: 'string' } },
+          },
+          required: ['error'],
+        },
+        StartProcessing: joiToJsonSchema(startProcessingSchema),
+        JobStatus: {
+          type: 'object',
+          properties: {
+            jobId: { type: 'string', format: 'uuid' },
+            status: { type: 'string', enum: ['pending', 'processing', 'completed', 'failed', 'stopped'] },
+            progress: {
+              type: 'object',
+              properties: {
+                total: { type: 'integer' },
+                processed: { type: 'integer' },
+                failed: { type: 'integer' },
+                pending: { type: 'integer' },
+                skipped: { type: 'integer' },
+              },
+            },
+            fileName: { type: 'string' },
+            totalRows: { type: 'integer' },
+            processedRows: { type: 'integer' },
+            failedRows: { type: 'integer' },
+            skippedRows: { type: 'integer' },
+            usage: {
+              type: 'object',
+              properties: {
+                promptTokens: { type: 'integer' },
+                completionTokens: { type: 'integer' },
+                totalTokens: { type: 'integer' },
+                cost: { type: 'number' },
+              },
+            },
+            budget: { type: 'number', nullable: true },
+            stopReason: { type: 'string', nullable: true, enum: ['user', 'budget_exceeded'] },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        Result: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            url: { type: 'string' },
+            row_index: { type: 'integer' },
+            status: { type: 'string', enum: ['pending', 'processing', 'completed', 'failed', 'skipped'] },
+            opener: { type: 'string', nullable: true },
+            error: { type: 'string', nullable: true },
+            review_status: { type: 'string', enum: [...REVIEW_STATUSES] },
+          },
+        },
+      },
+    },
+    paths: {
+      '/api/upload': {
+        post: {
+          summary: 'Upload a CSV, TSV or Excel file and create a job',
+          parameters: [workspace],
+          requestBody: {
+            required: true,
+            content: {
+              'multipart/form-data': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    csvFile: { type: 'string', format: 'binary' },
+                    sheet: { type: 'string', description: 'Worksheet to read from a workbook' },
+                  },
+                  required: ['csvFile'],
+                },
+              },
+            },
+          },
+          responses: {
+            200: jsonResponse('The job, a preview of its rows and the suggested column mapping', {
+              type: 'object',
+              properties: {
+                jobId: { type: 'string', format: 'uuid' },
+                fileName: { type: 'string' },
+                totalRows: { type: 'integer' },
+                columns: { type: 'array', items: { type: 'string' } },
+                suggestedMapping: { type: 'object' },
+                validation: { type: 'object', nullable: true },
+              },
+            }),
+            400: errorResponse('No file, or a file that could not be read'),
+            ...common,
+          },
+        },
+      },
+      '/api/upload/process': {
+        post: {
+          summary: 'Start generating openers for a job',
+          parameters: [workspace],
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/StartProcessing' } } },
+          },
+          responses: {
+            200: jsonResponse('Processing started', {
+              type: 'object',
+              properties: {
+                jobId: { type: 'string', format: 'uuid' },
+                message: { type: 'string' },
+                totalUrls: { type: 'integer' },
+              },
+            }),
+            400: errorResponse(
+              'A body that does not match StartProcessing (listed in `details`), columns the file lacks, '
+              + 'an unknown provider, no valid URLs, or a budget reached or exceeded by the estimate'
+            ),
+            ...jobResponses,
+          },
+        },
+      },
+      '/api/jobs/{jobId}': {
+        get: {
+          summary: 'Get the status, progress and cost of a job',
+          parameters: [...jobPath, workspace],
+          responses: {
+            200: jsonResponse('The job', { $ref: '#/components/schemas/JobStatus' }),
+            ...jobResponses,
+          },
+        },
+      },
+      '/api/jobs/{jobId}/results': {
+        get: {
+          summary: 'Get the generated openers, row by row',
+          parameters: [
+            ...jobPath,
+            workspace,
+            queryParameter('review', REVIEW_STATUSES, 'Only rows in this review state'),
+          ],
+          responses: {
+            200: jsonResponse('The rows', {
+              type: 'object',
+              properties: { urls: { type: 'array', items: { $ref: '#/components/schemas/Result' } } },
+            }),
+            ...jobResponses,
+          },
+        },
+      },
+      '/api/jobs/{jobId}/download': {
+        get: {
+          summary: 'Download the results of a completed job',
+          parameters: [
+            ...jobPath,
+            workspace,
+            queryParameter('mode', ['results', 'merged'], '`merged` returns the original file with the opener columns appended'),
+            queryParameter('format', EXPORT_FORMATS, 'Defaults to the format the file was uploaded in'),
+            queryParameter('review', REVIEW_STATUSES, 'Only rows in this review state'),
+          ],
+          responses: {
+            200: {
+              description: 'The results file',
+              content: Object.fromEntries(
+                ['text/csv', 'text/tab-separated-values', 'application/json', 'application/x-ndjson',
+                  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet']
+                  .map(type => [type, { schema: { type: 'string', format: 'binary' } }])
+              ),
+            },
+            400: errorResponse('The job is not completed yet'),
+            ...jobResponses,
+          },
+        },
+      },
+      '/api/jobs/{jobId}/stop': {
+        post: {
+          summary: 'Stop a running job; it can be resumed later',
+          parameters: [...jobPath, workspace],
+          responses: {
+            200: jsonResponse('Job stopped', messageSchema),
+            400: errorResponse('The job is completed or already stopped'),
+            ...jobResponses,
+          },
+        },
+      },
+      '/api/jobs/{jobId}/resume': {
+        post: {
+          summary: 'Resume a stopped job',
+          parameters: [...jobPath, workspace],
+          responses: {
+            200: jsonResponse('Job resumed', messageSchema),
+            400: errorResponse('The job is not stopped, or its budget is reached'),
+            ...jobResponses,
+          },
+        },
+      },
+      '/api/jobs/{jobId}/retry': {
+        post: {
+          summary: 'Retry failed rows',
+          parameters: [...jobPath, workspace],
+          requestBody: {
+            required: false,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    urlIds: {
+                      type: 'array',
+                      items: { type: 'string', format: 'uuid' },
+                      description: 'Rows to retry; every failed row when omitted',
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: jsonResponse('Rows queued again', {
+              type: 'object',
+              properties: {
+                message: { type: 'string' },
+                retried: { type: 'integer' },
+                jobId: { type: 'string', format: 'uuid' },
+              },
+            }),
+            ...jobResponses,
+          },
+        },
+      },
+    },
+  };
+}
+
+let spec: JsonSchema | null = null;
+
+// Built on first request; the schemas it is generated from don't change while the server runs
+export function getOpenApiSpec(): JsonSchema {
+  if (!spec) {
+    spec = buildOpenApiSpec();
+  }
+  return spec;
+}
@@ -0,0 +1,94 @@
+import { config } from '../config';
+import { logger } from './logger';
+import { TokenUsage } from '../types';
+
+// USD per 1,000 tokens
+export interface ModelPricing {
+  inputPer1K: number;
+  outputPer1K: number;
+}
+
+export type PricingTable = Record<string, ModelPricing>;
+
+export const DEFAULT_MODEL_PRICING: PricingTable = {
+  'gpt-3.5-turbo': { inputPer1K: 0.0005, outputPer1K: 0.0015 },
+  'gpt-4': { inputPer1K: 0.03, outputPer1K: 0.06 },
+  'gpt-4-turbo': { inputPer1K: 0.01, outputPer1K: 0.03 },
+  'gpt-4o': { inputPer1K: 0.0025, outputPer1K: 0.01 },
+  'gpt-4o-mini': { inputPer1K: 0.00015, outputPer1K: 0.0006 },
+  // Served by the free Hugging Face inference API
+  'distilgpt2': { inputPer1K: 0, outputPer1K: 0 },
+};
+
+function isModelPricing(value: unknown): value is ModelPricing {
+  const pricing = value as ModelPricing;
+  return !!pricing
+    && typeof pricing.inputPer1K === 'number' && pricing.inputPer1K >= 0
+    && typeof pricing.outputPer1K === 'number' && pricing.outputPer1K >= 0;
+}
+
+/**
+ * Default prices overlaid with MODEL_PRICING, a JSON object of
+ * `{ "<model>": { "inputPer1K": n, "outputPer1K": n } }`. Invalid entries are ignored.
+ */
+export function loadPricingTable(raw: string = config.modelPricing): PricingTable {
+  const table: PricingTable = { ...DEFAULT_MODEL_PRICING };
+  if (!raw) {
+    return table;
+  }
+
+  try {
+    const overrides = JSON.parse(raw);
+    for (const [model, pricing] of Object.entries(overrides)) {
+      if (isModelPricing(pricing)) {
+        table[model] = { inputPer1K: pricing.inputPer1K, outputPer1K: pricing.outputPer1K };
+      } else {
+        logger.warn(`Ignoring invalid MODEL_PRICING entry for ${model}`);
+      }
+    }
+  } catch (error) {
+    logger.warn('MODEL_PRICING is not valid JSON, using default prices:', error);
+  }
+
+  return table;
+}
+
+const pricingTable = loadPricingTable();
+
+export function getPricingTable(): PricingTable {
+  return pricingTable;
+}
+
+/**
+ * Exact match first, then the longest model name the given one starts with,
+ * so dated snapshots such as gpt-4o-2024-08-06 use the gpt-4o price.
+ */
+export function getModelPricing(model: string, table: PricingTable = pricingTable): ModelPricing | null {
+  if (table[model]) {
+    return table[model];
+  }
+
+  const prefix = Object.keys(table)
+    .filter(name => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? table[prefix] : null;
+}
+
+// Unknown models are costed at zero rather than failing the row
+export function calculateCost(model: string, usage: TokenUsage, table: PricingTable = pricingTable): number {
+  const pricing = getModelPricing(model, table);
+  if (!pricing) {
+    return 0;
+  }
+
+  const cost = (usage.promptTokens * pricing.inputPer1K + usage.completionTokens * pricing.outputPer1K) / 1000;
+  return Math.round(cost * 1e6) / 1e6;
+}
+
+// Rough ratio for English text, for providers that don't report usage
+export const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
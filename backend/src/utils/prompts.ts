@@ -1,4 +1,5 @@
 import { PromptTemplate, ContentType } from '../types';
+import { PageContent } from './htmlExtractor';
 
 export const PROMPT_TEMPLATES: Record<ContentType, PromptTemplate> = {
   company: {
@@ -48,10 +49,171 @@ export function getPromptTemplate(contentType: ContentType): PromptTemplate {
   return PROMPT_TEMPLATES[contentType];
 }
 
-export function formatPrompt(template: PromptTemplate, url: string): { system: string; user: string } {
+// Matches {{column}} and {{column | other_column | "default"}} expressions
+const VARIABLE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+// Always available, resolves to the URL being processed rather than a CSV column
+const URL_VARIABLE = 'url';
+
+// Filled from the fetched page when page enrichment is enabled, never CSV columns
+export const PAGE_VARIABLES = ['page_title', 'page_description', 'page_site_name', 'page_text'];
+
+interface VariableOption {
+  column?: string;
+  literal?: string;
+}
+
+function parseVariableExpression(expression: string): VariableOption[] {
+  return expression
+    .split('|')
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const quoted = part.match(/^(["'])(.*)\1$/);
+      return quoted ? { literal: quoted[2] } : { column: part };
+    });
+}
+
+/**
+ * Column names referenced by a template's {{...}} expressions, excluding the
+ * built-in url and page variables and quoted defaults.
+ */
+export function extractTemplateColumns(template: PromptTemplate): string[] {
+  const columns = new Set<string>();
+
+  for (const text of [template.system, template.user]) {
+    for (const match of text.matchAll(VARIABLE_PATTERN)) {
+      parseVariableExpression(match[1])
+        .filter(option => option.column && option.column !== URL_VARIABLE && !PAGE_VARIABLES.includes(option.column))
+        .forEach(option => columns.add(option.column!));
+    }
+  }
+
+  return Array.from(columns);
+}
+
+export function findMissingTemplateColumns(template: PromptTemplate, columns: string[]): string[] {
+  return extractTemplateColumns(template).filter(column => !columns.includes(column));
+}
+
+function renderText(text: string, url: string, rowData: Record<string, string>, emptyVariables: Set<string>): string {
+  const rendered = text.replace(VARIABLE_PATTERN, (_, expression: string) => {
+    const options = parseVariableExpression(expression);
+
+    // First non-empty column wins, otherwise the first quoted default
+    for (const option of options) {
+      if (option.literal !== undefined) {
+        return option.literal;
+      }
+
+      const value = option.column === URL_VARIABLE ? url : rowData[option.column!];
+      if (value && value.trim()) {
+        return value.trim();
+      }
+    }
+
+    emptyVariables.add(expression.trim());
+    return '';
+  });
+
+  return rendered.split('{url}').join(url);
+}
+
+export function renderPrompt(
+  template: PromptTemplate,
+  url: string,
+  rowData: Record<string, string> = {}
+): { system: string; user: string; emptyVariables: string[] } {
+  const emptyVariables = new Set<string>();
+
+  return {
+    system: renderText(template.system, url, rowData, emptyVariables),
+    user: renderText(template.user, url, rowData, emptyVariables),
+    emptyVariables: Array.from(emptyVariables),
+  };
+}
+
+export function formatPrompt(
+  template: PromptTemplate,
+  url: string,
+  rowData: Record<string, string> = {}
+): { system: string; user: string } {
+  const { system, user } = renderPrompt(template, url, rowData);
+  return { system, user };
+}
+
+
+export function pageContentVariables(page: PageContent): Record<string, string> {
+  return {
+    page_title: page.title,
+    page_description: page.description,
+    page_site_name: page.openGraph.site_name || '',
+    page_text: page.text,
+  };
+}
+
+function referencesPageVariables(template: PromptTemplate): boolean {
+  return [template.system, template.user].some(text =>
+    Array.from(text.matchAll(VARIABLE_PATTERN)).some(match =>
+      parseVariableExpression(match[1]).some(option => option.column && PAGE_VARIABLES.includes(option.column))
+    )
+  );
+}
+
+/**
+ * Templates that don't place the {{page_*}} variables themselves get a page
+ * context block appended, listing only the fields the page actually had.
+ */
+export function withPageContext(template: PromptTemplate, page: PageContent): PromptTemplate {
+  if (referencesPageVariables(template)) {
+    return template;
+  }
+
+  const fields: Array<[string, string]> = [
+    ['Title', page.title ? '{{page_title}}' : ''],
+    ['Site', page.openGraph.site_name ? '{{page_site_name}}' : ''],
+    ['Description', page.description ? '{{page_description}}' : ''],
+    ['Content', page.text ? '{{page_text}}' : ''],
+  ];
+  const lines = fields.filter(([, value]) => value).map(([label, value]) => `${label}: ${value}`);
+
+  if (lines.length === 0) {
+    return template;
+  }
+
   return {
     system: template.system,
-    user: template.user.replace('{url}', url)
+    user: `${template.user}\n\nPage context (fetched from the URL, use it to be specific):\n${lines.join('\n')}`,
+  };
+}
+
+// Set when a row is regenerated, so the opener and instruction aren't rendered as template syntax
+export function regenerationVariables(instruction: string | null, previousOpener?: string): Record<string, string> {
+  return {
+    previous_opener: previousOpener || '',
+    regeneration_instruction: instruction || '',
   };
 }
 
+/**
+ * Ask for a new opener for a row that already had one: the previous opener is
+ * included so it isn't repeated, along with the user's instruction when given.
+ */
+export function withRegenerationInstruction(
+  template: PromptTemplate,
+  instruction: string | null,
+  previousOpener?: string
+): PromptTemplate {
+  const lines: string[] = [];
+  if (previousOpener) {
+    lines.push('Previous opener: {{previous_opener}}');
+  }
+  lines.push(instruction
+    ? 'Write a new opener following this instruction: {{regeneration_instruction}}'
+    : 'Write a new opener that differs from the previous one.');
+
+  return {
+    system: template.system,
+    user: `${template.user}\n\n${lines.join('\n')}`,
+  };
+}
@@ -0,0 +1,78 @@
+import { MergedResultRow, UrlVariantRecord } from '../services/database';
+import { appendVariantColumns, buildMergedResultsTable, generatedColumnName } from './resultsExport';
+
+function mergedRow(index: number, originalData: Record<string, string>, result: Partial<MergedResultRow> = {}): MergedResultRow {
+  return {
+    id: `url-${index}`,
+    row_index: index,
+    original_data: originalData,
+    url: originalData.website || '',
+    status: 'completed',
+    ...result,
+  };
+}
+
+describe('generatedColumnName', () => {
+  it('keeps names the file does not use', () => {
+    expect(generatedColumnName('opener', ['name', 'website'])).toBe('opener');
+  });
+
+  it('suffixes names the file already uses', () => {
+    expect(generatedColumnName('opener', ['opener'])).toBe('opener_generated');
+    expect(generatedColumnName('opener', ['opener', 'opener_generated'])).toBe('opener_generated_2');
+  });
+});
+
+describe('buildMergedResultsTable', () => {
+  it('appends the result columns to the original columns and rows', () => {
+    const table = buildMergedResultsTable(['name', 'website'], [
+      mergedRow(0, { name: 'Ada', website: 'https://acme.test' }, { opener: 'Hi Ada' }),
+      mergedRow(1, { name: 'Bob', website: 'https://bob.test' }, { status: 'failed', error: 'Timed out' }),
+    ]);
+
+    expect(table.headers).toEqual(['name', 'website', 'opener', 'opener_status', 'opener_error']);
+    expect(table.rows).toEqual([
+      ['Ada', 'https://acme.test', 'Hi Ada', 'completed', ''],
+      ['Bob', 'https://bob.test', '', 'failed', 'Timed out'],
+    ]);
+  });
+
+  it('keeps source columns named like result columns and renames the generated ones', () => {
+    const table = buildMergedResultsTable(['website', 'opener', 'opener_status'], [
+      mergedRow(0, { website: 'https://acme.test', opener: 'Written by hand', opener_status: 'draft' }, { opener: 'Hi Acme' }),
+    ]);
+
+    expect(table.headers).toEqual([
+      'website', 'opener', 'opener_status', 'opener_generated', 'opener_status_generated', 'opener_error',
+    ]);
+    expect(table.rows).toEqual([
+      ['https://acme.test', 'Written by hand', 'draft', 'Hi Acme', 'completed', ''],
+    ]);
+  });
+
+  it('falls back to the stored row keys when the job has no recorded columns', () => {
+    const table = buildMergedResultsTable([], [mergedRow(0, { website: 'https://acme.test' }, { opener: 'Hi' })]);
+
+    expect(table.headers).toEqual(['website', 'opener', 'opener_status', 'opener_error']);
+  });
+});
+
+describe('appendVariantColumns', () => {
+  it('renames variant columns the file already uses', () => {
+    const table = buildMergedResultsTable(['website', 'opener_1'], [
+      mergedRow(0, { website: 'https://acme.test', opener_1: 'Old' }, { opener: 'B' }),
+    ]);
+    const variants = new Map<string, UrlVariantRecord[]>([
+      ['url-0', [
+        { variant_index: 1, opener: 'A', is_preferred: false },
+        { variant_index: 2, opener: 'B', is_preferred: true },
+      ] as UrlVariantRecord[]],
+    ]);
+
+    const withVariants = appendVariantColumns(table, ['url-0'], variants, 2);
+
+    expect(withVariants.headers.slice(-3)).toEqual(['opener_1_generated', 'opener_2', 'opener_variant']);
+    expect(withVariants.rows[0].slice(-3)).toEqual(['A', 'B', 'B']);
+    expect(withVariants.rows[0][1]).toBe('Old');
+  });
+});
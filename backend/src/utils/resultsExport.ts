@@ -0,0 +1,184 @@
+import ExcelJS from 'exceljs';
+import { MergedResultRow, ReviewStatus, UrlVariantRecord } from '../services/database';
+import { SourceFormat } from '../types';
+
+export type DownloadMode = 'results' | 'merged';
+
+export type ExportFormat = SourceFormat | 'json' | 'jsonl';
+
+export interface ResultsTable {
+  headers: string[];
+  rows: unknown[][];
+}
+
+export interface SerializedResults {
+  content: string | Buffer;
+  contentType: string;
+  extension: string;
+}
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'tsv', 'xlsx', 'json', 'jsonl'];
+
+// Columns appended to the original file in merged downloads
+export const MERGED_RESULT_COLUMNS = ['opener', 'opener_status', 'opener_error'];
+
+export function parseDownloadMode(value: unknown): DownloadMode {
+  return value === 'merged' ? 'merged' : 'results';
+}
+
+export const REVIEW_STATUSES: ReviewStatus[] = ['pending', 'needs_review', 'approved', 'rejected'];
+
+// `?review=approved` limits results and downloads to rows in that review state
+export function parseReviewFilter(value: unknown): ReviewStatus | undefined {
+  return REVIEW_STATUSES.includes(value as ReviewStatus) ? value as ReviewStatus : undefined;
+}
+
+// Unknown or missing formats fall back to the format the job was uploaded in
+export function parseExportFormat(value: unknown, fallback: ExportFormat): ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat) ? value as ExportFormat : fallback;
+}
+
+export function escapeCSVField(field: unknown): string {
+  return `"${(field ?? '').toString().replace(/"/g, '""')}"`;
+}
+
+export function toDelimited(rows: unknown[][], delimiter: string): string {
+  return rows.map(row => row.map(escapeCSVField).join(delimiter)).join('\n');
+}
+
+export function toCSV(rows: unknown[][]): string {
+  return toDelimited(rows, ',');
+}
+
+function toRecords(table: ResultsTable): Array<Record<string, unknown>> {
+  return table.rows.map(row =>
+    Object.fromEntries(table.headers.map((header, index) => [header, row[index] ?? '']))
+  );
+}
+
+export async function serializeResults(
+  table: ResultsTable,
+  format: ExportFormat,
+  sheetName: string = 'Results'
+): Promise<SerializedResults> {
+  switch (format) {
+    case 'tsv':
+      return {
+        content: toDelimited([table.headers, ...table.rows], '\t'),
+        contentType: 'text/tab-separated-values',
+        extension: 'tsv',
+      };
+    case 'json':
+      return {
+        content: JSON.stringify(toRecords(table), null, 2),
+        contentType: 'application/json',
+        extension: 'json',
+      };
+    case 'jsonl':
+      return {
+        content: toRecords(table).map(record => JSON.stringify(record)).join('\n'),
+        contentType: 'application/x-ndjson',
+        extension: 'jsonl',
+      };
+    case 'xlsx': {
+      const workbook = new ExcelJS.Workbook();
+      const worksheet = workbook.addWorksheet(sheetName);
+      worksheet.addRow(table.headers);
+      worksheet.addRows(table.rows.map(row => row.map(value => value ?? '')));
+      return {
+        content: Buffer.from(await workbook.xlsx.writeBuffer()),
+        contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        extension: 'xlsx',
+      };
+    }
+    default:
+      return {
+        content: toCSV([table.headers, ...table.rows]),
+        contentType: 'text/csv',
+        extension: 'csv',
+      };
+  }
+}
+
+// Download file name: the uploaded name with its extension swapped for the export format
+export function resultsFileName(fileName: string, extension: string): string {
+  return `${fileName.replace(/\.(csv|tsv|xlsx)$/i, '')}_results.${extension}`;
+}
+
+/**
+ * Name for a generated column that doesn't clash with the table's columns: the
+ * name itself, or with `_generated` (then `_generated_2`, ...) appended when the
+ * uploaded file already has a column called that.
+ */
+export function generatedColumnName(name: string, taken: string[]): string {
+  if (!taken.includes(name)) {
+    return name;
+  }
+
+  let candidate = `${name}_generated`;
+  for (let suffix = 2; taken.includes(candidate); suffix++) {
+    candidate = `${name}_generated_${suffix}`;
+  }
+  return candidate;
+}
+
+function appendGeneratedColumns(headers: string[], names: string[]): string[] {
+  return names.reduce((taken, name) => [...taken, generatedColumnName(name, taken)], headers);
+}
+
+// Variants are labelled A, B, C... for A/B testing
+export function variantLabel(variantIndex: number): string {
+  return String.fromCharCode(64 + variantIndex);
+}
+
+/**
+ * Append `opener_1`..`opener_n` and the label of the starred variant to a table
+ * whose rows are in the order of `rowIds`. The starred opener stays in `opener`.
+ */
+export function appendVariantColumns(
+  table: ResultsTable,
+  rowIds: string[],
+  variants: Map<string, UrlVariantRecord[]>,
+  count: number
+): ResultsTable {
+  const indexes = Array.from({ length: count }, (_, index) => index + 1);
+  const headers = appendGeneratedColumns(table.headers, [...indexes.map(index => `opener_${index}`), 'opener_variant']);
+
+  const rows = table.rows.map((row, rowIndex) => {
+    const rowVariants = variants.get(rowIds[rowIndex]) || [];
+    const preferred = rowVariants.find(variant => variant.is_preferred);
+    return [
+      ...row,
+      ...indexes.map(index => rowVariants.find(variant => variant.variant_index === index)?.opener || ''),
+      preferred ? variantLabel(preferred.variant_index) : '',
+    ];
+  });
+
+  return { headers, rows };
+}
+
+/**
+ * The original file with the generated opener columns appended, keeping every
+ * original column and the row order. Generated columns whose name the file
+ * already uses get a `_generated` suffix.
+ */
+export function buildMergedResultsTable(columns: string[], rows: MergedResultRow[]): ResultsTable {
+  // Older jobs did not record their header order, fall back to the stored row keys
+  const sourceColumns = columns.length > 0
+    ? columns
+    : Object.keys(rows.find(row => row.original_data)?.original_data || {});
+
+  const headers = appendGeneratedColumns(sourceColumns, MERGED_RESULT_COLUMNS);
+
+  const body = rows.map(row => {
+    const originalData = row.original_data || {};
+    return [
+      ...sourceColumns.map(column => originalData[column] ?? ''),
+      row.opener || '',
+      row.status,
+      row.error || '',
+    ];
+  });
+
+  return { headers, rows: body };
+}
@@ -0,0 +1,65 @@
+import { looksLikeUrl } from './columnMapping';
+
+// Why a row is kept as `skipped` instead of being sent to the AI service
+export type SkipReason = 'empty_url' | 'email_address' | 'invalid_url';
+
+export const SKIP_REASON_MESSAGES: Record<SkipReason, string> = {
+  empty_url: 'The URL column is empty',
+  email_address: 'The URL column holds an e-mail address',
+  invalid_url: 'The URL column does not hold a valid URL',
+};
+
+// Examples kept per report, so a file full of bad rows doesn't produce a huge response
+const MAX_EXAMPLES = 10;
+
+export interface ValidationExample {
+  rowIndex: number;
+  value: string;
+  reason: SkipReason;
+}
+
+// What the URL column of an upload looked like, row by row
+export interface ValidationReport {
+  urlColumn: string;
+  totalRows: number;
+  validRows: number;
+  skippedRows: number;
+  reasons: Partial<Record<SkipReason, number>>;
+  // The first skipped rows, in file order
+  examples: ValidationExample[];
+}
+
+// Null when the value can be processed
+export function findSkipReason(value: string | undefined): SkipReason | null {
+  const trimmed = (value || '').trim();
+  if (!trimmed) {
+    return 'empty_url';
+  }
+  if (looksLikeUrl(trimmed)) {
+    return null;
+  }
+  return !/^https?:\/\//i.test(trimmed) && trimmed.includes('@') ? 'email_address' : 'invalid_url';
+}
+
+export function createValidationReport(urlColumn: string): ValidationReport {
+  return { urlColumn, totalRows: 0, validRows: 0, skippedRows: 0, reasons: {}, examples: [] };
+}
+
+export function recordRowValidation(
+  report: ValidationReport,
+  rowIndex: number,
+  value: string,
+  reason: SkipReason | null
+): void {
+  report.totalRows++;
+  if (!reason) {
+    report.validRows++;
+    return;
+  }
+
+  report.skippedRows++;
+  report.reasons[reason] = (report.reasons[reason] || 0) + 1;
+  if (report.examples.length < MAX_EXAMPLES) {
+    report.examples.push({ rowIndex, value, reason });
+  }
+}
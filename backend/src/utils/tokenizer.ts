@@ -0,0 +1,56 @@
+import { getEncoding, getEncodingNameForModel, Tiktoken, TiktokenEncoding, TiktokenModel } from 'js-tiktoken';
+import { PromptTemplate } from '../types';
+
+// Chat models wrap every message in a few tokens of framing, plus a few to prime the reply
+const TOKENS_PER_MESSAGE = 3;
+const TOKENS_PER_REPLY = 3;
+
+// Models tiktoken doesn't know fall back to the encoding shared by the GPT-3.5/GPT-4 family
+const FALLBACK_ENCODING: TiktokenEncoding = 'cl100k_base';
+
+// Hugging Face model names that aren't in tiktoken's model list
+const ENCODING_OVERRIDES: Record<string, TiktokenEncoding> = {
+  'distilgpt2': 'gpt2',
+  'gpt2': 'gpt2',
+};
+
+const encoders = new Map<TiktokenEncoding, Tiktoken>();
+
+function encodingNameFor(model: string): TiktokenEncoding {
+  if (ENCODING_OVERRIDES[model]) {
+    return ENCODING_OVERRIDES[model];
+  }
+  try {
+    return getEncodingNameForModel(model as TiktokenModel);
+  } catch {
+    return FALLBACK_ENCODING;
+  }
+}
+
+// Encoders hold large rank tables, so each one is built once and reused
+function encoderFor(model: string): Tiktoken {
+  const name = encodingNameFor(model);
+  let encoder = encoders.get(name);
+  if (!encoder) {
+    encoder = getEncoding(name);
+    encoders.set(name, encoder);
+  }
+  return encoder;
+}
+
+export function countTokens(text: string, model: string): number {
+  return text ? encoderFor(model).encode(text).length : 0;
+}
+
+// Prompt tokens of a system + user chat request, as billed by the chat completions API.
+// Pass a provider's own counter for models tiktoken can only approximate.
+export function countPromptTokens(
+  prompt: PromptTemplate,
+  model: string,
+  count: (text: string) => number = text => countTokens(text, model)
+): number {
+  return count(prompt.system)
+    + count(prompt.user)
+    + 2 * TOKENS_PER_MESSAGE
+    + TOKENS_PER_REPLY;
+}
@@ -72,3 +72,45 @@ export function extractUrlContext(url: string): {
   }
 }
 
+
+/**
+ * Canonical form of a URL used as a cache key: lower-case scheme and host,
+ * no fragment, no default port and no trailing slash.
+ */
+export function normalizeUrlKey(urlString: string): string {
+  try {
+    const url = new URL(normalizeUrl(urlString));
+    url.hash = '';
+    url.hostname = url.hostname.toLowerCase();
+
+    const path = url.pathname.replace(/\/+$/, '');
+    return `${url.protocol}//${url.host}${path}${url.search}`;
+  } catch {
+    return urlString.trim().toLowerCase();
+  }
+}
+
+// Query parameters that only record where a visit came from and never change the page
+const TRACKING_PARAMS = /^(utm_.+|gclid|dclid|gbraid|wbraid|fbclid|msclkid|yclid|igshid|mc_cid|mc_eid|_hsenc|_hsmi|li_fat_id)$/i;
+
+/**
+ * Key rows are deduplicated and openers cached by: normalizeUrlKey, without a
+ * leading www. or tracking parameters such as utm_source, so the same page
+ * linked from different campaigns counts once.
+ */
+export function urlDedupKey(urlString: string): string {
+  try {
+    const url = new URL(normalizeUrl(urlString));
+    url.hostname = url.hostname.toLowerCase().replace(/^www\./, '');
+
+    for (const name of Array.from(url.searchParams.keys())) {
+      if (TRACKING_PARAMS.test(name)) {
+        url.searchParams.delete(name);
+      }
+    }
+
+    return normalizeUrlKey(url.toString());
+  } catch {
+    return normalizeUrlKey(urlString);
+  }
+}
@@ -1,4 +1,4 @@
-import { AIServiceFactory } from '../services/aiServiceFactory';
+import { providerRegistry } from '../services/providers/registry';
 import { logger } from '../utils/logger';
 
 export interface ProcessedRow {
@@ -12,9 +12,9 @@ export const processCsvRow = async (row: any, jobId: string): Promise<ProcessedR
   try {
     logger.info(`Processing row for job ${jobId}:`, row);
     
-          const aiService = AIServiceFactory.getService();
+          const aiService = providerRegistry.get();
           // Process the row using AI service (OpenAI or Hugging Face)
-          const processed = await aiService.generateOpenerWithRetry(row.url, 'company');
+          const { opener: processed } = await aiService.generateOpenerWithRetry(row.url, 'company');
     
     return {
       original: row,
@@ -7,6 +7,7 @@ import {
   CardHeader,
   Button, 
   Chip,
+  Switch,
   Table,
   TableHeader,
   TableColumn,
@@ -14,15 +15,59 @@ import {
   TableRow,
   TableCell
 } from '@nextui-org/react'
-import { ArrowLeft, Play, Eye, EyeOff } from 'lucide-react'
-import { CSVRow, ContentType } from '@/types'
+import { ArrowLeft, Play, Eye, EyeOff, Settings } from 'lucide-react'
+import {
+  CSVRow,
+  ContentType,
+  PromptTemplateRecord,
+  ColumnCandidate,
+  ColumnMapping,
+  JobEstimate,
+  AIProviderSummary,
+  ProcessingMode,
+  SkipReason,
+  ValidationReport
+} from '@/types'
+import { formatDuration, SKIP_REASON_LABELS } from '@/lib'
 
 interface CSVPreviewProps {
   data: CSVRow[]
-  selectedColumn: string | null
+  columnCandidates: ColumnCandidate[]
+  columnMapping: ColumnMapping | null
+  isUploading: boolean
+  // Row count reported by the server, when it parsed more than the preview rows
+  totalRows?: number
+  // Rows the server will skip for the URL column it validated, null when not known yet
+  validation: ValidationReport | null
+  sheets: string[]
+  sheet: string | null
   contentType: ContentType
-  onColumnSelect: (column: string) => void
+  templates: PromptTemplateRecord[]
+  templateId: string | null
+  enrichPages: boolean
+  useCache: boolean
+  providers: AIProviderSummary[]
+  // null uses the server's default provider
+  providerId: string | null
+  // Whether the selected provider can run the job through its batch API
+  batchAvailable: boolean
+  processingMode: ProcessingMode
+  // Openers generated per row, and each variant's template (null for the selected prompt)
+  variantCount: number
+  variantTemplateIds: Array<string | null>
+  // Projected usage for the current settings, null while loading or unavailable
+  estimate: JobEstimate | null
+  onColumnMappingChange: (mapping: ColumnMapping) => void
+  onSheetChange: (sheet: string) => void
   onContentTypeSelect: (type: ContentType) => void
+  onTemplateSelect: (templateId: string | null) => void
+  onEnrichPagesChange: (enabled: boolean) => void
+  onUseCacheChange: (enabled: boolean) => void
+  onProviderSelect: (providerId: string | null) => void
+  onProcessingModeChange: (mode: ProcessingMode) => void
+  onVariantCountChange: (count: number) => void
+  onVariantTemplateIdsChange: (ids: Array<string | null>) => void
+  onManageTemplates: () => void
   onStartProcessing: () => void
   onBack: () => void
 }
@@ -35,10 +80,36 @@ const contentTypeOptions = [
 
 export function CSVPreview({ 
   data, 
-  selectedColumn, 
+  columnCandidates,
+  columnMapping,
+  isUploading,
+  totalRows,
+  validation,
+  sheets,
+  sheet,
   contentType, 
-  onColumnSelect, 
+  templates,
+  templateId,
+  enrichPages,
+  useCache,
+  providers,
+  providerId,
+  batchAvailable,
+  processingMode,
+  variantCount,
+  variantTemplateIds,
+  estimate,
+  onColumnMappingChange,
+  onSheetChange,
   onContentTypeSelect, 
+  onTemplateSelect,
+  onEnrichPagesChange,
+  onUseCacheChange,
+  onProviderSelect,
+  onProcessingModeChange,
+  onVariantCountChange,
+  onVariantTemplateIdsChange,
+  onManageTemplates,
   onStartProcessing, 
   onBack 
 }: CSVPreviewProps) {
@@ -53,11 +124,38 @@ export function CSVPreview({
     return showAllRows ? data : data.slice(0, 10)
   }, [data, showAllRows])
 
+  // Custom templates share the picker with the built-in content types
   const handleContentTypeChange = (value: string) => {
+    if (value.startsWith('template:')) {
+      onTemplateSelect(value.slice('template:'.length))
+      return
+    }
+    onTemplateSelect(null)
     onContentTypeSelect(value as ContentType)
   }
 
-  const canStartProcessing = Boolean(contentType) && data.length > 0
+  const pickerValue = templateId ? `template:${templateId}` : contentType
+
+  const mapping: ColumnMapping = columnMapping || { urlColumn: null, nameColumn: null, companyColumn: null }
+  const selectedUrlCandidate = columnCandidates.find(candidate => candidate.column === mapping.urlColumn)
+
+  // The report only describes the column the server validated
+  const currentValidation = validation && validation.urlColumn === mapping.urlColumn ? validation : null
+
+  const updateMapping = (field: keyof ColumnMapping, value: string) => {
+    onColumnMappingChange({ ...mapping, [field]: value || null })
+  }
+
+  const updateVariantTemplate = (index: number, value: string) => {
+    const ids = Array.from({ length: variantCount }, (_, position) => variantTemplateIds[position] || null)
+    ids[index] = value || null
+    onVariantTemplateIdsChange(ids)
+  }
+
+  const canStartProcessing = (Boolean(contentType) || Boolean(templateId)) &&
+    data.length > 0 &&
+    !isUploading &&
+    Boolean(mapping.urlColumn)
   
   const handleStartProcessingClick = () => {
     console.log('Start Processing button clicked!', { 
@@ -78,7 +176,7 @@ export function CSVPreview({
     dataLength: data.length, 
     canStartProcessing,
     onStartProcessing: typeof onStartProcessing,
-    selectedColumn 
+    columnMapping 
   })
 
   return (
@@ -100,7 +198,7 @@ export function CSVPreview({
             <div className="min-w-0 flex-1">
               <h2 className="text-xl sm:text-2xl font-bold text-foreground">Preview & Configure</h2>
               <p className="text-sm sm:text-base text-foreground/70 font-medium">
-                {data.length} rows found • Select content type to start processing
+                {totalRows ?? data.length} rows found • Confirm the columns and select content type to start processing
               </p>
             </div>
           </div>
@@ -110,18 +208,150 @@ export function CSVPreview({
         <div className="px-4 sm:px-6 py-4 sm:py-6 border-b border-divider/30">
           <div className="max-w-4xl">
             <h3 className="text-lg font-semibold text-foreground mb-4">Configuration</h3>
+
+            {/* Sheet Selection for multi-sheet workbooks */}
+            {sheets.length > 1 && (
+              <div className="mb-4 max-w-sm">
+                <label htmlFor="sheet-select" className="block text-sm font-medium text-foreground/70 mb-2">
+                  Sheet
+                </label>
+                <select
+                  id="sheet-select"
+                  value={sheet || ''}
+                  onChange={(e) => onSheetChange(e.target.value)}
+                  disabled={isUploading}
+                  className="w-full px-4 py-3 bg-background text-foreground font-medium focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary cursor-pointer"
+                  aria-label="Select the workbook sheet to process"
+                >
+                  {sheets.map((name) => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {/* Column Mapping */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+              <div>
+                <label htmlFor="url-column-select" className="block text-sm font-medium text-foreground/70 mb-2">
+                  URL Column
+                </label>
+                <select
+                  id="url-column-select"
+                  value={mapping.urlColumn || ''}
+                  onChange={(e) => updateMapping('urlColumn', e.target.value)}
+                  disabled={isUploading || columnCandidates.length === 0}
+                  className="w-full px-4 py-3 bg-background text-foreground font-medium focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary cursor-pointer"
+                  aria-label="Select the column containing URLs"
+                >
+                  <option value="">
+                    {isUploading ? 'Analyzing columns...' : 'Choose the URL column'}
+                  </option>
+                  {columnCandidates.map((candidate) => (
+                    <option key={candidate.column} value={candidate.column}>
+                      {candidate.column} ({Math.round(candidate.urlValidity * 100)}% URLs)
+                    </option>
+                  ))}
+                </select>
+                {selectedUrlCandidate && selectedUrlCandidate.sampleValues.length > 0 && (
+                  <p className="text-xs text-foreground/60 mt-1 truncate" title={selectedUrlCandidate.sampleValues.join(', ')}>
+                    e.g. {selectedUrlCandidate.sampleValues.join(', ')}
+                  </p>
+                )}
+                {!isUploading && columnCandidates.length > 0 && !mapping.urlColumn && (
+                  <p className="text-xs text-warning mt-1">
+                    No column looks like URLs. Please choose one.
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="name-column-select" className="block text-sm font-medium text-foreground/70 mb-2">
+                  Name Column (optional)
+                </label>
+                <select
+                  id="name-column-select"
+                  value={mapping.nameColumn || ''}
+                  onChange={(e) => updateMapping('nameColumn', e.target.value)}
+                  disabled={isUploading || columnCandidates.length === 0}
+                  className="w-full px-4 py-3 bg-background text-foreground font-medium focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary cursor-pointer"
+                  aria-label="Select the column containing names"
+                >
+                  <option value="">None</option>
+                  {columns.map((column) => (
+                    <option key={column} value={column}>{column}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-foreground/60 mt-1">Available to templates as {'{{name}}'}</p>
+              </div>
+
+              <div>
+                <label htmlFor="company-column-select" className="block text-sm font-medium text-foreground/70 mb-2">
+                  Company Column (optional)
+                </label>
+                <select
+                  id="company-column-select"
+                  value={mapping.companyColumn || ''}
+                  onChange={(e) => updateMapping('companyColumn', e.target.value)}
+                  disabled={isUploading || columnCandidates.length === 0}
+                  className="w-full px-4 py-3 bg-background text-foreground font-medium focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary cursor-pointer"
+                  aria-label="Select the column containing company names"
+                >
+                  <option value="">None</option>
+                  {columns.map((column) => (
+                    <option key={column} value={column}>{column}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-foreground/60 mt-1">Available to templates as {'{{company}}'}</p>
+              </div>
+            </div>
+
+            {/* Rows without a usable URL are kept in the results but not processed */}
+            {currentValidation && currentValidation.skippedRows > 0 && (
+              <div className="mb-6 p-4 rounded-lg bg-warning/10 border border-warning/30">
+                <p className="text-sm font-medium text-foreground">
+                  {currentValidation.skippedRows} of {currentValidation.totalRows} rows will be skipped
+                </p>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {(Object.entries(currentValidation.reasons) as Array<[SkipReason, number]>).map(([reason, count]) => (
+                    <Chip key={reason} size="sm" variant="flat" color="warning">
+                      {SKIP_REASON_LABELS[reason]}: {count}
+                    </Chip>
+                  ))}
+                </div>
+                <ul className="text-xs text-foreground/60 mt-2 space-y-1">
+                  {currentValidation.examples.map((example) => (
+                    <li key={example.rowIndex} className="truncate">
+                      Row {example.rowIndex + 1}: {example.value ? `"${example.value}"` : '(empty)'} - {SKIP_REASON_LABELS[example.reason]}
+                    </li>
+                  ))}
+                </ul>
+                <p className="text-xs text-foreground/60 mt-2">Skipped rows stay in the download with the reason in the error column.</p>
+              </div>
+            )}
             
             {/* Responsive layout: stacked on mobile, side-by-side on larger screens */}
             <div className="flex flex-col lg:flex-row gap-4 lg:gap-6 items-start lg:items-end">
               {/* Content Type Dropdown */}
               <div className="flex-1 w-full lg:w-auto min-w-0">
-                <label htmlFor="content-type-select" className="block text-sm font-medium text-foreground/70 mb-2">
-                  Content Type
-                </label>
+                <div className="flex items-center justify-between mb-2">
+                  <label htmlFor="content-type-select" className="block text-sm font-medium text-foreground/70">
+                    Content Type / Prompt Template
+                  </label>
+                  <Button
+                    size="sm"
+                    variant="light"
+                    startContent={<Settings className="w-4 h-4" />}
+                    onPress={onManageTemplates}
+                    aria-label="Manage prompt templates"
+                  >
+                    Manage Templates
+                  </Button>
+                </div>
                 <div className="relative">
                   <select
                     id="content-type-select"
-                    value={contentType}
+                    value={pickerValue}
                     onChange={(e) => handleContentTypeChange(e.target.value)}
                     className="w-full px-4 py-3 bg-background text-foreground font-medium focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary appearance-none cursor-pointer"
                     aria-label="Select content type for processing"
@@ -129,11 +359,22 @@ export function CSVPreview({
                     <option value="">
                       Choose the type of content
                     </option>
-                    {contentTypeOptions.map((option) => (
-                      <option key={option.key} value={option.key}>
-                        {option.label} - {option.description}
-                      </option>
-                    ))}
+                    <optgroup label="Built-in prompts">
+                      {contentTypeOptions.map((option) => (
+                        <option key={option.key} value={option.key}>
+                          {option.label} - {option.description}
+                        </option>
+                      ))}
+                    </optgroup>
+                    {templates.length > 0 && (
+                      <optgroup label="Custom templates">
+                        {templates.map((template) => (
+                          <option key={template.id} value={`template:${template.id}`}>
+                            {template.name} (v{template.version})
+                          </option>
+                        ))}
+                      </optgroup>
+                    )}
                   </select>
                   {/* Custom dropdown arrow */}
                   <div className="absolute top-[18px] right-0 flex items-center pr-3 pointer-events-none">
@@ -145,7 +386,7 @@ export function CSVPreview({
               </div>
 
               {/* Start Processing Button */}
-              {contentType && (
+              {(contentType || templateId) && (
                 <div className="w-full lg:w-auto lg:flex-shrink-0">
                   <Button
                     color="primary"
@@ -161,6 +402,137 @@ export function CSVPreview({
                 </div>
               )}
               </div>
+
+            <div className="mt-4">
+              <Switch
+                size="sm"
+                isSelected={enrichPages}
+                onValueChange={onEnrichPagesChange}
+                aria-label="Fetch page content before generating"
+              >
+                Fetch page content before generating
+              </Switch>
+              <p className="text-xs text-foreground/60 mt-1">
+                Reads each page's title, description and main text so openers can reference it. Slower, respects robots.txt.
+              </p>
+            </div>
+
+            <div className="mt-4">
+              <Switch
+                size="sm"
+                isSelected={useCache}
+                onValueChange={onUseCacheChange}
+                aria-label="Reuse openers from earlier jobs"
+              >
+                Reuse openers from earlier jobs
+              </Switch>
+              <p className="text-xs text-foreground/60 mt-1">
+                Rows whose URL was already generated with the same template and model get that opener for free. Duplicate rows in this file are always generated once.
+              </p>
+            </div>
+
+            {providers.length > 1 && (
+              <div className="mt-4 max-w-md">
+                <label htmlFor="provider-select" className="block text-sm font-medium text-foreground/70 mb-2">
+                  AI Provider
+                </label>
+                <select
+                  id="provider-select"
+                  value={providerId || ''}
+                  onChange={(e) => onProviderSelect(e.target.value || null)}
+                  className="w-full px-4 py-2 bg-background text-foreground text-sm rounded-lg border border-divider focus:outline-none focus:ring-2 focus:ring-primary/50 cursor-pointer"
+                  aria-label="Select the AI provider for this job"
+                >
+                  <option value="">
+                    Server default ({providers.find(provider => provider.isDefault)?.id || 'auto'})
+                  </option>
+                  {providers.map((provider) => (
+                    <option key={provider.id} value={provider.id}>
+                      {provider.id} - {provider.model}
+                      {provider.circuit?.state === 'open' ? ' (unavailable, recent failures)' : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div className="mt-4 max-w-md">
+              <label htmlFor="variant-count-select" className="block text-sm font-medium text-foreground/70 mb-2">
+                Openers per row
+              </label>
+              <select
+                id="variant-count-select"
+                value={variantCount}
+                onChange={(e) => onVariantCountChange(Number(e.target.value))}
+                className="w-full px-4 py-2 bg-background text-foreground text-sm rounded-lg border border-divider focus:outline-none focus:ring-2 focus:ring-primary/50 cursor-pointer"
+                aria-label="Number of opener variants per row"
+              >
+                {[1, 2, 3, 4, 5].map((count) => (
+                  <option key={count} value={count}>
+                    {count === 1 ? '1 opener' : `${count} variants (A/B)`}
+                  </option>
+                ))}
+              </select>
+              {variantCount > 1 && (
+                <div className="mt-2 space-y-2">
+                  {Array.from({ length: variantCount }, (_, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <span className="w-16 text-xs font-medium text-foreground/70">
+                        Variant {String.fromCharCode(65 + index)}
+                      </span>
+                      <select
+                        value={variantTemplateIds[index] || ''}
+                        onChange={(e) => updateVariantTemplate(index, e.target.value)}
+                        className="flex-1 px-3 py-1 bg-background text-foreground text-xs rounded-lg border border-divider focus:outline-none focus:ring-2 focus:ring-primary/50 cursor-pointer"
+                        aria-label={`Template for variant ${String.fromCharCode(65 + index)}`}
+                      >
+                        <option value="">Selected prompt</option>
+                        {templates.map((template) => (
+                          <option key={template.id} value={template.id}>
+                            {template.name} (v{template.version})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                  <p className="text-xs text-foreground/60">
+                    Each variant is a separate request. Star the one to export on the job page.
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {batchAvailable && (
+              <div className="mt-4">
+                <Switch
+                  size="sm"
+                  isSelected={processingMode === 'batch'}
+                  onValueChange={(enabled) => onProcessingModeChange(enabled ? 'batch' : 'realtime')}
+                  aria-label="Process with the batch API"
+                >
+                  Process with the batch API
+                </Switch>
+                <p className="text-xs text-foreground/60 mt-1">
+                  Half the cost for large jobs that can wait. Results arrive within 24 hours instead of streaming in.
+                </p>
+              </div>
+            )}
+
+            {estimate && (
+              <div className="mt-4 text-sm text-foreground/70">
+                <span className="font-medium text-foreground">Estimate:</span>{' '}
+                {estimate.rowsToProcess} URLs
+                {estimate.variants > 1 && <> × {estimate.variants} variants</>}
+                {(estimate.urls.duplicate > 0 || estimate.urls.invalid > 0) && (
+                  <> ({estimate.urls.duplicate} duplicate, {estimate.urls.invalid} invalid)</>
+                )}
+                {' · '}~{estimate.tokens.total.toLocaleString()} tokens
+                {' · '}{estimate.cost !== null ? `~$${estimate.cost.toFixed(2)}` : `no pricing for ${estimate.model}`}
+                {' · '}{estimate.mode === 'batch'
+                  ? `within ${formatDuration(estimate.time.estimatedSeconds)}`
+                  : `~${formatDuration(estimate.time.estimatedSeconds)}`}
+              </div>
+            )}
           </div>
         </div>
       </Card>
@@ -10,7 +10,14 @@ import {
 } from '@nextui-org/react'
 import { Upload, FileText, AlertCircle } from 'lucide-react'
 import Papa from 'papaparse'
-import { CSVRow } from '@/types'
+import { CSVRow, CSVUploadResponse, UploadPartProgress } from '@/types'
+import { UPLOAD_EXTENSIONS, UPLOAD_LIMITS, formatFileSize, uploadService } from '@/lib'
+
+// Files sent in parts are only previewed from their first rows here; the server parses the rest
+const PART_UPLOAD_PREVIEW_BYTES = 1024 * 1024
+const PART_UPLOAD_PREVIEW_ROWS = 100
+// Above this many parts the per-part grid gets too dense to read
+const MAX_PART_CELLS = 120
 
 // Detect CSV delimiter by analyzing the content
 function detectDelimiter(content: string): string {
@@ -49,44 +56,78 @@ function isValidUrl(url: string): boolean {
 }
 
 interface CSVUploaderProps {
-  onUpload: (data: CSVRow[], fileName: string) => void
+  // Rows are parsed in the browser for CSV/TSV; workbooks arrive with no rows and are parsed on the server.
+  // Files too large for one request are uploaded here in parts and arrive with the server's response.
+  onUpload: (data: CSVRow[], fileName: string, file: File, uploaded?: CSVUploadResponse) => void
 }
 
 export function CSVUploader({ onUpload }: CSVUploaderProps) {
   const [isDragOver, setIsDragOver] = useState(false)
   const [isUploading, setIsUploading] = useState(false)
   const [uploadProgress, setUploadProgress] = useState(0)
+  const [partProgress, setPartProgress] = useState<UploadPartProgress | null>(null)
   const [error, setError] = useState<string | null>(null)
 
+  // Send the file through a resumable session, then hand the rows over with the server's response
+  const uploadInParts = useCallback(async (data: CSVRow[], file: File) => {
+    try {
+      const response = await uploadService.uploadInParts(file, { onProgress: setPartProgress })
+      onUpload(data, file.name, file, response)
+    } catch (err) {
+      console.error('Part upload error:', err)
+      setError(err instanceof Error ? err.message : 'Failed to upload file')
+    } finally {
+      setPartProgress(null)
+      setIsUploading(false)
+    }
+  }, [onUpload])
+
   const handleFile = useCallback(async (file: File) => {
     if (!file) return
 
     // Validate file type
-    if (!file.name.toLowerCase().endsWith('.csv')) {
-      setError('Please upload a CSV file')
+    const fileName = file.name.toLowerCase()
+    if (!UPLOAD_EXTENSIONS.some(extension => fileName.endsWith(extension))) {
+      setError('Please upload a CSV, TSV or Excel (.xlsx) file')
       return
     }
 
-    // Validate file size (10MB limit)
-    if (file.size > 10 * 1024 * 1024) {
-      setError('File size must be less than 10MB')
+    if (file.size > UPLOAD_LIMITS.maxBytes) {
+      setError(`File size must be less than ${formatFileSize(UPLOAD_LIMITS.maxBytes)}`)
       return
     }
+    const inParts = file.size > UPLOAD_LIMITS.singleRequestBytes
 
     setIsUploading(true)
     setError(null)
     setUploadProgress(0)
 
+    // Excel workbooks can't be read here; the server parses them and returns a preview
+    if (fileName.endsWith('.xlsx')) {
+      if (inParts) {
+        await uploadInParts([], file)
+        return
+      }
+      setUploadProgress(100)
+      onUpload([], file.name, file)
+      setIsUploading(false)
+      return
+    }
+
     try {
-      const text = await file.text()
+      // Large files are only checked on their first rows, cut at the last complete line
+      const text = inParts
+        ? (await file.slice(0, PART_UPLOAD_PREVIEW_BYTES).text()).replace(/[^\n]*$/, '')
+        : await file.text()
       
       // Detect delimiter
-      const delimiter = detectDelimiter(text)
+      const delimiter = fileName.endsWith('.tsv') ? '\t' : detectDelimiter(text)
       
       Papa.parse(text, {
         header: true,
         skipEmptyLines: true,
         delimiter: delimiter,
+        preview: inParts ? PART_UPLOAD_PREVIEW_ROWS : 0,
         complete: (results) => {
           if (results.errors.length > 0) {
             setError(`CSV parsing error: ${results.errors[0].message}`)
@@ -126,9 +167,14 @@ export function CSVUploader({ onUpload }: CSVUploaderProps) {
             return
           }
 
+          if (inParts) {
+            uploadInParts(results.data as CSVRow[], file)
+            return
+          }
+
           setUploadProgress(100)
           setTimeout(() => {
-            onUpload(results.data as CSVRow[], file.name)
+            onUpload(results.data as CSVRow[], file.name, file)
             setIsUploading(false)
           }, 500)
         },
@@ -141,7 +187,7 @@ export function CSVUploader({ onUpload }: CSVUploaderProps) {
       setError('Failed to read file')
       setIsUploading(false)
     }
-  }, [onUpload])
+  }, [onUpload, uploadInParts])
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault()
@@ -183,7 +229,7 @@ export function CSVUploader({ onUpload }: CSVUploaderProps) {
           <div>
             <h2 className="text-3xl font-bold mb-3 text-foreground">Upload CSV File</h2>
             <p className="text-foreground/70 text-lg">
-              Upload a CSV file containing URLs to generate professional outreach openers
+              Upload a CSV, TSV or Excel file containing URLs to generate professional outreach openers
             </p>
           </div>
 
@@ -207,7 +253,45 @@ export function CSVUploader({ onUpload }: CSVUploaderProps) {
               }
             }}
           >
-            {isUploading ? (
+            {isUploading && partProgress ? (
+              <div className="space-y-4 text-center w-full">
+                <Progress 
+                  value={partProgress.totalBytes > 0 ? (partProgress.uploadedBytes / partProgress.totalBytes) * 100 : 0} 
+                  className="max-w-md mx-auto"
+                  color="primary"
+                  aria-label={`Uploaded ${partProgress.uploadedParts.length} of ${partProgress.partCount} parts`}
+                />
+                <p className="text-sm text-default-500">
+                  {partProgress.uploadedParts.length === partProgress.partCount
+                    ? 'All parts uploaded, preparing the file...'
+                    : `Uploading part ${partProgress.currentPart ?? partProgress.uploadedParts.length + 1} of ${partProgress.partCount}`}
+                  {' • '}
+                  {formatFileSize(partProgress.uploadedBytes)} of {formatFileSize(partProgress.totalBytes)}
+                </p>
+                {partProgress.retryingIn !== null && (
+                  <p className="text-sm text-warning">
+                    Connection lost, resuming in {partProgress.retryingIn}s...
+                  </p>
+                )}
+                {partProgress.partCount <= MAX_PART_CELLS && (
+                  <div className="flex flex-wrap justify-center gap-1 max-w-md mx-auto" aria-hidden="true">
+                    {Array.from({ length: partProgress.partCount }, (_, index) => index + 1).map(partNumber => (
+                      <span
+                        key={partNumber}
+                        title={`Part ${partNumber}`}
+                        className={`w-2.5 h-2.5 rounded-sm ${
+                          partProgress.uploadedParts.includes(partNumber)
+                            ? 'bg-success'
+                            : partNumber === partProgress.currentPart
+                              ? (partProgress.retryingIn !== null ? 'bg-warning' : 'bg-primary animate-pulse')
+                              : 'bg-default-200'
+                        }`}
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+            ) : isUploading ? (
               <div className="space-y-4 text-center">
                 <Progress 
                   value={uploadProgress} 
@@ -236,7 +320,7 @@ export function CSVUploader({ onUpload }: CSVUploaderProps) {
                 <input
                   id="file-input"
                   type="file"
-                  accept=".csv"
+                  accept={UPLOAD_EXTENSIONS.join(',')}
                   onChange={handleFileInput}
                   className="hidden"
                   aria-label="CSV file input"
@@ -259,7 +343,7 @@ export function CSVUploader({ onUpload }: CSVUploaderProps) {
             <div className="space-y-1 text-sm text-default-600">
               <div className="flex items-center gap-2">
                 <Chip size="sm" color="success" variant="flat">✓</Chip>
-                <span>CSV format with headers</span>
+                <span>CSV, TSV or Excel (.xlsx) format with headers</span>
               </div>
               <div className="flex items-center gap-2">
                 <Chip size="sm" color="success" variant="flat">✓</Chip>
@@ -267,7 +351,7 @@ export function CSVUploader({ onUpload }: CSVUploaderProps) {
               </div>
               <div className="flex items-center gap-2">
                 <Chip size="sm" color="success" variant="flat">✓</Chip>
-                <span>Maximum file size: 10MB</span>
+                <span>Maximum file size: {formatFileSize(UPLOAD_LIMITS.maxBytes)}; files over {formatFileSize(UPLOAD_LIMITS.singleRequestBytes)} upload in parts and resume after a dropped connection</span>
               </div>
               <div className="flex items-center gap-2">
                 <Chip size="sm" color="success" variant="flat">✓</Chip>
@@ -21,6 +21,9 @@ import {
   ModalHeader,
   ModalBody,
   ModalFooter,
+  Input,
+  Textarea,
+  Checkbox,
   useDisclosure
 } from '@nextui-org/react'
 import { 
@@ -30,12 +33,38 @@ import {
   CheckCircle,
   XCircle,
   AlertCircle,
+  MinusCircle,
   Play,
   ArrowLeft,
-  Eye
+  Eye,
+  Star,
+  Pencil,
+  Check,
+  X,
+  Undo2,
+  History,
+  Wand2
 } from 'lucide-react'
-import { jobService } from '@/services'
+import { apiClient, jobService } from '@/services'
 import { useJobManagementSSE } from '@/hooks'
+import { EXPORT_FORMATS } from '@/lib'
+import { ApiError } from '@/services'
+import {
+  BatchSummary,
+  ExportFormat,
+  JobQuality,
+  OpenerHistory,
+  QualityIssue,
+  ProcessingMode,
+  ResultSource,
+  ReuseSummary,
+  ReviewedUrl,
+  ReviewStatus,
+  SkipReason,
+  SourceFormat,
+  StopReason,
+  UrlVariant
+} from '@/types'
 
 interface Job {
   id: string
@@ -44,6 +73,17 @@ interface Job {
   total_rows: number
   processed_rows: number
   failed_rows: number
+  skipped_rows?: number
+  source_format?: SourceFormat
+  provider_id?: string | null
+  total_prompt_tokens?: number
+  total_completion_tokens?: number
+  total_cost?: number
+  budget?: number | null
+  stop_reason?: StopReason | null
+  processing_mode?: ProcessingMode
+  variant_count?: number
+  use_cache?: boolean
   created_at: string
   updated_at: string
   progress: string
@@ -52,12 +92,30 @@ interface Job {
 interface JobResult {
   id: string
   url: string
-  status: 'completed' | 'failed'
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'skipped'
+  skip_reason?: SkipReason | null
   opener?: string
   error?: string
   retry_count: number
+  provider_id?: string | null
+  prompt_tokens?: number | null
+  completion_tokens?: number | null
+  cost?: number | null
+  variants?: UrlVariant[]
+  review_status?: ReviewStatus
+  opener_original?: string | null
+  opener_edited?: string | null
+  reviewed_by?: string | null
+  reviewed_at?: string | null
+  instruction?: string | null
+  quality_issues?: QualityIssue[] | null
+  quality_regenerations?: number
+  duplicate_of?: string | null
+  result_source?: ResultSource | null
 }
 
+type ReviewFilter = 'all' | ReviewStatus | 'edited'
+
 export default function JobDetailsPage() {
   const params = useParams()
   const router = useRouter()
@@ -67,7 +125,26 @@ export default function JobDetailsPage() {
   const [results, setResults] = useState<JobResult[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [downloadFormat, setDownloadFormat] = useState<ExportFormat | null>(null)
+  // Shown next to the job status, unlike `error` which replaces the page
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [budgetInput, setBudgetInput] = useState('')
+  const [savingBudget, setSavingBudget] = useState(false)
+  const [batches, setBatches] = useState<BatchSummary[]>([])
+  const [reviewFilter, setReviewFilter] = useState<ReviewFilter>('all')
+  const [approvedOnly, setApprovedOnly] = useState(false)
+  // Row whose opener is being edited, and the text being edited
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editText, setEditText] = useState('')
+  // Rows selected for regeneration, and the optional instruction to steer them by
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [instruction, setInstruction] = useState('')
+  const [regenerating, setRegenerating] = useState(false)
+  const [history, setHistory] = useState<OpenerHistory | null>(null)
+  const [quality, setQuality] = useState<JobQuality | null>(null)
+  const [reuse, setReuse] = useState<ReuseSummary | null>(null)
   const { isOpen: isRetryModalOpen, onOpen: onRetryModalOpen, onClose: onRetryModalClose } = useDisclosure()
+  const { isOpen: isHistoryModalOpen, onOpen: onHistoryModalOpen, onClose: onHistoryModalClose } = useDisclosure()
 
   // Use SSE for real-time updates
   const { jobProgress, isConnected, error: sseError, refreshConnections } = useJobManagementSSE(jobId ? [jobId] : [])
@@ -83,7 +160,13 @@ export default function JobDetailsPage() {
           status: progress.status,
           processed_rows: progress.progress.completed,
           failed_rows: progress.progress.failed,
-          progress: `${progress.progress.completed}/${progress.progress.total}`
+          progress: `${progress.progress.completed}/${progress.progress.total}`,
+          ...(progress.stopReason && { stop_reason: progress.stopReason }),
+          ...(progress.cost && {
+            total_prompt_tokens: progress.cost.promptTokens,
+            total_completion_tokens: progress.cost.completionTokens,
+            total_cost: progress.cost.estimatedCost
+          })
         }
       })
     }
@@ -93,19 +176,32 @@ export default function JobDetailsPage() {
     if (jobId) {
       fetchJobDetails()
       fetchResults()
+      fetchQuality()
+      fetchReuse()
     }
   }, [jobId])
 
+  useEffect(() => {
+    if (job?.processing_mode === 'batch') {
+      fetchBatches()
+    }
+  }, [job?.processing_mode])
+
   // Real-time results updates during processing
   useEffect(() => {
     if (!job || job.status !== 'processing') return
 
     const interval = setInterval(() => {
       fetchResults()
+      fetchQuality()
+      fetchReuse()
+      if (job.processing_mode === 'batch') {
+        fetchBatches()
+      }
     }, 2000) // Poll every 2 seconds during processing
 
     return () => clearInterval(interval)
-  }, [job?.status])
+  }, [job?.status, job?.processing_mode])
 
   const fetchJobDetails = async () => {
     try {
@@ -114,6 +210,7 @@ export default function JobDetailsPage() {
       const jobData = data.find((j: Job) => j.id === jobId)
       if (jobData) {
         setJob(jobData)
+        setBudgetInput(jobData.budget ? String(jobData.budget) : '')
       } else {
         setError('Job not found')
       }
@@ -126,7 +223,7 @@ export default function JobDetailsPage() {
 
   const fetchResults = async () => {
     try {
-      const response = await fetch(`/api/jobs/${jobId}/results`)
+      const response = await fetch(`/api/jobs/${jobId}/results`, { headers: apiClient.workspaceHeaders() })
       if (response.ok) {
         const data = await response.json()
         setResults(data.urls || [])
@@ -136,6 +233,41 @@ export default function JobDetailsPage() {
     }
   }
 
+  const fetchQuality = async () => {
+    try {
+      setQuality(await jobService.getJobQuality(jobId))
+    } catch (err) {
+      console.error('Failed to fetch quality summary:', err)
+    }
+  }
+
+  const fetchReuse = async () => {
+    try {
+      setReuse((await jobService.getJobDetails(jobId)).reuse)
+    } catch (err) {
+      console.error('Failed to fetch reused openers:', err)
+    }
+  }
+
+  const fetchBatches = async () => {
+    try {
+      setBatches(await jobService.getJobBatches(jobId))
+    } catch (err) {
+      console.error('Failed to fetch batches:', err)
+    }
+  }
+
+  const getBatchStatusColor = (status: BatchSummary['status']) => {
+    switch (status) {
+      case 'completed': return 'success'
+      case 'failed':
+      case 'expired': return 'danger'
+      case 'cancelling':
+      case 'cancelled': return 'warning'
+      default: return 'primary'
+    }
+  }
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'pending': return <Clock className="w-4 h-4 text-default-500" />
@@ -143,6 +275,7 @@ export default function JobDetailsPage() {
       case 'completed': return <CheckCircle className="w-4 h-4 text-success" />
       case 'failed': return <XCircle className="w-4 h-4 text-danger" />
       case 'stopped': return <AlertCircle className="w-4 h-4 text-warning" />
+      case 'skipped': return <MinusCircle className="w-4 h-4 text-default-400" />
       default: return <Clock className="w-4 h-4 text-default-500" />
     }
   }
@@ -162,7 +295,7 @@ export default function JobDetailsPage() {
     try {
       const response = await fetch(`/api/jobs/${jobId}/retry`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' }
+        headers: { 'Content-Type': 'application/json', ...apiClient.workspaceHeaders() }
       })
       
       if (response.ok) {
@@ -175,13 +308,17 @@ export default function JobDetailsPage() {
     }
   }
 
-  const handleDownloadResults = async () => {
+  // Downloads default to the format the file was uploaded in
+  const selectedDownloadFormat: ExportFormat = downloadFormat || job?.source_format || 'csv'
+
+  const handleDownloadResults = async (mode: 'results' | 'merged' = 'results') => {
     try {
-      const blob = await jobService.downloadResults(jobId)
+      const blob = await jobService.downloadResults(jobId, mode, selectedDownloadFormat, approvedOnly ? 'approved' : undefined)
       const url = URL.createObjectURL(blob)
       const a = document.createElement('a')
+      const baseName = (job?.file_name || 'job').replace(/\.(csv|tsv|xlsx)$/i, '')
       a.href = url
-      a.download = `${job?.file_name}-results.csv`
+      a.download = `${baseName}-${mode === 'merged' ? 'merged' : 'results'}.${selectedDownloadFormat}`
       a.click()
       URL.revokeObjectURL(url)
     } catch (err) {
@@ -212,8 +349,154 @@ export default function JobDetailsPage() {
         await fetchResults()
       }, 100)
       setError(null)
+      setActionError(null)
+    } catch (err) {
+      // A job stopped by a spending cap can't resume until the cap is raised
+      if (err instanceof ApiError && err.status === 400) {
+        setActionError(err.message)
+      } else {
+        setError('Failed to resume job')
+      }
+    }
+  }
+
+  const handleSaveBudget = async () => {
+    const budget = budgetInput.trim() === '' ? null : parseFloat(budgetInput)
+    if (budget !== null && (isNaN(budget) || budget < 0)) {
+      setActionError('Budget must be a positive amount')
+      return
+    }
+
+    try {
+      setSavingBudget(true)
+      const updated = await jobService.updateJobBudget(jobId, budget)
+      setJob(prevJob => prevJob ? { ...prevJob, budget: updated.budget } : prevJob)
+      setActionError(updated.exceeded
+        ? `Still over the ${updated.exceeded.scope === 'job' ? 'job' : 'daily'} budget of ${formatCost(updated.exceeded.limit)}`
+        : null)
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to update budget')
+    } finally {
+      setSavingBudget(false)
+    }
+  }
+
+  const applyReview = (updated: ReviewedUrl) => {
+    setResults(prevResults => prevResults.map(result => result.id !== updated.id ? result : {
+      ...result,
+      opener: updated.opener,
+      opener_original: updated.opener_original,
+      opener_edited: updated.opener_edited,
+      review_status: updated.review_status,
+      reviewed_by: updated.reviewed_by,
+      reviewed_at: updated.reviewed_at
+    }))
+  }
+
+  // Edits are saved next to the generated text, which stays available to revert to
+  const handleSaveEdit = async (urlId: string, opener: string | null) => {
+    try {
+      applyReview(await jobService.editOpener(jobId, urlId, opener))
+      setEditingId(null)
+      setActionError(null)
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to save opener')
+    }
+  }
+
+  const handleReview = async (urlId: string, status: ReviewStatus) => {
+    try {
+      applyReview(await jobService.reviewOpener(jobId, urlId, status))
+      setActionError(null)
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to review opener')
+    }
+  }
+
+  const handleRegenerate = async () => {
+    try {
+      setRegenerating(true)
+      const response = await jobService.regenerateRows(jobId, Array.from(selectedIds), instruction.trim() || undefined)
+      setSelectedIds(new Set())
+      setActionError(null)
+      setJob(prevJob => prevJob ? { ...prevJob, status: 'processing', stop_reason: null } : prevJob)
+      setResults(prevResults => prevResults.map(result => selectedIds.has(result.id) ? {
+        ...result,
+        status: 'pending',
+        opener: undefined,
+        error: undefined,
+        review_status: 'pending',
+        opener_original: null,
+        opener_edited: null,
+        instruction: response.instruction,
+        quality_issues: null,
+        quality_regenerations: 0,
+        duplicate_of: null,
+        result_source: null
+      } : result))
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to regenerate rows')
+    } finally {
+      setRegenerating(false)
+    }
+  }
+
+  const handleShowHistory = async (urlId: string) => {
+    try {
+      setHistory(await jobService.getOpenerHistory(jobId, urlId))
+      onHistoryModalOpen()
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to load opener history')
+    }
+  }
+
+  // The opener being replaced moves into the history, so the list is reloaded
+  const handleRevert = async (urlId: string, historyId: string) => {
+    try {
+      const updated = await jobService.revertOpener(jobId, urlId, historyId)
+      applyReview(updated)
+      setResults(prevResults => prevResults.map(result => result.id === urlId
+        ? { ...result, status: 'completed', error: undefined, instruction: updated.instruction, quality_issues: null }
+        : result))
+      setHistory(await jobService.getOpenerHistory(jobId, urlId))
+      setActionError(null)
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to revert opener')
+    }
+  }
+
+  const canRegenerate = job?.status === 'completed' || job?.status === 'failed'
+
+  const filteredResults = results.filter(result => {
+    if (reviewFilter === 'all') return true
+    if (reviewFilter === 'edited') return Boolean(result.opener_edited)
+    return result.status === 'completed' && (result.review_status || 'pending') === reviewFilter
+  })
+
+  const getReviewColor = (status: ReviewStatus) => {
+    switch (status) {
+      case 'approved': return 'success'
+      case 'rejected': return 'danger'
+      case 'needs_review': return 'warning'
+      default: return 'default'
+    }
+  }
+
+  // Starring a variant makes it the row's opener, and so the one exported as `opener`
+  const handleStarVariant = async (urlId: string, variantIndex: number) => {
+    try {
+      const updated = await jobService.setPreferredVariant(jobId, urlId, variantIndex)
+      setResults(prevResults => prevResults.map(result => result.id !== urlId ? result : {
+        ...result,
+        opener: updated.opener,
+        variants: result.variants?.map(variant => ({
+          ...variant,
+          is_preferred: variant.variant_index === updated.variant
+        }))
+      }))
+      setActionError(null)
     } catch (err) {
-      setError('Failed to resume job')
+      setActionError(err instanceof Error ? err.message : 'Failed to star variant')
     }
   }
 
@@ -231,6 +514,9 @@ export default function JobDetailsPage() {
     }
   }
 
+  // Per-row costs are fractions of a cent, so show enough digits to tell them apart
+  const formatCost = (cost: number) => `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`
+
   const progressPercentage = (job: Job) => {
     if (job.total_rows === 0) return 0
     return Math.round((job.processed_rows / job.total_rows) * 100)
@@ -383,9 +669,45 @@ export default function JobDetailsPage() {
               </div>
                 )}
 
+              {job.status === 'stopped' && job.stop_reason === 'budget_exceeded' && (
+                <div className="rounded-bubbly bg-warning-50 dark:bg-warning-900/20 p-4 space-y-3">
+                  <p className="text-sm font-medium text-warning-700 dark:text-warning-400">
+                    Stopped: budget exceeded
+                    {jobProgress[jobId]?.error && ` (${jobProgress[jobId].error})`}
+                  </p>
+                  <div className="flex items-center gap-3">
+                    <Input
+                      size="sm"
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      label="Job budget (USD)"
+                      placeholder="No budget"
+                      value={budgetInput}
+                      onValueChange={setBudgetInput}
+                      className="max-w-[200px]"
+                    />
+                    <Button
+                      size="sm"
+                      color="primary"
+                      variant="bordered"
+                      onPress={handleSaveBudget}
+                      isLoading={savingBudget}
+                      className="rounded-bubbly"
+                    >
+                      Save budget
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {actionError && (
+                <p className="text-sm text-danger">{actionError}</p>
+              )}
+
               {/* Total URLs */}
               <div className="flex items-center gap-3">
-                <span className="text-sm font-medium text-default-600">Total URLs:</span>
+                <span className="text-sm font-medium text-default-600">Total rows:</span>
                 <span className="text-sm font-semibold">{job.total_rows}</span>
               </div>
 
@@ -401,6 +723,126 @@ export default function JobDetailsPage() {
                 <span className="text-sm font-semibold text-danger">{job.failed_rows}</span>
               </div>
 
+              {/* Rows without a usable URL, kept in the results but never processed */}
+              {(job.skipped_rows || 0) > 0 && (
+                <div className="flex items-center gap-3">
+                  <span className="text-sm font-medium text-default-600">Skipped:</span>
+                  <span className="text-sm font-semibold text-default-500">{job.skipped_rows}</span>
+                  <span className="text-xs text-default-500">rows without a valid URL</span>
+                </div>
+              )}
+
+              {(job.variant_count || 1) > 1 && (
+                <div className="flex items-center gap-3">
+                  <span className="text-sm font-medium text-default-600">Variants per row:</span>
+                  <span className="text-sm font-semibold">{job.variant_count}</span>
+                  <span className="text-xs text-default-500">star a variant in the results to export it as the opener</span>
+                </div>
+              )}
+
+              {job.provider_id && (
+                <div className="flex items-center gap-3">
+                  <span className="text-sm font-medium text-default-600">Provider:</span>
+                  <span className="text-sm font-semibold">{job.provider_id}</span>
+                </div>
+              )}
+
+              {/* Provider batches, for jobs run through the batch API */}
+              {job.processing_mode === 'batch' && (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-3">
+                    <span className="text-sm font-medium text-default-600">Mode:</span>
+                    <span className="text-sm font-semibold">Batch API</span>
+                    <span className="text-xs text-default-500">results arrive within 24 hours</span>
+                  </div>
+                  {batches.length === 0 && job.status === 'processing' && (
+                    <p className="text-sm text-default-500">Submitting batch...</p>
+                  )}
+                  {batches.map(batch => (
+                    <div key={batch.id} className="flex flex-wrap items-center gap-3 text-sm">
+                      <Chip size="sm" variant="flat" color={getBatchStatusColor(batch.status)}>
+                        {batch.status.replace('_', ' ')}
+                      </Chip>
+                      <span className="font-mono text-xs text-default-500">{batch.providerBatchId}</span>
+                      <span>
+                        {batch.completedCount}/{batch.requestCount} done
+                        {batch.failedCount > 0 && <span className="text-danger">, {batch.failedCount} failed</span>}
+                      </span>
+                      {batch.ingested && <span className="text-xs text-default-500">results stored</span>}
+                      {batch.error && <span className="text-xs text-danger">{batch.error}</span>}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Quality checks */}
+              {quality?.settings.enabled && quality.summary.checked > 0 && (
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className="text-sm font-medium text-default-600">Quality checks:</span>
+                  <span className="text-sm font-semibold">
+                    {quality.summary.passed}/{quality.summary.checked} passed
+                  </span>
+                  {quality.summary.needsReview > 0 && (
+                    <Chip
+                      size="sm"
+                      variant="flat"
+                      color="warning"
+                      className="cursor-pointer"
+                      onClick={() => setReviewFilter('needs_review')}
+                    >
+                      {quality.summary.needsReview} need review
+                    </Chip>
+                  )}
+                  {Object.entries(quality.summary.rules).map(([rule, count]) => (
+                    <span key={rule} className="text-xs text-default-500">
+                      {rule.replace(/_/g, ' ')}: {count}
+                    </span>
+                  ))}
+                  {quality.summary.regenerations > 0 && (
+                    <span className="text-xs text-default-500">
+                      {quality.summary.regenerations} automatic regenerations
+                    </span>
+                  )}
+                </div>
+              )}
+
+              {/* Openers shared between duplicate rows or reused from earlier jobs */}
+              {reuse && (reuse.duplicates > 0 || reuse.cacheHits > 0) && (
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className="text-sm font-medium text-default-600">Reused openers:</span>
+                  {reuse.duplicates > 0 && (
+                    <span className="text-sm font-semibold">
+                      {reuse.fromDuplicates}/{reuse.duplicates} duplicate rows
+                    </span>
+                  )}
+                  {reuse.cacheHits > 0 && (
+                    <span className="text-sm font-semibold">{reuse.cacheHits} from the cache</span>
+                  )}
+                  {job.use_cache && reuse.cacheHits === 0 && (
+                    <span className="text-xs text-default-500">cache on, no hits yet</span>
+                  )}
+                </div>
+              )}
+
+              {/* Tokens and Cost */}
+              <div className="flex items-center gap-3">
+                <span className="text-sm font-medium text-default-600">Tokens used:</span>
+                <span className="text-sm font-semibold">
+                  {((job.total_prompt_tokens || 0) + (job.total_completion_tokens || 0)).toLocaleString()}
+                </span>
+                <span className="text-xs text-default-500">
+                  ({(job.total_prompt_tokens || 0).toLocaleString()} prompt / {(job.total_completion_tokens || 0).toLocaleString()} completion)
+                </span>
+              </div>
+
+              <div className="flex items-center gap-3">
+                <span className="text-sm font-medium text-default-600">Cost:</span>
+                <span className="text-sm font-semibold">{formatCost(job.total_cost || 0)}</span>
+                {job.budget ? (
+                  <span className="text-xs text-default-500">of {formatCost(job.budget)} budget</span>
+                ) : null}
+              </div>
+
               {/* Last Updated */}
               <div className="flex items-center gap-3">
                 <span className="text-sm font-medium text-default-600">Last updated:</span>
@@ -432,15 +874,45 @@ export default function JobDetailsPage() {
               <h2 className="text-xl font-semibold">Results</h2>
               <div className="flex items-center gap-2">
                 {job.status === 'completed' && (
-                  <Button
-                    color="primary"
-                    variant="bordered"
-                    startContent={<Download className="w-4 h-4" />}
-                    onPress={handleDownloadResults}
-                    className="rounded-bubbly"
-                  >
-                    Download Results
-                  </Button>
+                  <>
+                    <select
+                      value={selectedDownloadFormat}
+                      onChange={(e) => setDownloadFormat(e.target.value as ExportFormat)}
+                      className="px-3 py-2 bg-background text-foreground text-sm rounded-bubbly border border-divider/50 focus:outline-none focus:ring-2 focus:ring-primary/50"
+                      aria-label="Download format"
+                    >
+                      {EXPORT_FORMATS.map((format) => (
+                        <option key={format.key} value={format.key}>{format.label}</option>
+                      ))}
+                    </select>
+                    <Checkbox
+                      size="sm"
+                      isSelected={approvedOnly}
+                      onValueChange={setApprovedOnly}
+                      aria-label="Download approved rows only"
+                    >
+                      Approved only
+                    </Checkbox>
+                    <Button
+                      color="primary"
+                      variant="bordered"
+                      startContent={<Download className="w-4 h-4" />}
+                      onPress={() => handleDownloadResults('merged')}
+                      className="rounded-bubbly"
+                      title="Original file with opener columns appended"
+                    >
+                      Download Merged File
+                    </Button>
+                    <Button
+                      color="primary"
+                      variant="bordered"
+                      startContent={<Download className="w-4 h-4" />}
+                      onPress={() => handleDownloadResults()}
+                      className="rounded-bubbly"
+                    >
+                      Download Results
+                    </Button>
+                  </>
                 )}
                 {job.status === 'failed' && (
                   <Button
@@ -457,22 +929,82 @@ export default function JobDetailsPage() {
             </div>
           </CardHeader>
           <CardBody>
-            {results.length === 0 ? (
+            {results.length > 0 && (
+              <div className="flex flex-wrap items-center gap-3 mb-4">
+                <select
+                  value={reviewFilter}
+                  onChange={(e) => setReviewFilter(e.target.value as ReviewFilter)}
+                  className="px-3 py-2 bg-background text-foreground text-sm rounded-bubbly border border-divider/50 focus:outline-none focus:ring-2 focus:ring-primary/50"
+                  aria-label="Filter by review state"
+                >
+                  <option value="all">All rows</option>
+                  <option value="pending">Awaiting review</option>
+                  <option value="needs_review">Needs review</option>
+                  <option value="approved">Approved</option>
+                  <option value="rejected">Rejected</option>
+                  <option value="edited">Edited</option>
+                </select>
+                <span className="text-xs text-default-500">
+                  {results.filter(result => result.review_status === 'approved').length} approved
+                  {' · '}{results.filter(result => result.review_status === 'rejected').length} rejected
+                </span>
+                {canRegenerate && (
+                  <div className="flex items-center gap-2 ml-auto">
+                    <Input
+                      size="sm"
+                      label="Instruction"
+                      placeholder="e.g. shorter, mention their pricing page"
+                      value={instruction}
+                      onValueChange={setInstruction}
+                      maxLength={500}
+                      className="min-w-[260px]"
+                    />
+                    <Button
+                      color="primary"
+                      variant="flat"
+                      startContent={<Wand2 className="w-4 h-4" />}
+                      isDisabled={selectedIds.size === 0}
+                      isLoading={regenerating}
+                      onPress={handleRegenerate}
+                      className="rounded-bubbly"
+                    >
+                      Regenerate{selectedIds.size > 0 ? ` (${selectedIds.size})` : ''}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+            {filteredResults.length === 0 ? (
               <div className="text-center py-8">
-                <p className="text-default-500">No results available</p>
+                <p className="text-default-500">{results.length === 0 ? 'No results available' : 'No rows match this filter'}</p>
               </div>
             ) : (
               <div className="overflow-x-auto">
-                <Table aria-label="Results table">
+                <Table
+                  aria-label="Results table"
+                  selectionMode={canRegenerate ? 'multiple' : 'none'}
+                  selectedKeys={selectedIds}
+                  disabledKeys={filteredResults
+                    .filter(result => result.status === 'pending' || result.status === 'processing')
+                    .map(result => result.id)}
+                  onSelectionChange={(keys) => setSelectedIds(keys === 'all'
+                    ? new Set(filteredResults
+                      .filter(result => result.status === 'completed' || result.status === 'failed')
+                      .map(result => result.id))
+                    : new Set(Array.from(keys).map(String)))}
+                >
                   <TableHeader>
                     <TableColumn>URL</TableColumn>
                     <TableColumn>STATUS</TableColumn>
                     <TableColumn>OPENER</TableColumn>
+                    <TableColumn>REVIEW</TableColumn>
                     <TableColumn>ERROR</TableColumn>
                     <TableColumn>RETRIES</TableColumn>
+                    <TableColumn>PROVIDER</TableColumn>
+                    <TableColumn>COST</TableColumn>
                   </TableHeader>
                   <TableBody>
-                    {results.map((result) => (
+                    {filteredResults.map((result) => (
                       <TableRow key={result.id}>
                         <TableCell>
                           <div className="max-w-xs truncate" title={result.url}>
@@ -483,12 +1015,168 @@ export default function JobDetailsPage() {
                           <div className="flex items-center gap-2">
                             {getStatusIcon(result.status)}
                             <span className="text-sm font-medium text-foreground">{result.status}</span>
+                            {result.result_source && (
+                              <Chip size="sm" variant="flat" color="secondary">
+                                {result.result_source === 'cache' ? 'cached' : 'duplicate'}
+                              </Chip>
+                            )}
+                            {(result.status === 'completed' || result.status === 'failed') && (
+                              <Button
+                                isIconOnly
+                                size="sm"
+                                variant="light"
+                                onPress={() => handleShowHistory(result.id)}
+                                aria-label="Opener history"
+                                title={result.instruction ? `Regenerated with: ${result.instruction}` : 'Opener history'}
+                              >
+                                <History className="w-3 h-3" />
+                              </Button>
+                            )}
                           </div>
                         </TableCell>
                         <TableCell>
-                          {result.opener ? (
-                            <div className="max-w-xs truncate" title={result.opener}>
-                              {result.opener}
+                          {editingId === result.id ? (
+                            <div className="max-w-md space-y-2">
+                              <Textarea
+                                size="sm"
+                                minRows={2}
+                                value={editText}
+                                onValueChange={setEditText}
+                                aria-label="Edited opener"
+                              />
+                              <div className="flex gap-2">
+                                <Button
+                                  size="sm"
+                                  color="primary"
+                                  variant="flat"
+                                  isDisabled={!editText.trim()}
+                                  onPress={() => handleSaveEdit(result.id, editText.trim())}
+                                >
+                                  Save
+                                </Button>
+                                <Button size="sm" variant="light" onPress={() => setEditingId(null)}>
+                                  Cancel
+                                </Button>
+                              </div>
+                            </div>
+                          ) : result.opener_edited ? (
+                            <div className="max-w-xs space-y-1">
+                              <div className="flex items-center gap-1">
+                                <Chip size="sm" variant="flat" color="secondary">Edited</Chip>
+                                <Button
+                                  isIconOnly
+                                  size="sm"
+                                  variant="light"
+                                  onPress={() => { setEditingId(result.id); setEditText(result.opener || '') }}
+                                  aria-label="Edit opener"
+                                >
+                                  <Pencil className="w-3 h-3" />
+                                </Button>
+                                <Button
+                                  isIconOnly
+                                  size="sm"
+                                  variant="light"
+                                  onPress={() => handleSaveEdit(result.id, null)}
+                                  aria-label="Revert to generated opener"
+                                  title={result.opener_original ? `Generated: ${result.opener_original}` : undefined}
+                                >
+                                  <Undo2 className="w-3 h-3" />
+                                </Button>
+                              </div>
+                              <div className="truncate" title={result.opener_edited}>{result.opener_edited}</div>
+                            </div>
+                          ) : result.variants && result.variants.length > 0 ? (
+                            <div className="max-w-md space-y-1">
+                              {result.variants.map(variant => (
+                                <div key={variant.variant_index} className="flex items-center gap-2">
+                                  <Button
+                                    isIconOnly
+                                    size="sm"
+                                    variant="light"
+                                    isDisabled={!variant.opener}
+                                    onPress={() => handleStarVariant(result.id, variant.variant_index)}
+                                    aria-label={`Use variant ${variant.label}`}
+                                    title={variant.is_preferred ? 'Exported opener' : 'Export this variant'}
+                                  >
+                                    <Star className={`w-4 h-4 ${variant.is_preferred ? 'fill-warning text-warning' : 'text-default-400'}`} />
+                                  </Button>
+                                  <Chip size="sm" variant="flat" color={variant.is_preferred ? 'warning' : 'default'}>
+                                    {variant.label}
+                                  </Chip>
+                                  {variant.opener ? (
+                                    <span className="truncate text-sm" title={variant.opener}>{variant.opener}</span>
+                                  ) : (
+                                    <span className="truncate text-sm text-danger" title={variant.error || undefined}>
+                                      {variant.error || 'Not generated'}
+                                    </span>
+                                  )}
+                                </div>
+                              ))}
+                            </div>
+                          ) : result.opener ? (
+                            <div className="flex items-center gap-1 max-w-xs">
+                              <div className="truncate" title={result.opener}>
+                                {result.opener}
+                              </div>
+                              <Button
+                                isIconOnly
+                                size="sm"
+                                variant="light"
+                                onPress={() => { setEditingId(result.id); setEditText(result.opener || '') }}
+                                aria-label="Edit opener"
+                              >
+                                <Pencil className="w-3 h-3" />
+                              </Button>
+                            </div>
+                          ) : (
+                            <span className="text-default-400">-</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {result.status === 'completed' ? (
+                            <div className="space-y-1">
+                              <div className="flex items-center gap-1">
+                                <Chip
+                                  size="sm"
+                                  variant="flat"
+                                  color={getReviewColor(result.review_status || 'pending')}
+                                  title={result.reviewed_by ? `Reviewed by ${result.reviewed_by}` : undefined}
+                                >
+                                  {(result.review_status || 'pending').replace('_', ' ')}
+                                </Chip>
+                                <Button
+                                  isIconOnly
+                                  size="sm"
+                                  variant="light"
+                                  color="success"
+                                  onPress={() => handleReview(result.id, result.review_status === 'approved' ? 'pending' : 'approved')}
+                                  aria-label={result.review_status === 'approved' ? 'Clear approval' : 'Approve opener'}
+                                >
+                                  <Check className="w-4 h-4" />
+                                </Button>
+                                <Button
+                                  isIconOnly
+                                  size="sm"
+                                  variant="light"
+                                  color="danger"
+                                  onPress={() => handleReview(result.id, result.review_status === 'rejected' ? 'pending' : 'rejected')}
+                                  aria-label={result.review_status === 'rejected' ? 'Clear rejection' : 'Reject opener'}
+                                >
+                                  <X className="w-4 h-4" />
+                                </Button>
+                              </div>
+                              {result.quality_issues && result.quality_issues.length > 0 && (
+                                <ul className="max-w-xs text-xs text-warning-600">
+                                  {result.quality_issues.map((issue, index) => (
+                                    <li key={index} className="truncate" title={issue.message}>{issue.message}</li>
+                                  ))}
+                                </ul>
+                              )}
+                              {(result.quality_regenerations || 0) > 0 && (
+                                <p className="text-xs text-default-500">
+                                  Regenerated {result.quality_regenerations}x by quality checks
+                                </p>
+                              )}
                             </div>
                           ) : (
                             <span className="text-default-400">-</span>
@@ -496,7 +1184,7 @@ export default function JobDetailsPage() {
                         </TableCell>
                         <TableCell>
                           {result.error ? (
-                            <div className="max-w-xs truncate text-danger" title={result.error}>
+                            <div className={`max-w-xs truncate ${result.status === 'skipped' ? 'text-default-500' : 'text-danger'}`} title={result.error}>
                               {result.error}
                             </div>
                           ) : (
@@ -506,6 +1194,30 @@ export default function JobDetailsPage() {
                         <TableCell>
                           <span className="text-sm">{result.retry_count}</span>
                         </TableCell>
+                        <TableCell>
+                          {result.provider_id ? (
+                            <span
+                              className={`text-sm ${job.provider_id && result.provider_id !== job.provider_id ? 'text-warning' : ''}`}
+                              title={job.provider_id && result.provider_id !== job.provider_id ? 'Generated by a fallback provider' : undefined}
+                            >
+                              {result.provider_id}
+                            </span>
+                          ) : (
+                            <span className="text-default-400">-</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {result.cost != null ? (
+                            <span
+                              className="text-sm"
+                              title={`${result.prompt_tokens ?? 0} prompt / ${result.completion_tokens ?? 0} completion tokens`}
+                            >
+                              {formatCost(result.cost)}
+                            </span>
+                          ) : (
+                            <span className="text-default-400">-</span>
+                          )}
+                        </TableCell>
                       </TableRow>
                     ))}
                   </TableBody>
@@ -516,6 +1228,53 @@ export default function JobDetailsPage() {
         </Card>
       </main>
 
+      {/* Opener History Modal */}
+      <Modal isOpen={isHistoryModalOpen} onClose={onHistoryModalClose} size="2xl">
+        <ModalContent>
+          <ModalHeader>Opener History</ModalHeader>
+          <ModalBody>
+            {history && (
+              <div className="space-y-3">
+                <div>
+                  <p className="text-xs text-default-500">
+                    Current{history.instruction ? ` · regenerated with "${history.instruction}"` : ''}
+                  </p>
+                  <p className="text-sm">{history.opener || '-'}</p>
+                </div>
+                {history.history.length === 0 ? (
+                  <p className="text-sm text-default-500">This row hasn&apos;t been regenerated yet.</p>
+                ) : (
+                  history.history.map(entry => (
+                    <div key={entry.id} className="flex items-start justify-between gap-3 border-t border-divider/50 pt-3">
+                      <div>
+                        <p className="text-xs text-default-500">
+                          {new Date(entry.created_at).toLocaleString()}
+                          {entry.instruction ? ` · regenerated with "${entry.instruction}"` : ''}
+                        </p>
+                        <p className="text-sm">{entry.opener}</p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="flat"
+                        startContent={<Undo2 className="w-3 h-3" />}
+                        onPress={() => handleRevert(history.urlId, entry.id)}
+                      >
+                        Restore
+                      </Button>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </ModalBody>
+          <ModalFooter>
+            <Button variant="light" onPress={onHistoryModalClose}>
+              Close
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+
       {/* Retry Modal */}
       <Modal isOpen={isRetryModalOpen} onClose={onRetryModalClose}>
         <ModalContent>
@@ -53,6 +53,7 @@ interface Job {
   total_rows: number
   processed_rows: number
   failed_rows: number
+  source_format?: 'csv' | 'tsv' | 'xlsx'
   created_at: string
   updated_at: string
   progress: string
@@ -154,7 +155,7 @@ export default function JobsPage() {
       const url = URL.createObjectURL(blob)
       const a = document.createElement('a')
       a.href = url
-      a.download = `${job.file_name}-results.csv`
+      a.download = `${job.file_name.replace(/\.(csv|tsv|xlsx)$/i, '')}-results.${job.source_format || 'csv'}`
       a.click()
       URL.revokeObjectURL(url)
     } catch (err) {
@@ -1,7 +1,7 @@
 import type { Metadata, Viewport } from 'next'
 import { Inter } from 'next/font/google'
 import { Providers } from './providers'
-import { Header } from '@/components'
+import { Header, AuthGate } from '@/components'
 import './globals.css'
 
 const inter = Inter({ subsets: ['latin'] })
@@ -29,7 +29,7 @@ export default function RootLayout({
         <Providers>
           <div className="min-h-screen gradient-bg">
             <Header />
-            {children}
+            <AuthGate>{children}</AuthGate>
           </div>
         </Providers>
       </body>
@@ -0,0 +1,134 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { Card, CardBody, CardHeader, Button, Input, Tabs, Tab } from '@nextui-org/react'
+import { LogIn, UserPlus, XCircle } from 'lucide-react'
+import { authService, ApiError } from '@/services'
+import { useAppStore } from '@/lib'
+
+type AuthMode = 'login' | 'register'
+
+export default function LoginPage() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const { setUser } = useAppStore()
+
+  const [mode, setMode] = useState<AuthMode>('login')
+  const [email, setEmail] = useState('')
+  const [name, setName] = useState('')
+  const [password, setPassword] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Only paths within the app, so the link can't send people elsewhere after signing in
+  const next = searchParams.get('next')
+  const destination = next && next.startsWith('/') && !next.startsWith('//') ? next : '/'
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const user = mode === 'login'
+        ? await authService.login(email, password)
+        : await authService.register(email, password, name.trim() || undefined)
+      setUser(user)
+      router.replace(destination)
+    } catch (err) {
+      if (err instanceof ApiError && err.details?.details) {
+        setError(err.details.details.join(', '))
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to sign in')
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div>
+      <main className="container mx-auto px-8 py-8 flex justify-center">
+        <Card className="card-bubbly w-full max-w-md">
+          <CardHeader className="card-header-shadow">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-gradient-to-br from-primary-100 to-primary-200 dark:from-primary-900/30 dark:to-primary-800/30 rounded-bubbly flex items-center justify-center shadow-bubbly">
+                {mode === 'login' ? (
+                  <LogIn className="w-5 h-5 text-primary-600 dark:text-primary-400" />
+                ) : (
+                  <UserPlus className="w-5 h-5 text-primary-600 dark:text-primary-400" />
+                )}
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold">{mode === 'login' ? 'Sign in' : 'Create an account'}</h3>
+                <p className="text-sm text-default-500">Your jobs are shared with the members of your workspace</p>
+              </div>
+            </div>
+          </CardHeader>
+          <CardBody className="p-6">
+            <Tabs
+              aria-label="Sign in or create an account"
+              selectedKey={mode}
+              onSelectionChange={(key) => {
+                setMode(key as AuthMode)
+                setError(null)
+              }}
+              fullWidth
+              className="mb-4"
+            >
+              <Tab key="login" title="Sign in" />
+              <Tab key="register" title="Create account" />
+            </Tabs>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {mode === 'register' && (
+                <Input
+                  label="Name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  autoComplete="name"
+                  description="Shown on the openers you edit and review"
+                />
+              )}
+              <Input
+                label="E-mail"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                autoComplete="email"
+                isRequired
+              />
+              <Input
+                label="Password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+                description={mode === 'register' ? 'At least 8 characters' : undefined}
+                isRequired
+              />
+
+              {error && (
+                <div className="flex items-center gap-2 text-danger text-sm">
+                  <XCircle className="w-4 h-4" />
+                  <span>{error}</span>
+                </div>
+              )}
+
+              <Button
+                type="submit"
+                color="primary"
+                className="w-full rounded-bubbly"
+                isLoading={isSubmitting}
+                isDisabled={!email || !password}
+              >
+                {mode === 'login' ? 'Sign in' : 'Create account'}
+              </Button>
+            </form>
+          </CardBody>
+        </Card>
+      </main>
+    </div>
+  )
+}
@@ -18,7 +18,8 @@ import {
   Select,
   SelectItem,
   Textarea,
-  Divider
+  Divider,
+  useDisclosure
 } from '@nextui-org/react'
 import { 
   Upload, 
@@ -31,11 +32,12 @@ import {
   RefreshCw
 } from 'lucide-react'
 import { useTheme } from 'next-themes'
-import { useAppStore } from '@/lib'
-import { jobService } from '@/services'
+import { useAppStore, UPLOAD_LIMITS } from '@/lib'
+import { apiClient, jobService, templateService, uploadService } from '@/services'
+import { SettingsModal } from '@/components'
 import { CSVUploader } from './jobs/CSVUploader'
 import { CSVPreview } from './jobs/CSVPreview'
-import { CSVRow } from '@/types'
+import { CSVRow, PromptTemplateRecord, CSVUploadResponse, ColumnMapping, JobEstimate, AIProviderSummary } from '@/types'
 
 export default function Home() {
   const { theme, setTheme } = useTheme()
@@ -47,6 +49,13 @@ export default function Home() {
     csvData,
     selectedColumn,
     contentType,
+    templateId,
+    enrichPages,
+    useCache,
+    providerId,
+    processingMode,
+    variantCount,
+    variantTemplateIds,
     jobId,
     jobStatus,
     results,
@@ -55,6 +64,13 @@ export default function Home() {
     setCsvData,
     setSelectedColumn,
     setContentType,
+    setTemplateId,
+    setEnrichPages,
+    setUseCache,
+    setProviderId,
+    setProcessingMode,
+    setVariantCount,
+    setVariantTemplateIds,
     setJobId,
     setJobStatus,
     setResults,
@@ -71,33 +87,154 @@ export default function Home() {
   }, [searchParams, csvData, setCurrentStep])
 
   const [fileName, setFileName] = useState<string>('')
+  const [templates, setTemplates] = useState<PromptTemplateRecord[]>([])
+  const [uploadedFile, setUploadedFile] = useState<CSVUploadResponse | null>(null)
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping | null>(null)
+  const [isUploading, setIsUploading] = useState(false)
+  const [sourceFile, setSourceFile] = useState<File | null>(null)
+  const [estimate, setEstimate] = useState<JobEstimate | null>(null)
+  const [providers, setProviders] = useState<AIProviderSummary[]>([])
+  const { isOpen: isSettingsOpen, onOpen: onSettingsOpen, onClose: onSettingsClose } = useDisclosure()
 
-  const handleCSVUpload = (data: CSVRow[], fileName: string) => {
+  // Load saved prompt templates for the content-type picker
+  useEffect(() => {
+    templateService.getTemplates()
+      .then(setTemplates)
+      .catch(err => console.error('Failed to load prompt templates:', err))
+  }, [])
+
+  // Load the AI providers registered on the server
+  useEffect(() => {
+    jobService.getProviders()
+      .then(setProviders)
+      .catch(err => console.error('Failed to load AI providers:', err))
+  }, [])
+
+  // Drop a persisted selection whose template has since been deleted
+  const selectedTemplateId = templates.some(template => template.id === templateId) ? templateId : null
+  // Likewise for a provider that is no longer configured; null means the server default
+  const selectedProviderId = providers.some(provider => provider.id === providerId) ? providerId : null
+  // Batch mode only applies while the chosen provider supports it
+  const batchAvailable = !!providers.find(provider =>
+    selectedProviderId ? provider.id === selectedProviderId : provider.isDefault
+  )?.capabilities.batch
+  // Variants are generated in realtime only
+  const selectedMode = batchAvailable && variantCount === 1 ? processingMode : 'realtime'
+  // Variant templates that have since been deleted fall back to the job's prompt
+  const selectedVariantTemplateIds = Array.from({ length: variantCount }, (_, index) => {
+    const id = variantTemplateIds[index]
+    return id && templates.some(template => template.id === id) ? id : null
+  })
+
+  // Refresh the cost and time estimate whenever the prompt settings change. The server counts the
+  // URLs it extracted at upload, so there is nothing to estimate for a different URL column yet.
+  useEffect(() => {
+    setEstimate(null)
+    if (!uploadedFile || (!contentType && !selectedTemplateId)) return
+    if (columnMapping?.urlColumn !== uploadedFile.suggestedMapping.urlColumn) return
+
+    let cancelled = false
+    jobService.estimateJob(uploadedFile.jobId, contentType, {
+      templateId: selectedTemplateId,
+      enrichPages,
+      provider: selectedProviderId,
+      mode: selectedMode,
+      variants: variantCount
+    })
+      .then(result => { if (!cancelled) setEstimate(result) })
+      .catch(err => console.error('Failed to estimate job:', err))
+
+    return () => { cancelled = true }
+  }, [uploadedFile, columnMapping?.urlColumn, contentType, selectedTemplateId, enrichPages, selectedProviderId, selectedMode, variantCount])
+
+  const applyUploadResponse = (response: CSVUploadResponse) => {
+    setUploadedFile(response)
+    setColumnMapping(response.suggestedMapping)
+
+    // Workbooks are only parsed on the server, preview its rows instead
+    if (response.sourceFormat === 'xlsx') {
+      setCsvData(response.preview.map(row => row.originalData) as unknown as CSVRow[])
+    }
+  }
+
+  // Upload the file as-is so the server can suggest the column mapping for the preview step
+  const uploadSourceFile = async (file: File, sheet?: string) => {
+    try {
+      setError(null)
+      setIsUploading(true)
+
+      const response = file.size > UPLOAD_LIMITS.singleRequestBytes
+        ? await uploadService.uploadInParts(file, { sheet })
+        : await jobService.uploadCSV(file, sheet)
+
+      applyUploadResponse(response)
+    } catch (err) {
+      console.error('Upload error:', err)
+      setError(err instanceof Error ? err.message : 'Failed to upload file')
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const handleCSVUpload = async (data: CSVRow[], fileName: string, file: File, uploaded?: CSVUploadResponse) => {
     setCsvData(data)
     setFileName(fileName)
+    setSourceFile(file)
+    setUploadedFile(null)
+    setColumnMapping(null)
     setCurrentStep('preview')
+
+    // Files sent in parts were already uploaded by the uploader
+    if (uploaded) {
+      applyUploadResponse(uploaded)
+      return
+    }
+    await uploadSourceFile(file)
+  }
+
+  const handleSheetChange = async (sheet: string) => {
+    if (!sourceFile) return
+
+    // The job created for the previously selected sheet was never started
+    if (uploadedFile) {
+      jobService.deleteJob(uploadedFile.jobId)
+        .catch(err => console.error('Failed to remove unused upload:', err))
+    }
+
+    setUploadedFile(null)
+    setColumnMapping(null)
+    await uploadSourceFile(sourceFile, sheet)
   }
 
   const handleStartProcessing = async () => {
-    console.log('Start processing clicked!', { csvData: csvData?.length, selectedColumn, contentType })
+    console.log('Start processing clicked!', { csvData: csvData?.length, columnMapping, contentType })
     
     if (!csvData || !contentType) {
       console.log('Missing required data:', { csvData: !!csvData, contentType })
       setError('Please select a content type and ensure CSV data is loaded')
       return
     }
+
+    if (!uploadedFile || !columnMapping?.urlColumn) {
+      setError('Please choose the column that contains the URLs')
+      return
+    }
     
     try {
       setError(null)
       // Skip the processing step and go directly to jobs page
       
-      // Step 1: Upload CSV file
-      const csvContent = generateCSVContent(csvData)
-      const blob = new Blob([csvContent], { type: 'text/csv' })
-      const file = new File([blob], fileName || 'uploaded.csv', { type: 'text/csv' })
-      
-      console.log('Uploading CSV file...')
-      const uploadResponse = await jobService.uploadAndProcessCSV(file, contentType)
+      console.log('Starting processing...')
+      const uploadResponse = await jobService.startProcessing(uploadedFile.jobId, contentType, {
+        templateId: selectedTemplateId,
+        enrichPages,
+        useCache,
+        provider: selectedProviderId,
+        mode: selectedMode,
+        variants: variantCount,
+        variantTemplateIds: selectedVariantTemplateIds,
+        ...columnMapping
+      })
       
       console.log('Upload successful:', uploadResponse)
       
@@ -114,19 +251,6 @@ export default function Home() {
     }
   }
 
-  // Helper function to generate CSV content from data
-  const generateCSVContent = (data: any[]) => {
-    if (!data || data.length === 0) return ''
-    
-    const headers = Object.keys(data[0])
-    const csvRows = [
-      headers.join(','),
-      ...data.map(row => headers.map(header => `"${(row[header] || '').toString().replace(/"/g, '""')}"`).join(','))
-    ]
-    
-    return csvRows.join('\n')
-  }
-
   // Use SSE for real-time job progress
   // Simple polling for job status on home page
   const [jobProgress, setJobProgress] = useState<any>(null)
@@ -138,7 +262,7 @@ export default function Home() {
     if (!jobId) return
     
     try {
-      const resultsResponse = await fetch(`/api/jobs/${jobId}/results`)
+      const resultsResponse = await fetch(`/api/jobs/${jobId}/results`, { headers: apiClient.workspaceHeaders() })
       if (resultsResponse.ok) {
         const resultsData = await resultsResponse.json()
         setResults(resultsData.urls.map((url: any) => ({
@@ -162,7 +286,7 @@ export default function Home() {
 
     const pollJobStatus = async () => {
       try {
-        const response = await fetch(`/api/jobs/${jobId}/status`)
+        const response = await fetch(`/api/jobs/${jobId}/status`, { headers: apiClient.workspaceHeaders() })
         if (response.ok) {
           const data = await response.json()
           setJobProgress(data)
@@ -209,7 +333,7 @@ export default function Home() {
     if (!jobId) return
     
     try {
-      const response = await fetch(`/api/upload/${jobId}/download`)
+      const response = await fetch(`/api/upload/${jobId}/download`, { headers: apiClient.workspaceHeaders() })
       
       if (!response.ok) {
         throw new Error(`Download failed: ${response.statusText}`)
@@ -256,10 +380,36 @@ export default function Home() {
         {currentStep === 'preview' && csvData && (
           <CSVPreview
             data={csvData}
-            selectedColumn={null}
+            columnCandidates={uploadedFile?.columnCandidates || []}
+            columnMapping={columnMapping}
+            isUploading={isUploading}
+            totalRows={uploadedFile?.totalRows || undefined}
+            validation={uploadedFile?.validation || null}
+            sheets={uploadedFile?.sheets || []}
+            sheet={uploadedFile?.sheet || null}
+            onSheetChange={handleSheetChange}
             contentType={contentType}
-            onColumnSelect={() => {}}
+            templates={templates}
+            templateId={selectedTemplateId}
+            enrichPages={enrichPages}
+            useCache={useCache}
+            providers={providers}
+            providerId={selectedProviderId}
+            batchAvailable={batchAvailable && variantCount === 1}
+            processingMode={selectedMode}
+            variantCount={variantCount}
+            variantTemplateIds={selectedVariantTemplateIds}
+            estimate={estimate}
+            onColumnMappingChange={setColumnMapping}
             onContentTypeSelect={setContentType}
+            onTemplateSelect={setTemplateId}
+            onEnrichPagesChange={setEnrichPages}
+            onUseCacheChange={setUseCache}
+            onProviderSelect={setProviderId}
+            onProcessingModeChange={setProcessingMode}
+            onVariantCountChange={setVariantCount}
+            onVariantTemplateIdsChange={setVariantTemplateIds}
+            onManageTemplates={onSettingsOpen}
             onStartProcessing={handleStartProcessing}
             onBack={() => setCurrentStep('upload')}
           />
@@ -398,6 +548,11 @@ export default function Home() {
         )}
       </main>
 
+      <SettingsModal
+        isOpen={isSettingsOpen}
+        onClose={onSettingsClose}
+        onTemplatesChange={setTemplates}
+      />
     </div>
   )
 }
\ No newline at end of file
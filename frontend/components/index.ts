@@ -1,6 +1,12 @@
 // Global UI Components
 export { ThemeToggle } from './ui/ThemeToggle'
 export { SettingsModal } from './ui/SettingsModal'
+export { PromptTemplateManager } from './ui/PromptTemplateManager'
+export { WorkspaceMembersModal } from './ui/WorkspaceMembersModal'
+export { ApiKeysModal } from './ui/ApiKeysModal'
+export { WebhooksModal } from './ui/WebhooksModal'
 
 // Layout Components
 export { Header } from './layout/Header'
+export { AuthGate } from './layout/AuthGate'
+export { WorkspaceSwitcher } from './layout/WorkspaceSwitcher'
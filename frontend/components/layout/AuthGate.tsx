@@ -0,0 +1,70 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Spinner } from '@nextui-org/react'
+import { useRouter, usePathname } from 'next/navigation'
+import { authService, apiClient, workspaceService } from '@/services'
+import { useAppStore } from '@/lib'
+
+// Pages that can be opened without signing in
+const PUBLIC_PATHS = ['/login']
+
+/**
+ * Checks the session once on load and sends visitors who aren't signed in to
+ * the login page, returning them to the page they asked for afterwards. Pages
+ * are shown once the workspace is known, and mounted afresh when it changes.
+ */
+export function AuthGate({ children }: { children: React.ReactNode }) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const { user, setUser, workspaceId, setWorkspaces, setWorkspaceId } = useAppStore()
+  const [checked, setChecked] = useState(false)
+  const [workspaceLoaded, setWorkspaceLoaded] = useState(false)
+
+  const isPublic = PUBLIC_PATHS.includes(pathname)
+
+  useEffect(() => {
+    authService.getCurrentUser()
+      .then(setUser)
+      .catch(() => setUser(null))
+      .finally(() => setChecked(true))
+
+    // A session that expires while the app is open signs the user out
+    apiClient.setUnauthorizedHandler(() => setUser(null))
+    return () => apiClient.setUnauthorizedHandler(null)
+  }, [setUser])
+
+  useEffect(() => {
+    if (checked && !user && !isPublic) {
+      router.replace(`/login?next=${encodeURIComponent(pathname)}`)
+    }
+  }, [checked, user, isPublic, pathname, router])
+
+  // Keep the workspace chosen last time while the user is still a member of it
+  useEffect(() => {
+    if (!user) {
+      setWorkspaceLoaded(false)
+      return
+    }
+
+    workspaceService.getWorkspaces()
+      .then(workspaces => {
+        setWorkspaces(workspaces)
+        const stored = useAppStore.getState().workspaceId
+        const selected = workspaces.find(workspace => workspace.id === stored) || workspaces[0]
+        setWorkspaceId(selected ? selected.id : null)
+      })
+      .catch(error => console.error('Failed to load workspaces:', error))
+      .finally(() => setWorkspaceLoaded(true))
+  }, [user, setWorkspaces, setWorkspaceId])
+
+  if (!isPublic && (!user || !workspaceLoaded)) {
+    return (
+      <div className="flex justify-center py-16">
+        <Spinner size="lg" />
+      </div>
+    )
+  }
+
+  return <React.Fragment key={isPublic ? 'public' : workspaceId || 'none'}>{children}</React.Fragment>
+}
@@ -1,14 +1,20 @@
 'use client'
 
 import React from 'react'
-import { Button } from '@nextui-org/react'
-import { FileText, Settings, Upload } from 'lucide-react'
+import { Button, useDisclosure } from '@nextui-org/react'
+import { FileText, KeyRound, LogOut, Settings, Upload, User as UserIcon } from 'lucide-react'
 import { ThemeToggle } from '../ui/ThemeToggle'
+import { ApiKeysModal } from '../ui/ApiKeysModal'
+import { WorkspaceSwitcher } from './WorkspaceSwitcher'
 import { useRouter, usePathname } from 'next/navigation'
+import { authService } from '@/services'
+import { useAppStore } from '@/lib'
 
 export function Header() {
   const router = useRouter()
   const pathname = usePathname()
+  const { user, setUser, resetApp } = useAppStore()
+  const apiKeysModal = useDisclosure()
 
   const handleManageJobs = () => {
     router.push('/jobs')
@@ -22,6 +28,17 @@ export function Header() {
     router.push('/')
   }
 
+  const handleSignOut = async () => {
+    try {
+      await authService.logout()
+    } catch (error) {
+      console.error('Failed to sign out:', error)
+    }
+    setUser(null)
+    resetApp()
+    router.push('/login')
+  }
+
   // Determine which page we're on
   const isOnJobsPage = pathname === '/jobs' || pathname.startsWith('/jobs/')
   const isOnHomePage = pathname === '/'
@@ -46,35 +63,63 @@ export function Header() {
         </div>
         
         <div className="flex items-center gap-4">
-          <Button
-            variant="ghost"
-            startContent={<Upload className="w-4 h-4" />}
-            onPress={handleUploadCSV}
-            className={`rounded-bubbly transition-all duration-200 ${
-              isOnHomePage 
-                ? "border-2 border-primary bg-primary/10" 
-                : "hover:bg-secondary/50"
-            }`}
-            aria-label="Upload CSV"
-          >
-            Upload CSV
-          </Button>
-          <Button
-            variant="ghost"
-            startContent={<Settings className="w-4 h-4" />}
-            onPress={handleManageJobs}
-            className={`rounded-bubbly transition-all duration-200 ${
-              isOnJobsPage 
-                ? "border-2 border-primary bg-primary/10" 
-                : "hover:bg-secondary/50"
-            }`}
-            aria-label="Manage jobs"
-          >
-            Manage Jobs
-          </Button>
+          {user && (
+            <>
+              <WorkspaceSwitcher />
+              <Button
+                variant="ghost"
+                startContent={<Upload className="w-4 h-4" />}
+                onPress={handleUploadCSV}
+                className={`rounded-bubbly transition-all duration-200 ${
+                  isOnHomePage 
+                    ? "border-2 border-primary bg-primary/10" 
+                    : "hover:bg-secondary/50"
+                }`}
+                aria-label="Upload CSV"
+              >
+                Upload CSV
+              </Button>
+              <Button
+                variant="ghost"
+                startContent={<Settings className="w-4 h-4" />}
+                onPress={handleManageJobs}
+                className={`rounded-bubbly transition-all duration-200 ${
+                  isOnJobsPage 
+                    ? "border-2 border-primary bg-primary/10" 
+                    : "hover:bg-secondary/50"
+                }`}
+                aria-label="Manage jobs"
+              >
+                Manage Jobs
+              </Button>
+              <div className="flex items-center gap-2 text-sm text-foreground/70" title={user.email}>
+                <UserIcon className="w-4 h-4" />
+                <span className="font-medium">{user.name || user.email}</span>
+              </div>
+              <Button
+                isIconOnly
+                variant="ghost"
+                onPress={apiKeysModal.onOpen}
+                className="w-10 h-10"
+                aria-label="API keys"
+              >
+                <KeyRound className="w-5 h-5" />
+              </Button>
+              <Button
+                isIconOnly
+                variant="ghost"
+                onPress={handleSignOut}
+                className="w-10 h-10"
+                aria-label="Sign out"
+              >
+                <LogOut className="w-5 h-5" />
+              </Button>
+            </>
+          )}
           <ThemeToggle />
         </div>
       </div>
+      <ApiKeysModal isOpen={apiKeysModal.isOpen} onClose={apiKeysModal.onClose} />
     </header>
   )
 }
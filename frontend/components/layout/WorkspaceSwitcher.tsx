@@ -0,0 +1,186 @@
+'use client'
+
+import React, { useState } from 'react'
+import {
+  Button,
+  Dropdown,
+  DropdownTrigger,
+  DropdownMenu,
+  DropdownSection,
+  DropdownItem,
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Input,
+  useDisclosure
+} from '@nextui-org/react'
+import { Briefcase, Check, ChevronDown, Plus, Users, Webhook, XCircle } from 'lucide-react'
+import { useRouter, usePathname } from 'next/navigation'
+import { workspaceService } from '@/services'
+import { useAppStore } from '@/lib'
+import { WorkspaceMembersModal } from '../ui/WorkspaceMembersModal'
+import { WebhooksModal } from '../ui/WebhooksModal'
+
+/**
+ * Header dropdown for picking the workspace the app works in, creating a new
+ * one and seeing (or, for admins, managing) its members and webhooks.
+ */
+export function WorkspaceSwitcher() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const { user, workspaces, workspaceId, setWorkspaces, setWorkspaceId, resetApp } = useAppStore()
+  const createModal = useDisclosure()
+  const membersModal = useDisclosure()
+  const webhooksModal = useDisclosure()
+  const [newName, setNewName] = useState('')
+  const [isCreating, setIsCreating] = useState(false)
+  const [createError, setCreateError] = useState<string | null>(null)
+
+  const current = workspaces.find(workspace => workspace.id === workspaceId)
+
+  // Work in progress and the open job belong to the previous workspace, so they are left behind
+  const switchTo = (id: string) => {
+    if (id === workspaceId) return
+    resetApp()
+    setWorkspaceId(id)
+    if (pathname.startsWith('/jobs/')) {
+      router.push('/jobs')
+    }
+  }
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsCreating(true)
+    setCreateError(null)
+    try {
+      const workspace = await workspaceService.createWorkspace(newName.trim())
+      setWorkspaces([...workspaces, workspace])
+      switchTo(workspace.id)
+      setNewName('')
+      createModal.onClose()
+    } catch (error) {
+      setCreateError(error instanceof Error ? error.message : 'Failed to create workspace')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleLeave = async () => {
+    const remaining = await workspaceService.getWorkspaces()
+    setWorkspaces(remaining)
+    if (remaining.length > 0) {
+      switchTo(remaining[0].id)
+    }
+  }
+
+  const handleAction = (key: React.Key) => {
+    if (key === 'create') {
+      createModal.onOpen()
+    } else if (key === 'members') {
+      membersModal.onOpen()
+    } else if (key === 'webhooks') {
+      webhooksModal.onOpen()
+    } else {
+      switchTo(String(key))
+    }
+  }
+
+  if (!user || !current) {
+    return null
+  }
+
+  // Only admins can manage webhooks
+  const actions = [
+    { key: 'members', label: current.role === 'admin' ? 'Manage members' : 'Members', icon: <Users className="w-4 h-4" /> },
+    ...(current.role === 'admin' ? [{ key: 'webhooks', label: 'Webhooks', icon: <Webhook className="w-4 h-4" /> }] : []),
+    { key: 'create', label: 'New workspace', icon: <Plus className="w-4 h-4" /> },
+  ]
+
+  return (
+    <>
+      <Dropdown>
+        <DropdownTrigger>
+          <Button
+            variant="ghost"
+            startContent={<Briefcase className="w-4 h-4" />}
+            endContent={<ChevronDown className="w-4 h-4" />}
+            className="rounded-bubbly hover:bg-secondary/50"
+            aria-label="Switch workspace"
+          >
+            <span className="max-w-[10rem] truncate">{current.name}</span>
+          </Button>
+        </DropdownTrigger>
+        <DropdownMenu aria-label="Workspaces" onAction={handleAction}>
+          <DropdownSection title="Workspaces" showDivider>
+            {workspaces.map(workspace => (
+              <DropdownItem
+                key={workspace.id}
+                description={workspace.role}
+                endContent={workspace.id === workspaceId ? <Check className="w-4 h-4 text-primary" /> : null}
+              >
+                {workspace.name}
+              </DropdownItem>
+            ))}
+          </DropdownSection>
+          <DropdownSection items={actions}>
+            {(action) => (
+              <DropdownItem key={action.key} startContent={action.icon}>
+                {action.label}
+              </DropdownItem>
+            )}
+          </DropdownSection>
+        </DropdownMenu>
+      </Dropdown>
+
+      <Modal isOpen={createModal.isOpen} onClose={createModal.onClose}>
+        <ModalContent>
+          <form onSubmit={handleCreate}>
+            <ModalHeader className="flex items-center gap-2">
+              <Briefcase className="w-5 h-5" />
+              New workspace
+            </ModalHeader>
+            <ModalBody>
+              <Input
+                label="Name"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                description="You become its admin and can add members afterwards"
+                autoFocus
+              />
+              {createError && (
+                <div className="flex items-center gap-2 text-danger text-sm">
+                  <XCircle className="w-4 h-4" />
+                  <span>{createError}</span>
+                </div>
+              )}
+            </ModalBody>
+            <ModalFooter>
+              <Button variant="light" onPress={createModal.onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" color="primary" isLoading={isCreating} isDisabled={!newName.trim()}>
+                Create
+              </Button>
+            </ModalFooter>
+          </form>
+        </ModalContent>
+      </Modal>
+
+      <WorkspaceMembersModal
+        isOpen={membersModal.isOpen}
+        onClose={membersModal.onClose}
+        workspace={current}
+        currentUserId={user.id}
+        onLeave={handleLeave}
+      />
+
+      <WebhooksModal
+        isOpen={webhooksModal.isOpen}
+        onClose={webhooksModal.onClose}
+        workspaceName={current.name}
+      />
+    </>
+  )
+}
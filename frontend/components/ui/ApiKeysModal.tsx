@@ -0,0 +1,190 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Button,
+  Input,
+  Checkbox,
+  CheckboxGroup,
+  Chip,
+  Code
+} from '@nextui-org/react'
+import { KeyRound, Plus, Trash2, Copy, XCircle } from 'lucide-react'
+import { apiKeyService, ApiError } from '@/services'
+import { ApiKey, ApiKeyScope } from '@/types'
+
+interface ApiKeysModalProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : 'Never'
+}
+
+export function ApiKeysModal({ isOpen, onClose }: ApiKeysModalProps) {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([])
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['read'])
+  const [isCreating, setIsCreating] = useState(false)
+  // Shown once after creating a key; the server doesn't return it again
+  const [newKey, setNewKey] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+    setError(null)
+    setNewKey(null)
+    apiKeyService.getApiKeys()
+      .then(setApiKeys)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load API keys'))
+  }, [isOpen])
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsCreating(true)
+    setError(null)
+    try {
+      const created = await apiKeyService.createApiKey(name.trim(), scopes)
+      setApiKeys(prev => [created.apiKey, ...prev])
+      setNewKey(created.key)
+      setName('')
+    } catch (err) {
+      if (err instanceof ApiError && err.details?.details) {
+        setError(err.details.details.join(', '))
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to create API key')
+      }
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!confirm(`Revoke "${apiKey.name}"? Scripts using it will stop working.`)) return
+    setError(null)
+    try {
+      await apiKeyService.revokeApiKey(apiKey.id)
+      setApiKeys(await apiKeyService.getApiKeys())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke API key')
+    }
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="2xl" scrollBehavior="inside">
+      <ModalContent>
+        <ModalHeader className="flex items-center gap-2">
+          <KeyRound className="w-5 h-5" />
+          API keys
+        </ModalHeader>
+        <ModalBody className="space-y-4">
+          <p className="text-sm text-default-500">
+            Scripts send a key as <Code size="sm">Authorization: Bearer &lt;key&gt;</Code> and act as you, in the
+            workspace named by <Code size="sm">X-Workspace-Id</Code>. The API is described at{' '}
+            <a href="/api/openapi.json" target="_blank" rel="noreferrer" className="text-primary underline">/api/openapi.json</a>.
+          </p>
+
+          <form onSubmit={handleCreate} className="flex flex-wrap items-end gap-3">
+            <Input
+              label="Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              description="E.g. the script that will use it"
+              className="flex-1 min-w-[12rem]"
+            />
+            <CheckboxGroup
+              label="Scopes"
+              orientation="horizontal"
+              value={scopes}
+              onValueChange={(value) => setScopes(value as ApiKeyScope[])}
+              className="mb-6"
+            >
+              <Checkbox value="read">Read</Checkbox>
+              <Checkbox value="write">Write</Checkbox>
+            </CheckboxGroup>
+            <Button
+              type="submit"
+              color="primary"
+              className="rounded-bubbly mb-6"
+              startContent={<Plus className="w-4 h-4" />}
+              isLoading={isCreating}
+              isDisabled={!name.trim() || scopes.length === 0}
+            >
+              Create
+            </Button>
+          </form>
+
+          {newKey && (
+            <div className="p-3 rounded-bubbly bg-success-50 dark:bg-success-900/20 space-y-2">
+              <p className="text-sm font-medium">Copy the key now; it won&apos;t be shown again.</p>
+              <div className="flex items-center gap-2">
+                <Code className="flex-1 break-all">{newKey}</Code>
+                <Button
+                  isIconOnly
+                  size="sm"
+                  variant="light"
+                  onPress={() => navigator.clipboard.writeText(newKey)}
+                  aria-label="Copy API key"
+                >
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-center gap-2 text-danger text-sm">
+              <XCircle className="w-4 h-4" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="divide-y divide-divider">
+            {apiKeys.length === 0 && (
+              <p className="text-sm text-default-500 py-3">No API keys yet</p>
+            )}
+            {apiKeys.map((apiKey) => (
+              <div key={apiKey.id} className="flex items-center justify-between gap-4 py-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{apiKey.name}</span>
+                    {apiKey.scopes.map(scope => (
+                      <Chip key={scope} size="sm" variant="flat">{scope}</Chip>
+                    ))}
+                    {apiKey.revokedAt && <Chip size="sm" color="danger" variant="flat">revoked</Chip>}
+                  </div>
+                  <div className="text-xs text-default-500">
+                    <Code size="sm">{apiKey.prefix}…</Code> · Last used: {formatDate(apiKey.lastUsedAt)}
+                  </div>
+                </div>
+                {!apiKey.revokedAt && (
+                  <Button
+                    isIconOnly
+                    size="sm"
+                    variant="light"
+                    color="danger"
+                    onPress={() => handleRevoke(apiKey)}
+                    aria-label={`Revoke ${apiKey.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="light" onPress={onClose}>
+            Close
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  )
+}
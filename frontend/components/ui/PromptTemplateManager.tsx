@@ -0,0 +1,211 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  Button,
+  Input,
+  Textarea,
+  Chip,
+  Card,
+  CardBody,
+  CardHeader
+} from '@nextui-org/react'
+import { Plus, Pencil, Trash2 } from 'lucide-react'
+import { templateService } from '@/services'
+import { PromptTemplateRecord } from '@/types'
+
+interface PromptTemplateManagerProps {
+  onTemplatesChange?: (templates: PromptTemplateRecord[]) => void
+}
+
+const emptyDraft = {
+  name: '',
+  description: '',
+  systemPrompt: '',
+  userPrompt: 'URL: {url}'
+}
+
+export function PromptTemplateManager({ onTemplatesChange }: PromptTemplateManagerProps) {
+  const [templates, setTemplates] = useState<PromptTemplateRecord[]>([])
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [isCreating, setIsCreating] = useState(false)
+  const [draft, setDraft] = useState(emptyDraft)
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const fetchTemplates = async () => {
+    try {
+      const data = await templateService.getTemplates()
+      setTemplates(data)
+      onTemplatesChange?.(data)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load templates')
+    }
+  }
+
+  useEffect(() => {
+    fetchTemplates()
+  }, [])
+
+  const startCreate = () => {
+    setEditingId(null)
+    setIsCreating(true)
+    setDraft(emptyDraft)
+  }
+
+  const startEdit = (template: PromptTemplateRecord) => {
+    setIsCreating(false)
+    setEditingId(template.id)
+    setDraft({
+      name: template.name,
+      description: template.description || '',
+      systemPrompt: template.system_prompt,
+      userPrompt: template.user_prompt
+    })
+  }
+
+  const cancelEdit = () => {
+    setIsCreating(false)
+    setEditingId(null)
+    setDraft(emptyDraft)
+  }
+
+  const handleSave = async () => {
+    if (!draft.name.trim() || !draft.systemPrompt.trim() || !draft.userPrompt.trim()) {
+      setError('Name, system prompt and user prompt are required')
+      return
+    }
+
+    try {
+      setSaving(true)
+      if (editingId) {
+        await templateService.updateTemplate(editingId, draft)
+      } else {
+        await templateService.createTemplate(draft)
+      }
+      cancelEdit()
+      await fetchTemplates()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save template')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (template: PromptTemplateRecord) => {
+    if (!confirm(`Delete template "${template.name}"?`)) return
+
+    try {
+      await templateService.deleteTemplate(template.id)
+      if (editingId === template.id) cancelEdit()
+      await fetchTemplates()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete template')
+    }
+  }
+
+  const isEditing = isCreating || editingId !== null
+
+  return (
+    <Card>
+      <CardHeader className="card-header-shadow flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Prompt Templates</h3>
+        <Button
+          size="sm"
+          variant="bordered"
+          startContent={<Plus className="w-4 h-4" />}
+          onPress={startCreate}
+          className="rounded-bubbly"
+        >
+          New Template
+        </Button>
+      </CardHeader>
+      <CardBody className="space-y-4">
+        {error && <p className="text-sm text-danger">{error}</p>}
+
+        {templates.length === 0 && !isEditing && (
+          <p className="text-sm text-default-500">
+            No custom templates yet. Jobs use the built-in prompt for their content type.
+          </p>
+        )}
+
+        {templates.map((template) => (
+          <div key={template.id} className="flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-medium truncate">{template.name}</span>
+                <Chip size="sm" variant="flat">v{template.version}</Chip>
+              </div>
+              {template.description && (
+                <p className="text-xs text-default-500 truncate">{template.description}</p>
+              )}
+            </div>
+            <div className="flex items-center gap-1 flex-shrink-0">
+              <Button
+                isIconOnly
+                size="sm"
+                variant="ghost"
+                onPress={() => startEdit(template)}
+                aria-label={`Edit template ${template.name}`}
+              >
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button
+                isIconOnly
+                size="sm"
+                variant="ghost"
+                color="danger"
+                onPress={() => handleDelete(template)}
+                aria-label={`Delete template ${template.name}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {isEditing && (
+          <div className="space-y-3 border-t border-divider/50 pt-4">
+            <Input
+              label="Name"
+              value={draft.name}
+              onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+            />
+            <Input
+              label="Description"
+              value={draft.description}
+              onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+            />
+            <Textarea
+              label="System Prompt"
+              value={draft.systemPrompt}
+              onChange={(e) => setDraft(prev => ({ ...prev, systemPrompt: e.target.value }))}
+              minRows={2}
+            />
+            <Textarea
+              label="User Prompt"
+              value={draft.userPrompt}
+              onChange={(e) => setDraft(prev => ({ ...prev, userPrompt: e.target.value }))}
+              minRows={4}
+              description='Use {url} for the row URL and {{column}} for any CSV column, e.g. {{first_name | "there"}}'
+            />
+            {editingId && (
+              <p className="text-xs text-default-500">
+                Saving prompt changes creates a new version; existing jobs keep the version they ran with.
+              </p>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onPress={cancelEdit}>
+                Cancel
+              </Button>
+              <Button color="primary" onPress={handleSave} isLoading={saving}>
+                {editingId ? 'Save Template' : 'Create Template'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import {
   Modal,
   ModalContent,
@@ -19,10 +19,15 @@ import {
   CardHeader
 } from '@nextui-org/react'
 import { Settings, Info } from 'lucide-react'
+import { PromptTemplateManager } from './PromptTemplateManager'
+import { ESTIMATED_PROMPT_TOKENS } from '@/lib'
+import { jobService, budgetService } from '@/services'
+import { PromptTemplateRecord, PricingTable, DailyBudget } from '@/types'
 
 interface SettingsModalProps {
   isOpen: boolean
   onClose: () => void
+  onTemplatesChange?: (templates: PromptTemplateRecord[]) => void
 }
 
 const modelOptions = [
@@ -31,7 +36,7 @@ const modelOptions = [
   { key: 'gpt-4-turbo', label: 'GPT-4 Turbo', description: 'Latest model with improved performance' }
 ]
 
-export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
+export function SettingsModal({ isOpen, onClose, onTemplatesChange }: SettingsModalProps) {
   const [settings, setSettings] = useState({
     model: 'gpt-3.5-turbo',
     temperature: 0.7,
@@ -42,10 +47,40 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
     enableCostTracking: true,
     enableDetailedLogs: false
   })
+  const [pricing, setPricing] = useState<PricingTable | null>(null)
+  // The daily cap lives on the server, so it is loaded on open rather than kept with the local settings
+  const [dailyBudget, setDailyBudget] = useState<DailyBudget | null>(null)
+  const [dailyBudgetInput, setDailyBudgetInput] = useState('')
 
-  const handleSave = () => {
+  useEffect(() => {
+    if (!isOpen || pricing) return
+    jobService.getModelPricing()
+      .then(setPricing)
+      .catch(error => console.error('Failed to load model pricing:', error))
+  }, [isOpen])
+
+  useEffect(() => {
+    if (!isOpen) return
+    budgetService.getDailyBudget()
+      .then(daily => {
+        setDailyBudget(daily)
+        setDailyBudgetInput(daily.limit !== null ? String(daily.limit) : '')
+      })
+      .catch(error => console.error('Failed to load daily budget:', error))
+  }, [isOpen])
+
+  const handleSave = async () => {
     // Save settings to localStorage or send to backend
     localStorage.setItem('csv-opener-settings', JSON.stringify(settings))
+
+    const amount = parseFloat(dailyBudgetInput) || 0
+    if (dailyBudget && amount !== (dailyBudget.limit || 0)) {
+      try {
+        setDailyBudget(await budgetService.updateDailyBudget(Math.max(0, amount)))
+      } catch (error) {
+        console.error('Failed to update daily budget:', error)
+      }
+    }
     onClose()
   }
 
@@ -62,7 +97,11 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
     })
   }
 
-  const estimatedCost = (settings.maxTokens * 0.0015) / 1000 // Rough estimate
+  // Per URL, assuming a typical prompt and a full-length response
+  const modelPricing = pricing?.[settings.model]
+  const estimatedCost = modelPricing
+    ? (ESTIMATED_PROMPT_TOKENS * modelPricing.inputPer1K + settings.maxTokens * modelPricing.outputPer1K) / 1000
+    : null
 
   return (
     <Modal isOpen={isOpen} onClose={onClose} size="2xl" scrollBehavior="inside">
@@ -125,6 +164,9 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
             </CardBody>
           </Card>
 
+          {/* Prompt Templates */}
+          <PromptTemplateManager onTemplatesChange={onTemplatesChange} />
+
           {/* Processing Configuration */}
           <Card>
             <CardHeader className="card-header-shadow">
@@ -160,6 +202,20 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                 max={10000}
                 description="Delay between retry attempts in milliseconds"
               />
+
+              <Input
+                label="Daily Budget (USD)"
+                type="number"
+                value={dailyBudgetInput}
+                onChange={(e) => setDailyBudgetInput(e.target.value)}
+                min={0}
+                step="0.01"
+                placeholder="No cap"
+                isDisabled={!dailyBudget}
+                description={dailyBudget
+                  ? `Jobs stop once today's spend across all jobs reaches it ($${dailyBudget.spent.toFixed(2)} spent today). Empty for no cap.`
+                  : 'Jobs stop once today\'s spend across all jobs reaches it'}
+              />
             </CardBody>
           </Card>
 
@@ -199,7 +255,10 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                 <span className="font-medium text-primary">Cost Estimation</span>
               </div>
               <p className="text-sm text-primary-700">
-                Estimated cost per 1,000 URLs: <span className="font-semibold">${(estimatedCost * 1000).toFixed(2)}</span>
+                Estimated cost per 1,000 URLs:{' '}
+                <span className="font-semibold">
+                  {estimatedCost !== null ? `$${(estimatedCost * 1000).toFixed(2)}` : 'No pricing configured for this model'}
+                </span>
               </p>
               <p className="text-xs text-primary-600 mt-1">
                 Based on current settings. Actual costs may vary.
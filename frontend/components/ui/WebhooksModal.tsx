@@ -0,0 +1,300 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Button,
+  Input,
+  Checkbox,
+  CheckboxGroup,
+  Chip,
+  Code,
+  Switch
+} from '@nextui-org/react'
+import { Webhook as WebhookIcon, Plus, Trash2, Copy, Send, History, Eye, XCircle } from 'lucide-react'
+import { webhookService, ApiError } from '@/services'
+import { Webhook, WebhookDelivery, WebhookDeliveryStatus, WebhookEvent } from '@/types'
+
+interface WebhooksModalProps {
+  isOpen: boolean
+  onClose: () => void
+  workspaceName: string
+}
+
+const EVENTS: Array<{ value: WebhookEvent; label: string }> = [
+  { value: 'job.started', label: 'Job started' },
+  { value: 'job.completed', label: 'Job completed' },
+  { value: 'job.failed', label: 'Job failed' },
+  { value: 'job.stopped', label: 'Job stopped' },
+  { value: 'url.completed', label: 'Every completed row' },
+]
+
+const DELIVERY_COLORS: Record<WebhookDeliveryStatus, 'default' | 'warning' | 'success' | 'danger'> = {
+  pending: 'default',
+  retrying: 'warning',
+  delivered: 'success',
+  failed: 'danger',
+}
+
+export function WebhooksModal({ isOpen, onClose, workspaceName }: WebhooksModalProps) {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([])
+  const [url, setUrl] = useState('')
+  const [description, setDescription] = useState('')
+  const [events, setEvents] = useState<WebhookEvent[]>(['job.completed', 'job.failed', 'job.stopped'])
+  const [isCreating, setIsCreating] = useState(false)
+  // The secret of the webhook whose secret was asked for, shown until another is
+  const [secret, setSecret] = useState<{ webhookId: string; value: string } | null>(null)
+  // Delivery log of the webhook it was opened for
+  const [deliveries, setDeliveries] = useState<{ webhookId: string; items: WebhookDelivery[] } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+    setError(null)
+    setSecret(null)
+    setDeliveries(null)
+    webhookService.getWebhooks()
+      .then(setWebhooks)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load webhooks'))
+  }, [isOpen])
+
+  const showError = (err: unknown, fallback: string) => {
+    if (err instanceof ApiError && err.details?.details) {
+      setError(err.details.details.join(', '))
+    } else {
+      setError(err instanceof Error ? err.message : fallback)
+    }
+  }
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsCreating(true)
+    setError(null)
+    try {
+      const created = await webhookService.createWebhook(url.trim(), events, description.trim() || undefined)
+      const { secret: value, ...webhook } = created
+      setWebhooks(prev => [...prev, webhook])
+      setSecret({ webhookId: webhook.id, value })
+      setUrl('')
+      setDescription('')
+    } catch (err) {
+      showError(err, 'Failed to create webhook')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleToggle = async (webhook: Webhook, active: boolean) => {
+    setError(null)
+    try {
+      const updated = await webhookService.updateWebhook(webhook.id, { active })
+      setWebhooks(prev => prev.map(item => item.id === updated.id ? updated : item))
+    } catch (err) {
+      showError(err, 'Failed to update webhook')
+    }
+  }
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (!confirm(`Delete the webhook for ${webhook.url}? Its delivery log is deleted with it.`)) return
+    setError(null)
+    try {
+      await webhookService.deleteWebhook(webhook.id)
+      setWebhooks(prev => prev.filter(item => item.id !== webhook.id))
+    } catch (err) {
+      showError(err, 'Failed to delete webhook')
+    }
+  }
+
+  const handleShowSecret = async (webhook: Webhook) => {
+    setError(null)
+    try {
+      const found = await webhookService.getWebhook(webhook.id)
+      setSecret({ webhookId: webhook.id, value: found.secret })
+    } catch (err) {
+      showError(err, 'Failed to get webhook secret')
+    }
+  }
+
+  const loadDeliveries = async (webhookId: string) => {
+    setDeliveries({ webhookId, items: await webhookService.getDeliveries(webhookId) })
+  }
+
+  const handleTest = async (webhook: Webhook) => {
+    setError(null)
+    try {
+      await webhookService.sendTestEvent(webhook.id)
+      await loadDeliveries(webhook.id)
+    } catch (err) {
+      showError(err, 'Failed to send test event')
+    }
+  }
+
+  const handleDeliveries = async (webhook: Webhook) => {
+    setError(null)
+    if (deliveries?.webhookId === webhook.id) {
+      setDeliveries(null)
+      return
+    }
+    try {
+      await loadDeliveries(webhook.id)
+    } catch (err) {
+      showError(err, 'Failed to load deliveries')
+    }
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="3xl" scrollBehavior="inside">
+      <ModalContent>
+        <ModalHeader className="flex items-center gap-2">
+          <WebhookIcon className="w-5 h-5" />
+          Webhooks · {workspaceName}
+        </ModalHeader>
+        <ModalBody className="space-y-4">
+          <p className="text-sm text-default-500">
+            Each webhook receives a signed POST when the workspace&apos;s jobs start, finish, fail or stop. Check the{' '}
+            <Code size="sm">X-Webhook-Signature</Code> header, an HMAC-SHA256 of{' '}
+            <Code size="sm">&lt;timestamp&gt;.&lt;body&gt;</Code>, against the webhook&apos;s secret.
+          </p>
+
+          <form onSubmit={handleCreate} className="space-y-3">
+            <div className="flex flex-wrap gap-3">
+              <Input
+                label="URL"
+                type="url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://example.com/webhooks/csv-opener"
+                className="flex-1 min-w-[16rem]"
+              />
+              <Input
+                label="Description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="flex-1 min-w-[12rem]"
+              />
+            </div>
+            <CheckboxGroup
+              label="Events"
+              orientation="horizontal"
+              value={events}
+              onValueChange={(value) => setEvents(value as WebhookEvent[])}
+            >
+              {EVENTS.map(event => (
+                <Checkbox key={event.value} value={event.value}>{event.label}</Checkbox>
+              ))}
+            </CheckboxGroup>
+            <Button
+              type="submit"
+              color="primary"
+              className="rounded-bubbly"
+              startContent={<Plus className="w-4 h-4" />}
+              isLoading={isCreating}
+              isDisabled={!url.trim() || events.length === 0}
+            >
+              Add webhook
+            </Button>
+          </form>
+
+          {error && (
+            <div className="flex items-center gap-2 text-danger text-sm">
+              <XCircle className="w-4 h-4" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="divide-y divide-divider">
+            {webhooks.length === 0 && (
+              <p className="text-sm text-default-500 py-3">No webhooks yet</p>
+            )}
+            {webhooks.map((webhook) => (
+              <div key={webhook.id} className="py-3 space-y-2">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{webhook.url}</div>
+                    {webhook.description && (
+                      <div className="text-xs text-default-500 truncate">{webhook.description}</div>
+                    )}
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {webhook.events.map(event => (
+                        <Chip key={event} size="sm" variant="flat">{event}</Chip>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Switch
+                      size="sm"
+                      isSelected={webhook.active}
+                      onValueChange={(active) => handleToggle(webhook, active)}
+                      aria-label={webhook.active ? 'Pause webhook' : 'Resume webhook'}
+                    />
+                    <Button isIconOnly size="sm" variant="light" onPress={() => handleShowSecret(webhook)} aria-label="Show secret">
+                      <Eye className="w-4 h-4" />
+                    </Button>
+                    <Button isIconOnly size="sm" variant="light" onPress={() => handleTest(webhook)} aria-label="Send test event">
+                      <Send className="w-4 h-4" />
+                    </Button>
+                    <Button isIconOnly size="sm" variant="light" onPress={() => handleDeliveries(webhook)} aria-label="Show deliveries">
+                      <History className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      isIconOnly
+                      size="sm"
+                      variant="light"
+                      color="danger"
+                      onPress={() => handleDelete(webhook)}
+                      aria-label="Delete webhook"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                {secret?.webhookId === webhook.id && (
+                  <div className="flex items-center gap-2">
+                    <Code className="flex-1 break-all">{secret.value}</Code>
+                    <Button
+                      isIconOnly
+                      size="sm"
+                      variant="light"
+                      onPress={() => navigator.clipboard.writeText(secret.value)}
+                      aria-label="Copy secret"
+                    >
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+
+                {deliveries?.webhookId === webhook.id && (
+                  <div className="rounded-bubbly bg-default-100 p-2 text-xs space-y-1">
+                    {deliveries.items.length === 0 && <p className="text-default-500">No deliveries yet</p>}
+                    {deliveries.items.map(delivery => (
+                      <div key={delivery.id} className="flex items-center gap-2">
+                        <Chip size="sm" variant="flat" color={DELIVERY_COLORS[delivery.status]}>{delivery.status}</Chip>
+                        <span className="font-mono">{delivery.event}</span>
+                        <span className="text-default-500">
+                          {new Date(delivery.createdAt).toLocaleString()} · {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+                          {delivery.responseStatus !== null && ` · HTTP ${delivery.responseStatus}`}
+                          {delivery.durationMs !== null && ` · ${delivery.durationMs}ms`}
+                        </span>
+                        {delivery.error && <span className="text-danger truncate">{delivery.error}</span>}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="light" onPress={onClose}>
+            Close
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  )
+}
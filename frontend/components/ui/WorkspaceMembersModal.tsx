@@ -0,0 +1,226 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Button,
+  Input,
+  Select,
+  SelectItem,
+  Chip
+} from '@nextui-org/react'
+import { Users, UserPlus, Trash2, XCircle } from 'lucide-react'
+import { workspaceService, ApiError } from '@/services'
+import { Workspace, WorkspaceMember, WorkspaceRole } from '@/types'
+
+interface WorkspaceMembersModalProps {
+  isOpen: boolean
+  onClose: () => void
+  workspace: Workspace
+  currentUserId: string
+  // Called after the signed-in user left the workspace
+  onLeave: () => void
+}
+
+const roleOptions: Array<{ key: WorkspaceRole, label: string, description: string }> = [
+  { key: 'viewer', label: 'Viewer', description: 'Open jobs and download results' },
+  { key: 'editor', label: 'Editor', description: 'Also upload, start, stop and retry jobs' },
+  { key: 'admin', label: 'Admin', description: 'Also delete jobs and manage members' }
+]
+
+function errorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ApiError && error.details?.details) {
+    return error.details.details.join(', ')
+  }
+  return error instanceof Error ? error.message : fallback
+}
+
+export function WorkspaceMembersModal({ isOpen, onClose, workspace, currentUserId, onLeave }: WorkspaceMembersModalProps) {
+  const [members, setMembers] = useState<WorkspaceMember[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<WorkspaceRole>('viewer')
+  const [isAdding, setIsAdding] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const isAdmin = workspace.role === 'admin'
+
+  useEffect(() => {
+    if (!isOpen) return
+    setError(null)
+    setIsLoading(true)
+    workspaceService.getMembers(workspace.id)
+      .then(setMembers)
+      .catch(err => setError(errorMessage(err, 'Failed to load members')))
+      .finally(() => setIsLoading(false))
+  }, [isOpen, workspace.id])
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsAdding(true)
+    setError(null)
+    try {
+      setMembers(await workspaceService.addMember(workspace.id, email.trim(), role))
+      setEmail('')
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to add member'))
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const handleRoleChange = async (member: WorkspaceMember, newRole: WorkspaceRole) => {
+    if (newRole === member.role) return
+    setError(null)
+    try {
+      setMembers(await workspaceService.updateMemberRole(workspace.id, member.userId, newRole))
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to change role'))
+    }
+  }
+
+  const handleRemove = async (member: WorkspaceMember) => {
+    const isSelf = member.userId === currentUserId
+    const prompt = isSelf
+      ? `Leave "${workspace.name}"? You will lose access to its jobs.`
+      : `Remove ${member.name || member.email} from "${workspace.name}"?`
+    if (!confirm(prompt)) return
+
+    setError(null)
+    try {
+      await workspaceService.removeMember(workspace.id, member.userId)
+      if (isSelf) {
+        onClose()
+        onLeave()
+        return
+      }
+      setMembers(prev => prev.filter(m => m.userId !== member.userId))
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to remove member'))
+    }
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="2xl" scrollBehavior="inside">
+      <ModalContent>
+        <ModalHeader className="flex items-center gap-2">
+          <Users className="w-5 h-5" />
+          Members of {workspace.name}
+        </ModalHeader>
+        <ModalBody className="space-y-4">
+          {isAdmin && (
+            <form onSubmit={handleAdd} className="flex items-end gap-2">
+              <Input
+                label="E-mail"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                description="They need an account to be added"
+                className="flex-1"
+              />
+              <Select
+                label="Role"
+                selectedKeys={[role]}
+                onSelectionChange={(keys) => {
+                  const selected = Array.from(keys)[0] as WorkspaceRole
+                  if (selected) setRole(selected)
+                }}
+                className="w-36"
+              >
+                {roleOptions.map((option) => (
+                  <SelectItem key={option.key} value={option.key} textValue={option.label}>
+                    <div>
+                      <div className="font-medium">{option.label}</div>
+                      <div className="text-xs text-default-500">{option.description}</div>
+                    </div>
+                  </SelectItem>
+                ))}
+              </Select>
+              <Button
+                type="submit"
+                color="primary"
+                className="rounded-bubbly mb-6"
+                startContent={<UserPlus className="w-4 h-4" />}
+                isLoading={isAdding}
+                isDisabled={!email.trim()}
+              >
+                Add
+              </Button>
+            </form>
+          )}
+
+          {error && (
+            <div className="flex items-center gap-2 text-danger text-sm">
+              <XCircle className="w-4 h-4" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {isLoading ? (
+            <p className="text-sm text-default-500">Loading members...</p>
+          ) : (
+            <div className="divide-y divide-divider">
+              {members.map((member) => {
+                const isSelf = member.userId === currentUserId
+                return (
+                  <div key={member.userId} className="flex items-center justify-between gap-4 py-3">
+                    <div className="min-w-0">
+                      <div className="font-medium truncate">
+                        {member.name || member.email}
+                        {isSelf && <span className="text-default-500 font-normal"> (you)</span>}
+                      </div>
+                      {member.name && <div className="text-xs text-default-500 truncate">{member.email}</div>}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {isAdmin ? (
+                        <Select
+                          aria-label={`Role of ${member.email}`}
+                          size="sm"
+                          selectedKeys={[member.role]}
+                          onSelectionChange={(keys) => {
+                            const selected = Array.from(keys)[0] as WorkspaceRole
+                            if (selected) handleRoleChange(member, selected)
+                          }}
+                          className="w-32"
+                        >
+                          {roleOptions.map((option) => (
+                            <SelectItem key={option.key} value={option.key}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </Select>
+                      ) : (
+                        <Chip size="sm" variant="flat">{member.role}</Chip>
+                      )}
+                      {(isAdmin || isSelf) && (
+                        <Button
+                          isIconOnly
+                          size="sm"
+                          variant="light"
+                          color="danger"
+                          onPress={() => handleRemove(member)}
+                          aria-label={isSelf ? 'Leave workspace' : `Remove ${member.email}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="light" onPress={onClose}>
+            Close
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  )
+}
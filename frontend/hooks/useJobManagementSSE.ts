@@ -1,4 +1,6 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
+import { JobProgressCost, StopReason, ExceededBudget } from '@/types'
+import { apiClient } from '@/services'
 
 interface JobProgressUpdate {
   jobId: string
@@ -10,6 +12,12 @@ interface JobProgressUpdate {
     pending: number
   }
   currentUrl?: string
+  // Running totals; absent on updates that didn't use any tokens
+  cost?: JobProgressCost
+  stopReason?: StopReason
+  // The cap that stopped the job, sent with the stopped event
+  budget?: ExceededBudget
+  error?: string
 }
 
 interface JobManagementSSE {
@@ -24,6 +32,8 @@ export function useJobManagementSSE(jobIds: string[]): JobManagementSSE {
   const [isConnected, setIsConnected] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const eventSourcesRef = useRef<Map<string, EventSource>>(new Map())
+  // Id of the last update received per job, so a forced reconnect resumes after it
+  const lastEventIdsRef = useRef<Map<string, string>>(new Map())
   const isInitializedRef = useRef(false)
 
   // Memoize the jobIds to prevent unnecessary re-renders
@@ -56,7 +66,14 @@ export function useJobManagementSSE(jobIds: string[]): JobManagementSSE {
     }
 
     console.log(`Creating SSE connection for job ${jobId}`)
-    const eventSource = new EventSource(`http://localhost:3001/api/jobs/${jobId}/stream`)
+    // EventSource can't send headers, so the workspace goes in the query string
+    const workspace = apiClient.getWorkspaceId()
+    const params = new URLSearchParams()
+    if (workspace) params.set('workspace', workspace)
+    const lastEventId = lastEventIdsRef.current.get(jobId)
+    if (lastEventId) params.set('lastEventId', lastEventId)
+    const query = params.toString() ? `?${params}` : ''
+    const eventSource = new EventSource(`http://localhost:3001/api/jobs/${jobId}/stream${query}`, { withCredentials: true })
     
     eventSource.onopen = () => {
       console.log(`SSE connection opened for job ${jobId}`)
@@ -68,6 +85,9 @@ export function useJobManagementSSE(jobIds: string[]): JobManagementSSE {
       try {
         const update: JobProgressUpdate = JSON.parse(event.data)
         console.log(`SSE update received for job ${update.jobId}:`, update)
+        if (event.lastEventId) {
+          lastEventIdsRef.current.set(jobId, event.lastEventId)
+        }
         
         setJobProgress(prev => ({
           ...prev,
@@ -78,13 +98,21 @@ export function useJobManagementSSE(jobIds: string[]): JobManagementSSE {
       }
     }
 
+    // Sent when the job is done and the server ends the stream; closing keeps the browser from reconnecting
+    eventSource.addEventListener('end', () => {
+      eventSource.close()
+      eventSourcesRef.current.delete(jobId)
+    })
+
     eventSource.onerror = (error) => {
       console.error(`SSE connection error for job ${jobId}:`, error)
-      setError(`Connection error for job ${jobId}`)
       setIsConnected(false)
-      // Close the connection on error to prevent retries
-      eventSource.close()
-      eventSourcesRef.current.delete(jobId)
+      // The browser reconnects by itself, sending Last-Event-ID so missed updates are replayed;
+      // it gives up (CLOSED) when the server refuses the stream
+      if (eventSource.readyState === EventSource.CLOSED) {
+        setError(`Connection error for job ${jobId}`)
+        eventSourcesRef.current.delete(jobId)
+      }
     }
 
     eventSourcesRef.current.set(jobId, eventSource)
@@ -1,8 +1,16 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
-import { CSVRow, JobResult, ContentType, AppStep } from '@/types'
+import { CSVRow, JobResult, ContentType, AppStep, ProcessingMode, User, Workspace } from '@/types'
+import { apiClient } from '@/services/apiClient'
 
 interface AppState {
+  // Signed-in user; null until the session is checked, and after signing out
+  user: User | null
+
+  // The signed-in user's workspaces and the one jobs, templates and budgets are loaded from
+  workspaces: Workspace[]
+  workspaceId: string | null
+  
   // Current step in the process
   currentStep: AppStep
   
@@ -12,6 +20,15 @@ interface AppState {
   
   // Processing configuration
   contentType: ContentType
+  templateId: string | null
+  enrichPages: boolean
+  // Reuse openers other jobs generated for the same URL and template
+  useCache: boolean
+  providerId: string | null
+  processingMode: ProcessingMode
+  // Openers per row, and the template of each variant by position (null for the job's prompt)
+  variantCount: number
+  variantTemplateIds: Array<string | null>
   
   // Job tracking
   jobId: string | null
@@ -22,10 +39,20 @@ interface AppState {
   error: string | null
   
   // Actions
+  setUser: (user: User | null) => void
+  setWorkspaces: (workspaces: Workspace[]) => void
+  setWorkspaceId: (id: string | null) => void
   setCurrentStep: (step: AppStep) => void
   setCsvData: (data: CSVRow[] | null) => void
   setSelectedColumn: (column: string | null) => void
   setContentType: (type: ContentType) => void
+  setTemplateId: (id: string | null) => void
+  setEnrichPages: (enabled: boolean) => void
+  setUseCache: (enabled: boolean) => void
+  setProviderId: (id: string | null) => void
+  setProcessingMode: (mode: ProcessingMode) => void
+  setVariantCount: (count: number) => void
+  setVariantTemplateIds: (ids: Array<string | null>) => void
   setJobId: (id: string | null) => void
   setJobStatus: (status: 'pending' | 'processing' | 'completed' | 'failed' | null) => void
   setResults: (results: JobResult[] | null) => void
@@ -38,6 +65,13 @@ const initialState = {
   csvData: null,
   selectedColumn: null,
   contentType: 'company' as ContentType,
+  templateId: null,
+  enrichPages: false,
+  useCache: false,
+  providerId: null,
+  processingMode: 'realtime' as ProcessingMode,
+  variantCount: 1,
+  variantTemplateIds: [] as Array<string | null>,
   jobId: null,
   jobStatus: null,
   results: null,
@@ -48,11 +82,29 @@ export const useAppStore = create<AppState>()(
   persist(
     (set, get) => ({
       ...initialState,
+      // Not part of initialState, so resetting the app keeps the user signed in and in their workspace
+      user: null,
+      workspaces: [],
+      workspaceId: null,
       
+      setUser: (user) => set({ user }),
+      setWorkspaces: (workspaces) => set({ workspaces }),
+      // Every API request is sent in the selected workspace
+      setWorkspaceId: (id) => {
+        apiClient.setWorkspaceId(id)
+        set({ workspaceId: id })
+      },
       setCurrentStep: (step) => set({ currentStep: step }),
       setCsvData: (data) => set({ csvData: data }),
       setSelectedColumn: (column) => set({ selectedColumn: column }),
       setContentType: (type) => set({ contentType: type }),
+      setTemplateId: (id) => set({ templateId: id }),
+      setEnrichPages: (enabled) => set({ enrichPages: enabled }),
+      setUseCache: (enabled) => set({ useCache: enabled }),
+      setProviderId: (id) => set({ providerId: id }),
+      setProcessingMode: (mode) => set({ processingMode: mode }),
+      setVariantCount: (count) => set({ variantCount: count }),
+      setVariantTemplateIds: (ids) => set({ variantTemplateIds: ids }),
       setJobId: (id) => set({ jobId: id }),
       setJobStatus: (status) => set({ jobStatus: status }),
       setResults: (results) => set({ results }),
@@ -64,6 +116,14 @@ export const useAppStore = create<AppState>()(
       name: 'csv-opener-storage',
       partialize: (state) => ({
         contentType: state.contentType,
+        templateId: state.templateId,
+        enrichPages: state.enrichPages,
+        useCache: state.useCache,
+        providerId: state.providerId,
+        processingMode: state.processingMode,
+        variantCount: state.variantCount,
+        variantTemplateIds: state.variantTemplateIds,
+        workspaceId: state.workspaceId,
       }),
     }
   )
@@ -1,3 +1,5 @@
+import type { SkipReason } from '@/types'
+
 export const APP_CONFIG = {
   name: 'CSV Opener',
   description: 'Generate professional outreach openers from CSV URLs using OpenAI',
@@ -28,29 +30,38 @@ export const PROMPT_TEMPLATES = {
 {url}`
 } as const
 
+export const EXPORT_FORMATS = [
+  { key: 'csv', label: 'CSV' },
+  { key: 'tsv', label: 'TSV' },
+  { key: 'xlsx', label: 'Excel (.xlsx)' },
+  { key: 'json', label: 'JSON' },
+  { key: 'jsonl', label: 'JSON Lines' }
+] as const
+
+// Why rows are skipped at upload instead of being processed
+export const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+  empty_url: 'Empty URL',
+  email_address: 'E-mail address',
+  invalid_url: 'Not a URL'
+}
+
+// File types accepted by the uploader; workbooks are parsed on the server
+export const UPLOAD_EXTENSIONS = ['.csv', '.tsv', '.xlsx'] as const
+
+// Larger files are sent in parts through a resumable upload session (server MAX_FILE_SIZE / MAX_UPLOAD_SIZE)
+export const UPLOAD_LIMITS = {
+  singleRequestBytes: 10 * 1024 * 1024,
+  maxBytes: 500 * 1024 * 1024,
+} as const
+
 export const MODEL_OPTIONS = [
   { key: 'gpt-3.5-turbo', label: 'GPT-3.5 Turbo', description: 'Fast and cost-effective' },
   { key: 'gpt-4', label: 'GPT-4', description: 'Higher quality, more expensive' },
   { key: 'gpt-4-turbo', label: 'GPT-4 Turbo', description: 'Latest model with improved performance' }
 ] as const
 
-export const COST_ESTIMATES = {
-  'gpt-3.5-turbo': {
-    tokensPerRequest: 50,
-    costPerToken: 0.0000015,
-    estimatedCostPer1000: 0.075,
-  },
-  'gpt-4': {
-    tokensPerRequest: 50,
-    costPerToken: 0.00003,
-    estimatedCostPer1000: 1.5,
-  },
-  'gpt-4-turbo': {
-    tokensPerRequest: 50,
-    costPerToken: 0.00001,
-    estimatedCostPer1000: 0.5,
-  }
-} as const
+// Rough prompt size per URL, used with the server's price table to estimate costs
+export const ESTIMATED_PROMPT_TOKENS = 150
 
 export const API_ENDPOINTS = {
   upload: '/api/upload',
@@ -65,5 +76,7 @@ export const STORAGE_KEYS = {
   settings: 'csv-opener-settings',
   appState: 'csv-opener-storage',
   theme: 'theme',
+  // Upload sessions by file, so an interrupted upload resumes after a reload
+  uploadSessions: 'csv-opener-upload-sessions',
 } as const
 
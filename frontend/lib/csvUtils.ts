@@ -217,16 +217,6 @@ export function formatFileSize(bytes: number): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
 }
 
-/**
- * Estimate processing time based on row count and concurrency
- */
-export function estimateProcessingTime(rowCount: number, concurrency: number = 10): number {
-  // Assume 2-6 seconds per request
-  const avgTimePerRequest = 4 // seconds
-  const totalTime = (rowCount / concurrency) * avgTimePerRequest
-  return Math.ceil(totalTime)
-}
-
 /**
  * Format time duration in human readable format
  */
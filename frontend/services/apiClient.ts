@@ -22,11 +22,32 @@ export class ApiError extends Error {
 
 class ApiClient {
   private baseURL: string
+  private onUnauthorized: (() => void) | null = null
+  private workspaceId: string | null = null
 
   constructor(baseURL: string = API_BASE_URL) {
     this.baseURL = baseURL
   }
 
+  // Called when a request is refused because the session is missing or has expired
+  setUnauthorizedHandler(handler: (() => void) | null) {
+    this.onUnauthorized = handler
+  }
+
+  // Jobs, templates and budgets are those of this workspace
+  setWorkspaceId(workspaceId: string | null) {
+    this.workspaceId = workspaceId
+  }
+
+  getWorkspaceId(): string | null {
+    return this.workspaceId
+  }
+
+  // Headers naming the selected workspace, also for requests made with fetch directly
+  workspaceHeaders(): Record<string, string> {
+    return this.workspaceId ? { 'X-Workspace-Id': this.workspaceId } : {}
+  }
+
   private async request<T>(
     endpoint: string,
     options: RequestInit = {}
@@ -34,12 +55,15 @@ class ApiClient {
     const url = `${this.baseURL}${endpoint}`
     
     const config: RequestInit = {
+      // Sends the session cookie to the API
+      credentials: 'include',
       headers: {
         'Content-Type': 'application/json',
         ...options.headers,
       },
       ...options,
     }
+    config.headers = { ...(config.headers as Record<string, string>), ...this.workspaceHeaders() }
 
     try {
       const response = await fetch(url, config)
@@ -49,6 +73,10 @@ class ApiClient {
         throw new ApiError('Rate limited. Please try again later.', 429)
       }
 
+      if (response.status === 401 && !endpoint.startsWith('/api/auth/')) {
+        this.onUnauthorized?.()
+      }
+
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}))
         throw new ApiError(
@@ -93,10 +121,27 @@ class ApiClient {
     })
   }
 
+  async patch<T>(endpoint: string, data?: any, options?: RequestInit): Promise<T> {
+    return this.request<T>(endpoint, {
+      ...options,
+      method: 'PATCH',
+      body: data !== undefined ? JSON.stringify(data) : undefined,
+    })
+  }
+
   async delete<T>(endpoint: string, options?: RequestInit): Promise<T> {
     return this.request<T>(endpoint, { ...options, method: 'DELETE' })
   }
 
+  // Raw binary body, e.g. one part of a resumable upload
+  async putBinary<T>(endpoint: string, body: Blob, headers: Record<string, string> = {}): Promise<T> {
+    return this.request<T>(endpoint, {
+      method: 'PUT',
+      body,
+      headers: { 'Content-Type': 'application/octet-stream', ...headers },
+    })
+  }
+
   // File upload helper
   async uploadFile<T>(
     endpoint: string,
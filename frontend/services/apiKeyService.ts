@@ -0,0 +1,19 @@
+import { apiClient } from './apiClient'
+import { ApiKey, ApiKeyScope, CreatedApiKey } from '@/types'
+
+export class ApiKeyService {
+  // The signed-in user's API keys, revoked ones included
+  async getApiKeys(): Promise<ApiKey[]> {
+    return apiClient.get<ApiKey[]>('/api/api-keys')
+  }
+
+  async createApiKey(name: string, scopes: ApiKeyScope[]): Promise<CreatedApiKey> {
+    return apiClient.post<CreatedApiKey>('/api/api-keys', { name, scopes })
+  }
+
+  async revokeApiKey(keyId: string): Promise<void> {
+    await apiClient.delete(`/api/api-keys/${keyId}`)
+  }
+}
+
+export const apiKeyService = new ApiKeyService()
@@ -0,0 +1,30 @@
+import { apiClient } from './apiClient'
+import { AuthResponse, User } from '@/types'
+
+export class AuthService {
+  // The signed-in user; rejects with a 401 ApiError when nobody is signed in
+  async getCurrentUser(): Promise<User> {
+    const response = await apiClient.get<{ user: User }>('/api/auth/me')
+    return response.user
+  }
+
+  async login(email: string, password: string): Promise<User> {
+    const response = await apiClient.post<AuthResponse>('/api/auth/login', { email, password })
+    return response.user
+  }
+
+  async register(email: string, password: string, name?: string): Promise<User> {
+    const response = await apiClient.post<AuthResponse>('/api/auth/register', {
+      email,
+      password,
+      ...(name ? { name } : {})
+    })
+    return response.user
+  }
+
+  async logout(): Promise<void> {
+    await apiClient.post('/api/auth/logout')
+  }
+}
+
+export const authService = new AuthService()
@@ -0,0 +1,18 @@
+import { apiClient } from './apiClient'
+import { DailyBudget } from '@/types'
+
+export class BudgetService {
+  // Get the workspace's daily cap and today's spend
+  async getDailyBudget(): Promise<DailyBudget> {
+    const response = await apiClient.get<{ daily: DailyBudget }>('/api/budgets')
+    return response.daily
+  }
+
+  // Set the daily cap across the workspace's jobs (0 for no cap); admins only
+  async updateDailyBudget(amount: number): Promise<DailyBudget> {
+    const response = await apiClient.put<{ daily: DailyBudget }>('/api/budgets/daily', { amount })
+    return response.daily
+  }
+}
+
+export const budgetService = new BudgetService()
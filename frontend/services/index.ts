@@ -1,3 +1,10 @@
 // Services barrel exports
 export { apiClient, ApiError } from './apiClient'
 export { jobService, JobService } from './jobService'
+export { templateService, TemplateService } from './templateService'
+export { budgetService, BudgetService } from './budgetService'
+export { uploadService, UploadService } from './uploadService'
+export { authService, AuthService } from './authService'
+export { workspaceService, WorkspaceService } from './workspaceService'
+export { apiKeyService, ApiKeyService } from './apiKeyService'
+export { webhookService, WebhookService } from './webhookService'
@@ -1,5 +1,26 @@
 import { apiClient, ApiError } from './apiClient'
-import { Job, JobDetails, UrlRecord, JobResults } from '@/types'
+import {
+  Job,
+  JobDetails,
+  UrlRecord,
+  JobResults,
+  CSVUploadResponse,
+  StartProcessingOptions,
+  ExportFormat,
+  PricingTable,
+  EstimateOptions,
+  JobEstimate,
+  JobBudgetUpdate,
+  AIProviderSummary,
+  BatchSummary,
+  ProcessingMode,
+  PreferredVariantUpdate,
+  ReviewStatus,
+  ReviewedUrl,
+  RegenerateResponse,
+  OpenerHistory,
+  JobQuality
+} from '@/types'
 
 export class JobService {
   // Get all jobs
@@ -41,33 +62,69 @@ export class JobService {
     }
   }
 
-  // Upload CSV file and start processing
-  async uploadAndProcessCSV(
-    file: File,
-    contentType: string
+  // Upload a CSV, TSV or .xlsx file; the response ranks candidate URL columns for the mapping step
+  async uploadCSV(file: File, sheet?: string): Promise<CSVUploadResponse> {
+    return apiClient.uploadFile<CSVUploadResponse>('/api/upload', file, sheet ? { sheet } : undefined)
+  }
+
+  // Start processing an uploaded job with the confirmed column mapping
+  async startProcessing(
+    jobId: string,
+    contentType: string,
+    options: StartProcessingOptions = {}
   ): Promise<{ jobId: string; message: string }> {
-    // Step 1: Upload CSV file
-    const uploadResponse = await apiClient.uploadFile<{ jobId: string; message: string }>(
-      '/api/upload',
-      file,
-      { contentType }
-    )
-    
-    // Step 2: Start processing the job
-    const startResponse = await apiClient.post<{ jobId: string; message: string }>(
+    const { templateId, enrichPages, useCache, provider, mode, variants, variantTemplateIds, urlColumn, nameColumn, companyColumn } = options
+
+    return apiClient.post<{ jobId: string; message: string }>(
       '/api/upload/process',
       {
-        jobId: uploadResponse.jobId,
-        contentType
+        jobId,
+        contentType,
+        ...(templateId ? { templateId } : {}),
+        ...(enrichPages !== undefined ? { enrichPages } : {}),
+        ...(useCache !== undefined ? { useCache } : {}),
+        ...(provider ? { provider } : {}),
+        ...(mode ? { mode } : {}),
+        ...(variants && variants > 1 ? { variants } : {}),
+        ...(variants && variants > 1 && variantTemplateIds?.some(Boolean) ? { variantTemplateIds } : {}),
+        ...(urlColumn ? { urlColumn } : {}),
+        ...(nameColumn !== undefined ? { nameColumn } : {}),
+        ...(companyColumn !== undefined ? { companyColumn } : {})
       }
     )
-    
-    return startResponse
   }
 
-  // Download job results
-  async downloadResults(jobId: string): Promise<Blob> {
-    const response = await fetch(`${apiClient['baseURL']}/api/jobs/${jobId}/download`)
+  // Project tokens, cost and duration for the selected prompt before starting
+  async estimateJob(
+    jobId: string,
+    contentType: string,
+    options: EstimateOptions = {}
+  ): Promise<JobEstimate> {
+    const { templateId, enrichPages, provider, mode, variants } = options
+
+    return apiClient.post<JobEstimate>(`/api/jobs/${jobId}/estimate`, {
+      contentType,
+      templateId: templateId || null,
+      ...(enrichPages !== undefined ? { enrichPages } : {}),
+      ...(provider ? { provider } : {}),
+      ...(mode ? { mode } : {}),
+      ...(variants && variants > 1 ? { variants } : {})
+    })
+  }
+
+  // Download job results ('merged' keeps every original column and appends the opener).
+  // Without a format the server answers in the format the file was uploaded in.
+  async downloadResults(
+    jobId: string,
+    mode: 'results' | 'merged' = 'results',
+    format?: ExportFormat,
+    review?: ReviewStatus
+  ): Promise<Blob> {
+    const params = new URLSearchParams({ mode, ...(format ? { format } : {}), ...(review ? { review } : {}) })
+    const response = await fetch(`${apiClient['baseURL']}/api/jobs/${jobId}/download?${params}`, {
+      credentials: 'include',
+      headers: apiClient.workspaceHeaders()
+    })
     
     if (!response.ok) {
       throw new ApiError(
@@ -81,7 +138,10 @@ export class JobService {
 
   // Download original uploaded file
   async downloadOriginalFile(jobId: string): Promise<Blob> {
-    const response = await fetch(`${apiClient['baseURL']}/api/jobs/${jobId}/download-original`)
+    const response = await fetch(`${apiClient['baseURL']}/api/jobs/${jobId}/download-original`, {
+      credentials: 'include',
+      headers: apiClient.workspaceHeaders()
+    })
     
     if (!response.ok) {
       throw new ApiError(
@@ -103,6 +163,63 @@ export class JobService {
     return await apiClient.post<{ message: string }>(`/api/jobs/${jobId}/resume`)
   }
 
+  // Set or clear (null) the job's spending cap in USD
+  async updateJobBudget(jobId: string, budget: number | null): Promise<JobBudgetUpdate> {
+    return await apiClient.put<JobBudgetUpdate>(`/api/jobs/${jobId}/budget`, { budget })
+  }
+
+  // Replace a row's opener with an edited one; null reverts to the generated text
+  async editOpener(jobId: string, urlId: string, opener: string | null): Promise<ReviewedUrl> {
+    return await apiClient.patch<ReviewedUrl>(`/api/jobs/${jobId}/urls/${urlId}`, { opener })
+  }
+
+  // Approve or reject a row's opener
+  async reviewOpener(jobId: string, urlId: string, status: ReviewStatus): Promise<ReviewedUrl> {
+    return await apiClient.patch<ReviewedUrl>(`/api/jobs/${jobId}/urls/${urlId}/review`, { status })
+  }
+
+  // Generate rows again, optionally steered by an instruction such as "shorter"
+  async regenerateRows(jobId: string, urlIds: string[], instruction?: string): Promise<RegenerateResponse> {
+    return await apiClient.post<RegenerateResponse>(`/api/jobs/${jobId}/regenerate`, {
+      urlIds,
+      ...(instruction ? { instruction } : {})
+    })
+  }
+
+  // Get the openers a row had before it was regenerated
+  async getOpenerHistory(jobId: string, urlId: string): Promise<OpenerHistory> {
+    return await apiClient.get<OpenerHistory>(`/api/jobs/${jobId}/urls/${urlId}/history`)
+  }
+
+  // Go back to one of a row's previous openers
+  async revertOpener(jobId: string, urlId: string, historyId: string): Promise<ReviewedUrl & { instruction: string | null }> {
+    return await apiClient.post<ReviewedUrl & { instruction: string | null }>(
+      `/api/jobs/${jobId}/urls/${urlId}/revert`,
+      { historyId }
+    )
+  }
+
+  // Star one of a row's variants so it is exported as the row's opener
+  async setPreferredVariant(jobId: string, urlId: string, variant: number): Promise<PreferredVariantUpdate> {
+    return await apiClient.put<PreferredVariantUpdate>(
+      `/api/jobs/${jobId}/urls/${urlId}/preferred-variant`,
+      { variant }
+    )
+  }
+
+  // Get how the job's openers fared against the quality rules
+  async getJobQuality(jobId: string): Promise<JobQuality> {
+    return await apiClient.get<JobQuality>(`/api/jobs/${jobId}/quality`)
+  }
+
+  // Get the provider batches a batch mode job was submitted in
+  async getJobBatches(jobId: string): Promise<BatchSummary[]> {
+    const response = await apiClient.get<{ jobId: string; processingMode: ProcessingMode; batches: BatchSummary[] }>(
+      `/api/jobs/${jobId}/batches`
+    )
+    return response.batches
+  }
+
   // Delete job
   async deleteJob(jobId: string): Promise<{ message: string }> {
     return await apiClient.delete<{ message: string }>(`/api/jobs/${jobId}`)
@@ -119,6 +236,17 @@ export class JobService {
     )
   }
 
+  // Get the per-model price table the server costs generations with
+  async getModelPricing(): Promise<PricingTable> {
+    const response = await apiClient.get<{ success: boolean; data: PricingTable }>('/api/jobs/ai-service/pricing')
+    return response.data
+  }
+
+  // Get the AI providers a job can be started with
+  async getProviders(): Promise<AIProviderSummary[]> {
+    const response = await apiClient.get<{ success: boolean; data: AIProviderSummary[] }>('/api/jobs/ai-service/providers')
+    return response.data
+  }
 
   // Get job status
   async getJobStatus(jobId: string): Promise<{
@@ -0,0 +1,29 @@
+import { apiClient } from './apiClient'
+import { PromptTemplateRecord, PromptTemplateInput } from '@/types'
+
+export class TemplateService {
+  // Get all prompt templates (current version of each)
+  async getTemplates(): Promise<PromptTemplateRecord[]> {
+    return await apiClient.get<PromptTemplateRecord[]>('/api/templates')
+  }
+
+  // Create prompt template
+  async createTemplate(input: PromptTemplateInput): Promise<PromptTemplateRecord> {
+    return await apiClient.post<PromptTemplateRecord>('/api/templates', input)
+  }
+
+  // Update prompt template (changing the prompts creates a new version)
+  async updateTemplate(
+    templateId: string,
+    input: Partial<PromptTemplateInput>
+  ): Promise<PromptTemplateRecord> {
+    return await apiClient.put<PromptTemplateRecord>(`/api/templates/${templateId}`, input)
+  }
+
+  // Delete prompt template
+  async deleteTemplate(templateId: string): Promise<{ message: string }> {
+    return await apiClient.delete<{ message: string }>(`/api/templates/${templateId}`)
+  }
+}
+
+export const templateService = new TemplateService()
@@ -0,0 +1,172 @@
+import { apiClient, ApiError } from './apiClient'
+import { CSVUploadResponse, UploadPartProgress, UploadSession } from '@/types'
+import { STORAGE_KEYS } from '@/lib/constants'
+
+// Delays between attempts after a failed request, in seconds; the last one repeats
+const RETRY_DELAYS = [1, 2, 5, 10, 30]
+// Consecutive failures before the upload gives up
+const MAX_ATTEMPTS = 10
+
+interface PartUploadOptions {
+  sheet?: string
+  onProgress?: (progress: UploadPartProgress) => void
+}
+
+// Network errors, rate limits and server errors are worth another attempt; checksum mismatches mean the part got corrupted on the way
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof ApiError)) return false
+  return error.status === 0 || error.status === 422 || error.status === 429 || error.status >= 500
+}
+
+function fileKey(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`
+}
+
+function readStoredSessions(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEYS.uploadSessions) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+function storeSessionId(file: File, sessionId: string | null) {
+  const sessions = readStoredSessions()
+  if (sessionId) {
+    sessions[fileKey(file)] = sessionId
+  } else {
+    delete sessions[fileKey(file)]
+  }
+  localStorage.setItem(STORAGE_KEYS.uploadSessions, JSON.stringify(sessions))
+}
+
+async function sha256(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data)
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// Waits out an offline browser before counting down, so a dropped connection doesn't use up attempts
+async function waitBeforeRetry(seconds: number, onTick: (remaining: number) => void) {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    await new Promise(resolve => window.addEventListener('online', resolve, { once: true }))
+  }
+  for (let remaining = seconds; remaining > 0; remaining--) {
+    onTick(remaining)
+    await new Promise(resolve => setTimeout(resolve, 1000))
+  }
+}
+
+export class UploadService {
+  async createSession(fileName: string, fileSize: number): Promise<UploadSession> {
+    return apiClient.post<UploadSession>('/api/upload/sessions', { fileName, fileSize })
+  }
+
+  // Which parts the server already has
+  async getSession(sessionId: string): Promise<UploadSession> {
+    return apiClient.get<UploadSession>(`/api/upload/sessions/${sessionId}`)
+  }
+
+  async uploadPart(sessionId: string, partNumber: number, data: Blob, checksum: string) {
+    return apiClient.putBinary<{ partNumber: number; size: number; checksum: string }>(
+      `/api/upload/sessions/${sessionId}/parts/${partNumber}`,
+      data,
+      { 'X-Part-Checksum': checksum }
+    )
+  }
+
+  // Assemble the parts into the job's file; responds like a single-request upload
+  async completeSession(sessionId: string, sheet?: string): Promise<CSVUploadResponse> {
+    return apiClient.post<CSVUploadResponse>(`/api/upload/sessions/${sessionId}/complete`, sheet ? { sheet } : {})
+  }
+
+  async abortSession(sessionId: string): Promise<void> {
+    await apiClient.delete(`/api/upload/sessions/${sessionId}`)
+  }
+
+  /**
+   * Upload a file in parts, resuming the file's earlier session when there is
+   * one. Failed parts are retried with a growing delay, and the server's list
+   * of stored parts is fetched again before each retry.
+   */
+  async uploadInParts(file: File, options: PartUploadOptions = {}): Promise<CSVUploadResponse> {
+    const session = await this.resumeOrCreateSession(file)
+    storeSessionId(file, session.sessionId)
+
+    const uploaded = new Set(session.uploadedParts.map(part => part.partNumber))
+    const partBytes = (partNumber: number) =>
+      Math.min(session.partSize, file.size - (partNumber - 1) * session.partSize)
+    const report = (currentPart: number | null, retryingIn: number | null = null) => {
+      options.onProgress?.({
+        partCount: session.partCount,
+        uploadedParts: Array.from(uploaded).sort((a, b) => a - b),
+        currentPart,
+        uploadedBytes: Array.from(uploaded).reduce((sum, partNumber) => sum + partBytes(partNumber), 0),
+        totalBytes: file.size,
+        retryingIn,
+      })
+    }
+
+    let failures = 0
+    const withRetries = async <T>(partNumber: number | null, attempt: () => Promise<T>): Promise<T> => {
+      for (;;) {
+        try {
+          const result = await attempt()
+          failures = 0
+          return result
+        } catch (error) {
+          failures++
+          if (!isRetryable(error) || failures >= MAX_ATTEMPTS) throw error
+
+          const delay = RETRY_DELAYS[Math.min(failures - 1, RETRY_DELAYS.length - 1)]
+          await waitBeforeRetry(delay, remaining => report(partNumber, remaining))
+
+          // The part may have been stored even though the response never arrived
+          const current = await this.getSession(session.sessionId).catch(() => null)
+          current?.uploadedParts.forEach(part => uploaded.add(part.partNumber))
+        }
+      }
+    }
+
+    report(null)
+    for (let partNumber = 1; partNumber <= session.partCount; partNumber++) {
+      if (uploaded.has(partNumber)) continue
+
+      const start = (partNumber - 1) * session.partSize
+      const blob = file.slice(start, start + session.partSize)
+      const checksum = await sha256(await blob.arrayBuffer())
+
+      report(partNumber)
+      await withRetries(partNumber, async () => {
+        if (uploaded.has(partNumber)) return
+        await this.uploadPart(session.sessionId, partNumber, blob, checksum)
+      })
+      uploaded.add(partNumber)
+      report(null)
+    }
+
+    const response = await withRetries(null, () => this.completeSession(session.sessionId, options.sheet))
+    storeSessionId(file, null)
+    return response
+  }
+
+  // An earlier session for the same file is reused until it has created a job
+  private async resumeOrCreateSession(file: File): Promise<UploadSession> {
+    const storedId = readStoredSessions()[fileKey(file)]
+    if (storedId) {
+      try {
+        const session = await this.getSession(storedId)
+        // An assembled session has every part; completing it again only ingests the file
+        if ((session.status === 'uploading' || session.status === 'assembled') && session.fileSize === file.size) {
+          return session
+        }
+      } catch (error) {
+        console.warn('Could not resume upload session, starting a new one:', error)
+      }
+      storeSessionId(file, null)
+    }
+
+    return this.createSession(file.name, file.size)
+  }
+}
+
+export const uploadService = new UploadService()
@@ -0,0 +1,39 @@
+import { apiClient } from './apiClient'
+import { Webhook, WebhookDelivery, WebhookEvent, WebhookWithSecret } from '@/types'
+
+export class WebhookService {
+  // The current workspace's webhooks, without their secrets
+  async getWebhooks(): Promise<Webhook[]> {
+    return apiClient.get<Webhook[]>('/api/webhooks')
+  }
+
+  async getWebhook(webhookId: string): Promise<WebhookWithSecret> {
+    return apiClient.get<WebhookWithSecret>(`/api/webhooks/${webhookId}`)
+  }
+
+  async createWebhook(url: string, events: WebhookEvent[], description?: string): Promise<WebhookWithSecret> {
+    return apiClient.post<WebhookWithSecret>('/api/webhooks', { url, events, description })
+  }
+
+  async updateWebhook(
+    webhookId: string,
+    updates: { url?: string; events?: WebhookEvent[]; description?: string | null; active?: boolean }
+  ): Promise<Webhook> {
+    return apiClient.patch<Webhook>(`/api/webhooks/${webhookId}`, updates)
+  }
+
+  async deleteWebhook(webhookId: string): Promise<void> {
+    await apiClient.delete(`/api/webhooks/${webhookId}`)
+  }
+
+  // Newest first
+  async getDeliveries(webhookId: string, limit = 20): Promise<WebhookDelivery[]> {
+    return apiClient.get<WebhookDelivery[]>(`/api/webhooks/${webhookId}/deliveries?limit=${limit}`)
+  }
+
+  async sendTestEvent(webhookId: string): Promise<WebhookDelivery> {
+    return apiClient.post<WebhookDelivery>(`/api/webhooks/${webhookId}/test`)
+  }
+}
+
+export const webhookService = new WebhookService()
@@ -0,0 +1,36 @@
+import { apiClient } from './apiClient'
+import { Workspace, WorkspaceMember, WorkspaceRole } from '@/types'
+
+export class WorkspaceService {
+  // The signed-in user's workspaces; the first request creates a personal one
+  async getWorkspaces(): Promise<Workspace[]> {
+    return apiClient.get<Workspace[]>('/api/workspaces')
+  }
+
+  async createWorkspace(name: string): Promise<Workspace> {
+    return apiClient.post<Workspace>('/api/workspaces', { name })
+  }
+
+  async renameWorkspace(workspaceId: string, name: string): Promise<Workspace> {
+    return apiClient.patch<Workspace>(`/api/workspaces/${workspaceId}`, { name })
+  }
+
+  async getMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+    return apiClient.get<WorkspaceMember[]>(`/api/workspaces/${workspaceId}/members`)
+  }
+
+  // Add someone who already has an account; returns the updated member list
+  async addMember(workspaceId: string, email: string, role: WorkspaceRole): Promise<WorkspaceMember[]> {
+    return apiClient.post<WorkspaceMember[]>(`/api/workspaces/${workspaceId}/members`, { email, role })
+  }
+
+  async updateMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<WorkspaceMember[]> {
+    return apiClient.patch<WorkspaceMember[]>(`/api/workspaces/${workspaceId}/members/${userId}`, { role })
+  }
+
+  async removeMember(workspaceId: string, userId: string): Promise<void> {
+    await apiClient.delete(`/api/workspaces/${workspaceId}/members/${userId}`)
+  }
+}
+
+export const workspaceService = new WorkspaceService()
@@ -1,16 +1,114 @@
 // API Response Types
+export type SourceFormat = 'csv' | 'tsv' | 'xlsx'
+
+export type ExportFormat = SourceFormat | 'json' | 'jsonl'
+
 export interface Job {
   id: string
+  workspace_id: string | null
+  owner_id: string | null
   file_name: string
   status: 'pending' | 'processing' | 'completed' | 'failed' | 'stopped'
   total_rows: number
   processed_rows: number
   failed_rows: number
+  // Rows without a usable URL, counted in total_rows but never processed
+  skipped_rows?: number
+  source_format?: SourceFormat
+  provider_id?: string | null
+  total_prompt_tokens?: number
+  total_completion_tokens?: number
+  total_cost?: number
+  // Spending cap in USD; null for none
+  budget?: number | null
+  stop_reason?: StopReason | null
+  processing_mode?: ProcessingMode
+  // Openers generated per row
+  variant_count?: number
+  // Whether openers are reused from and added to the cross-job cache
+  use_cache?: boolean
   created_at: string
   updated_at: string
   progress: string
 }
 
+export type StopReason = 'user' | 'budget_exceeded'
+
+// 'batch' submits the job through the provider's batch API: cheaper, with results within 24 hours
+export type ProcessingMode = 'realtime' | 'batch'
+
+export type BatchStatus =
+  | 'validating'
+  | 'in_progress'
+  | 'finalizing'
+  | 'completed'
+  | 'failed'
+  | 'expired'
+  | 'cancelling'
+  | 'cancelled'
+
+// A provider batch of a batch mode job, from GET /api/jobs/:jobId/batches
+export interface BatchSummary {
+  id: string
+  providerBatchId: string
+  provider: string
+  status: BatchStatus
+  requestCount: number
+  completedCount: number
+  failedCount: number
+  error: string | null
+  // Whether the results have been stored on the job's rows
+  ingested: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+// A spending cap a job has reached
+export interface ExceededBudget {
+  scope: 'job' | 'day'
+  limit: number
+  spent: number
+}
+
+export interface JobBudgetUpdate {
+  jobId: string
+  budget: number | null
+  spent: number
+  // Still set when the new budget is below what the job has already spent
+  exceeded: ExceededBudget | null
+}
+
+// Daily cap across all jobs and today's spend (UTC), in USD
+export interface DailyBudget {
+  limit: number | null
+  spent: number
+  source: 'custom' | 'default'
+}
+
+// Tokens and cost (USD) a job has used so far
+export interface JobUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  cost: number
+}
+
+// Streamed with SSE progress events
+export interface JobProgressCost {
+  promptTokens: number
+  completionTokens: number
+  tokensUsed: number
+  estimatedCost: number
+}
+
+// USD per 1,000 tokens, as configured on the server
+export interface ModelPricing {
+  inputPer1K: number
+  outputPer1K: number
+}
+
+export type PricingTable = Record<string, ModelPricing>
+
 export interface JobDetails {
   jobId: string
   status: string
@@ -19,12 +117,19 @@ export interface JobDetails {
     processed: number
     failed: number
     pending: number
+    skipped: number
     status: string
   }
   fileName: string
   totalRows: number
   processedRows: number
   failedRows: number
+  // Rows stored as skipped because their URL can't be processed; included in totalRows
+  skippedRows: number
+  validation: ValidationReport | null
+  useCache: boolean
+  reuse: ReuseSummary
+  usage: JobUsage
   createdAt: string
   updatedAt: string
 }
@@ -32,14 +137,407 @@ export interface JobDetails {
 export interface UrlRecord {
   id: string
   url: string
-  status: 'pending' | 'processing' | 'completed' | 'failed'
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'skipped'
+  // Why a skipped row isn't processed; `error` holds the matching message
+  skip_reason?: SkipReason | null
   opener?: string
   error?: string
   retryCount: number
+  model?: string | null
+  provider_id?: string | null
+  prompt_tokens?: number | null
+  completion_tokens?: number | null
+  cost?: number | null
+  // Every opener of the row, for jobs generating more than one
+  variants?: UrlVariant[]
+  review_status?: ReviewStatus
+  // Model output, kept once a reviewer edits the opener
+  opener_original?: string | null
+  opener_edited?: string | null
+  reviewed_by?: string | null
+  reviewed_at?: string | null
+  // Instruction the current opener was regenerated with
+  instruction?: string | null
+  // Quality rules the opener broke; null when it wasn't checked
+  quality_issues?: QualityIssue[] | null
+  quality_regenerations?: number
+  // Earlier row with the same URL whose opener this row shares
+  duplicate_of?: string | null
+  result_source?: ResultSource | null
   createdAt: string
   updatedAt: string
 }
 
+export type SkipReason = 'empty_url' | 'email_address' | 'invalid_url'
+
+// How the URL column of an upload validated, row by row
+export interface ValidationReport {
+  urlColumn: string
+  totalRows: number
+  validRows: number
+  skippedRows: number
+  reasons: Partial<Record<SkipReason, number>>
+  // The first skipped rows, in file order
+  examples: Array<{ rowIndex: number; value: string; reason: SkipReason }>
+}
+
+// Where a row's opener came from when it wasn't generated for the row itself
+export type ResultSource = 'duplicate' | 'cache'
+
+// Rows of a job that got their opener without a generation of their own
+export interface ReuseSummary {
+  // Rows repeating an earlier row, and how many of them have its opener so far
+  duplicates: number
+  fromDuplicates: number
+  cacheHits: number
+}
+
+// needs_review is set by the quality checks, the others by reviewers
+export type ReviewStatus = 'pending' | 'needs_review' | 'approved' | 'rejected'
+
+export type QualityRule =
+  | 'max_words'
+  | 'max_chars'
+  | 'banned_phrase'
+  | 'placeholder'
+  | 'prompt_leak'
+  | 'language'
+  | 'invented_contact'
+
+export interface QualityIssue {
+  rule: QualityRule
+  message: string
+}
+
+export interface QualitySummary {
+  checked: number
+  passed: number
+  flagged: number
+  needsReview: number
+  regenerations: number
+  // Rows breaking each rule
+  rules: Partial<Record<QualityRule, number>>
+}
+
+export interface QualitySettings {
+  enabled: boolean
+  rules: QualityRule[]
+  maxWords: number
+  maxChars: number
+  bannedPhrases: string[]
+  language: string
+  action: 'review' | 'regenerate'
+  maxRegenerations: number
+}
+
+export interface JobQuality {
+  jobId: string
+  summary: QualitySummary
+  settings: QualitySettings
+}
+
+// A row's review fields after an edit or review
+export interface ReviewedUrl {
+  id: string
+  status: UrlRecord['status']
+  opener?: string
+  opener_original: string | null
+  opener_edited: string | null
+  review_status: ReviewStatus
+  reviewed_by: string | null
+  reviewed_at: string | null
+}
+
+export interface UrlVariant {
+  variant_index: number
+  // A, B, C... in variant order
+  label: string
+  template_version_id: string | null
+  opener: string | null
+  error: string | null
+  provider_id: string | null
+  cost: number | null
+  // The variant exported as the row's opener
+  is_preferred: boolean
+}
+
+export interface RegenerateResponse {
+  message: string
+  regenerated: number
+  instruction: string | null
+  jobId: string
+}
+
+// An opener a row had before it was regenerated
+export interface OpenerHistoryEntry {
+  id: string
+  opener: string
+  instruction: string | null
+  model: string | null
+  provider_id: string | null
+  created_at: string
+}
+
+export interface OpenerHistory {
+  urlId: string
+  opener: string | null
+  instruction: string | null
+  history: OpenerHistoryEntry[]
+}
+
+export interface PreferredVariantUpdate {
+  urlId: string
+  variant: number
+  label: string
+  opener: string
+}
+
 export interface JobResults {
   urls: UrlRecord[]
 }
+
+export interface PromptTemplateRecord {
+  id: string
+  name: string
+  description: string | null
+  version: number
+  version_id: string
+  system_prompt: string
+  user_prompt: string
+  created_at: string
+  updated_at: string
+}
+
+export interface PromptTemplateInput {
+  name: string
+  description?: string | null
+  systemPrompt: string
+  userPrompt: string
+}
+
+export interface ColumnCandidate {
+  column: string
+  score: number
+  urlValidity: number
+  filled: number
+  headerMatch: boolean
+  sampleValues: string[]
+}
+
+export interface ColumnMapping {
+  urlColumn: string | null
+  nameColumn: string | null
+  companyColumn: string | null
+}
+
+export interface CSVUploadResponse {
+  jobId: string
+  fileName: string
+  totalRows: number
+  preview: Array<{ originalData: Record<string, string> }>
+  columns: string[]
+  columnCandidates: ColumnCandidate[]
+  suggestedMapping: ColumnMapping
+  sourceFormat: SourceFormat
+  // Worksheet used and every worksheet in the workbook (.xlsx uploads only)
+  sheet: string | null
+  sheets: string[]
+  // Report for the suggested URL column; null until large files are stored in the background
+  validation: ValidationReport | null
+  processing?: boolean
+}
+
+export type UploadSessionStatus = 'uploading' | 'assembling' | 'assembled' | 'completed'
+
+// A resumable upload: the file is sent in numbered parts, each checked against its SHA-256
+export interface UploadSession {
+  sessionId: string
+  fileName: string
+  fileSize: number
+  partSize: number
+  partCount: number
+  status: UploadSessionStatus
+  uploadedParts: Array<{ partNumber: number; size: number; checksum: string }>
+  missingParts: number[]
+  jobId: string | null
+  expiresAt: string
+}
+
+export interface UploadPartProgress {
+  partCount: number
+  // Part numbers the server has stored
+  uploadedParts: number[]
+  // Part being sent, null between parts
+  currentPart: number | null
+  uploadedBytes: number
+  totalBytes: number
+  // Seconds until the next attempt after a dropped connection, null while uploading normally
+  retryingIn: number | null
+}
+
+export interface StartProcessingOptions extends Partial<ColumnMapping> {
+  templateId?: string | null
+  // Fetch each page and add its content to the prompt (server default when omitted)
+  enrichPages?: boolean
+  // Reuse openers cached by earlier jobs (server default when omitted)
+  useCache?: boolean
+  // AI provider id (server default when omitted)
+  provider?: string | null
+  mode?: ProcessingMode
+  // Openers per row (1-5), each variant optionally with its own template
+  variants?: number
+  variantTemplateIds?: Array<string | null>
+}
+
+export interface EstimateOptions {
+  templateId?: string | null
+  enrichPages?: boolean
+  provider?: string | null
+  mode?: ProcessingMode
+  variants?: number
+}
+
+export interface ProviderCapabilities {
+  systemPrompt: boolean
+  reportsUsage: boolean
+  exactTokenCounts: boolean
+  batch: boolean
+}
+
+// A provider's circuit breaker; open circuits are skipped until a trial request succeeds
+export interface ProviderCircuit {
+  state: 'closed' | 'open' | 'half_open'
+  consecutiveFailures: number
+  openedAt: string | null
+  lastError: string | null
+}
+
+// A provider registered on the server, from GET /api/jobs/ai-service/providers
+export interface AIProviderSummary {
+  id: string
+  type: 'openai' | 'huggingface' | 'openai-compatible' | 'ollama' | 'anthropic'
+  model: string
+  capabilities: ProviderCapabilities
+  isDefault: boolean
+  circuit: ProviderCircuit
+}
+
+// Projection for a job before it starts, from POST /api/jobs/:jobId/estimate
+export interface JobEstimate {
+  jobId: string
+  provider: string
+  mode: ProcessingMode
+  model: string
+  urls: {
+    total: number
+    valid: number
+    duplicate: number
+    invalid: number
+  }
+  rowsToProcess: number
+  variants: number
+  // One per row and variant
+  requests: number
+  tokens: {
+    promptPerRow: number
+    completionPerRow: number
+    completionSource: 'history' | 'max_tokens'
+    prompt: number
+    completion: number
+    total: number
+  }
+  // USD; null when the model has no price configured
+  cost: number | null
+  time: {
+    concurrency: number
+    requestsPerMinute: number
+    estimatedSeconds: number
+    bottleneck: 'concurrency' | 'rate_limit' | 'batch_window'
+  }
+}
+
+export interface User {
+  id: string
+  email: string
+  name: string | null
+  createdAt: string
+}
+
+// viewer can open and download jobs, editor can also run them, admin can also delete them and manage members
+export type WorkspaceRole = 'viewer' | 'editor' | 'admin'
+
+// A workspace with the signed-in user's role in it
+export interface Workspace {
+  id: string
+  name: string
+  role: WorkspaceRole
+  createdAt: string
+}
+
+export interface WorkspaceMember {
+  userId: string
+  email: string
+  name: string | null
+  role: WorkspaceRole
+  joinedAt: string
+}
+
+// read allows GET requests, write everything else
+export type ApiKeyScope = 'read' | 'write'
+
+export interface ApiKey {
+  id: string
+  name: string
+  // First characters of the key, to tell keys apart
+  prefix: string
+  scopes: ApiKeyScope[]
+  lastUsedAt: string | null
+  revokedAt: string | null
+  createdAt: string
+}
+
+export interface CreatedApiKey {
+  apiKey: ApiKey
+  // The full key; the API only returns it once
+  key: string
+}
+
+export type WebhookEvent = 'job.started' | 'job.completed' | 'job.failed' | 'job.stopped' | 'url.completed'
+
+export interface Webhook {
+  id: string
+  url: string
+  description: string | null
+  events: WebhookEvent[]
+  active: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+// Returned when a webhook is created or fetched on its own
+export interface WebhookWithSecret extends Webhook {
+  secret: string
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'retrying' | 'delivered' | 'failed'
+
+export interface WebhookDelivery {
+  id: string
+  event: string
+  payload: Record<string, unknown>
+  status: WebhookDeliveryStatus
+  attempts: number
+  responseStatus: number | null
+  responseBody: string | null
+  error: string | null
+  durationMs: number | null
+  deliveredAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface AuthResponse {
+  user: User
+  // Session token for API clients; the web app uses the cookie set alongside it
+  token: string
+}
@@ -2,6 +2,8 @@
 export * from './api'
 export * from './app'
 
+import { JobProgressCost } from './api'
+
 // Legacy types for backward compatibility (to be removed gradually)
 export interface JobStatus {
   id: string
@@ -15,10 +17,7 @@ export interface JobStatus {
   results: any[]
   error?: string
   estimatedTimeRemaining?: number
-  cost?: {
-    tokensUsed: number
-    estimatedCost: number
-  }
+  cost?: JobProgressCost
 }
 
 export interface ProcessingSettings {
@@ -78,34 +77,6 @@ export const PROMPT_TEMPLATES: PromptTemplate = {
 {url}`
 }
 
-export interface CostEstimate {
-  tokensPerRequest: number
-  costPerToken: number
-  estimatedCostPer1000: number
-  model: string
-}
-
-export const COST_ESTIMATES: Record<string, CostEstimate> = {
-  'gpt-3.5-turbo': {
-    tokensPerRequest: 50,
-    costPerToken: 0.0000015,
-    estimatedCostPer1000: 0.075,
-    model: 'gpt-3.5-turbo'
-  },
-  'gpt-4': {
-    tokensPerRequest: 50,
-    costPerToken: 0.00003,
-    estimatedCostPer1000: 1.5,
-    model: 'gpt-4'
-  },
-  'gpt-4-turbo': {
-    tokensPerRequest: 50,
-    costPerToken: 0.00001,
-    estimatedCostPer1000: 0.5,
-    model: 'gpt-4-turbo'
-  }
-}
-
 export interface AppError {
   code: string
   message: string